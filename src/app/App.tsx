@@ -2,30 +2,114 @@ import { Suspense, lazy, useCallback, useEffect, useMemo, useRef, useState } fro
 import { Navigate, Route, Routes, useLocation, useNavigate } from "react-router-dom";
 
 import {
+  DEFAULT_INPUT_PROFILE,
+  useDeviceSelection,
+  useNoteInputSnapshot,
+  useNoteInputSource,
+  type InputProfile,
+  type Pedal,
+} from "../features/input";
+import {
+  createWebMidiOutput,
+  createWebMidiSource,
   midiStatusLabel,
   midiToNoteLabel,
-  useMidiDevices,
-  useMidiInput,
+  useKeyboardHints,
+  useLatencyCalibration,
+  useMidiOutput,
+  type HintMode,
 } from "../features/midi";
-import { MISSED_MESSAGE_TIMEOUT_MS } from "../features/practice/constants";
+import { VirtualPiano, useVirtualKeyboard } from "../features/keyboard";
+import {
+  microphoneStatusLabel,
+  onsetThresholdForNoiseFloor,
+  useMicrophoneInput,
+} from "../features/microphone";
+import { useMetronome, useTapTempo, type Subdivision } from "../features/metronome";
+import { usePianoSynth } from "../features/playback";
+import {
+  MISSED_MESSAGE_TIMEOUT_MS,
+  TARGET_AFTER_MISS_DELAY_MS,
+  TARGET_PREVIEW_MUTE_MS,
+} from "../features/practice/constants";
 import { CURSOR_STYLES } from "../features/practice/config/cursorStyles";
 import type { CursorFeedback } from "../features/practice/types";
 import {
   type StaffHandle,
 } from "../features/practice";
-import { useSightReadingSession, useTimer } from "../features/session";
-import type { ThemeMode } from "../features/settings/types";
-import type { PreviousSessionItem } from "../features/setup/types";
 import {
+  createAttemptLog,
+  timingAccuracy,
+  useSightReadingSession,
+  useTimedSession,
+  useTimer,
+  type NoteAttempt,
+  type PracticeMode,
+  type StepProgress,
+  type TimingVerdict,
+} from "../features/session";
+import type {
+  BackupRestoreOptions,
+  BackupStatus,
+  InputSourceKind,
+  ThemeMode,
+} from "../features/settings/types";
+import {
+  DEFAULT_ACCIDENTAL_DENSITY,
+  DEFAULT_HAND_MODE,
+  DEFAULT_INTERVALS,
+  DEFAULT_KEY_SIGNATURE,
+  DEFAULT_MOTION,
+  DEFAULT_PRACTICE_MODE,
+  DEFAULT_RHYTHM,
+  DEFAULT_SUBDIVISION,
+  DEFAULT_TEMPO,
+  DEFAULT_TEXTURE,
+  DEFAULT_TIME_SIGNATURE,
   DEFAULT_MAX_NOTE,
   DEFAULT_MIN_NOTE,
   DEFAULT_TOTAL_NOTES,
+  MAX_TEMPO,
   MAX_TOTAL_NOTES,
+  MIN_TEMPO,
   MIN_TOTAL_NOTES,
+  PREVIOUS_SESSIONS_PAGE_SIZE,
+  TEMPO_STEP,
 } from "../features/setup/constants";
 import { TRAININGS, type Training } from "../features/setup/config/trainings";
 import type { PersistedCustomTraining } from "../shared/storage";
-import { NOTE_NAMES, generateScore, type NoteName } from "../entities/score";
+import { buildNoteWeights, type NoteWeights } from "../features/adaptive";
+import {
+  ExportMenu,
+  createPerformanceRecorder,
+  downloadFile,
+  exportScore,
+  type ExportFormat,
+} from "../features/export";
+import { RECORDED_NOTE_VELOCITY } from "../features/export/constants";
+import {
+  initialBpm,
+  isMidiFileName,
+  midiToScore,
+  readMidiFile,
+  readScoreFile,
+  type MidiFile,
+  type MidiImportOptions,
+} from "../features/library";
+import {
+  NOTE_NAMES,
+  generateScore,
+  getKeySignature,
+  noteNameToMidi,
+  parseMusicXml,
+  type HandMode,
+  type KeySignatureName,
+  type MelodicMotion,
+  type NoteName,
+  type RhythmLevel,
+  type Texture,
+  type TimeSignatureName,
+} from "../entities/score";
 import { APP_ROUTES } from "./routes";
 import type { AppPage, ReturnPage } from "./routes/types";
 import { APP_ROUTE_SEO } from "../shared/config/seo";
@@ -33,19 +117,40 @@ import { applySeo } from "../shared/seo/applySeo";
 import { clamp, formatTime } from "../shared/utils";
 import {
   addCustomTraining,
+  addPiece,
   addSessionRun,
+  attemptLogsRepository,
+  createBackupBundle,
+  customTrainingsRepository,
   deleteCustomTraining,
-  listCustomTrainings,
-  listSessionRuns,
+  deletePiece,
+  deviceProfilesRepository,
+  formatRestoreSummary,
+  getStorageStatus,
   loadSettings,
+  parseBackupBundle,
+  piecesRepository,
+  readBackupData,
+  requestPersistentStorage,
+  restoreBackupData,
+  saveDeviceProfile,
   saveSettings,
   seedTrainings,
+  sessionRunsRepository,
+  sessionRunsToCsv,
   toPreviousSessionItem,
+  type PersistedAttemptLog,
+  type PersistedDeviceProfile,
+  type PersistedPiece,
   type PersistedSessionRun,
+  type StorageStatus,
 } from "../shared/storage";
+import StorageNotice from "../shared/ui/components/StorageNotice";
+import { useRepositoryList, useRepositoryPages } from "./store";
 
 const AboutPage = lazy(() => import("../pages/About/AboutPage"));
 const PracticePage = lazy(() => import("../pages/Practice/PracticePage"));
+const ProgressPage = lazy(() => import("../pages/Progress/ProgressPage"));
 const ResultsPage = lazy(() => import("../pages/Results/ResultsPage"));
 const SettingsPage = lazy(() => import("../pages/Settings/SettingsPage"));
 const SetupPage = lazy(() => import("../pages/Setup/SetupPage"));
@@ -54,6 +159,10 @@ function clampNoteCount(value: number): number {
   return clamp(value, MIN_TOTAL_NOTES, MAX_TOTAL_NOTES);
 }
 
+function clampTempo(value: number): number {
+  return clamp(value, MIN_TEMPO, MAX_TEMPO);
+}
+
 type SessionResult = {
   accuracy: number;
   errorCount: number;
@@ -61,10 +170,17 @@ type SessionResult = {
   speedNpm: number;
   speedDelta: number;
   improvements: { note: string; misses: number }[];
+  timing?: { accuracy: number; early: number; onTime: number; late: number };
   durationSeconds: number;
   sessionId: string;
+  /** Per-step log of the finished session, for the replay view. */
+  attempts: NoteAttempt[];
 };
 
+function defaultInputSource(): InputSourceKind {
+  return typeof navigator !== "undefined" && "requestMIDIAccess" in navigator ? "midi" : "virtual";
+}
+
 function pageFromPathname(pathname: string): AppPage {
   switch (pathname) {
     case "/setup":
@@ -77,6 +193,8 @@ function pageFromPathname(pathname: string): AppPage {
       return "results";
     case APP_ROUTES.about:
       return "about";
+    case APP_ROUTES.progress:
+      return "progress";
     case APP_ROUTES.setup:
     default:
       return "setup";
@@ -101,30 +219,164 @@ export default function App() {
   const [minNote, setMinNote] = useState<NoteName>(DEFAULT_MIN_NOTE);
   const [maxNote, setMaxNote] = useState<NoteName>(DEFAULT_MAX_NOTE);
   const [totalNotes, setTotalNotes] = useState(DEFAULT_TOTAL_NOTES);
+  const [keySignature, setKeySignature] = useState<KeySignatureName>(DEFAULT_KEY_SIGNATURE);
+  const [accidentalDensity, setAccidentalDensity] = useState(DEFAULT_ACCIDENTAL_DENSITY);
+  const [texture, setTexture] = useState<Texture>(DEFAULT_TEXTURE);
+  const [intervals, setIntervals] = useState<number[]>(DEFAULT_INTERVALS);
+  const [inversions, setInversions] = useState(false);
+  const [adaptive, setAdaptive] = useState(false);
+  const [motion, setMotion] = useState<MelodicMotion>(DEFAULT_MOTION);
+  /** Weights fixed when a session starts, so the exercise stays the same for its seed. */
+  const [noteWeights, setNoteWeights] = useState<NoteWeights | null>(null);
+  const [hands, setHands] = useState<HandMode>(DEFAULT_HAND_MODE);
+  const [timeSignature, setTimeSignature] = useState<TimeSignatureName>(DEFAULT_TIME_SIGNATURE);
+  const [rhythm, setRhythm] = useState<RhythmLevel>(DEFAULT_RHYTHM);
+  const [practiceMode, setPracticeMode] = useState<PracticeMode>(DEFAULT_PRACTICE_MODE);
+  const [tempo, setTempo] = useState(DEFAULT_TEMPO);
+  const [metronomeEnabled, setMetronomeEnabled] = useState(false);
+  const [subdivision, setSubdivision] = useState<Subdivision>(DEFAULT_SUBDIVISION);
+  const [countIn, setCountIn] = useState(true);
+  const [echoPlayedNotes, setEchoPlayedNotes] = useState(false);
+  const [playTargetOnMiss, setPlayTargetOnMiss] = useState(false);
   const [seed, setSeed] = useState(1);
 
-  const [previousSessions, setPreviousSessions] = useState<PreviousSessionItem[]>([]);
-  const [sessionRuns, setSessionRuns] = useState<PersistedSessionRun[]>([]);
-  const [trainings, setTrainings] = useState<Training[]>([]);
+  const sessionRuns = useRepositoryList(sessionRunsRepository);
+  const sessionRunPages = useRepositoryPages(sessionRunsRepository, PREVIOUS_SESSIONS_PAGE_SIZE);
+  const previousSessions = useMemo(
+    () => sessionRunPages.items.map(toPreviousSessionItem),
+    [sessionRunPages.items],
+  );
+  const attemptLogs = useRepositoryList(attemptLogsRepository);
+  const savedTrainings = useRepositoryList(customTrainingsRepository);
+  const trainings = useMemo<Training[]>(
+    () =>
+      savedTrainings.map((t) => ({
+        id: t.id,
+        title: t.title,
+        minNote: t.minNote,
+        maxNote: t.maxNote,
+        totalNotes: t.totalNotes,
+        motion: t.motion,
+      })),
+    [savedTrainings],
+  );
+  const pieces = useRepositoryList(piecesRepository);
+  const [activePieceId, setActivePieceId] = useState<string | null>(null);
+  const [pieceImportError, setPieceImportError] = useState<string | null>(null);
+  const [pendingMidiImport, setPendingMidiImport] = useState<{ fileName: string; file: MidiFile } | null>(null);
   const [isStorageHydrated, setIsStorageHydrated] = useState(false);
 
   const [themeMode, setThemeMode] = useState<ThemeMode>("system");
+  const [inputSource, setInputSource] = useState<InputSourceKind>(defaultInputSource);
+  const [midiChannel, setMidiChannel] = useState<number | null>(null);
+  const [midiOutputDevice, setMidiOutputDevice] = useState("");
+  const [midiHintMode, setMidiHintMode] = useState<HintMode>("off");
+  const savedDeviceProfiles = useRepositoryList(deviceProfilesRepository);
+  const deviceProfiles = useMemo<Record<string, PersistedDeviceProfile>>(
+    () => Object.fromEntries(savedDeviceProfiles.map((profile) => [profile.deviceId, profile])),
+    [savedDeviceProfiles],
+  );
+  const [microphoneNoiseFloor, setMicrophoneNoiseFloor] = useState(0);
+  const [calibratingMicrophone, setCalibratingMicrophone] = useState(false);
   const [systemPrefersDark, setSystemPrefersDark] = useState(false);
 
   const [cursorFeedback, setCursorFeedback] = useState<CursorFeedback>("idle");
   const [completedNotes, setCompletedNotes] = useState(0);
+  const [cursorIndex, setCursorIndex] = useState(0);
   const [attempts, setAttempts] = useState(0);
   const [correctAttempts, setCorrectAttempts] = useState(0);
   const [currentStreak, setCurrentStreak] = useState(0);
+  const [stepProgress, setStepProgress] = useState<StepProgress>({ matched: 0, total: 0 });
   const [longestStreak, setLongestStreak] = useState(0);
+  const [lastTiming, setLastTiming] = useState<TimingVerdict | null>(null);
   const [missedMessage, setMissedMessage] = useState<string | null>(null);
   const [autoFinishToken, setAutoFinishToken] = useState(0);
   const [missedNoteCounts, setMissedNoteCounts] = useState<Record<string, number>>({});
   const [sessionResult, setSessionResult] = useState<SessionResult | null>(null);
+  const [storageRevision, setStorageRevision] = useState(0);
+  const [backupStatus, setBackupStatus] = useState<BackupStatus | null>(null);
+  const [storageStatus, setStorageStatus] = useState<StorageStatus | null>(null);
+  const [storageNoticeDismissed, setStorageNoticeDismissed] = useState(false);
+  const persistenceRequested = useRef(false);
+
+  const { elapsedMs, isRunning: timerRunning, start: startTimer, stop: stopTimer, reset: resetTimer } = useTimer();
+  const midiSource = useMemo(() => createWebMidiSource(), []);
+  const { devices: midiInputs } = useNoteInputSnapshot(midiSource);
+  const midiOutput = useMemo(() => createWebMidiOutput(), []);
+  const recorder = useMemo(() => createPerformanceRecorder(), []);
+  const attemptLog = useMemo(() => createAttemptLog(), []);
+  const [hasRecording, setHasRecording] = useState(false);
+  const { devices: midiOutputs } = useMidiOutput(midiOutput, midiOutputDevice);
+  const { selectedDevice, setSelectedDevice } = useDeviceSelection(midiInputs);
+  const deviceProfile = deviceProfiles[selectedDevice] ?? null;
+
+  const updateDeviceProfile = useCallback(
+    (patch: Partial<InputProfile>) => {
+      if (!selectedDevice) return;
+
+      const profile: PersistedDeviceProfile = {
+        ...DEFAULT_INPUT_PROFILE,
+        ...deviceProfiles[selectedDevice],
+        ...patch,
+        deviceId: selectedDevice,
+        deviceName: midiInputs.find((input) => input.id === selectedDevice)?.name ?? "MIDI device",
+        updatedAt: Date.now(),
+      };
+      void saveDeviceProfile(profile).catch((error: unknown) => {
+        console.warn("Failed to save the device profile to IndexedDB.", error);
+      });
+    },
+    [selectedDevice, deviceProfiles, midiInputs],
+  );
 
-  const { elapsedMs, isRunning: timerRunning, start: startTimer, stop: stopTimer, toggle: toggleTimer, reset: resetTimer } = useTimer();
-  const { midiInputs, selectedDevice, setSelectedDevice } = useMidiDevices();
-  const { reset, handleNoteOn, handleNoteOff } = useSightReadingSession();
+  const {
+    phase: latencyCalibrationPhase,
+    start: startLatencyCalibration,
+    cancel: cancelLatencyCalibration,
+    recordPress: recordCalibrationPress,
+  } = useLatencyCalibration({
+    onResult: (latencyMs) => updateDeviceProfile({ latencyMs }),
+  });
+  const calibratingLatency = latencyCalibrationPhase === "listening";
+
+  useEffect(() => {
+    if (!deviceProfile) {
+      midiSource.setProfile(null);
+      return;
+    }
+
+    midiSource.setProfile({
+      // Calibration measures raw press times, so the old correction must not apply.
+      latencyMs: calibratingLatency ? 0 : deviceProfile.latencyMs,
+      velocityThreshold: deviceProfile.velocityThreshold,
+      transpose: deviceProfile.transpose,
+    });
+  }, [midiSource, deviceProfile, calibratingLatency]);
+  const {
+    reset,
+    handleNoteOn,
+    handleNoteOff,
+    handleSustain,
+    handleSostenuto,
+    setMonophonic,
+    getStepProgress,
+    getCurrentStep,
+  } = useSightReadingSession();
+  useEffect(() => {
+    // The microphone hears one note at a time, so chords arrive broken.
+    setMonophonic(inputSource === "microphone");
+  }, [setMonophonic, inputSource]);
+  const {
+    isPlaying: scorePlaying,
+    prepare: preparePlayback,
+    noteOn: echoNoteOn,
+    noteOff: echoNoteOff,
+    setSustain: echoSustain,
+    setSoftPedal: echoSoftPedal,
+    playNotes,
+    playSteps,
+    stop: stopPlayback,
+  } = usePianoSynth();
 
   useEffect(() => {
     let mounted = true;
@@ -137,32 +389,46 @@ export default function App() {
         minNote: t.minNote,
         maxNote: t.maxNote,
         totalNotes: t.totalNotes,
+        motion: t.motion,
         createdAt: baseTime - index,
       })),
     )
-      .then(() => Promise.all([loadSettings(), listSessionRuns(), listCustomTrainings()]))
-      .then(([settings, runs, savedTrainings]) => {
+      .catch((error: unknown) => {
+        console.warn("Failed to seed trainings into storage.", error);
+      })
+      .then(() => loadSettings())
+      .then((settings) => {
         if (!mounted) return;
 
         if (settings) {
           setThemeMode(settings.themeMode);
           setSelectedDevice(settings.selectedMidiDevice);
+          setMidiChannel(settings.midiChannel ?? null);
+          setMidiOutputDevice(settings.midiOutputDevice ?? "");
+          setMidiHintMode(settings.midiHintMode ?? "off");
+          setInputSource(settings.inputSource ?? defaultInputSource());
+          setMicrophoneNoiseFloor(settings.microphoneNoiseFloor ?? 0);
           setMinNote(settings.minNote);
           setMaxNote(settings.maxNote);
           setTotalNotes(clampNoteCount(settings.totalNotes));
+          setKeySignature(settings.keySignature ?? DEFAULT_KEY_SIGNATURE);
+          setAccidentalDensity(settings.accidentalDensity ?? DEFAULT_ACCIDENTAL_DENSITY);
+          setTexture(settings.texture ?? DEFAULT_TEXTURE);
+          setIntervals(settings.intervals ?? DEFAULT_INTERVALS);
+          setInversions(settings.inversions ?? false);
+          setAdaptive(settings.adaptive ?? false);
+          setMotion(settings.motion ?? DEFAULT_MOTION);
+          setHands(settings.hands ?? DEFAULT_HAND_MODE);
+          setTimeSignature(settings.timeSignature ?? DEFAULT_TIME_SIGNATURE);
+          setRhythm(settings.rhythm ?? DEFAULT_RHYTHM);
+          setPracticeMode(settings.practiceMode ?? DEFAULT_PRACTICE_MODE);
+          setTempo(clampTempo(settings.tempo ?? DEFAULT_TEMPO));
+          setMetronomeEnabled(settings.metronomeEnabled ?? false);
+          setSubdivision(settings.subdivision ?? DEFAULT_SUBDIVISION);
+          setCountIn(settings.countIn ?? true);
+          setEchoPlayedNotes(settings.echoPlayedNotes ?? false);
+          setPlayTargetOnMiss(settings.playTargetOnMiss ?? false);
         }
-
-        setSessionRuns(runs);
-        setPreviousSessions(runs.map(toPreviousSessionItem));
-        setTrainings(
-          savedTrainings.map((t) => ({
-            id: t.id,
-            title: t.title,
-            minNote: t.minNote,
-            maxNote: t.maxNote,
-            totalNotes: t.totalNotes,
-          })),
-        );
       })
       .finally(() => {
         if (!mounted) return;
@@ -172,7 +438,26 @@ export default function App() {
     return () => {
       mounted = false;
     };
-  }, [setSelectedDevice]);
+    // storageRevision re-reads the settings after a backup is restored; the
+    // stored lists follow their stores on their own.
+  }, [setSelectedDevice, storageRevision]);
+
+  const refreshStorageStatus = useCallback(() => {
+    void getStorageStatus()
+      .then(setStorageStatus)
+      .catch((error: unknown) => {
+        console.warn("Failed to read the storage status.", error);
+      });
+  }, []);
+
+  const keepStorage = useCallback(() => {
+    persistenceRequested.current = true;
+    void requestPersistentStorage().then(refreshStorageStatus);
+  }, [refreshStorageStatus]);
+
+  useEffect(() => {
+    refreshStorageStatus();
+  }, [refreshStorageStatus, storageRevision]);
 
   useEffect(() => {
     const mediaQuery = window.matchMedia("(prefers-color-scheme: dark)");
@@ -200,15 +485,86 @@ export default function App() {
     };
   }, []);
 
-  const score = useMemo(
-    () =>
-      generateScore({
-        minNote,
-        maxNote,
-        noteCount: totalNotes,
-        seed,
-      }),
-    [minNote, maxNote, totalNotes, seed],
+  const generatedScore = useMemo(() => {
+    const options = {
+      minNote,
+      maxNote,
+      noteCount: totalNotes,
+      seed,
+      keySignature,
+      accidentalDensity,
+      texture,
+      intervals,
+      inversions,
+      hands,
+      timeSignature,
+      rhythm,
+      noteWeights: noteWeights ?? undefined,
+      motion,
+    };
+
+    try {
+      return generateScore(options);
+    } catch (error: unknown) {
+      // Chords and independent hands need a wide enough range; fall back to a
+      // single line of notes rather than crash.
+      console.warn("Falling back to single notes for this range.", error);
+      return generateScore({ ...options, texture: "single", hands: "combined" });
+    }
+  }, [
+    minNote,
+    maxNote,
+    totalNotes,
+    seed,
+    keySignature,
+    accidentalDensity,
+    texture,
+    intervals,
+    inversions,
+    hands,
+    timeSignature,
+    rhythm,
+    noteWeights,
+    motion,
+  ]);
+
+  const activePiece = useMemo(
+    () => pieces.find((piece) => piece.id === activePieceId) ?? null,
+    [pieces, activePieceId],
+  );
+
+  const pieceScore = useMemo(() => {
+    if (!activePiece) return null;
+
+    try {
+      return parseMusicXml(activePiece.xml);
+    } catch (error: unknown) {
+      console.warn("Failed to read the stored piece; using a generated score.", error);
+      return null;
+    }
+    // `seed` changes on every start and retry, so the piece is re-read and the
+    // session resets just like it does for a freshly generated score.
+  }, [activePiece, seed]);
+
+  const score = pieceScore ?? generatedScore;
+  const stepCount = score.expectedSteps.length;
+
+  const scoreRange = useMemo(() => {
+    if (!pieceScore) {
+      return { minMidi: noteNameToMidi(minNote), maxMidi: noteNameToMidi(maxNote) };
+    }
+    const notes = pieceScore.expectedSteps.flatMap((step) => step.notes);
+    return { minMidi: Math.min(...notes), maxMidi: Math.max(...notes) };
+  }, [pieceScore, minNote, maxNote]);
+
+  const {
+    prepare: prepareMetronome,
+    start: startMetronome,
+    stop: stopMetronome,
+  } = useMetronome({ bpm: tempo, beatsPerBar: score.meter.beats, subdivision });
+
+  const onTapTempo = useTapTempo(
+    useCallback((bpm: number) => setTempo(clampTempo(bpm)), []),
   );
 
   const clearMissedMessage = useCallback(() => {
@@ -230,110 +586,461 @@ export default function App() {
     }, MISSED_MESSAGE_TIMEOUT_MS);
   }, []);
 
+  const recordMiss = useCallback((midi: number) => {
+    setCurrentStreak(0);
+    setCursorFeedback("wrong");
+    const noteLabel = midiToNoteLabel(midi);
+    setMissedNoteCounts((value) => ({
+      ...value,
+      [noteLabel]: (value[noteLabel] ?? 0) + 1,
+    }));
+    showMissedMessage(midi);
+  }, [showMissedMessage]);
+
+  const {
+    isRunning: timedRunning,
+    reset: resetTimed,
+    start: startTimed,
+    pause: pauseTimed,
+    getMsUntilNextBeat,
+    getCurrentStep: getTimedStep,
+    handleNoteOn: handleTimedNoteOn,
+    getTimingSummary,
+  } = useTimedSession({
+    onCursorAdvance: (step, onsetMs) => {
+      attemptLog.arrive(step, onsetMs);
+      staffRef.current?.nextCursor();
+      setCursorIndex((value) => value + 1);
+      setCursorFeedback("idle");
+    },
+    onStepResolved: (missingNotes, step, onsetMs) => {
+      attemptLog.arrive(step, onsetMs);
+      setCompletedNotes((value) => Math.min(stepCount, value + 1));
+      if (missingNotes.length === 0) return;
+
+      setAttempts((value) => value + missingNotes.length);
+      setLastTiming(null);
+      recordMiss(missingNotes[0]);
+    },
+    onComplete: () => {
+      setAutoFinishToken((value) => value + 1);
+    },
+  });
+
   useEffect(() => {
     if (!isStorageHydrated) return;
 
     void saveSettings({
       themeMode,
       selectedMidiDevice: selectedDevice,
+      midiChannel: midiChannel ?? undefined,
+      midiOutputDevice,
+      midiHintMode,
+      inputSource,
+      microphoneNoiseFloor,
       minNote,
       maxNote,
       totalNotes,
+      keySignature,
+      accidentalDensity,
+      texture,
+      intervals,
+      inversions,
+      adaptive,
+      motion,
+      hands,
+      timeSignature,
+      rhythm,
+      practiceMode,
+      tempo,
+      metronomeEnabled,
+      subdivision,
+      countIn,
+      echoPlayedNotes,
+      playTargetOnMiss,
       updatedAt: Date.now(),
     }).catch((error: unknown) => {
       console.warn("Failed to save settings to IndexedDB.", error);
     });
   }, [
+    accidentalDensity,
+    adaptive,
+    echoPlayedNotes,
+    hands,
+    inputSource,
+    intervals,
+    inversions,
     isStorageHydrated,
+    keySignature,
     maxNote,
+    metronomeEnabled,
+    microphoneNoiseFloor,
+    midiChannel,
+    midiHintMode,
+    midiOutputDevice,
     minNote,
+    motion,
+    countIn,
+    playTargetOnMiss,
+    practiceMode,
+    rhythm,
     selectedDevice,
+    subdivision,
+    tempo,
+    texture,
     themeMode,
+    timeSignature,
     totalNotes,
   ]);
 
   useEffect(() => {
-    reset(score.expectedNotes);
+    reset(score.expectedSteps);
+    resetTimed(score.expectedSteps, tempo);
+    setStepProgress(getStepProgress());
     setCursorFeedback("idle");
     setCompletedNotes(0);
+    setCursorIndex(0);
     setAttempts(0);
     setCorrectAttempts(0);
     setCurrentStreak(0);
     setLongestStreak(0);
+    setLastTiming(null);
     setAutoFinishToken(0);
     setMissedNoteCounts({});
+    recorder.reset();
+    attemptLog.reset(score.expectedSteps);
+    setHasRecording(false);
     resetTimer();
+    stopMetronome();
     clearMissedMessage();
     staffRef.current?.resetCursor();
-  }, [reset, score.expectedNotes, clearMissedMessage, resetTimer]);
+  }, [
+    reset,
+    resetTimed,
+    getStepProgress,
+    recorder,
+    attemptLog,
+    score.expectedSteps,
+    tempo,
+    clearMissedMessage,
+    resetTimer,
+    stopMetronome,
+  ]);
+
+  /**
+   * Starts (or resumes) the session clocks. In timed mode the metronome's
+   * count-in decides when the first step falls, so the clicks and the cursor
+   * share one downbeat.
+   */
+  const startClocks = useCallback(() => {
+    startTimer();
+
+    if (practiceMode !== "timed") {
+      if (metronomeEnabled) startMetronome();
+      return;
+    }
+
+    if (!metronomeEnabled && !countIn) {
+      startTimed();
+      return;
+    }
+
+    const leadMs = startMetronome({
+      countInBeats: countIn ? score.meter.beats : 1,
+      continueAfterCountIn: metronomeEnabled,
+    });
+    startTimed(leadMs ?? undefined);
+  }, [
+    practiceMode,
+    metronomeEnabled,
+    countIn,
+    score.meter.beats,
+    startTimer,
+    startTimed,
+    startMetronome,
+  ]);
+
+  const stopClocks = useCallback(() => {
+    stopTimer();
+    pauseTimed();
+    stopMetronome();
+  }, [stopTimer, pauseTimed, stopMetronome]);
+
+  const countCorrect = useCallback(() => {
+    setCorrectAttempts((value) => value + 1);
+    setCurrentStreak((value) => {
+      const nextStreak = value + 1;
+      setLongestStreak((currentMax) => Math.max(currentMax, nextStreak));
+      return nextStreak;
+    });
+    setCursorFeedback("correct");
+  }, []);
 
   const onNoteOn = useCallback(
-    (note: number) => {
+    (note: number, velocity = RECORDED_NOTE_VELOCITY, time?: number) => {
+      if (calibratingLatency) {
+        recordCalibrationPress(time ?? performance.now());
+        return;
+      }
       if (page !== "practice") return;
+      const pressedAt = time ?? performance.now();
+      recorder.noteOn(note, velocity, pressedAt);
+      setHasRecording(true);
+      // Through speakers the microphone would hear its own echo, so stay quiet then.
+      const audioFeedbackSafe = inputSource !== "microphone";
+      if (echoPlayedNotes && audioFeedbackSafe) echoNoteOn(note);
+
+      if (practiceMode === "timed") {
+        // The first press starts the clock; the first step falls one beat later.
+        if (!timedRunning) {
+          startClocks();
+          return;
+        }
+
+        const timed = handleTimedNoteOn(note, time);
+        if (timed.pitch === "idle") return;
+
+        setAttempts((value) => value + 1);
+        if (timed.pitch === "correct") {
+          attemptLog.arrive(timed.step, pressedAt - timed.offsetMs);
+          attemptLog.press({
+            note,
+            atMs: pressedAt,
+            result: "correct",
+            timing: timed.timing,
+            step: timed.step,
+          });
+          setLastTiming(timed.timing);
+          countCorrect();
+          return;
+        }
+
+        attemptLog.press({ note, atMs: pressedAt, result: "wrong" });
+        setLastTiming(null);
+        recordMiss(note);
+        return;
+      }
 
       if (!timerRunning) {
-        startTimer();
+        attemptLog.arrive(0, pressedAt);
+        startClocks();
       }
 
       const result = handleNoteOn(note);
       if (result === "complete") return;
+      attemptLog.press({ note, atMs: pressedAt, result });
+
+      setStepProgress(getStepProgress());
+
+      if (result === "partial") {
+        setCursorFeedback("partial");
+        return;
+      }
 
       setAttempts((value) => value + 1);
 
       if (result === "correct") {
-        setCorrectAttempts((value) => value + 1);
-        setCurrentStreak((value) => {
-          const nextStreak = value + 1;
-          setLongestStreak((currentMax) => Math.max(currentMax, nextStreak));
-          return nextStreak;
-        });
-        setCursorFeedback("correct");
+        countCorrect();
         return;
       }
 
-      setCurrentStreak(0);
-      setCursorFeedback("wrong");
-      const noteLabel = midiToNoteLabel(note);
-      setMissedNoteCounts((value) => ({
-        ...value,
-        [noteLabel]: (value[noteLabel] ?? 0) + 1,
-      }));
-      showMissedMessage(note);
+      recordMiss(note);
+      if (playTargetOnMiss && audioFeedbackSafe) {
+        // Let the wrong note sound first so the two are heard one after the other.
+        const target = getCurrentStep();
+        if (target) window.setTimeout(() => playNotes(target.notes), TARGET_AFTER_MISS_DELAY_MS);
+      }
     },
-    [handleNoteOn, showMissedMessage, page, timerRunning, startTimer],
+    [
+      calibratingLatency,
+      recordCalibrationPress,
+      recorder,
+      attemptLog,
+      echoPlayedNotes,
+      echoNoteOn,
+      inputSource,
+      playTargetOnMiss,
+      getCurrentStep,
+      playNotes,
+      handleNoteOn,
+      getStepProgress,
+      countCorrect,
+      recordMiss,
+      page,
+      practiceMode,
+      timedRunning,
+      handleTimedNoteOn,
+      timerRunning,
+      startClocks,
+    ],
   );
 
   const onNoteOff = useCallback(
     (note: number) => {
       if (page !== "practice") return;
+      recorder.noteOff(note, performance.now());
+      echoNoteOff(note);
+      if (practiceMode === "timed") return;
 
       const result = handleNoteOff(note);
+      setStepProgress(getStepProgress());
       if (result !== "advanced" && result !== "complete") return;
 
+      attemptLog.advance(performance.now());
       staffRef.current?.nextCursor();
-      setCompletedNotes((value) => Math.min(totalNotes, value + 1));
+      setCursorIndex((value) => value + 1);
+      setCompletedNotes((value) => Math.min(stepCount, value + 1));
       setCursorFeedback("idle");
       if (result === "complete") {
         setAutoFinishToken((value) => value + 1);
       }
     },
-    [handleNoteOff, page, totalNotes],
+    [
+      handleNoteOff,
+      echoNoteOff,
+      getStepProgress,
+      page,
+      practiceMode,
+      recorder,
+      attemptLog,
+      stepCount,
+    ],
   );
 
+  const toggleSessionTimer = useCallback(() => {
+    if (timerRunning) {
+      stopClocks();
+      return;
+    }
+
+    startClocks();
+  }, [timerRunning, startClocks, stopClocks]);
+
+  const toggleMetronome = useCallback(() => {
+    prepareMetronome();
+    setMetronomeEnabled((value) => !value);
+
+    if (metronomeEnabled) {
+      stopMetronome();
+      return;
+    }
+    if (!timerRunning) return;
+
+    // Land the first click on the timed clock's next beat.
+    const delayMs = practiceMode === "timed" ? getMsUntilNextBeat() : null;
+    startMetronome({ delaySeconds: (delayMs ?? 0) / 1000 });
+  }, [
+    metronomeEnabled,
+    practiceMode,
+    timerRunning,
+    getMsUntilNextBeat,
+    prepareMetronome,
+    startMetronome,
+    stopMetronome,
+  ]);
+
+  useEffect(() => {
+    if (page !== "settings") cancelLatencyCalibration();
+  }, [page, cancelLatencyCalibration]);
+
+  useEffect(() => {
+    if (page !== "practice") stopMetronome();
+  }, [page, stopMetronome]);
+
+  useEffect(() => {
+    stopPlayback();
+  }, [page, stopPlayback]);
+
+  const toggleScorePlayback = useCallback(() => {
+    if (scorePlaying) {
+      stopPlayback();
+      return;
+    }
+
+    preparePlayback();
+    playSteps(score.expectedSteps, tempo);
+  }, [scorePlaying, score.expectedSteps, tempo, preparePlayback, playSteps, stopPlayback]);
+
   const onAllNotesOff = useCallback(() => {
     if (page !== "practice") return;
     setCursorFeedback("idle");
   }, [page]);
 
-  const midiStatus = useMidiInput({
-    selectedDeviceId: selectedDevice,
+  const onPedal = useCallback(
+    (pedal: Pedal, down: boolean) => {
+      if (pedal === "sostenuto") {
+        handleSostenuto(down);
+        return;
+      }
+      // The soft pedal only colours the sound, so it reaches the echo but not the scoring.
+      if (pedal === "soft") {
+        echoSoftPedal(down);
+        return;
+      }
+      handleSustain(down);
+      echoSustain(down);
+    },
+    [handleSustain, handleSostenuto, echoSustain, echoSoftPedal],
+  );
+
+  useEffect(() => {
+    midiSource.selectChannel(midiChannel);
+  }, [midiSource, midiChannel]);
+
+  const { status: midiStatus } = useNoteInputSource(midiSource, {
+    deviceId: selectedDevice,
+    onNoteOn,
+    onNoteOff,
+    onPedal,
+    onAllNotesOff,
+  });
+
+  const virtualKeyboard = useVirtualKeyboard({
+    enabled: inputSource === "virtual" && page === "practice",
     onNoteOn,
     onNoteOff,
     onAllNotesOff,
   });
 
-  const midiConnected = midiStatus === "MIDI: connected";
-  const midiLabel = midiStatusLabel(midiStatus);
+  const microphone = useMicrophoneInput({
+    enabled: inputSource === "microphone" && (page === "practice" || page === "settings"),
+    onsetThreshold: onsetThresholdForNoiseFloor(microphoneNoiseFloor),
+    onNoteOn,
+    onNoteOff,
+    onAllNotesOff,
+  });
+  const { calibrate: calibrateMicrophoneLevel, mute: muteMicrophone } = microphone;
+
+  const calibrateMicrophone = useCallback(() => {
+    setCalibratingMicrophone(true);
+    void calibrateMicrophoneLevel()
+      .then((noiseFloor) => {
+        if (noiseFloor !== null) setMicrophoneNoiseFloor(noiseFloor);
+      })
+      .finally(() => setCalibratingMicrophone(false));
+  }, [calibrateMicrophoneLevel]);
+
+  const playTarget = useCallback(() => {
+    preparePlayback();
+    const target = practiceMode === "timed" ? getTimedStep() : getCurrentStep();
+    if (!target) return;
+
+    // Keep the microphone from hearing the preview as the student's answer.
+    muteMicrophone(TARGET_PREVIEW_MUTE_MS);
+    playNotes(target.notes);
+  }, [practiceMode, getTimedStep, getCurrentStep, muteMicrophone, preparePlayback, playNotes]);
+
+  const midiConnected = midiStatus === "connected";
+  const microphoneListening = microphone.status === "listening";
+  const inputReady =
+    inputSource === "virtual" ||
+    (inputSource === "microphone" ? microphoneListening : midiConnected);
+  const inputLabel =
+    inputSource === "virtual"
+      ? "On-screen piano"
+      : inputSource === "microphone"
+        ? microphoneStatusLabel(microphone.status)
+        : midiStatusLabel(midiStatus);
   const cursorStyle = CURSOR_STYLES[cursorFeedback];
 
   const minIndex = NOTE_NAMES.indexOf(minNote);
@@ -346,8 +1053,18 @@ export default function App() {
   const accuracy =
     attempts === 0 ? 100 : Math.round((correctAttempts / attempts) * 100);
   const errorCount = Math.max(0, attempts - correctAttempts);
+
+  useKeyboardHints({
+    output: midiOutput,
+    mode: midiHintMode,
+    step: cursorIndex,
+    notes: page === "practice" ? (score.expectedSteps[cursorIndex]?.notes ?? null) : null,
+    missCount: errorCount,
+  });
   const elapsedSeconds = Math.floor(elapsedMs / 1000);
 
+  const keySummary = getKeySignature(keySignature).label;
+
   const rangeSummary =
     minNote === "A0" && maxNote === "C8"
       ? "Full piano (A0 - C8)"
@@ -386,6 +1103,18 @@ export default function App() {
     setMinNote(selectedSession.config.minNote);
     setMaxNote(selectedSession.config.maxNote);
     setTotalNotes(clampNoteCount(selectedSession.config.totalNotes));
+    setKeySignature(selectedSession.config.keySignature ?? DEFAULT_KEY_SIGNATURE);
+    setAccidentalDensity(selectedSession.config.accidentalDensity ?? DEFAULT_ACCIDENTAL_DENSITY);
+    setTexture(selectedSession.config.texture ?? DEFAULT_TEXTURE);
+    setIntervals(selectedSession.config.intervals ?? DEFAULT_INTERVALS);
+    setInversions(selectedSession.config.inversions ?? false);
+    setAdaptive(selectedSession.config.adaptive ?? false);
+    setMotion(selectedSession.config.motion ?? DEFAULT_MOTION);
+    setHands(selectedSession.config.hands ?? DEFAULT_HAND_MODE);
+    setTimeSignature(selectedSession.config.timeSignature ?? DEFAULT_TIME_SIGNATURE);
+    setRhythm(selectedSession.config.rhythm ?? DEFAULT_RHYTHM);
+    setPracticeMode(selectedSession.config.practiceMode ?? DEFAULT_PRACTICE_MODE);
+    setTempo(clampTempo(selectedSession.config.tempo ?? DEFAULT_TEMPO));
   }, [sessionRuns]);
 
   const loadTraining = useCallback((trainingId: string) => {
@@ -395,6 +1124,7 @@ export default function App() {
     setMinNote(training.minNote);
     setMaxNote(training.maxNote);
     setTotalNotes(clampNoteCount(training.totalNotes));
+    setMotion(training.motion ?? DEFAULT_MOTION);
   }, [trainings]);
 
   const saveTraining = useCallback((title: string) => {
@@ -404,36 +1134,119 @@ export default function App() {
       minNote,
       maxNote,
       totalNotes,
+      motion,
       createdAt: Date.now(),
     };
 
-    setTrainings((current) => [
-      { id: training.id, title: training.title, minNote: training.minNote, maxNote: training.maxNote, totalNotes: training.totalNotes },
-      ...current,
-    ]);
-
     void addCustomTraining(training).catch((error: unknown) => {
       console.warn("Failed to save custom training to IndexedDB.", error);
     });
-  }, [minNote, maxNote, totalNotes]);
+  }, [minNote, maxNote, motion, totalNotes]);
 
   const removeTraining = useCallback((trainingId: string) => {
-    setTrainings((current) => current.filter((t) => t.id !== trainingId));
-
     void deleteCustomTraining(trainingId).catch((error: unknown) => {
       console.warn("Failed to delete custom training from IndexedDB.", error);
     });
   }, []);
 
-  const startSession = useCallback(() => {
+  const launchSession = useCallback(() => {
+    // Unlock audio while we still have the click gesture.
+    prepareMetronome();
+    preparePlayback();
     setAutoFinishToken(0);
     setSessionResult(null);
     setSeed((value) => value + 1);
     navigate(APP_ROUTES.practice);
-  }, [navigate]);
+  }, [navigate, prepareMetronome, preparePlayback]);
+
+  const startSession = useCallback(() => {
+    setActivePieceId(null);
+    setNoteWeights(adaptive ? buildNoteWeights(attemptLogs, Date.now()) : null);
+    launchSession();
+  }, [adaptive, attemptLogs, launchSession]);
+
+  const startPiece = useCallback((pieceId: string) => {
+    const piece = pieces.find((candidate) => candidate.id === pieceId);
+    if (piece?.tempo) {
+      setTempo(clampTempo(piece.tempo));
+    }
+    setActivePieceId(pieceId);
+    setNoteWeights(null);
+    launchSession();
+  }, [launchSession, pieces]);
+
+  const storePiece = useCallback((piece: PersistedPiece) => {
+    void addPiece(piece)
+      .catch((error: unknown) => {
+        console.warn("Failed to save imported piece to IndexedDB.", error);
+      })
+      .finally(refreshStorageStatus);
+  }, [refreshStorageStatus]);
+
+  const importPiece = useCallback((file: File) => {
+    setPieceImportError(null);
+    setPendingMidiImport(null);
+
+    const failImport = (error: unknown) => {
+      setPieceImportError(
+        error instanceof Error ? error.message : `Couldn't import "${file.name}".`,
+      );
+    };
+
+    if (isMidiFileName(file.name)) {
+      // MIDI files need track and quantize choices before they become a score.
+      void readMidiFile(file)
+        .then((midiFile) => setPendingMidiImport({ fileName: file.name, file: midiFile }))
+        .catch(failImport);
+      return;
+    }
+
+    void readScoreFile(file)
+      .then((imported) => {
+        storePiece({
+          id: crypto.randomUUID(),
+          title: imported.title,
+          fileName: file.name,
+          xml: imported.xml,
+          stepCount: imported.expectedSteps.length,
+          createdAt: Date.now(),
+        });
+      })
+      .catch(failImport);
+  }, [storePiece]);
+
+  const confirmMidiImport = useCallback((options: MidiImportOptions) => {
+    if (!pendingMidiImport) return;
+    const { fileName, file } = pendingMidiImport;
+
+    try {
+      const imported = midiToScore(file, options, fileName.replace(/\.(mid|midi)$/i, ""));
+      storePiece({
+        id: crypto.randomUUID(),
+        title: imported.title,
+        fileName,
+        xml: imported.xml,
+        stepCount: imported.expectedSteps.length,
+        tempo: initialBpm(file),
+        createdAt: Date.now(),
+      });
+      setPendingMidiImport(null);
+      setPieceImportError(null);
+    } catch (error: unknown) {
+      setPieceImportError(error instanceof Error ? error.message : `Couldn't import "${fileName}".`);
+    }
+  }, [pendingMidiImport, storePiece]);
+
+  const removePiece = useCallback((pieceId: string) => {
+    setActivePieceId((current) => (current === pieceId ? null : current));
+
+    void deletePiece(pieceId).catch((error: unknown) => {
+      console.warn("Failed to delete piece from IndexedDB.", error);
+    });
+  }, []);
 
   const finishSession = useCallback(() => {
-    stopTimer();
+    stopClocks();
     const durationSeconds = Math.floor(elapsedMs / 1000);
     const speedNpm =
       durationSeconds === 0
@@ -444,6 +1257,11 @@ export default function App() {
       .map(([note, misses]) => ({ note, misses }))
       .sort((left, right) => right.misses - left.misses)
       .slice(0, 2);
+    const timingSummary = getTimingSummary();
+    const timing =
+      practiceMode === "timed"
+        ? { accuracy: timingAccuracy(timingSummary), ...timingSummary }
+        : undefined;
 
     const nextResult: SessionResult = {
       accuracy,
@@ -452,8 +1270,10 @@ export default function App() {
       speedNpm,
       speedDelta,
       improvements,
+      timing,
       durationSeconds,
       sessionId: `#SRL-${String(seed).padStart(4, "0")}`,
+      attempts: attemptLog.getAttempts(),
     };
     const sessionRun: PersistedSessionRun = {
       id: crypto.randomUUID(),
@@ -464,35 +1284,73 @@ export default function App() {
       speedNpm: nextResult.speedNpm,
       speedDelta: nextResult.speedDelta,
       improvements: nextResult.improvements,
+      timingAccuracy: timing?.accuracy,
       config: {
         minNote,
         maxNote,
         totalNotes,
+        keySignature,
+        accidentalDensity,
+        texture,
+        intervals,
+        inversions,
+        adaptive: noteWeights !== null,
+        motion,
+        hands,
+        timeSignature,
+        rhythm,
+        practiceMode,
+        tempo,
+        pieceId: activePiece?.id,
       },
     };
 
     setSessionResult(nextResult);
-    setSessionRuns((current) => [sessionRun, ...current]);
-    setPreviousSessions((current) => [
-      toPreviousSessionItem(sessionRun),
-      ...current,
-    ]);
-    void addSessionRun(sessionRun).catch((error: unknown) => {
-      console.warn("Failed to save session run to IndexedDB.", error);
-    });
+    const sessionLog: PersistedAttemptLog = {
+      runId: sessionRun.id,
+      createdAt: sessionRun.createdAt,
+      attempts: nextResult.attempts,
+    };
+    void addSessionRun(sessionRun, sessionLog)
+      .then(() => {
+        // Once there's history worth keeping, ask the browser not to evict it.
+        if (persistenceRequested.current) refreshStorageStatus();
+        else keepStorage();
+      })
+      .catch((error: unknown) => {
+        console.warn("Failed to save session run to IndexedDB.", error);
+        refreshStorageStatus();
+      });
     navigate(APP_ROUTES.results);
   }, [
+    accidentalDensity,
     accuracy,
+    activePiece,
+    attemptLog,
     completedNotes,
     errorCount,
+    hands,
+    intervals,
+    inversions,
+    keepStorage,
+    keySignature,
     longestStreak,
     maxNote,
     minNote,
     missedNoteCounts,
+    motion,
     navigate,
+    noteWeights,
+    practiceMode,
+    refreshStorageStatus,
+    rhythm,
     seed,
     elapsedMs,
-    stopTimer,
+    getTimingSummary,
+    stopClocks,
+    tempo,
+    texture,
+    timeSignature,
     totalNotes,
   ]);
 
@@ -502,14 +1360,36 @@ export default function App() {
     finishSession();
   }, [autoFinishToken, finishSession, page]);
 
+  const exportCurrentScore = useCallback(
+    (format: ExportFormat) => {
+      const title = activePiece?.title ?? `Sight reading #SRL-${String(seed).padStart(4, "0")}`;
+      exportScore(format, {
+        title,
+        xml: score.xml,
+        expectedSteps: score.expectedSteps,
+        meter: score.meter,
+        bpm: tempo,
+        recording: recorder.getNotes(performance.now()),
+      }).catch((error) => {
+        console.warn("Failed to export the score.", error);
+      });
+    },
+    [activePiece, recorder, score, seed, tempo],
+  );
+
   const newSetupFromResults = useCallback(() => {
     navigate(APP_ROUTES.setup);
   }, [navigate]);
 
   const retrySession = useCallback(() => {
+    prepareMetronome();
+    preparePlayback();
+    if (!activePiece) {
+      setNoteWeights(adaptive ? buildNoteWeights(attemptLogs, Date.now()) : null);
+    }
     setSeed((value) => value + 1);
     navigate(APP_ROUTES.practice);
-  }, [navigate]);
+  }, [activePiece, adaptive, attemptLogs, navigate, prepareMetronome, preparePlayback]);
 
   const openSettings = useCallback(
     (from: ReturnPage) => {
@@ -527,23 +1407,108 @@ export default function App() {
     navigate(APP_ROUTES.about);
   }, [navigate]);
 
+  const exportBackup = useCallback(() => {
+    void readBackupData()
+      .then((data) => {
+        const date = new Date().toISOString().slice(0, 10);
+        downloadFile(
+          JSON.stringify(createBackupBundle(data, Date.now()), null, 2),
+          "application/json",
+          `sightreadinglabs-backup-${date}.json`,
+        );
+        setBackupStatus({
+          kind: "success",
+          message: `Backup exported with ${data.sessionRuns.length} sessions.`,
+        });
+      })
+      .catch((error: unknown) => {
+        console.warn("Failed to read a backup from IndexedDB.", error);
+        setBackupStatus({ kind: "error", message: "The backup couldn't be exported." });
+      });
+  }, []);
+
+  const exportSessionCsv = useCallback(() => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(sessionRunsToCsv(sessionRuns), "text/csv", `sightreadinglabs-sessions-${date}.csv`);
+  }, [sessionRuns]);
+
+  const restoreBackup = useCallback((file: File, options: BackupRestoreOptions) => {
+    void file
+      .text()
+      .then(async (text) => {
+        const { bundle, invalid } = parseBackupBundle(text);
+        const summary = await restoreBackupData(bundle.data, options);
+        setStorageRevision((value) => value + 1);
+        setBackupStatus({ kind: "success", message: formatRestoreSummary(summary, invalid) });
+      })
+      .catch((error: unknown) => {
+        console.warn("Failed to restore a backup into IndexedDB.", error);
+        setBackupStatus({
+          kind: "error",
+          message: error instanceof Error ? error.message : "The backup couldn't be restored.",
+        });
+      });
+  }, []);
+
   const closeAbout = useCallback(() => {
     navigate(APP_ROUTES.settings);
   }, [navigate]);
 
+  const openProgress = useCallback(() => {
+    navigate(APP_ROUTES.progress);
+  }, [navigate]);
+
+  const closeProgress = useCallback(() => {
+    navigate(APP_ROUTES.setup);
+  }, [navigate]);
+
   return (
     <Suspense fallback={<div className="app-page setup-page" />}>
+      {storageStatus && !storageNoticeDismissed ? (
+        <StorageNotice status={storageStatus} onDismiss={() => setStorageNoticeDismissed(true)} />
+      ) : null}
       <Routes>
         <Route
           path={APP_ROUTES.setup}
           element={
             <SetupPage
-              midiConnected={midiConnected}
-              midiLabel={midiLabel}
+              midiConnected={inputReady}
+              midiLabel={inputLabel}
               minNote={minNote}
               maxNote={maxNote}
               totalNotes={totalNotes}
               rangeSummary={rangeSummary}
+              keySignature={keySignature}
+              keySummary={keySummary}
+              accidentalDensity={accidentalDensity}
+              onKeySignatureChange={setKeySignature}
+              onAccidentalDensityChange={setAccidentalDensity}
+              texture={texture}
+              intervals={intervals}
+              inversions={inversions}
+              onTextureChange={setTexture}
+              onIntervalsChange={setIntervals}
+              onInversionsChange={setInversions}
+              adaptive={adaptive}
+              onAdaptiveChange={setAdaptive}
+              motion={motion}
+              onMotionChange={setMotion}
+              hands={hands}
+              onHandsChange={setHands}
+              timeSignature={timeSignature}
+              rhythm={rhythm}
+              practiceMode={practiceMode}
+              tempo={tempo}
+              onTimeSignatureChange={setTimeSignature}
+              onRhythmChange={setRhythm}
+              onPracticeModeChange={setPracticeMode}
+              onDecreaseTempo={() => setTempo((value) => clampTempo(value - TEMPO_STEP))}
+              onIncreaseTempo={() => setTempo((value) => clampTempo(value + TEMPO_STEP))}
+              onTapTempo={onTapTempo}
+              subdivision={subdivision}
+              countIn={countIn}
+              onSubdivisionChange={setSubdivision}
+              onCountInChange={setCountIn}
               selectedRangeLeftPercent={selectedRangeLeftPercent}
               selectedRangeWidthPercent={selectedRangeWidthPercent}
               onDecreaseMinNote={() => updateMinNoteByStep(-1)}
@@ -563,12 +1528,24 @@ export default function App() {
               }
               onStartSession={startSession}
               onOpenSettings={() => openSettings("setup")}
+              onOpenProgress={openProgress}
               previousSessions={previousSessions}
+              hasMorePreviousSessions={sessionRunPages.hasMore}
+              onShowMorePreviousSessions={sessionRunPages.loadMore}
               onLoadPreviousSession={loadPreviousSession}
               trainings={trainings}
               onLoadTraining={loadTraining}
               onSaveTraining={saveTraining}
               onDeleteTraining={removeTraining}
+              pieces={pieces}
+              activePieceId={activePieceId}
+              pieceImportError={pieceImportError}
+              pendingMidiImport={pendingMidiImport}
+              onImportPiece={importPiece}
+              onConfirmMidiImport={confirmMidiImport}
+              onCancelMidiImport={() => setPendingMidiImport(null)}
+              onStartPiece={startPiece}
+              onDeletePiece={removePiece}
             />
           }
         />
@@ -580,16 +1557,40 @@ export default function App() {
               staffRef={staffRef}
               scoreXml={score.xml}
               cursorStyle={cursorStyle}
-              rangeLabel={`${minNote} - ${maxNote}`}
-              totalNotes={totalNotes}
+              rangeLabel={activePiece ? activePiece.title : `${minNote} - ${maxNote} · ${keySummary}`}
+              totalNotes={stepCount}
               completedNotes={completedNotes}
               accuracy={accuracy}
               errorCount={errorCount}
               currentStreak={currentStreak}
+              stepProgress={stepProgress}
+              timing={practiceMode === "timed" ? { tempo, lastVerdict: lastTiming } : null}
               elapsedTimeLabel={formatTime(elapsedSeconds)}
               timerRunning={timerRunning}
-              onToggleTimer={toggleTimer}
+              onToggleTimer={toggleSessionTimer}
               missedMessage={missedMessage}
+              inputPanel={
+                inputSource === "virtual" ? (
+                  <VirtualPiano
+                    minMidi={scoreRange.minMidi}
+                    maxMidi={scoreRange.maxMidi}
+                    heldNotes={virtualKeyboard.heldNotes}
+                    qwertyOctave={virtualKeyboard.octave}
+                    onPress={virtualKeyboard.press}
+                    onRelease={virtualKeyboard.release}
+                  />
+                ) : null
+              }
+              metronomeOn={metronomeEnabled}
+              onToggleMetronome={toggleMetronome}
+              onPlayTarget={playTarget}
+              exportMenu={
+                <ExportMenu
+                  onExport={exportCurrentScore}
+                  playedAvailable={hasRecording}
+                  triggerClassName="practice-icon-button icon-button"
+                />
+              }
               onOpenSettings={() => openSettings("practice")}
               onFinish={finishSession}
             />
@@ -607,10 +1608,23 @@ export default function App() {
                 speedNpm={sessionResult.speedNpm}
                 speedDelta={sessionResult.speedDelta}
                 improvements={sessionResult.improvements}
+                timing={sessionResult.timing}
                 durationLabel={formatTime(sessionResult.durationSeconds)}
                 sessionId={sessionResult.sessionId}
                 onNewSetup={newSetupFromResults}
                 onTryAgain={retrySession}
+                scorePlaying={scorePlaying}
+                onToggleScorePlayback={toggleScorePlayback}
+                exportMenu={
+                  <ExportMenu
+                    onExport={exportCurrentScore}
+                    playedAvailable={hasRecording}
+                    triggerClassName="practice-icon-button icon-button"
+                  />
+                }
+                scoreXml={score.xml}
+                stepCount={score.expectedSteps.length}
+                attempts={sessionResult.attempts}
               />
             ) : (
               <Navigate to={APP_ROUTES.setup} replace />
@@ -623,11 +1637,47 @@ export default function App() {
           element={
             <SettingsPage
               themeMode={themeMode}
+              inputSource={inputSource}
+              onInputSourceChange={setInputSource}
               midiInputs={midiInputs}
               midiDevice={selectedDevice}
+              midiChannel={midiChannel}
+              onMidiChannelChange={setMidiChannel}
+              midiOutputs={midiOutputs}
+              midiOutputDevice={midiOutputDevice}
+              onMidiOutputDeviceChange={setMidiOutputDevice}
+              midiHintMode={midiHintMode}
+              onMidiHintModeChange={setMidiHintMode}
               midiConnected={midiConnected}
+              deviceProfile={selectedDevice ? (deviceProfile ?? DEFAULT_INPUT_PROFILE) : null}
+              onDeviceProfileChange={updateDeviceProfile}
+              latencyCalibrationPhase={latencyCalibrationPhase}
+              onLatencyCalibrationToggle={() =>
+                calibratingLatency ? cancelLatencyCalibration() : startLatencyCalibration()
+              }
+              microphoneLabel={microphoneStatusLabel(microphone.status)}
+              microphoneListening={microphoneListening}
+              microphoneCalibrating={calibratingMicrophone}
+              onCalibrateMicrophone={calibrateMicrophone}
               onThemeModeChange={setThemeMode}
               onMidiDeviceChange={setSelectedDevice}
+              echoPlayedNotes={echoPlayedNotes}
+              playTargetOnMiss={playTargetOnMiss}
+              onEchoPlayedNotesChange={(value) => {
+                preparePlayback();
+                setEchoPlayedNotes(value);
+              }}
+              onPlayTargetOnMissChange={(value) => {
+                preparePlayback();
+                setPlayTargetOnMiss(value);
+              }}
+              sessionRunCount={sessionRuns.length}
+              backupStatus={backupStatus}
+              storageStatus={storageStatus}
+              onKeepStorage={keepStorage}
+              onExportBackup={exportBackup}
+              onExportSessionCsv={exportSessionCsv}
+              onRestoreBackup={restoreBackup}
               onOpenAbout={openAbout}
               onBack={closeSettings}
             />
@@ -635,6 +1685,17 @@ export default function App() {
         />
 
         <Route path={APP_ROUTES.about} element={<AboutPage onBack={closeAbout} />} />
+        <Route
+          path={APP_ROUTES.progress}
+          element={
+            <ProgressPage
+              runs={sessionRuns}
+              attemptLogs={attemptLogs}
+              trainings={trainings}
+              onBack={closeProgress}
+            />
+          }
+        />
         <Route path="/setup" element={<Navigate to={APP_ROUTES.setup} replace />} />
         <Route path="*" element={<Navigate to={APP_ROUTES.setup} replace />} />
       </Routes>
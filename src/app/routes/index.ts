@@ -6,4 +6,5 @@ export const APP_ROUTES = {
   settings: "/settings",
   results: "/results",
   about: "/about",
+  progress: "/progress",
 } as const satisfies Record<AppPage, string>;
@@ -1,2 +1,2 @@
-export type AppPage = "setup" | "practice" | "settings" | "results" | "about";
-export type ReturnPage = Exclude<AppPage, "settings" | "about">;
+export type AppPage = "setup" | "practice" | "settings" | "results" | "about" | "progress";
+export type ReturnPage = Exclude<AppPage, "settings" | "about" | "progress">;
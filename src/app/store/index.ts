@@ -1 +1 @@
-export {};
+export { useRepositoryList, useRepositoryPages } from "./useRepository";
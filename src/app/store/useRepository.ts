@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useState } from "react";
+import type { Repository, TimelineRepository } from "../../shared/storage";
+
+type PagedRecords<T> = {
+  items: T[];
+  total: number;
+  hasMore: boolean;
+  loadMore: () => void;
+};
+
+/**
+ * Runs `load` now and after every write to the repository's store, in this
+ * tab or another. Only the latest load's result is kept.
+ */
+function useStoreLoader<T>(
+  repository: Repository<unknown>,
+  load: () => Promise<T>,
+  onLoad: (result: T) => void,
+): void {
+  useEffect(() => {
+    let active = true;
+    let latest = 0;
+
+    const reload = () => {
+      const request = ++latest;
+      void load()
+        .then((result) => {
+          if (active && request === latest) onLoad(result);
+        })
+        .catch((error: unknown) => {
+          console.warn(`Failed to read ${repository.store} from storage.`, error);
+        });
+    };
+
+    reload();
+    const unsubscribe = repository.subscribe(reload);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [repository, load, onLoad]);
+}
+
+/** Every valid record of a store, kept current as the store changes. */
+export function useRepositoryList<T>(repository: Repository<T>): T[] {
+  const [records, setRecords] = useState<T[]>([]);
+  const load = useCallback(() => repository.list(), [repository]);
+  useStoreLoader(repository, load, setRecords);
+  return records;
+}
+
+/** The newest records of a store, `pageSize` at a time, kept current as the store changes. */
+export function useRepositoryPages<T>(
+  repository: TimelineRepository<T>,
+  pageSize: number,
+): PagedRecords<T> {
+  const [pageCount, setPageCount] = useState(1);
+  const [page, setPage] = useState<{ items: T[]; total: number }>({ items: [], total: 0 });
+  // Reloading every shown page in one read keeps them consistent after a write.
+  const load = useCallback(
+    () => repository.page(0, pageCount * pageSize),
+    [repository, pageCount, pageSize],
+  );
+  useStoreLoader(repository, load, setPage);
+
+  const loadMore = useCallback(() => setPageCount((count) => count + 1), []);
+  return {
+    items: page.items,
+    total: page.total,
+    hasMore: page.items.length < page.total,
+    loadMore,
+  };
+}
@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import { generateScore } from "../generateScore";
+
+const BASE_OPTIONS = { minNote: "C4", maxNote: "C5", noteCount: 64, seed: 7 } as const;
+
+// Diatonic distances between consecutive notes of a single line in C major, C4–C5.
+const WHITE_KEYS = [60, 62, 64, 65, 67, 69, 71, 72];
+const melodicMoves = (options: Parameters<typeof generateScore>[0]) => {
+  const line = generateScore(options).expectedSteps.map((step) => WHITE_KEYS.indexOf(step.notes[0]));
+  return line.slice(1).map((index, position) => index - line[position]);
+};
+
+describe("generateScore", () => {
+  it("is deterministic for a given seed", () => {
+    expect(generateScore(BASE_OPTIONS)).toEqual(generateScore(BASE_OPTIONS));
+  });
+
+  it("writes the requested key signature", () => {
+    const { xml } = generateScore({ ...BASE_OPTIONS, keySignature: "Bbm" });
+    expect(xml).toContain("<key><fifths>-5</fifths><mode>minor</mode></key>");
+  });
+
+  it("keeps expected notes inside the key when no accidentals are requested", () => {
+    // D major sharpens F and C; C#5 (73) falls outside the C4–C5 range.
+    const { expectedSteps, xml } = generateScore({ ...BASE_OPTIONS, keySignature: "D" });
+    const expectedNotes = expectedSteps.flatMap((step) => step.notes);
+    const dMajorPitchClasses = new Set([2, 4, 6, 7, 9, 11, 1]);
+
+    expect(expectedNotes.every((midi) => dMajorPitchClasses.has(midi % 12))).toBe(true);
+    expect(expectedNotes.every((midi) => midi >= 60 && midi <= 72)).toBe(true);
+    expect(xml).not.toContain("<accidental>");
+  });
+
+  it("emits alter and accidental elements for chromatic notes", () => {
+    const { expectedSteps, xml } = generateScore({ ...BASE_OPTIONS, accidentalDensity: 1 });
+    const expectedNotes = expectedSteps.flatMap((step) => step.notes);
+    const naturalPitchClasses = new Set([0, 2, 4, 5, 7, 9, 11]);
+
+    expect(expectedNotes.some((midi) => !naturalPitchClasses.has(midi % 12))).toBe(true);
+    expect(xml).toMatch(/<alter>(-1|1)<\/alter>/);
+    expect(xml).toMatch(/<accidental>(sharp|flat)<\/accidental>/);
+  });
+
+  it("rejects accidental densities outside 0–1", () => {
+    expect(() => generateScore({ ...BASE_OPTIONS, accidentalDensity: 1.5 })).toThrow(
+      /accidentalDensity/,
+    );
+  });
+
+  it("writes one expected note per step for single-note textures", () => {
+    const { expectedSteps } = generateScore(BASE_OPTIONS);
+    expect(expectedSteps).toHaveLength(BASE_OPTIONS.noteCount);
+    expect(expectedSteps.every((step) => step.notes.length === 1)).toBe(true);
+  });
+
+  it("builds dyads from the requested intervals", () => {
+    const { expectedSteps, xml } = generateScore({
+      ...BASE_OPTIONS,
+      texture: "intervals",
+      intervals: [8],
+    });
+
+    expect(expectedSteps.every((step) => step.notes[1] - step.notes[0] === 12)).toBe(true);
+    expect(xml.match(/<chord\/>/g)).toHaveLength(BASE_OPTIONS.noteCount);
+  });
+
+  it("builds ascending seventh chords within the range", () => {
+    const { expectedSteps } = generateScore({
+      ...BASE_OPTIONS,
+      minNote: "C3",
+      texture: "sevenths",
+      inversions: true,
+    });
+
+    for (const { notes } of expectedSteps) {
+      expect(notes).toHaveLength(4);
+      expect([...notes].sort((left, right) => left - right)).toEqual(notes);
+      expect(notes[0]).toBeGreaterThanOrEqual(48);
+      expect(notes[3]).toBeLessThanOrEqual(72);
+    }
+  });
+
+  it("rejects chord textures that do not fit the range", () => {
+    expect(() =>
+      generateScore({ ...BASE_OPTIONS, maxNote: "E4", texture: "sevenths" }),
+    ).toThrow(/too narrow/);
+  });
+
+  it("writes independent hands as two voices on their own staves", () => {
+    const { xml, expectedSteps } = generateScore({
+      ...BASE_OPTIONS,
+      minNote: "C3",
+      hands: "independent",
+    });
+
+    expect(xml).toContain("<voice>2</voice>");
+    expect(xml).toContain("<backup><duration>16</duration></backup>");
+    const voiceStaffPairs = [...xml.matchAll(/<voice>(\d)<\/voice>[\s\S]*?<staff>(\d)<\/staff>/g)];
+    expect(voiceStaffPairs.every(([, voice, staff]) => voice === staff)).toBe(true);
+    expect(expectedSteps.length).toBeGreaterThanOrEqual(BASE_OPTIONS.noteCount);
+  });
+
+  it("starts every measure with a slice that holds both hands", () => {
+    const { expectedSteps } = generateScore({
+      ...BASE_OPTIONS,
+      minNote: "C3",
+      noteCount: 1,
+      hands: "independent",
+    });
+
+    const [downbeat] = expectedSteps;
+    expect(downbeat.notes.some((midi) => midi < 60)).toBe(true);
+    expect(downbeat.notes.some((midi) => midi >= 60)).toBe(true);
+  });
+
+  it("requires a range spanning middle C for independent hands", () => {
+    expect(() => generateScore({ ...BASE_OPTIONS, hands: "independent" })).toThrow(/middle C/);
+  });
+
+  it("fills every measure of every voice to the time signature", () => {
+    const { xml, meter } = generateScore({
+      ...BASE_OPTIONS,
+      minNote: "C3",
+      hands: "independent",
+      timeSignature: "3/4",
+      rhythm: "mixed",
+    });
+
+    expect(meter).toEqual({ beats: 3, beatType: 4 });
+    for (const measure of xml.split("<measure ").slice(1)) {
+      for (const voice of measure.split("<backup>")) {
+        const durations = [...voice.matchAll(/<note>(?:(?!<chord\/>)[\s\S])*?<duration>(\d+)<\/duration>/g)];
+        const total = durations.reduce((sum, [, duration]) => sum + Number(duration), 0);
+        expect(total).toBe(12);
+      }
+    }
+  });
+
+  it("places steps on their onset beats and skips rests and tied notes", () => {
+    const { expectedSteps, xml } = generateScore({ ...BASE_OPTIONS, rhythm: "mixed" });
+    const beats = expectedSteps.map((step) => step.beat);
+
+    expect(expectedSteps).toHaveLength(BASE_OPTIONS.noteCount);
+    expect([...beats].sort((left, right) => left - right)).toEqual(beats);
+    expect(new Set(beats).size).toBe(beats.length);
+    expect(xml).toContain('<tie type="start"/>');
+    expect(xml).toContain("<rest/>");
+  });
+
+  it("spaces quarter-note steps one beat apart", () => {
+    const { expectedSteps } = generateScore({ ...BASE_OPTIONS, noteCount: 6 });
+    expect(expectedSteps.map((step) => step.beat)).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it("draws weighted notes more often and stays reproducible", () => {
+    const weighted = { ...BASE_OPTIONS, noteCount: 200, noteWeights: { 64: 20 } };
+    const countE4 = (options: Parameters<typeof generateScore>[0]) =>
+      generateScore(options)
+        .expectedSteps.flatMap((step) => step.notes)
+        .filter((note) => note === 64).length;
+
+    expect(generateScore(weighted)).toEqual(generateScore(weighted));
+    expect(countE4(weighted)).toBeGreaterThan(countE4({ ...weighted, noteWeights: undefined }) * 3);
+  });
+
+  it("rejects negative note weights", () => {
+    expect(() => generateScore({ ...BASE_OPTIONS, noteWeights: { 60: -1 } })).toThrow(/noteWeights/);
+  });
+
+  it("limits leaps to the largest allowed interval", () => {
+    const moves = melodicMoves({ ...BASE_OPTIONS, motion: { maxInterval: 3 } });
+    expect(moves.every((move) => Math.abs(move) <= 2)).toBe(true);
+    expect(moves.some((move) => Math.abs(move) === 2)).toBe(true);
+  });
+
+  it("moves only by step when the step ratio is 1", () => {
+    const moves = melodicMoves({ ...BASE_OPTIONS, motion: { stepRatio: 1 } });
+    expect(moves.every((move) => Math.abs(move) <= 1)).toBe(true);
+  });
+
+  it("moves only by the requested intervals", () => {
+    const moves = melodicMoves({ ...BASE_OPTIONS, motion: { intervals: [3, 5] } });
+    expect(new Set(moves.map(Math.abs))).toEqual(new Set([2, 4]));
+  });
+
+  it("runs scales up and down the range", () => {
+    const moves = melodicMoves({ ...BASE_OPTIONS, motion: { contour: "scale" } });
+    expect(moves.every((move) => Math.abs(move) === 1)).toBe(true);
+    expect(new Set(moves)).toEqual(new Set([1, -1]));
+  });
+
+  it("keeps the same score for a seed when motion is set", () => {
+    const options = { ...BASE_OPTIONS, motion: { contour: "sequence" as const } };
+    expect(generateScore(options)).toEqual(generateScore(options));
+  });
+
+  it("rejects invalid motion limits", () => {
+    expect(() => generateScore({ ...BASE_OPTIONS, motion: { maxInterval: 12 } })).toThrow(
+      /maxInterval/,
+    );
+    expect(() => generateScore({ ...BASE_OPTIONS, motion: { stepRatio: 2 } })).toThrow(/stepRatio/);
+  });
+});
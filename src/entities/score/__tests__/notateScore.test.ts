@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { notateScore } from "../notateScore";
+import { parseMusicXml } from "../parseMusicXml";
+
+const FOUR_FOUR = { beats: 4, beatType: 4 };
+
+describe("notateScore", () => {
+  it("merges both hands into expected steps", () => {
+    const { expectedSteps } = notateScore({
+      meter: FOUR_FOUR,
+      fifths: 0,
+      rightHand: [
+        { notes: [64], start: 0, duration: 1 },
+        { notes: [67], start: 1, duration: 0.5 },
+      ],
+      leftHand: [{ notes: [48, 55], start: 0, duration: 2 }],
+    });
+
+    expect(expectedSteps).toEqual([
+      { beat: 0, notes: [48, 55, 64] },
+      { beat: 1, notes: [67] },
+    ]);
+  });
+
+  it("ties notes over the barline and writes the title", () => {
+    const score = notateScore({
+      meter: { beats: 3, beatType: 4 },
+      fifths: 0,
+      title: "Etude",
+      rightHand: [{ notes: [72], start: 2, duration: 2 }],
+      leftHand: [],
+    });
+
+    expect(score.expectedSteps).toEqual([{ beat: 2, notes: [72] }]);
+    expect(score.xml).toContain('<tie type="start"/>');
+    expect(score.xml).toContain('<tie type="stop"/>');
+    // The written score reads back to the same steps.
+    expect(parseMusicXml(score.xml)).toMatchObject({ title: "Etude", expectedSteps: score.expectedSteps });
+  });
+
+  it("spells notes for the key", () => {
+    const { xml } = notateScore({
+      meter: FOUR_FOUR,
+      fifths: -3,
+      rightHand: [{ notes: [63, 66], start: 0, duration: 4 }],
+      leftHand: [],
+    });
+
+    // E♭ belongs to the key; F♯ is written as G♭ in a flat key.
+    expect(xml).toContain("<step>E</step>\n            <alter>-1</alter>");
+    expect(xml).toContain("<step>G</step>\n            <alter>-1</alter>");
+    expect(xml).toContain("<accidental>flat</accidental>");
+  });
+
+  it("cuts a chord short when the next one starts", () => {
+    const { expectedSteps } = notateScore({
+      meter: FOUR_FOUR,
+      fifths: 0,
+      rightHand: [
+        { notes: [60], start: 0, duration: 4 },
+        { notes: [62], start: 1, duration: 1 },
+      ],
+      leftHand: [],
+    });
+
+    expect(expectedSteps.map((step) => step.beat)).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { parseMusicXml } from "../parseMusicXml";
+
+function note(step: string, octave: number, duration: number, extra = ""): string {
+  return `<note>${extra}<pitch><step>${step}</step><octave>${octave}</octave></pitch><duration>${duration}</duration></note>`;
+}
+
+function score(measures: string[], attributes = "<divisions>1</divisions>"): string {
+  const body = measures
+    .map((content, index) =>
+      `<measure number="${index + 1}">${index === 0 ? `<attributes>${attributes}</attributes>` : ""}${content}</measure>`,
+    )
+    .join("");
+  return `<?xml version="1.0"?><score-partwise><work><work-title>Test piece</work-title></work><part-list/><part id="P1">${body}</part></score-partwise>`;
+}
+
+describe("parseMusicXml", () => {
+  it("reads single notes with their beats, title and meter", () => {
+    const result = parseMusicXml(
+      score(
+        [note("C", 4, 2) + note("D", 4, 1) + note("E", 4, 1)],
+        "<divisions>1</divisions><time><beats>4</beats><beat-type>4</beat-type></time>",
+      ),
+    );
+
+    expect(result.title).toBe("Test piece");
+    expect(result.meter).toEqual({ beats: 4, beatType: 4 });
+    expect(result.expectedSteps).toEqual([
+      { beat: 0, notes: [60] },
+      { beat: 2, notes: [62] },
+      { beat: 3, notes: [64] },
+    ]);
+  });
+
+  it("groups chords and applies alterations", () => {
+    const sharpF = '<note><chord/><pitch><step>F</step><alter>1</alter><octave>4</octave></pitch><duration>4</duration></note>';
+    const { expectedSteps } = parseMusicXml(score([note("D", 4, 4) + sharpF]));
+
+    expect(expectedSteps).toEqual([{ beat: 0, notes: [62, 66] }]);
+  });
+
+  it("skips grace notes and tied continuations", () => {
+    const { expectedSteps } = parseMusicXml(
+      score([
+        note("B", 3, 0, "<grace/>") + note("C", 4, 2) + note("G", 4, 2, '<tie type="start"/>'),
+        note("G", 4, 2, '<tie type="stop"/>') + note("A", 4, 2),
+      ]),
+    );
+
+    expect(expectedSteps).toEqual([
+      { beat: 0, notes: [60] },
+      { beat: 2, notes: [67] },
+      { beat: 6, notes: [69] },
+    ]);
+  });
+
+  it("merges voices written with backup and rests", () => {
+    const { expectedSteps } = parseMusicXml(
+      score([
+        note("E", 5, 4) +
+          "<backup><duration>4</duration></backup>" +
+          "<note><rest/><duration>1</duration></note>" +
+          note("C", 3, 3),
+      ]),
+    );
+
+    expect(expectedSteps).toEqual([
+      { beat: 0, notes: [76] },
+      { beat: 1, notes: [48] },
+    ]);
+  });
+
+  it("unrolls repeats and volta brackets", () => {
+    const forward = '<barline location="left"><repeat direction="forward"/></barline>';
+    const backward = '<barline location="right"><repeat direction="backward"/></barline>';
+    const { expectedSteps } = parseMusicXml(
+      score([
+        forward + note("C", 4, 4),
+        '<barline location="left"><ending number="1" type="start"/></barline>' +
+          note("D", 4, 4) +
+          '<barline location="right"><ending number="1" type="stop"/><repeat direction="backward"/></barline>',
+        '<barline location="left"><ending number="2" type="start"/></barline>' +
+          note("E", 4, 4) +
+          '<barline location="right"><ending number="2" type="discontinue"/></barline>',
+        forward + note("F", 4, 4) + backward,
+      ]),
+    );
+
+    expect(expectedSteps.map((step) => step.notes[0])).toEqual([60, 62, 60, 64, 65, 65]);
+    expect(expectedSteps.map((step) => step.beat)).toEqual([0, 4, 8, 12, 16, 20]);
+  });
+
+  it("merges parts that use different divisions", () => {
+    const xml =
+      "<score-partwise><part-list/>" +
+      `<part id="P1"><measure><attributes><divisions>1</divisions></attributes>${note("C", 5, 2)}${note("D", 5, 2)}</measure></part>` +
+      `<part id="P2"><measure><attributes><divisions>4</divisions></attributes>${note("C", 3, 8)}${note("G", 2, 8)}</measure></part>` +
+      "</score-partwise>";
+
+    expect(parseMusicXml(xml).expectedSteps).toEqual([
+      { beat: 0, notes: [48, 72] },
+      { beat: 2, notes: [43, 74] },
+    ]);
+  });
+
+  it("rejects timewise scores and scores without notes", () => {
+    expect(() => parseMusicXml("<score-timewise/>")).toThrow(/partwise/);
+    expect(() => parseMusicXml(score(["<note><rest/><duration>4</duration></note>"]))).toThrow(
+      /no playable notes/,
+    );
+  });
+});
@@ -1,161 +1,507 @@
-import type { GeneratedScore, GeneratorOptions, NoteStep } from "./types";
+import { getKeySignature } from "./keys";
+import {
+  DIVISIONS,
+  MIDDLE_C_MIDI,
+  collectSteps,
+  pushEvent,
+  serializeAttributes,
+  serializeScore,
+  serializeVoice,
+  type NoteEvent,
+} from "./notation";
+import {
+  chromaticAlteration,
+  diatonicIndex,
+  diatonicPitchesInRange,
+  parseNoteName,
+  pitchAtDiatonicIndex,
+  pitchToMidi,
+  type Alter,
+  type Pitch,
+} from "./pitch";
+import { createRng, pick, pickWeighted } from "./random";
+import { INTERVAL_SIZES, MELODIC_CONTOURS } from "./types";
+import type {
+  ExpectedStep,
+  GeneratedScore,
+  GeneratorOptions,
+  MelodicContour,
+  MelodicMotion,
+  Meter,
+  NoteRange,
+  RhythmLevel,
+  Texture,
+  TimeSignatureName,
+} from "./types";
 
-type Pitch = {
-  step: NoteStep;
-  octave: number;
+/** Diatonic offsets of each chord tone above the lowest note. */
+type ChordShape = readonly number[];
+
+/**
+ * One voice of the score. Combined mode uses a single voice whose staff is
+ * inferred per chord; independent hands use one voice per staff.
+ */
+type VoicePart = {
+  voice: 1 | 2;
+  staff: 1 | 2 | null;
+  durations: readonly number[];
+  nextChord: () => Pitch[];
 };
 
-const NOTE_STEPS: readonly NoteStep[] = ["C", "D", "E", "F", "G", "A", "B"];
+/** What a voice carries over the barline: the unfinished part of a tied note. */
+type VoiceCarry = {
+  chord: Pitch[];
+  remaining: number;
+} | null;
 
-const SEMITONE_OFFSET: Readonly<Record<NoteStep, number>> = {
-  C: 0,
-  D: 2,
-  E: 4,
-  F: 5,
-  G: 7,
-  A: 9,
-  B: 11,
+type RhythmPreset = {
+  melody: readonly number[];
+  accompaniment: readonly number[];
+  restDensity: number;
+  ties: boolean;
 };
 
-const DIVISIONS = 4;
-const NOTES_PER_MEASURE = 4;
+type ChordContext = {
+  fifths: number;
+  label: string;
+  texture: Texture;
+  intervals: readonly number[];
+  inversions: boolean;
+  accidentalDensity: number;
+  noteWeights?: Readonly<Record<number, number>>;
+  motion?: MelodicMotion;
+};
 
-function createRng(seed: number): () => number {
-  let state = seed >>> 0;
-  return () => {
-    state += 0x6d2b79f5;
-    let t = state;
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
+const TRIAD_SHAPES: readonly ChordShape[] = [
+  [0, 2, 4],
+  [0, 2, 5],
+  [0, 3, 5],
+];
+
+const SEVENTH_SHAPES: readonly ChordShape[] = [
+  [0, 2, 4, 6],
+  [0, 2, 4, 5],
+  [0, 2, 3, 5],
+  [0, 1, 3, 5],
+];
+
+const DEFAULT_INTERVALS: readonly number[] = [3, 5, 8];
+
+// Diatonic moves of the patterned contours, repeated in turn. A source picks
+// one motif and mirrors it whenever the line runs into the edge of its range.
+const CONTOUR_MOTIFS: Readonly<Record<Exclude<MelodicContour, "free">, readonly (readonly number[])[]>> = {
+  scale: [[1]],
+  arpeggio: [[2, 2, 3]],
+  sequence: [
+    [1, 1, -1],
+    [2, -1],
+    [1, 1, 1, -2],
+  ],
+};
+
+const EIGHTH = DIVISIONS / 2;
+const QUARTER = DIVISIONS;
+const DOTTED_QUARTER = DIVISIONS * 1.5;
+const HALF = DIVISIONS * 2;
+const DOTTED_HALF = DIVISIONS * 3;
+const WHOLE = DIVISIONS * 4;
+
+// Repeated entries weight the draw. The melody (combined line or right hand)
+// carries the rhythm; the left-hand accompaniment moves in longer values.
+const RHYTHM_PRESETS: Readonly<Record<RhythmLevel, RhythmPreset>> = {
+  quarters: {
+    melody: [QUARTER],
+    accompaniment: [QUARTER, HALF, HALF, WHOLE],
+    restDensity: 0,
+    ties: false,
+  },
+  simple: {
+    melody: [QUARTER, QUARTER, QUARTER, HALF, HALF, DOTTED_HALF, WHOLE],
+    accompaniment: [QUARTER, HALF, HALF, DOTTED_HALF, WHOLE],
+    restDensity: 0.1,
+    ties: false,
+  },
+  mixed: {
+    melody: [EIGHTH, EIGHTH, EIGHTH, EIGHTH, QUARTER, QUARTER, DOTTED_QUARTER, HALF, DOTTED_HALF],
+    accompaniment: [QUARTER, HALF, HALF, DOTTED_HALF, WHOLE],
+    restDensity: 0.12,
+    ties: true,
+  },
+};
+
+const METERS: Readonly<Record<TimeSignatureName, Meter>> = {
+  "2/4": { beats: 2, beatType: 4 },
+  "3/4": { beats: 3, beatType: 4 },
+  "4/4": { beats: 4, beatType: 4 },
+};
+
+function chordShapesForTexture(
+  texture: Texture,
+  intervals: readonly number[],
+  inversions: boolean,
+): readonly ChordShape[] {
+  switch (texture) {
+    case "intervals":
+      return intervals.map((size) => [0, size - 1]);
+    case "triads":
+      return inversions ? TRIAD_SHAPES : TRIAD_SHAPES.slice(0, 1);
+    case "sevenths":
+      return inversions ? SEVENTH_SHAPES : SEVENTH_SHAPES.slice(0, 1);
+    case "single":
+    default:
+      return [[0]];
+  }
 }
 
-function pick<T>(items: readonly T[], rng: () => number): T {
-  return items[Math.floor(rng() * items.length)];
+function buildChord(bass: Pitch, shape: ChordShape, fifths: number): Pitch[] {
+  const bassIndex = diatonicIndex(bass);
+  return shape.map((offset) => pitchAtDiatonicIndex(bassIndex + offset, fifths));
 }
 
-function parseNoteName(note: string): Pitch {
-  const match = /^([A-G])([0-8])$/.exec(note);
-  if (!match) {
-    throw new Error(`Invalid note name "${note}". Expected natural note like C4.`);
+/**
+ * Validates a range against the texture and returns a function that draws the
+ * next chord (a single-note chord for the "single" texture) from it.
+ */
+function createChordSource(
+  range: NoteRange,
+  context: ChordContext,
+  rng: () => number,
+): () => Pitch[] {
+  const { fifths, label, texture, intervals, inversions, accidentalDensity, noteWeights, motion } =
+    context;
+  const minMidi = pitchToMidi(parseNoteName(range.minNote));
+  const maxMidi = pitchToMidi(parseNoteName(range.maxNote));
+
+  if (minMidi > maxMidi) {
+    throw new Error(`minNote must be <= maxNote. Received: ${range.minNote} > ${range.maxNote}.`);
+  }
+
+  const pitchPool = diatonicPitchesInRange(minMidi, maxMidi, fifths);
+  if (pitchPool.length === 0) {
+    throw new Error(`No pitches in ${label} available between ${range.minNote} and ${range.maxNote}.`);
   }
 
-  return {
-    step: match[1] as NoteStep,
-    octave: Number(match[2]),
+  const isInRange = (pitch: Pitch) => {
+    const midi = pitchToMidi(pitch);
+    return midi >= minMidi && midi <= maxMidi;
   };
-}
 
-function pitchToMidi(pitch: Pitch): number {
-  return (pitch.octave + 1) * 12 + SEMITONE_OFFSET[pitch.step];
-}
+  // A chord weighs the mean of its notes' weights, so weak notes come up in any voice.
+  const chordWeight = (bass: Pitch, shape: ChordShape) => {
+    const notes = buildChord(bass, shape, fifths).map(pitchToMidi);
+    return notes.reduce((sum, note) => sum + (noteWeights?.[note] ?? 1), 0) / notes.length;
+  };
+
+  const fittingShapes = chordShapesForTexture(texture, intervals, inversions)
+    .map((shape) => {
+      const basses = pitchPool.filter((bass) => buildChord(bass, shape, fifths).every(isInRange));
+      return { shape, basses, weights: basses.map((bass) => chordWeight(bass, shape)) };
+    })
+    .filter(({ basses }) => basses.length > 0);
+
+  if (fittingShapes.length === 0) {
+    throw new Error(`Range ${range.minNote} – ${range.maxNote} is too narrow for ${texture}.`);
+  }
+
+  const drawBass = (basses: readonly Pitch[], weights: readonly number[]) =>
+    noteWeights ? pickWeighted(basses, weights, rng) : pick(basses, rng);
+  const nextBass = motion ? createMotionSource(motion, drawBass, rng) : drawBass;
 
-function naturalPitchesInRange(minMidi: number, maxMidi: number): readonly Pitch[] {
-  const pitches: Pitch[] = [];
+  return () => {
+    const { shape, basses, weights } =
+      fittingShapes.length === 1 ? fittingShapes[0] : pick(fittingShapes, rng);
+    const bass = nextBass(basses, weights);
+    const chord: Pitch[] = [];
 
-  for (let octave = 0; octave <= 8; octave++) {
-    for (const step of NOTE_STEPS) {
-      const midi = pitchToMidi({ step, octave });
-      if (midi >= minMidi && midi <= maxMidi) {
-        pitches.push({ step, octave });
+    for (const diatonic of buildChord(bass, shape, fifths)) {
+      if (accidentalDensity > 0 && rng() < accidentalDensity) {
+        const altered = chromaticAlteration(diatonic, fifths, rng);
+        const collides = chord.some((tone) => pitchToMidi(tone) === pitchToMidi(altered));
+        chord.push(isInRange(altered) && !collides ? altered : diatonic);
+      } else {
+        chord.push(diatonic);
       }
     }
-  }
 
-  return pitches;
+    return chord.sort((left, right) => pitchToMidi(left) - pitchToMidi(right));
+  };
 }
 
-function inferStaffFromPitch(pitch: Pitch): 1 | 2 {
-  return pitchToMidi(pitch) >= 60 ? 1 : 2;
+/**
+ * Wraps a bass draw so consecutive basses follow the melodic motion. Whenever
+ * no candidate satisfies the constraints the line restarts from a free draw.
+ */
+function createMotionSource(
+  motion: MelodicMotion,
+  drawBass: (basses: readonly Pitch[], weights: readonly number[]) => Pitch,
+  rng: () => number,
+): (basses: readonly Pitch[], weights: readonly number[]) => Pitch {
+  const { contour = "free", maxInterval = Infinity, stepRatio, intervals } = motion;
+  const motif = contour === "free" ? [] : pick(CONTOUR_MOTIFS[contour], rng);
+  let previous: number | null = null;
+  let direction = rng() < 0.5 ? 1 : -1;
+  let moveIndex = 0;
+
+  const followMotif = (basses: readonly Pitch[], from: number) => {
+    const move = motif[moveIndex % motif.length];
+    for (const turn of [direction, -direction]) {
+      const bass = basses.find((candidate) => diatonicIndex(candidate) === from + move * turn);
+      if (bass) {
+        direction = turn;
+        moveIndex += 1;
+        return bass;
+      }
+    }
+    return undefined;
+  };
+
+  const constrainedDraw = (basses: readonly Pitch[], weights: readonly number[], from: number) => {
+    const candidates = basses
+      .map((bass, index) => ({
+        bass,
+        weight: weights[index],
+        size: Math.abs(diatonicIndex(bass) - from) + 1,
+      }))
+      .filter(({ size }) => size <= maxInterval && (!intervals || intervals.includes(size)));
+    if (candidates.length === 0) return undefined;
+
+    let pool = candidates;
+    if (stepRatio !== undefined) {
+      const wantsStep = rng() < stepRatio;
+      const preferred = candidates.filter(({ size }) => (size <= 2) === wantsStep);
+      if (preferred.length > 0) pool = preferred;
+    }
+    return drawBass(
+      pool.map(({ bass }) => bass),
+      pool.map(({ weight }) => weight),
+    );
+  };
+
+  return (basses, weights) => {
+    const next =
+      previous === null
+        ? undefined
+        : contour === "free"
+          ? constrainedDraw(basses, weights, previous)
+          : followMotif(basses, previous);
+    const bass = next ?? drawBass(basses, weights);
+    if (!next) moveIndex = 0;
+    previous = diatonicIndex(bass);
+    return bass;
+  };
 }
 
-function serializeAttributes(): string {
-  return [
-    "        <attributes>",
-    `          <divisions>${DIVISIONS}</divisions>`,
-    "          <key><fifths>0</fifths></key>",
-    "          <time><beats>4</beats><beat-type>4</beat-type></time>",
-    "          <staves>2</staves>",
-    "          <clef number=\"1\"><sign>G</sign><line>2</line></clef>",
-    "          <clef number=\"2\"><sign>F</sign><line>4</line></clef>",
-    "        </attributes>",
-  ].join("\n");
+/**
+ * Fills one measure of a voice. Returns the events, the number of new note
+ * onsets and anything tied over into the next measure. Once `onsetBudget`
+ * notes have been written the rest of the measure is filled with rests.
+ */
+function fillMeasure(
+  part: VoicePart,
+  capacity: number,
+  rhythm: RhythmPreset,
+  carry: VoiceCarry,
+  onsetBudget: number,
+  rng: () => number,
+): { events: NoteEvent[]; onsets: number; carry: VoiceCarry } {
+  const events: NoteEvent[] = [];
+  let filled = 0;
+  let onsets = 0;
+
+  if (carry) {
+    const length = Math.min(carry.remaining, capacity);
+    const remaining = carry.remaining - length;
+    pushEvent(events, carry.chord, length, true, remaining > 0);
+    filled += length;
+    if (remaining > 0) {
+      return { events, onsets, carry: { chord: carry.chord, remaining } };
+    }
+  }
+
+  while (filled < capacity) {
+    const space = capacity - filled;
+
+    if (onsets >= onsetBudget) {
+      pushEvent(events, [], space, false, false);
+      break;
+    }
+
+    const limit = rhythm.ties ? capacity : space;
+    const fitting = part.durations.filter((duration) => duration <= limit);
+    if (fitting.length === 0) {
+      pushEvent(events, [], space, false, false);
+      break;
+    }
+
+    const duration = fitting.length === 1 ? fitting[0] : pick(fitting, rng);
+    const isRest = rhythm.restDensity > 0 && rng() < rhythm.restDensity;
+    const chord = isRest ? [] : part.nextChord();
+    const length = Math.min(duration, space);
+    const overflow = isRest ? 0 : duration - length;
+
+    pushEvent(events, chord, length, false, overflow > 0);
+    filled += length;
+    if (!isRest) onsets += 1;
+
+    if (overflow > 0) {
+      return { events, onsets, carry: { chord, remaining: overflow } };
+    }
+  }
+
+  return { events, onsets, carry: null };
 }
 
-function serializeNote(pitch: Pitch): string {
-  return [
-    "        <note>",
-    "          <pitch>",
-    `            <step>${pitch.step}</step>`,
-    `            <octave>${pitch.octave}</octave>`,
-    "          </pitch>",
-    "          <voice>1</voice>",
-    `          <duration>${DIVISIONS}</duration>`,
-    "          <type>quarter</type>",
-    `          <staff>${inferStaffFromPitch(pitch)}</staff>`,
-    "        </note>",
-  ].join("\n");
+function validateMotion({ contour, maxInterval, stepRatio, intervals }: MelodicMotion): void {
+  if (contour !== undefined && !MELODIC_CONTOURS.includes(contour)) {
+    throw new Error(`Unsupported melodic contour "${contour}".`);
+  }
+  if (maxInterval !== undefined && !INTERVAL_SIZES.includes(maxInterval)) {
+    throw new Error(`motion.maxInterval must be a size between 2 and 8. Received: ${maxInterval}`);
+  }
+  if (stepRatio !== undefined && (!Number.isFinite(stepRatio) || stepRatio < 0 || stepRatio > 1)) {
+    throw new Error(`motion.stepRatio must be between 0 and 1. Received: ${stepRatio}`);
+  }
+  if (intervals && (intervals.length === 0 || intervals.some((size) => !INTERVAL_SIZES.includes(size)))) {
+    throw new Error(`motion.intervals must be sizes between 2 and 8. Received: [${intervals.join(", ")}]`);
+  }
 }
 
 export function generateScore(options: GeneratorOptions): GeneratedScore {
-  const { minNote, maxNote, noteCount, seed = Date.now() } = options;
+  const {
+    minNote,
+    maxNote,
+    noteCount,
+    seed = Date.now(),
+    keySignature = "C",
+    accidentalDensity = 0,
+    texture = "single",
+    intervals = DEFAULT_INTERVALS,
+    inversions = false,
+    hands = "combined",
+    rightHand = { minNote: "C4", maxNote },
+    leftHand = { minNote, maxNote: "B3" },
+    timeSignature = "4/4",
+    rhythm = "quarters",
+    noteWeights,
+    motion,
+  } = options;
 
   if (!Number.isInteger(noteCount) || noteCount <= 0) {
     throw new Error(`noteCount must be a positive integer. Received: ${noteCount}`);
   }
 
-  const minMidi = pitchToMidi(parseNoteName(minNote));
-  const maxMidi = pitchToMidi(parseNoteName(maxNote));
+  if (!Number.isFinite(accidentalDensity) || accidentalDensity < 0 || accidentalDensity > 1) {
+    throw new Error(`accidentalDensity must be between 0 and 1. Received: ${accidentalDensity}`);
+  }
 
-  if (minMidi > maxMidi) {
-    throw new Error(`minNote must be <= maxNote. Received: ${minNote} > ${maxNote}.`);
+  if (texture === "intervals") {
+    if (intervals.length === 0 || intervals.some((size) => !INTERVAL_SIZES.includes(size))) {
+      throw new Error(`intervals must be sizes between 2 and 8. Received: [${intervals.join(", ")}]`);
+    }
   }
 
-  const pitchPool = naturalPitchesInRange(minMidi, maxMidi);
-  if (pitchPool.length === 0) {
-    throw new Error(`No natural pitches available between ${minNote} and ${maxNote}.`);
+  if (noteWeights && Object.values(noteWeights).some((weight) => !Number.isFinite(weight) || weight < 0)) {
+    throw new Error("noteWeights must be non-negative numbers.");
+  }
+
+  if (motion) {
+    validateMotion(motion);
+  }
+
+  if (hands === "independent" && (!options.rightHand || !options.leftHand)) {
+    const spansMiddleC =
+      pitchToMidi(parseNoteName(minNote)) < MIDDLE_C_MIDI &&
+      pitchToMidi(parseNoteName(maxNote)) >= MIDDLE_C_MIDI;
+    if (!spansMiddleC) {
+      throw new Error(`Independent hands need a range that spans middle C. Received: ${minNote} – ${maxNote}.`);
+    }
+  }
+
+  const meter = METERS[timeSignature];
+  if (!meter) {
+    throw new Error(`Unsupported time signature "${timeSignature}".`);
   }
 
+  const preset = RHYTHM_PRESETS[rhythm];
+  if (!preset) {
+    throw new Error(`Unsupported rhythm "${rhythm}".`);
+  }
+
+  const { fifths, mode, label } = getKeySignature(keySignature);
+  const context: ChordContext = {
+    fifths,
+    label,
+    texture,
+    intervals,
+    inversions,
+    accidentalDensity,
+    noteWeights,
+    motion,
+  };
   const rng = createRng(seed);
-  const expectedNotes: number[] = [];
+  const measureDivisions = (meter.beats * WHOLE) / meter.beatType;
+
+  const parts: VoicePart[] =
+    hands === "independent"
+      ? [
+          {
+            voice: 1,
+            staff: 1,
+            durations: preset.melody,
+            nextChord: createChordSource(rightHand, context, rng),
+          },
+          {
+            voice: 2,
+            staff: 2,
+            durations: preset.accompaniment,
+            nextChord: createChordSource(leftHand, context, rng),
+          },
+        ]
+      : [
+          {
+            voice: 1,
+            staff: null,
+            durations: preset.melody,
+            nextChord: createChordSource({ minNote, maxNote }, context, rng),
+          },
+        ];
+
+  const expectedSteps: ExpectedStep[] = [];
   const measureXmls: string[] = [];
+  const carries: VoiceCarry[] = parts.map(() => null);
 
   let remaining = noteCount;
   let measureNumber = 1;
 
-  while (remaining > 0) {
-    const count = Math.min(NOTES_PER_MEASURE, remaining);
-    const notes: Pitch[] = [];
-    for (let i = 0; i < count; i++) {
-      notes.push(pick(pitchPool, rng));
-    }
+  // Combined mode writes exactly `noteCount` steps and rests out the final
+  // measure. Independent hands always complete the measure, so they may
+  // overshoot by a few steps.
+  while (remaining > 0 || carries.some((carry) => carry !== null)) {
+    const onsetBudget = remaining <= 0 ? 0 : hands === "independent" ? Infinity : remaining;
+    const voices = parts.map((part, index) => {
+      const filled = fillMeasure(part, measureDivisions, preset, carries[index], onsetBudget, rng);
+      carries[index] = filled.carry;
+      return filled.events;
+    });
+    const measureStart = (measureNumber - 1) * measureDivisions;
+    const steps = collectSteps(voices, measureStart);
 
-    expectedNotes.push(...notes.map(pitchToMidi));
-    const attributes = measureNumber === 1 ? "\n" + serializeAttributes() : "";
-    const noteElements = notes.map((note) => serializeNote(note)).join("\n");
+    expectedSteps.push(...steps);
+    const attributes = measureNumber === 1 ? "\n" + serializeAttributes(fifths, mode, meter) : "";
+    const measureAlters = new Map<string, Alter>();
+    const noteElements = parts
+      .map((part, index) => serializeVoice(part, voices[index], fifths, measureAlters))
+      .join(`\n        <backup><duration>${measureDivisions}</duration></backup>\n`);
 
     measureXmls.push(
       [`      <measure number="${measureNumber}">${attributes}`, noteElements, "      </measure>"].join("\n"),
     );
 
     measureNumber += 1;
-    remaining -= count;
-  }
-
-  const xml = [
-    '<?xml version="1.0" encoding="UTF-8"?>',
-    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 3.1 Partwise//EN"',
-    '  "http://www.musicxml.org/dtds/partwise.dtd">',
-    '<score-partwise version="3.1">',
-    "  <part-list>",
-    '    <score-part id="P1"><part-name>Music</part-name></score-part>',
-    "  </part-list>",
-    '  <part id="P1">',
-    measureXmls.join("\n"),
-    "  </part>",
-    "</score-partwise>",
-  ].join("\n");
-
-  return { xml, expectedNotes };
+    remaining -= steps.length;
+  }
+
+  const xml = serializeScore(measureXmls);
+
+  return { xml, expectedSteps, meter };
 }
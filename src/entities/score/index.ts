@@ -1,3 +1,26 @@
 export { generateScore } from "./generateScore";
-export { NOTE_NAMES } from "./types";
-export type { GeneratedScore, GeneratorOptions, NoteName } from "./types";
+export { KEY_SIGNATURES, getKeySignature, isKeySignatureName } from "./keys";
+export { notateScore } from "./notateScore";
+export { parseMusicXml } from "./parseMusicXml";
+export { diatonicIndex, midiToPitch, noteNameToMidi } from "./pitch";
+export { INTERVAL_SIZES, MELODIC_CONTOURS, NOTE_NAMES, TIME_SIGNATURES } from "./types";
+export type { KeySignature } from "./keys";
+export type { NotationOptions } from "./notateScore";
+export type {
+  ExpectedStep,
+  GeneratedScore,
+  GeneratorOptions,
+  HandMode,
+  ImportedScore,
+  KeyMode,
+  KeySignatureName,
+  MelodicContour,
+  MelodicMotion,
+  Meter,
+  NoteName,
+  NoteRange,
+  RhythmLevel,
+  Texture,
+  TimedChord,
+  TimeSignatureName,
+} from "./types";
@@ -0,0 +1,66 @@
+import type { KeyMode, KeySignatureName, NoteStep } from "./types";
+
+export type KeySignature = {
+  name: KeySignatureName;
+  label: string;
+  fifths: number;
+  mode: KeyMode;
+};
+
+const SHARP_ORDER: readonly NoteStep[] = ["F", "C", "G", "D", "A", "E", "B"];
+const FLAT_ORDER: readonly NoteStep[] = ["B", "E", "A", "D", "G", "C", "F"];
+
+export const KEY_SIGNATURES: readonly KeySignature[] = [
+  { name: "C", label: "C major", fifths: 0, mode: "major" },
+  { name: "G", label: "G major", fifths: 1, mode: "major" },
+  { name: "D", label: "D major", fifths: 2, mode: "major" },
+  { name: "A", label: "A major", fifths: 3, mode: "major" },
+  { name: "E", label: "E major", fifths: 4, mode: "major" },
+  { name: "B", label: "B major", fifths: 5, mode: "major" },
+  { name: "F#", label: "F♯ major", fifths: 6, mode: "major" },
+  { name: "C#", label: "C♯ major", fifths: 7, mode: "major" },
+  { name: "F", label: "F major", fifths: -1, mode: "major" },
+  { name: "Bb", label: "B♭ major", fifths: -2, mode: "major" },
+  { name: "Eb", label: "E♭ major", fifths: -3, mode: "major" },
+  { name: "Ab", label: "A♭ major", fifths: -4, mode: "major" },
+  { name: "Db", label: "D♭ major", fifths: -5, mode: "major" },
+  { name: "Gb", label: "G♭ major", fifths: -6, mode: "major" },
+  { name: "Cb", label: "C♭ major", fifths: -7, mode: "major" },
+  { name: "Am", label: "A minor", fifths: 0, mode: "minor" },
+  { name: "Em", label: "E minor", fifths: 1, mode: "minor" },
+  { name: "Bm", label: "B minor", fifths: 2, mode: "minor" },
+  { name: "F#m", label: "F♯ minor", fifths: 3, mode: "minor" },
+  { name: "C#m", label: "C♯ minor", fifths: 4, mode: "minor" },
+  { name: "G#m", label: "G♯ minor", fifths: 5, mode: "minor" },
+  { name: "D#m", label: "D♯ minor", fifths: 6, mode: "minor" },
+  { name: "A#m", label: "A♯ minor", fifths: 7, mode: "minor" },
+  { name: "Dm", label: "D minor", fifths: -1, mode: "minor" },
+  { name: "Gm", label: "G minor", fifths: -2, mode: "minor" },
+  { name: "Cm", label: "C minor", fifths: -3, mode: "minor" },
+  { name: "Fm", label: "F minor", fifths: -4, mode: "minor" },
+  { name: "Bbm", label: "B♭ minor", fifths: -5, mode: "minor" },
+  { name: "Ebm", label: "E♭ minor", fifths: -6, mode: "minor" },
+  { name: "Abm", label: "A♭ minor", fifths: -7, mode: "minor" },
+];
+
+export function isKeySignatureName(value: unknown): value is KeySignatureName {
+  return KEY_SIGNATURES.some((key) => key.name === value);
+}
+
+export function getKeySignature(name: KeySignatureName): KeySignature {
+  const key = KEY_SIGNATURES.find((candidate) => candidate.name === name);
+  if (!key) {
+    throw new Error(`Unknown key signature "${name}".`);
+  }
+  return key;
+}
+
+/**
+ * Returns the alteration the key signature applies to a step:
+ * +1 for sharpened steps, -1 for flattened steps, 0 otherwise.
+ */
+export function keyAlterForStep(step: NoteStep, fifths: number): -1 | 0 | 1 {
+  if (fifths > 0 && SHARP_ORDER.slice(0, fifths).includes(step)) return 1;
+  if (fifths < 0 && FLAT_ORDER.slice(0, -fifths).includes(step)) return -1;
+  return 0;
+}
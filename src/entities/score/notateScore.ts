@@ -0,0 +1,135 @@
+import {
+  DIVISIONS,
+  collectSteps,
+  pushEvent,
+  serializeAttributes,
+  serializeScore,
+  serializeVoice,
+  type NoteEvent,
+  type VoiceLayout,
+} from "./notation";
+import { midiToPitch, type Alter, type Pitch } from "./pitch";
+import type { ExpectedStep, GeneratedScore, KeyMode, Meter, TimedChord } from "./types";
+
+export type NotationOptions = {
+  meter: Meter;
+  fifths: number;
+  mode?: KeyMode;
+  title?: string;
+  /** Chords written on the treble staff. */
+  rightHand: readonly TimedChord[];
+  /** Chords written on the bass staff. */
+  leftHand: readonly TimedChord[];
+};
+
+type Segment = {
+  chord: Pitch[];
+  start: number;
+  end: number;
+};
+
+const RIGHT_HAND: VoiceLayout = { voice: 1, staff: 1 };
+const LEFT_HAND: VoiceLayout = { voice: 2, staff: 2 };
+
+/**
+ * Snaps chords to the notation grid and makes the hand monophonic in chords:
+ * chords on the same onset merge, and a chord still sounding when the next
+ * one starts is cut short.
+ */
+function toSegments(chords: readonly TimedChord[], fifths: number): Segment[] {
+  const byStart = new Map<number, { notes: Set<number>; end: number }>();
+
+  for (const chord of chords) {
+    if (chord.notes.length === 0) continue;
+    const start = Math.max(0, Math.round(chord.start * DIVISIONS));
+    const end = start + Math.max(1, Math.round(chord.duration * DIVISIONS));
+    const entry = byStart.get(start) ?? { notes: new Set<number>(), end };
+    chord.notes.forEach((note) => entry.notes.add(note));
+    entry.end = Math.max(entry.end, end);
+    byStart.set(start, entry);
+  }
+
+  const starts = [...byStart.keys()].sort((left, right) => left - right);
+  return starts.map((start, index) => {
+    const { notes, end } = byStart.get(start)!;
+    const next = starts[index + 1] ?? Infinity;
+    return {
+      chord: [...notes].sort((left, right) => left - right).map((note) => midiToPitch(note, fifths)),
+      start,
+      end: Math.min(end, next),
+    };
+  });
+}
+
+/** Writes a hand's segments into measures, tying notes over barlines and filling gaps with rests. */
+function layoutMeasures(
+  segments: readonly Segment[],
+  measureDivisions: number,
+  measureCount: number,
+): NoteEvent[][] {
+  const measures: NoteEvent[][] = Array.from({ length: measureCount }, () => []);
+
+  const writeSpan = (chord: Pitch[], from: number, to: number) => {
+    for (let measure = Math.floor(from / measureDivisions); measure * measureDivisions < to; measure++) {
+      const pieceStart = Math.max(from, measure * measureDivisions);
+      const pieceEnd = Math.min(to, (measure + 1) * measureDivisions);
+      pushEvent(measures[measure], chord, pieceEnd - pieceStart, pieceStart > from, pieceEnd < to);
+    }
+  };
+
+  let cursor = 0;
+  for (const segment of segments) {
+    if (segment.start > cursor) writeSpan([], cursor, segment.start);
+    writeSpan(segment.chord, segment.start, segment.end);
+    cursor = segment.end;
+  }
+  writeSpan([], cursor, measureCount * measureDivisions);
+
+  return measures;
+}
+
+/**
+ * Writes timed chords for both hands as a grand-staff score. Onsets and
+ * durations are quantized to sixteenth notes; overlapping chords within one
+ * hand are shortened so each hand reads as a single voice.
+ */
+export function notateScore(options: NotationOptions): GeneratedScore {
+  const { meter, fifths, mode = "major", title } = options;
+  const measureDivisions = (meter.beats * 4 * DIVISIONS) / meter.beatType;
+  if (!Number.isInteger(measureDivisions) || measureDivisions <= 0) {
+    throw new Error(`Unsupported time signature ${meter.beats}/${meter.beatType}.`);
+  }
+
+  const hands = [toSegments(options.rightHand, fifths), toSegments(options.leftHand, fifths)];
+  const lastEnd = Math.max(0, ...hands.flat().map((segment) => segment.end));
+  if (lastEnd === 0) {
+    throw new Error("There are no notes to write.");
+  }
+
+  const measureCount = Math.ceil(lastEnd / measureDivisions);
+  const [right, left] = hands.map((segments) =>
+    layoutMeasures(segments, measureDivisions, measureCount),
+  );
+
+  const expectedSteps: ExpectedStep[] = [];
+  const measureXmls: string[] = [];
+
+  for (let index = 0; index < measureCount; index++) {
+    const voices = [right[index], left[index]];
+    expectedSteps.push(...collectSteps(voices, index * measureDivisions));
+
+    const measureNumber = index + 1;
+    const attributes = index === 0 ? "\n" + serializeAttributes(fifths, mode, meter) : "";
+    const measureAlters = new Map<string, Alter>();
+    const noteElements = [
+      serializeVoice(RIGHT_HAND, voices[0], fifths, measureAlters),
+      serializeVoice(LEFT_HAND, voices[1], fifths, measureAlters),
+    ].join(`\n        <backup><duration>${measureDivisions}</duration></backup>\n`);
+
+    measureXmls.push(
+      [`      <measure number="${measureNumber}">${attributes}`, noteElements, "      </measure>"].join("\n"),
+    );
+  }
+
+  return { xml: serializeScore(measureXmls, title), expectedSteps, meter };
+}
@@ -0,0 +1,283 @@
+import { keyAlterForStep } from "./keys";
+import { pitchToMidi, type Alter, type Pitch } from "./pitch";
+import type { ExpectedStep, Meter } from "./types";
+
+type AccidentalName = "flat" | "natural" | "sharp";
+
+/**
+ * A note, chord or rest (empty chord) in one voice. Notes longer than the
+ * remaining measure are split at the barline; `tie` marks those pieces.
+ */
+export type NoteEvent = {
+  chord: Pitch[];
+  duration: number;
+  tie?: "start" | "stop" | "continue";
+};
+
+/** Where a voice is written. A null staff is chosen per chord from its pitches. */
+export type VoiceLayout = {
+  voice: 1 | 2;
+  staff: 1 | 2 | null;
+};
+
+type NoteLayout = {
+  accidental: AccidentalName | null;
+  staff: 1 | 2;
+  voice: 1 | 2;
+  duration: number;
+  isChordTone: boolean;
+  tie?: NoteEvent["tie"];
+};
+
+const ACCIDENTAL_NAMES: Readonly<Record<Alter, AccidentalName>> = {
+  [-1]: "flat",
+  0: "natural",
+  1: "sharp",
+};
+
+export const DIVISIONS = 4;
+export const MIDDLE_C_MIDI = 60;
+
+const SIXTEENTH = DIVISIONS / 4;
+const EIGHTH = DIVISIONS / 2;
+const DOTTED_EIGHTH = DIVISIONS * 0.75;
+const QUARTER = DIVISIONS;
+const DOTTED_QUARTER = DIVISIONS * 1.5;
+const HALF = DIVISIONS * 2;
+const DOTTED_HALF = DIVISIONS * 3;
+const WHOLE = DIVISIONS * 4;
+
+/** Written note type and dot for every duration a score can notate. */
+const NOTE_VALUES: Readonly<Record<number, { type: string; dotted: boolean }>> = {
+  [SIXTEENTH]: { type: "16th", dotted: false },
+  [EIGHTH]: { type: "eighth", dotted: false },
+  [DOTTED_EIGHTH]: { type: "eighth", dotted: true },
+  [QUARTER]: { type: "quarter", dotted: false },
+  [DOTTED_QUARTER]: { type: "quarter", dotted: true },
+  [HALF]: { type: "half", dotted: false },
+  [DOTTED_HALF]: { type: "half", dotted: true },
+  [WHOLE]: { type: "whole", dotted: false },
+};
+
+const NOTATABLE_DURATIONS: readonly number[] = Object.keys(NOTE_VALUES)
+  .map(Number)
+  .sort((left, right) => right - left);
+
+/** Splits a duration into notatable pieces, longest first (e.g. 10 → 8 + 2). */
+export function splitDuration(duration: number): number[] {
+  const pieces: number[] = [];
+  let remaining = duration;
+
+  while (remaining > 0) {
+    const piece = NOTATABLE_DURATIONS.find((value) => value <= remaining) ?? remaining;
+    pieces.push(piece);
+    remaining -= piece;
+  }
+
+  return pieces;
+}
+
+/**
+ * Appends a note (or rest) to the measure, splitting it into tied pieces
+ * where its length is not a single written value. `continuesFromTie` and
+ * `continuesPastMeasure` extend the tie across the barline on either side.
+ */
+export function pushEvent(
+  events: NoteEvent[],
+  chord: Pitch[],
+  duration: number,
+  continuesFromTie: boolean,
+  continuesPastMeasure: boolean,
+): void {
+  const pieces = splitDuration(duration);
+  const isRest = chord.length === 0;
+
+  pieces.forEach((piece, index) => {
+    const tiedFromBefore = !isRest && (index > 0 || continuesFromTie);
+    const tiedToAfter = !isRest && (index < pieces.length - 1 || continuesPastMeasure);
+    const tie = tiedFromBefore && tiedToAfter
+      ? "continue"
+      : tiedFromBefore
+        ? "stop"
+        : tiedToAfter
+          ? "start"
+          : undefined;
+    events.push({ chord, duration: piece, tie });
+  });
+}
+
+/**
+ * Merges the voices of a measure into cursor steps: one step per distinct
+ * onset, holding every note that starts at that point in time. Rests and
+ * tied continuations start nothing, so they never form a step.
+ */
+export function collectSteps(voices: readonly NoteEvent[][], measureStart: number): ExpectedStep[] {
+  const onsets = new Map<number, Set<number>>();
+
+  for (const events of voices) {
+    let time = 0;
+    for (const event of events) {
+      const isOnset = event.chord.length > 0 && event.tie !== "stop" && event.tie !== "continue";
+      if (isOnset) {
+        const notes = onsets.get(time) ?? new Set<number>();
+        for (const pitch of event.chord) {
+          notes.add(pitchToMidi(pitch));
+        }
+        onsets.set(time, notes);
+      }
+      time += event.duration;
+    }
+  }
+
+  return [...onsets.entries()]
+    .sort(([left], [right]) => left - right)
+    .map(([time, notes]) => ({
+      notes: [...notes].sort((left, right) => left - right),
+      beat: (measureStart + time) / DIVISIONS,
+    }));
+}
+
+/**
+ * Keeps every note of a chord on one staff so it renders as a single stem,
+ * choosing the treble staff when the chord centres on or above middle C.
+ */
+function inferStaffFromChord(chord: readonly Pitch[]): 1 | 2 {
+  const meanMidi = chord.reduce((sum, pitch) => sum + pitchToMidi(pitch), 0) / chord.length;
+  return meanMidi >= MIDDLE_C_MIDI ? 1 : 2;
+}
+
+/**
+ * Returns the accidental to print for a pitch, or null when the alteration
+ * already in effect (from the key or an earlier note on the same staff in the
+ * measure) covers it.
+ */
+function resolveAccidental(
+  pitch: Pitch,
+  staff: 1 | 2,
+  fifths: number,
+  measureAlters: Map<string, Alter>,
+): AccidentalName | null {
+  const position = `${staff}:${pitch.step}${pitch.octave}`;
+  const inEffect = measureAlters.get(position) ?? keyAlterForStep(pitch.step, fifths);
+  if (inEffect === pitch.alter) return null;
+
+  measureAlters.set(position, pitch.alter);
+  return ACCIDENTAL_NAMES[pitch.alter];
+}
+
+export function serializeAttributes(fifths: number, mode: string, meter: Meter): string {
+  return [
+    "        <attributes>",
+    `          <divisions>${DIVISIONS}</divisions>`,
+    `          <key><fifths>${fifths}</fifths><mode>${mode}</mode></key>`,
+    `          <time><beats>${meter.beats}</beats><beat-type>${meter.beatType}</beat-type></time>`,
+    "          <staves>2</staves>",
+    "          <clef number=\"1\"><sign>G</sign><line>2</line></clef>",
+    "          <clef number=\"2\"><sign>F</sign><line>4</line></clef>",
+    "        </attributes>",
+  ].join("\n");
+}
+
+function serializeTie(tie: NoteEvent["tie"]): { tie: string[]; tied: string[] } {
+  if (!tie) return { tie: [], tied: [] };
+
+  const types = tie === "continue" ? ["stop", "start"] : [tie];
+  return {
+    tie: types.map((type) => `          <tie type="${type}"/>`),
+    tied: [
+      "          <notations>",
+      ...types.map((type) => `            <tied type="${type}"/>`),
+      "          </notations>",
+    ],
+  };
+}
+
+function serializeNote(pitch: Pitch, layout: NoteLayout): string {
+  const { type, dotted } = NOTE_VALUES[layout.duration];
+  const { tie, tied } = serializeTie(layout.tie);
+
+  return [
+    "        <note>",
+    ...(layout.isChordTone ? ["          <chord/>"] : []),
+    "          <pitch>",
+    `            <step>${pitch.step}</step>`,
+    ...(pitch.alter !== 0 ? [`            <alter>${pitch.alter}</alter>`] : []),
+    `            <octave>${pitch.octave}</octave>`,
+    "          </pitch>",
+    `          <duration>${layout.duration}</duration>`,
+    ...tie,
+    `          <voice>${layout.voice}</voice>`,
+    `          <type>${type}</type>`,
+    ...(dotted ? ["          <dot/>"] : []),
+    ...(layout.accidental ? [`          <accidental>${layout.accidental}</accidental>`] : []),
+    `          <staff>${layout.staff}</staff>`,
+    ...tied,
+    "        </note>",
+  ].join("\n");
+}
+
+function serializeRest(duration: number, voice: 1 | 2, staff: 1 | 2): string {
+  const { type, dotted } = NOTE_VALUES[duration];
+
+  return [
+    "        <note>",
+    "          <rest/>",
+    `          <duration>${duration}</duration>`,
+    `          <voice>${voice}</voice>`,
+    `          <type>${type}</type>`,
+    ...(dotted ? ["          <dot/>"] : []),
+    `          <staff>${staff}</staff>`,
+    "        </note>",
+  ].join("\n");
+}
+
+export function serializeVoice(
+  part: VoiceLayout,
+  events: readonly NoteEvent[],
+  fifths: number,
+  measureAlters: Map<string, Alter>,
+): string {
+  return events
+    .flatMap((event) => {
+      if (event.chord.length === 0) {
+        return [serializeRest(event.duration, part.voice, part.staff ?? 1)];
+      }
+
+      const staff = part.staff ?? inferStaffFromChord(event.chord);
+      const isContinuation = event.tie === "stop" || event.tie === "continue";
+      return event.chord.map((note, index) =>
+        serializeNote(note, {
+          // A tied continuation keeps the alteration of the note it continues.
+          accidental: isContinuation ? null : resolveAccidental(note, staff, fifths, measureAlters),
+          staff,
+          voice: part.voice,
+          duration: event.duration,
+          isChordTone: index > 0,
+          tie: event.tie,
+        }),
+      );
+    })
+    .join("\n");
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** Wraps serialized measures in a single-part grand-staff document. */
+export function serializeScore(measureXmls: readonly string[], title?: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 3.1 Partwise//EN"',
+    '  "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="3.1">',
+    ...(title ? [`  <work><work-title>${escapeXml(title)}</work-title></work>`] : []),
+    "  <part-list>",
+    '    <score-part id="P1"><part-name>Music</part-name></score-part>',
+    "  </part-list>",
+    '  <part id="P1">',
+    measureXmls.join("\n"),
+    "  </part>",
+    "</score-partwise>",
+  ].join("\n");
+}
@@ -0,0 +1,270 @@
+import { parseXml, xmlChild, xmlChildText, xmlChildren } from "../../shared/utils";
+import type { XmlElement } from "../../shared/utils";
+import { pitchToMidi } from "./pitch";
+import type { ExpectedStep, ImportedScore, Meter, NoteStep } from "./types";
+
+type Onset = {
+  /** Offset from the start of the measure in quarter-note beats. */
+  offset: number;
+  note: number;
+};
+
+type MeasureContent = {
+  onsets: Onset[];
+  /** Length of the measure in quarter-note beats, as far as this part fills it. */
+  length: number;
+};
+
+type MeasureRepeats = {
+  forward: boolean;
+  /** Total number of passes a backward repeat asks for; 0 when there is none. */
+  backwardTimes: number;
+  /** Ending numbers this measure belongs to, empty outside volta brackets. */
+  endings: number[];
+  /** Index of the last measure of the volta bracket this measure belongs to. */
+  endingLast: number;
+};
+
+const DEFAULT_METER: Meter = { beats: 4, beatType: 4 };
+const NOTE_STEPS: readonly string[] = ["C", "D", "E", "F", "G", "A", "B"];
+/** Guards against repeat structures that would never finish. */
+const MAX_UNROLL_FACTOR = 16;
+
+function numberText(element: XmlElement | undefined, name: string): number | undefined {
+  const text = xmlChildText(element, name);
+  if (text === undefined || text === "") return undefined;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function readMeter(parts: readonly XmlElement[]): Meter {
+  for (const part of parts) {
+    for (const measure of xmlChildren(part, "measure")) {
+      for (const attributes of xmlChildren(measure, "attributes")) {
+        const time = xmlChild(attributes, "time");
+        const beatsText = xmlChildText(time, "beats");
+        const beatType = numberText(time, "beat-type");
+        if (!beatsText || !beatType) continue;
+
+        // Compound signatures such as "3+2" are summed.
+        const beats = beatsText.split("+").reduce((sum, value) => sum + Number(value), 0);
+        if (Number.isFinite(beats) && beats > 0) {
+          return { beats, beatType };
+        }
+      }
+    }
+  }
+  return DEFAULT_METER;
+}
+
+function readTitle(root: XmlElement): string {
+  const title =
+    xmlChildText(xmlChild(root, "work"), "work-title") || xmlChildText(root, "movement-title");
+  return title || "Untitled";
+}
+
+function readPitch(note: XmlElement): number | undefined {
+  const pitch = xmlChild(note, "pitch");
+  const step = xmlChildText(pitch, "step");
+  const octave = numberText(pitch, "octave");
+  if (!step || !NOTE_STEPS.includes(step) || octave === undefined) return undefined;
+
+  // Microtonal alters are rounded to the nearest key.
+  const alter = Math.round(numberText(pitch, "alter") ?? 0);
+  return pitchToMidi({ step: step as NoteStep, octave, alter: 0 }) + alter;
+}
+
+function isTieContinuation(note: XmlElement): boolean {
+  return xmlChildren(note, "tie").some((tie) => tie.attributes.type === "stop");
+}
+
+/**
+ * Reads the note onsets of one part, measure by measure. Chord members share
+ * the start of the preceding note, grace notes take no time and are skipped,
+ * and rests, cue notes, unpitched notes and tied continuations only move time.
+ */
+function readPartMeasures(part: XmlElement): MeasureContent[] {
+  let divisions = 1;
+
+  return xmlChildren(part, "measure").map((measure) => {
+    const onsets: Onset[] = [];
+    let position = 0;
+    let lastStart = 0;
+    let length = 0;
+
+    for (const element of measure.children) {
+      if (element.name === "attributes") {
+        divisions = numberText(element, "divisions") ?? divisions;
+      } else if (element.name === "backup") {
+        position = Math.max(0, position - (numberText(element, "duration") ?? 0));
+      } else if (element.name === "forward") {
+        position += numberText(element, "duration") ?? 0;
+        length = Math.max(length, position);
+      } else if (element.name === "note") {
+        if (xmlChild(element, "grace")) continue;
+
+        const isChordMember = xmlChild(element, "chord") !== undefined;
+        const start = isChordMember ? lastStart : position;
+        const duration = numberText(element, "duration") ?? 0;
+
+        const note = readPitch(element);
+        const sounds =
+          note !== undefined && !xmlChild(element, "cue") && !isTieContinuation(element);
+        if (sounds) {
+          onsets.push({ offset: start / divisions, note });
+        }
+
+        if (!isChordMember) {
+          lastStart = position;
+          position += duration;
+        }
+        length = Math.max(length, start + duration);
+      }
+    }
+
+    return { onsets, length: length / divisions };
+  });
+}
+
+function parseEndingNumbers(value: string | undefined): number[] {
+  return (value ?? "")
+    .split(/[\s,]+/)
+    .map(Number)
+    .filter((number) => Number.isInteger(number) && number > 0);
+}
+
+/** Repeat barlines and volta brackets, read from the first part. */
+function readRepeats(part: XmlElement): MeasureRepeats[] {
+  const measures = xmlChildren(part, "measure");
+  const repeats: MeasureRepeats[] = measures.map(() => ({
+    forward: false,
+    backwardTimes: 0,
+    endings: [],
+    endingLast: -1,
+  }));
+
+  let openEnding: { numbers: number[]; first: number } | null = null;
+
+  measures.forEach((measure, index) => {
+    for (const barline of xmlChildren(measure, "barline")) {
+      const repeat = xmlChild(barline, "repeat");
+      if (repeat?.attributes.direction === "forward") {
+        repeats[index].forward = true;
+      } else if (repeat?.attributes.direction === "backward") {
+        const times = Number(repeat.attributes.times);
+        repeats[index].backwardTimes = Number.isInteger(times) && times > 1 ? times : 2;
+      }
+
+      const ending = xmlChild(barline, "ending");
+      const type = ending?.attributes.type;
+      if (type === "start") {
+        openEnding = { numbers: parseEndingNumbers(ending?.attributes.number), first: index };
+      } else if ((type === "stop" || type === "discontinue") && openEnding) {
+        for (let inside = openEnding.first; inside <= index; inside++) {
+          repeats[inside].endings = openEnding.numbers;
+          repeats[inside].endingLast = index;
+        }
+        openEnding = null;
+      }
+    }
+  });
+
+  return repeats;
+}
+
+/** The order in which measures are played once repeats and volta brackets are followed. */
+function unrollMeasures(repeats: readonly MeasureRepeats[]): number[] {
+  const order: number[] = [];
+  const limit = repeats.length * MAX_UNROLL_FACTOR;
+  let index = 0;
+  let repeatStart = 0;
+  let pass = 1;
+
+  while (index < repeats.length && order.length < limit) {
+    const measure = repeats[index];
+    if (measure.forward && repeatStart !== index) {
+      repeatStart = index;
+      pass = 1;
+    }
+
+    if (measure.endings.length > 0 && !measure.endings.includes(pass)) {
+      index = measure.endingLast + 1;
+      continue;
+    }
+
+    order.push(index);
+
+    if (measure.backwardTimes > 0) {
+      if (pass < measure.backwardTimes) {
+        pass++;
+        index = repeatStart;
+        continue;
+      }
+      repeatStart = index + 1;
+      pass = 1;
+    } else if (
+      measure.endingLast === index &&
+      repeats[index + 1]?.endings.length === 0
+    ) {
+      // Leaving the last volta bracket closes the repeated section.
+      repeatStart = index + 1;
+      pass = 1;
+    }
+    index++;
+  }
+
+  return order;
+}
+
+/**
+ * Extracts the expected steps of a partwise MusicXML score. Onsets of every
+ * part are merged into vertical slices and repeats are written out, so the
+ * steps follow the OSMD cursor as it plays through the piece.
+ */
+export function parseMusicXml(xml: string): ImportedScore {
+  const root = parseXml(xml);
+  if (root.name === "score-timewise") {
+    throw new Error("Timewise MusicXML scores are not supported. Export the piece as partwise.");
+  }
+  if (root.name !== "score-partwise") {
+    throw new Error(`Expected a MusicXML score, found <${root.name}>.`);
+  }
+
+  const parts = xmlChildren(root, "part");
+  if (parts.length === 0) {
+    throw new Error("The MusicXML score has no parts.");
+  }
+
+  const meter = readMeter(parts);
+  const partMeasures = parts.map(readPartMeasures);
+  const measureCount = Math.max(...partMeasures.map((measures) => measures.length));
+  const fullMeasure = (meter.beats * 4) / meter.beatType;
+  const measureLengths = Array.from({ length: measureCount }, (_, index) => {
+    const length = Math.max(0, ...partMeasures.map((measures) => measures[index]?.length ?? 0));
+    return length > 0 ? length : fullMeasure;
+  });
+
+  const slices = new Map<number, Set<number>>();
+  let measureStart = 0;
+  for (const index of unrollMeasures(readRepeats(parts[0]))) {
+    for (const measures of partMeasures) {
+      for (const onset of measures[index]?.onsets ?? []) {
+        // Rounded so that parts with different divisions land on the same slice.
+        const beat = Math.round((measureStart + onset.offset) * 1e6) / 1e6;
+        const slice = slices.get(beat) ?? new Set<number>();
+        slice.add(onset.note);
+        slices.set(beat, slice);
+      }
+    }
+    measureStart += measureLengths[index];
+  }
+
+  const expectedSteps: ExpectedStep[] = [...slices.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([beat, notes]) => ({ beat, notes: [...notes].sort((a, b) => a - b) }));
+  if (expectedSteps.length === 0) {
+    throw new Error("The MusicXML score contains no playable notes.");
+  }
+
+  return { title: readTitle(root), xml, expectedSteps, meter };
+}
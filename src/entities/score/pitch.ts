@@ -0,0 +1,122 @@
+import { keyAlterForStep } from "./keys";
+import type { NoteStep } from "./types";
+
+export type Alter = -1 | 0 | 1;
+
+export type Pitch = {
+  step: NoteStep;
+  octave: number;
+  alter: Alter;
+};
+
+export const NOTE_STEPS: readonly NoteStep[] = ["C", "D", "E", "F", "G", "A", "B"];
+
+const SEMITONE_OFFSET: Readonly<Record<NoteStep, number>> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+
+export function parseNoteName(note: string): Pitch {
+  const match = /^([A-G])([0-8])$/.exec(note);
+  if (!match) {
+    throw new Error(`Invalid note name "${note}". Expected natural note like C4.`);
+  }
+
+  return {
+    step: match[1] as NoteStep,
+    octave: Number(match[2]),
+    alter: 0,
+  };
+}
+
+export function pitchToMidi(pitch: Pitch): number {
+  return (pitch.octave + 1) * 12 + SEMITONE_OFFSET[pitch.step] + pitch.alter;
+}
+
+export function noteNameToMidi(note: string): number {
+  return pitchToMidi(parseNoteName(note));
+}
+
+/**
+ * Spells a MIDI note for a key. Notes of the key take its spelling; other
+ * notes are written natural where possible, otherwise sharp in sharp keys
+ * (and C major) and flat in flat keys.
+ */
+export function midiToPitch(midi: number, fifths: number): Pitch {
+  const pitchClass = ((midi % 12) + 12) % 12;
+  const accidental: Alter = fifths < 0 ? -1 : 1;
+  const spellings: ((step: NoteStep) => Alter)[] = [
+    (step) => keyAlterForStep(step, fifths),
+    () => 0,
+    () => accidental,
+    () => -accidental as Alter,
+  ];
+
+  for (const alterFor of spellings) {
+    for (const step of NOTE_STEPS) {
+      const alter = alterFor(step);
+      if ((SEMITONE_OFFSET[step] + alter + 12) % 12 === pitchClass) {
+        return { step, alter, octave: Math.floor((midi - SEMITONE_OFFSET[step] - alter) / 12) - 1 };
+      }
+    }
+  }
+  throw new Error(`Cannot spell MIDI note ${midi}.`);
+}
+
+export function diatonicIndex(pitch: Pitch): number {
+  return pitch.octave * NOTE_STEPS.length + NOTE_STEPS.indexOf(pitch.step);
+}
+
+export function pitchAtDiatonicIndex(index: number, fifths: number): Pitch {
+  const step = NOTE_STEPS[index % NOTE_STEPS.length];
+  return {
+    step,
+    octave: Math.floor(index / NOTE_STEPS.length),
+    alter: keyAlterForStep(step, fifths),
+  };
+}
+
+export function diatonicPitchesInRange(
+  minMidi: number,
+  maxMidi: number,
+  fifths: number,
+): readonly Pitch[] {
+  const pitches: Pitch[] = [];
+
+  for (let octave = 0; octave <= 8; octave++) {
+    for (const step of NOTE_STEPS) {
+      const pitch: Pitch = { step, octave, alter: keyAlterForStep(step, fifths) };
+      const midi = pitchToMidi(pitch);
+      if (midi >= minMidi && midi <= maxMidi) {
+        pitches.push(pitch);
+      }
+    }
+  }
+
+  return pitches;
+}
+
+/**
+ * Moves a diatonic pitch one semitone away from the key. Steps the key alters
+ * are cancelled with a natural; unaltered steps are raised in sharp keys and
+ * lowered in flat keys, avoiding spellings like E♯ or C♭.
+ */
+export function chromaticAlteration(pitch: Pitch, fifths: number, rng: () => number): Pitch {
+  if (pitch.alter !== 0) {
+    return { ...pitch, alter: 0 };
+  }
+
+  const canSharpen = pitch.step !== "E" && pitch.step !== "B";
+  const canFlatten = pitch.step !== "C" && pitch.step !== "F";
+  const prefersSharp = fifths > 0 || (fifths === 0 && rng() < 0.5);
+
+  if (prefersSharp ? canSharpen : !canFlatten) {
+    return { ...pitch, alter: 1 };
+  }
+  return { ...pitch, alter: -1 };
+}
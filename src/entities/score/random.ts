@@ -0,0 +1,27 @@
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state += 0x6d2b79f5;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function pick<T>(items: readonly T[], rng: () => number): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+/** Like `pick`, but each item is drawn in proportion to its weight; uses one `rng()` call. */
+export function pickWeighted<T>(items: readonly T[], weights: readonly number[], rng: () => number): T {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) return pick(items, rng);
+
+  let remaining = rng() * total;
+  for (let index = 0; index < items.length; index++) {
+    remaining -= weights[index];
+    if (remaining < 0) return items[index];
+  }
+  return items[items.length - 1];
+}
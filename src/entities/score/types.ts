@@ -11,18 +11,144 @@ export type NoteName =
   | "C7" | "D7" | "E7" | "F7" | "G7" | "A7" | "B7"
   | "C8" | "D8" | "E8" | "F8" | "G8" | "A8" | "B8";
 
+export type KeyMode = "major" | "minor";
+
+export type KeySignatureName =
+  | "C" | "G" | "D" | "A" | "E" | "B" | "F#" | "C#"
+  | "F" | "Bb" | "Eb" | "Ab" | "Db" | "Gb" | "Cb"
+  | "Am" | "Em" | "Bm" | "F#m" | "C#m" | "G#m" | "D#m" | "A#m"
+  | "Dm" | "Gm" | "Cm" | "Fm" | "Bbm" | "Ebm" | "Abm";
+
+/**
+ * Vertical texture of each generated step:
+ *   single   — one note at a time
+ *   intervals — two-note dyads drawn from `intervals`
+ *   triads   — three-note triads built in thirds
+ *   sevenths — four-note seventh chords built in thirds
+ */
+export type Texture = "single" | "intervals" | "triads" | "sevenths";
+
+/**
+ * How the grand staff is split between the hands:
+ *   combined    — one melodic line that moves between the staves
+ *   independent — separate right-hand (treble) and left-hand (bass) parts
+ *                 with their own ranges, rhythms and voices
+ */
+export type HandMode = "combined" | "independent";
+
+export type TimeSignatureName = "2/4" | "3/4" | "4/4";
+
+/**
+ * Rhythmic vocabulary of the generated score:
+ *   quarters — steady quarter notes (the left hand in independent mode still
+ *              sustains longer values)
+ *   simple   — whole, half, dotted half and quarter notes with occasional rests
+ *   mixed    — adds eighths, dotted quarters and notes tied across the barline
+ */
+export type RhythmLevel = "quarters" | "simple" | "mixed";
+
+/**
+ * Shape of the melodic line, traced by the lowest note of each step:
+ *   free     — any move the motion limits allow
+ *   scale    — stepwise runs that turn around at the edges of the range
+ *   arpeggio — runs of thirds outlining triads
+ *   sequence — a short motif repeated a step higher or lower each time
+ */
+export type MelodicContour = "free" | "scale" | "arpeggio" | "sequence";
+
+/**
+ * How the line moves from one step to the next. Interval sizes are diatonic
+ * (2 = second … 8 = octave) and measured between the lowest notes of each step.
+ */
+export type MelodicMotion = {
+  /** Defaults to "free". The patterned contours ignore the limits below. */
+  contour?: MelodicContour;
+  /** Largest leap allowed between consecutive steps. Defaults to no limit. */
+  maxInterval?: number;
+  /** Probability (0–1) of moving by step or repeating a note rather than leaping. */
+  stepRatio?: number;
+  /** When set, the line only moves by these intervals ("intervals only" drills). */
+  intervals?: readonly number[];
+};
+
+export type Meter = {
+  beats: number;
+  beatType: number;
+};
+
+export type NoteRange = {
+  minNote: NoteName;
+  maxNote: NoteName;
+};
+
 export type GeneratorOptions = {
   minNote: NoteName;
   maxNote: NoteName;
   noteCount: number;
   seed?: number;
+  /** Key signature written to the score; diatonic notes follow it. Defaults to C major. */
+  keySignature?: KeySignatureName;
+  /** Probability (0–1) that a note is chromatically altered away from the key. Defaults to 0. */
+  accidentalDensity?: number;
+  /** Defaults to "single". */
+  texture?: Texture;
+  /** Diatonic interval sizes (2 = second … 8 = octave) used by the "intervals" texture. */
+  intervals?: readonly number[];
+  /** Whether triads and seventh chords may appear in inversion. Defaults to false. */
+  inversions?: boolean;
+  /** Defaults to "combined". */
+  hands?: HandMode;
+  /** Right-hand range for "independent" hands. Defaults to middle C up to `maxNote`. */
+  rightHand?: NoteRange;
+  /** Left-hand range for "independent" hands. Defaults to `minNote` up to B3. */
+  leftHand?: NoteRange;
+  /** Defaults to "4/4". */
+  timeSignature?: TimeSignatureName;
+  /** Defaults to "quarters". */
+  rhythm?: RhythmLevel;
+  /**
+   * Relative chance of each MIDI note for adaptive practice; notes without an
+   * entry weigh 1. The same seed and weights always give the same score.
+   */
+  noteWeights?: Readonly<Record<number, number>>;
+  /** Leaves the line free to jump anywhere in the range when omitted. */
+  motion?: MelodicMotion;
 };
 
+/**
+ * The set of MIDI notes struck together at one cursor position. With independent
+ * hands this is a vertical time slice, so it holds only the notes that start there.
+ */
+export interface ExpectedStep {
+  notes: number[];
+  /** Onset measured in quarter-note beats from the start of the score. */
+  beat: number;
+}
+
 export interface GeneratedScore {
   xml: string;
-  expectedNotes: number[];
+  expectedSteps: ExpectedStep[];
+  meter: Meter;
+}
+
+/** Notes struck together, timed in quarter-note beats (as read from a MIDI file). */
+export interface TimedChord {
+  notes: number[];
+  start: number;
+  duration: number;
+}
+
+/** A score read from a MusicXML file rather than generated. */
+export interface ImportedScore extends GeneratedScore {
+  title: string;
 }
 
+export const TIME_SIGNATURES: readonly TimeSignatureName[] = ["2/4", "3/4", "4/4"];
+
+export const MELODIC_CONTOURS: readonly MelodicContour[] = ["free", "scale", "arpeggio", "sequence"];
+
+export const INTERVAL_SIZES: readonly number[] = [2, 3, 4, 5, 6, 7, 8];
+
 const NOTE_STEPS: readonly NoteStep[] = ["C", "D", "E", "F", "G", "A", "B"];
 
 export const NOTE_NAMES: readonly NoteName[] = Array.from({ length: 9 }, (_, octave) =>
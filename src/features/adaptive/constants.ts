@@ -0,0 +1,22 @@
+/** Days until a note is due again, indexed by its review box. */
+export const REVIEW_INTERVAL_DAYS: readonly number[] = [0, 1, 3, 7, 14, 30];
+
+/** A session reads a note well when it misses at most this share of its attempts… */
+export const MASTERY_MISS_RATE = 0.1;
+/** …and answers it within this many milliseconds (median). */
+export const MASTERY_RESPONSE_MS = 1500;
+
+/** Responses at or below this time add no latency weight. */
+export const FAST_RESPONSE_MS = 600;
+/** Responses at or above this time add the full latency weight. */
+export const SLOW_RESPONSE_MS = 2500;
+
+/** Extra weight for a note missed every time. */
+export const MISS_WEIGHT = 4;
+/** Extra weight for a note answered at `SLOW_RESPONSE_MS` or slower. */
+export const LATENCY_WEIGHT = 1.5;
+/** Weight of a mastered note that is not yet due, so it still shows up now and then. */
+export const MASTERED_WEIGHT = 0.3;
+
+/** Share of the newest session in the smoothed miss rate and response time. */
+export const SMOOTHING = 0.5;
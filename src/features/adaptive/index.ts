@@ -0,0 +1,2 @@
+export { buildNoteReviews, buildNoteWeights, isDue } from "./utils/buildNoteWeights";
+export type { NoteReview, NoteWeights, PracticeHistoryEntry } from "./types";
@@ -0,0 +1,22 @@
+import type { NoteAttempt } from "../session/types";
+
+/** One past session's per-note log, as stored with its run. */
+export interface PracticeHistoryEntry {
+    createdAt: number;
+    attempts: NoteAttempt[];
+}
+
+/** Where a pitch stands in the spaced-repetition schedule. */
+export interface NoteReview {
+    note: number;
+    /** Consecutive well-read sessions, capped at the last review interval. */
+    box: number;
+    lastSeenAt: number;
+    /** Smoothed over sessions, 0–1. */
+    missRate: number;
+    /** Smoothed over sessions; null until the note was played right once. */
+    responseMs: number | null;
+}
+
+/** Relative chance of each MIDI note in an adaptive exercise; absent notes weigh 1. */
+export type NoteWeights = Record<number, number>;
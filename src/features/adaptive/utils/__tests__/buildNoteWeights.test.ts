@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import type { NoteAttempt } from "../../../session/types";
+import { MASTERED_WEIGHT } from "../../constants";
+import { buildNoteReviews, buildNoteWeights } from "../buildNoteWeights";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function played(note: number, reactionMs: number, wrong?: number): NoteAttempt {
+    const presses: NoteAttempt["presses"] = [];
+    if (wrong !== undefined) presses.push({ note: wrong, atMs: 0, result: "wrong" });
+    presses.push({ note, atMs: reactionMs, result: "correct" });
+    return { step: 0, beat: 0, expected: [note], arrivedAtMs: 0, presses, reactionMs };
+}
+
+function session(day: number, attempts: NoteAttempt[]) {
+    return { createdAt: day * DAY_MS, attempts };
+}
+
+describe("buildNoteReviews", () => {
+    it("moves well-read notes up a box and sends misread notes back", () => {
+        const reviews = buildNoteReviews([
+            session(2, [played(60, 400), played(64, 400, 65)]),
+            session(1, [played(60, 400), played(64, 400)]),
+        ]);
+
+        expect(reviews).toMatchObject([
+            { note: 60, box: 2, lastSeenAt: 2 * DAY_MS },
+            { note: 64, box: 0, missRate: 0.5 },
+        ]);
+    });
+});
+
+describe("buildNoteWeights", () => {
+    const history = [session(0, [played(60, 400), played(62, 2500, 64), played(65, 400)])];
+
+    it("weights misses and slow answers and rests mastered notes until due", () => {
+        const weights = buildNoteWeights(history, 0.5 * DAY_MS);
+
+        expect(weights[60]).toBe(MASTERED_WEIGHT);
+        expect(weights[62]).toBe(6.5);
+        expect(weights[64]).toBeUndefined();
+    });
+
+    it("brings mastered notes back once their review falls due", () => {
+        expect(buildNoteWeights(history, 1.5 * DAY_MS)[60]).toBe(1);
+    });
+
+    it("is a pure function of history and time", () => {
+        expect(buildNoteWeights(history, DAY_MS)).toEqual(buildNoteWeights([...history], DAY_MS));
+    });
+});
@@ -0,0 +1,87 @@
+import { clamp } from "../../../shared/utils";
+import { buildPitchStats } from "../../progress";
+import {
+    FAST_RESPONSE_MS,
+    LATENCY_WEIGHT,
+    MASTERED_WEIGHT,
+    MASTERY_MISS_RATE,
+    MASTERY_RESPONSE_MS,
+    MISS_WEIGHT,
+    REVIEW_INTERVAL_DAYS,
+    SLOW_RESPONSE_MS,
+    SMOOTHING,
+} from "../constants";
+import type { NoteReview, NoteWeights, PracticeHistoryEntry } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function smooth(previous: number | null, latest: number | null): number | null {
+    if (latest === null) return previous;
+    if (previous === null) return latest;
+    return previous * (1 - SMOOTHING) + latest * SMOOTHING;
+}
+
+/**
+ * Replays the history oldest first. Each session that reads a note well moves
+ * it up one review box (a longer wait before it is due); any other session
+ * sends it back to the first box.
+ */
+export function buildNoteReviews(history: readonly PracticeHistoryEntry[]): NoteReview[] {
+    const reviews = new Map<number, NoteReview>();
+    const lastBox = REVIEW_INTERVAL_DAYS.length - 1;
+
+    const chronological = [...history].sort((left, right) => left.createdAt - right.createdAt);
+    for (const entry of chronological) {
+        for (const stat of buildPitchStats([{ runId: "", attempts: entry.attempts }])) {
+            const previous = reviews.get(stat.note);
+            const readWell =
+                stat.missRate <= MASTERY_MISS_RATE &&
+                (stat.medianResponseMs === null || stat.medianResponseMs <= MASTERY_RESPONSE_MS);
+
+            reviews.set(stat.note, {
+                note: stat.note,
+                box: readWell ? Math.min(lastBox, (previous?.box ?? 0) + 1) : 0,
+                lastSeenAt: entry.createdAt,
+                missRate: smooth(previous?.missRate ?? null, stat.missRate) ?? 0,
+                responseMs: smooth(previous?.responseMs ?? null, stat.medianResponseMs),
+            });
+        }
+    }
+
+    return [...reviews.values()].sort((left, right) => left.note - right.note);
+}
+
+export function isDue(review: NoteReview, now: number): boolean {
+    return now - review.lastSeenAt >= REVIEW_INTERVAL_DAYS[review.box] * DAY_MS;
+}
+
+/**
+ * Generator weights from past sessions. Notes gain weight with their miss rate
+ * and response time; notes in a higher review box drop to a low weight until
+ * they fall due, then count as normal again. Notes never practiced weigh 1.
+ * Weights are rounded so that a snapshot reproduces the same exercise.
+ */
+export function buildNoteWeights(
+    history: readonly PracticeHistoryEntry[],
+    now: number,
+): NoteWeights {
+    const weights: NoteWeights = {};
+
+    for (const review of buildNoteReviews(history)) {
+        const slowness =
+            review.responseMs === null
+                ? 0
+                : clamp(
+                      (review.responseMs - FAST_RESPONSE_MS) / (SLOW_RESPONSE_MS - FAST_RESPONSE_MS),
+                      0,
+                      1,
+                  );
+        const weight =
+            review.box > 0 && !isDue(review, now)
+                ? MASTERED_WEIGHT
+                : 1 + MISS_WEIGHT * review.missRate + LATENCY_WEIGHT * slowness;
+        weights[review.note] = Math.round(weight * 1000) / 1000;
+    }
+
+    return weights;
+}
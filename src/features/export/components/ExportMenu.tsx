@@ -0,0 +1,54 @@
+import { useRef } from "react";
+import { EXPORT_OPTIONS } from "../constants";
+import type { ExportFormat } from "../types";
+
+interface ExportMenuProps {
+    onExport: (format: ExportFormat) => void;
+    /** Whether a recording of the student's playing exists. */
+    playedAvailable: boolean;
+    /** Classes for the toggle, so the menu matches the buttons around it. */
+    triggerClassName?: string;
+    /** Visible text next to the icon; icon-only when omitted. */
+    label?: string;
+}
+
+export default function ExportMenu({
+    onExport,
+    playedAvailable,
+    triggerClassName = "icon-button",
+    label,
+}: ExportMenuProps) {
+    const detailsRef = useRef<HTMLDetailsElement>(null);
+
+    return (
+        <details className="export-menu" ref={detailsRef}>
+            <summary className={triggerClassName} aria-label={label ? undefined : "Export score"}>
+                <span className="material-symbols-outlined">download</span>
+                {label ? <span>{label}</span> : null}
+            </summary>
+
+            <ul className="export-menu-list">
+                {EXPORT_OPTIONS.map((option) => (
+                    <li key={option.value}>
+                        <button
+                            type="button"
+                            disabled={option.value === "played-midi" && !playedAvailable}
+                            onClick={() => {
+                                if (detailsRef.current) detailsRef.current.open = false;
+                                onExport(option.value);
+                            }}
+                        >
+                            <span className="material-symbols-outlined" aria-hidden>
+                                {option.icon}
+                            </span>
+                            <span className="export-menu-text">
+                                <span>{option.label}</span>
+                                {option.note ? <small>{option.note}</small> : null}
+                            </span>
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </details>
+    );
+}
@@ -0,0 +1,26 @@
+import type { ExportFormat } from "./types";
+
+export const EXPORT_TICKS_PER_QUARTER = 480;
+export const TARGET_NOTE_VELOCITY = 80;
+/** Used for played notes when the input source reports no velocity. */
+export const RECORDED_NOTE_VELOCITY = 64;
+
+export const EXPORT_OPTIONS: readonly {
+  value: ExportFormat;
+  label: string;
+  icon: string;
+  /** Shown under the label when the format leaves something out. */
+  note?: string;
+}[] = [
+  { value: "musicxml", label: "MusicXML", icon: "description" },
+  {
+    value: "midi",
+    label: "MIDI (target notes)",
+    icon: "music_note",
+    // Expected steps carry onsets only, so written note lengths are not known here.
+    note: "Each note lasts until the next one starts; use MusicXML for written lengths.",
+  },
+  { value: "played-midi", label: "MIDI (what you played)", icon: "piano" },
+  { value: "svg", label: "SVG image", icon: "image" },
+  { value: "pdf", label: "Print / PDF", icon: "print" },
+];
@@ -0,0 +1,8 @@
+export { default as ExportMenu } from "./components/ExportMenu";
+export { createPerformanceRecorder } from "./utils/createPerformanceRecorder";
+export { downloadFile, toFileName } from "./utils/download";
+export { exportScore } from "./utils/exportScore";
+export { recordingToMidiNotes, stepsToMidiNotes, writeMidiFile } from "./utils/writeMidiFile";
+export type { PerformanceRecorder } from "./utils/createPerformanceRecorder";
+export type { ExportSource } from "./utils/exportScore";
+export type { ExportFormat, MidiNote, RecordedNote } from "./types";
@@ -0,0 +1,16 @@
+export type ExportFormat = "musicxml" | "midi" | "played-midi" | "svg" | "pdf";
+
+/** A note played during a session, timed in milliseconds on the performance clock. */
+export type RecordedNote = {
+    note: number;
+    velocity: number;
+    startMs: number;
+    endMs: number;
+};
+
+export type MidiNote = {
+    note: number;
+    velocity: number;
+    startTick: number;
+    durationTicks: number;
+};
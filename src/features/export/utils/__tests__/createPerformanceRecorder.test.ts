@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { createPerformanceRecorder } from "../createPerformanceRecorder";
+
+describe("createPerformanceRecorder", () => {
+    it("pairs presses with releases and closes held notes on read", () => {
+        const recorder = createPerformanceRecorder();
+        recorder.noteOn(60, 80, 100);
+        recorder.noteOn(64, 70, 150);
+        recorder.noteOff(60, 400);
+
+        expect(recorder.getNotes(1000)).toEqual([
+            { note: 60, velocity: 80, startMs: 100, endMs: 400 },
+            { note: 64, velocity: 70, startMs: 150, endMs: 1000 },
+        ]);
+    });
+
+    it("ends a note pressed again without a release", () => {
+        const recorder = createPerformanceRecorder();
+        recorder.noteOn(60, 80, 0);
+        recorder.noteOn(60, 90, 200);
+        recorder.noteOff(60, 300);
+
+        expect(recorder.getNotes(300).map((note) => [note.startMs, note.endMs])).toEqual([
+            [0, 200],
+            [200, 300],
+        ]);
+    });
+
+    it("forgets everything on reset", () => {
+        const recorder = createPerformanceRecorder();
+        recorder.noteOn(60, 80, 0);
+        recorder.reset();
+
+        expect(recorder.getNotes(10)).toEqual([]);
+    });
+});
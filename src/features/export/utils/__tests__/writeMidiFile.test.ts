@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { parseMidiFile } from "../../../library";
+import { recordingToMidiNotes, stepsToMidiNotes, writeMidiFile } from "../writeMidiFile";
+
+describe("writeMidiFile", () => {
+    it("writes target notes that read back with tempo and meter", () => {
+        const notes = stepsToMidiNotes([
+            { beat: 0, notes: [60, 64] },
+            { beat: 1.5, notes: [62] },
+        ]);
+        const file = parseMidiFile(writeMidiFile({ notes, bpm: 90, meter: { beats: 3, beatType: 4 } }));
+
+        expect(file.format).toBe(0);
+        expect(file.timeSignature).toEqual({ beats: 3, beatType: 4 });
+        expect(file.tempos[0].microsecondsPerQuarter).toBe(Math.round(60_000_000 / 90));
+        expect(file.tracks[0].notes.map(({ note, startTick, durationTicks }) => ({ note, startTick, durationTicks })))
+            .toEqual([
+                { note: 60, startTick: 0, durationTicks: 720 },
+                { note: 64, startTick: 0, durationTicks: 720 },
+                { note: 62, startTick: 720, durationTicks: 480 },
+            ]);
+    });
+
+    it("keeps repeated notes separate", () => {
+        const notes = stepsToMidiNotes([
+            { beat: 0, notes: [67] },
+            { beat: 1, notes: [67] },
+        ]);
+        const file = parseMidiFile(writeMidiFile({ notes, bpm: 120 }));
+
+        expect(file.tracks[0].notes.map((note) => note.startTick)).toEqual([0, 480]);
+    });
+
+    it("times a recording from its first note at the session tempo", () => {
+        const notes = recordingToMidiNotes(
+            [
+                { note: 60, velocity: 70, startMs: 10_000, endMs: 10_500 },
+                { note: 62, velocity: 90, startMs: 10_250, endMs: 11_000 },
+            ],
+            120,
+        );
+
+        expect(notes).toEqual([
+            { note: 60, velocity: 70, startTick: 0, durationTicks: 480 },
+            { note: 62, velocity: 90, startTick: 240, durationTicks: 720 },
+        ]);
+    });
+});
@@ -0,0 +1,49 @@
+import type { RecordedNote } from "../types";
+
+export interface PerformanceRecorder {
+    noteOn: (note: number, velocity: number, time: number) => void;
+    noteOff: (note: number, time: number) => void;
+    /** Every recorded note; notes still held end at `now`. */
+    getNotes: (now: number) => RecordedNote[];
+    reset: () => void;
+}
+
+/** Records what the student plays, with timestamps, so it can be exported. */
+export function createPerformanceRecorder(): PerformanceRecorder {
+    let finished: RecordedNote[] = [];
+    const held = new Map<number, { velocity: number; startMs: number }>();
+
+    const noteOff = (note: number, time: number) => {
+        const start = held.get(note);
+        if (!start) return;
+        held.delete(note);
+        finished.push({
+            note,
+            velocity: start.velocity,
+            startMs: start.startMs,
+            endMs: Math.max(time, start.startMs),
+        });
+    };
+
+    return {
+        noteOn: (note, velocity, time) => {
+            // A retrigger without a release ends the previous sounding note.
+            noteOff(note, time);
+            held.set(note, { velocity, startMs: time });
+        },
+        noteOff,
+        getNotes: (now) => {
+            const open = [...held].map(([note, start]) => ({
+                note,
+                velocity: start.velocity,
+                startMs: start.startMs,
+                endMs: Math.max(now, start.startMs),
+            }));
+            return [...finished, ...open].sort((left, right) => left.startMs - right.startMs);
+        },
+        reset: () => {
+            finished = [];
+            held.clear();
+        },
+    };
+}
@@ -0,0 +1,21 @@
+/** Saves data as a file through a temporary object URL. */
+export function downloadFile(data: BlobPart, type: string, fileName: string): void {
+    const url = URL.createObjectURL(new Blob([data], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.append(link);
+    link.click();
+    link.remove();
+    // Give the browser a moment to start the download before revoking.
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/** A file-name-safe version of a title. */
+export function toFileName(title: string): string {
+    const slug = title
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "");
+    return slug || "score";
+}
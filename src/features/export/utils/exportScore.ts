@@ -0,0 +1,55 @@
+import type { ExpectedStep, Meter } from "../../../entities/score";
+import type { ExportFormat, RecordedNote } from "../types";
+import { downloadFile, toFileName } from "./download";
+import { renderScorePages, printPages } from "./renderScorePages";
+import { recordingToMidiNotes, stepsToMidiNotes, writeMidiFile } from "./writeMidiFile";
+
+export type ExportSource = {
+    title: string;
+    xml: string;
+    expectedSteps: readonly ExpectedStep[];
+    meter: Meter;
+    bpm: number;
+    recording: readonly RecordedNote[];
+};
+
+const MUSICXML_TYPE = "application/vnd.recordare.musicxml+xml";
+const MIDI_TYPE = "audio/midi";
+const SVG_TYPE = "image/svg+xml";
+
+/** Downloads (or prints) the current exercise in the chosen format. */
+export async function exportScore(format: ExportFormat, source: ExportSource): Promise<void> {
+    const baseName = toFileName(source.title);
+
+    switch (format) {
+        case "musicxml":
+            downloadFile(source.xml, MUSICXML_TYPE, `${baseName}.musicxml`);
+            return;
+        case "midi": {
+            const notes = stepsToMidiNotes(source.expectedSteps);
+            const file = writeMidiFile({ notes, bpm: source.bpm, meter: source.meter });
+            downloadFile(file, MIDI_TYPE, `${baseName}.mid`);
+            return;
+        }
+        case "played-midi": {
+            if (source.recording.length === 0) {
+                throw new Error("Nothing has been played yet.");
+            }
+            const notes = recordingToMidiNotes(source.recording, source.bpm);
+            const file = writeMidiFile({ notes, bpm: source.bpm });
+            downloadFile(file, MIDI_TYPE, `${baseName}-played.mid`);
+            return;
+        }
+        case "svg": {
+            const pages = await renderScorePages(source.xml);
+            pages.forEach((page, index) => {
+                const suffix = pages.length > 1 ? `-page-${index + 1}` : "";
+                downloadFile(page, SVG_TYPE, `${baseName}${suffix}.svg`);
+            });
+            return;
+        }
+        case "pdf":
+            printPages(await renderScorePages(source.xml), source.title);
+            return;
+    }
+}
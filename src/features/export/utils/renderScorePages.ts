@@ -0,0 +1,81 @@
+/** CSS pixels of an A4 page at 96 DPI, the width OSMD lays pages out for. */
+const A4_WIDTH_PX = 794;
+
+/**
+ * Renders a score to printable A4 pages with OSMD in an offscreen container
+ * and returns each page as standalone SVG markup. Titles and measure numbers
+ * are drawn, unlike the single-line practice view.
+ */
+export async function renderScorePages(xml: string): Promise<string[]> {
+    const { OpenSheetMusicDisplay } = await import("opensheetmusicdisplay");
+    const container = document.createElement("div");
+    container.style.position = "absolute";
+    container.style.left = "-10000px";
+    container.style.top = "0";
+    container.style.width = `${A4_WIDTH_PX}px`;
+    document.body.append(container);
+
+    try {
+        const osmd = new OpenSheetMusicDisplay(container, {
+            backend: "svg",
+            pageFormat: "A4_P",
+            pageBackgroundColor: "#ffffff",
+            autoResize: false,
+            drawTitle: true,
+            drawPartNames: false,
+            drawMeasureNumbers: true,
+            autoBeam: true,
+        });
+        await osmd.load(xml);
+        osmd.render();
+
+        return [...container.querySelectorAll("svg")].map((svg) => {
+            svg.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+            return svg.outerHTML;
+        });
+    } finally {
+        container.remove();
+    }
+}
+
+/**
+ * Prints SVG pages from a hidden frame, one page per sheet, so the browser's
+ * print dialog can save them as a PDF.
+ */
+export function printPages(pages: readonly string[], title: string): void {
+    const frame = document.createElement("iframe");
+    frame.style.position = "fixed";
+    frame.style.width = "0";
+    frame.style.height = "0";
+    frame.style.border = "0";
+    document.body.append(frame);
+
+    const frameWindow = frame.contentWindow;
+    const frameDocument = frame.contentDocument;
+    if (!frameWindow || !frameDocument) {
+        frame.remove();
+        throw new Error("Printing isn't available in this browser.");
+    }
+
+    frameDocument.title = title;
+    const style = frameDocument.createElement("style");
+    style.textContent = [
+        "@page { size: A4; margin: 0; }",
+        "body { margin: 0; }",
+        ".page { break-after: page; }",
+        ".page:last-child { break-after: auto; }",
+        ".page svg { display: block; width: 100%; height: auto; }",
+    ].join("\n");
+    frameDocument.head.append(style);
+
+    for (const markup of pages) {
+        const page = frameDocument.createElement("div");
+        page.className = "page";
+        page.innerHTML = markup;
+        frameDocument.body.append(page);
+    }
+
+    frameWindow.addEventListener("afterprint", () => frame.remove(), { once: true });
+    frameWindow.focus();
+    frameWindow.print();
+}
@@ -0,0 +1,115 @@
+import type { ExpectedStep, Meter } from "../../../entities/score";
+import { EXPORT_TICKS_PER_QUARTER, TARGET_NOTE_VELOCITY } from "../constants";
+import type { MidiNote, RecordedNote } from "../types";
+
+type MidiFileOptions = {
+    notes: readonly MidiNote[];
+    bpm: number;
+    meter?: Meter;
+    ticksPerQuarter?: number;
+};
+
+function varint(value: number): number[] {
+    const bytes = [value & 0x7f];
+    for (let rest = Math.floor(value / 128); rest > 0; rest = Math.floor(rest / 128)) {
+        bytes.unshift((rest & 0x7f) | 0x80);
+    }
+    return bytes;
+}
+
+function uint32(value: number): number[] {
+    return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * Writes a single-track (format 0) Standard MIDI File on channel 1 with a
+ * tempo and, when given, a time signature. Note-offs sort before note-ons on
+ * the same tick so repeated notes retrigger.
+ */
+export function writeMidiFile({
+    notes,
+    bpm,
+    meter,
+    ticksPerQuarter = EXPORT_TICKS_PER_QUARTER,
+}: MidiFileOptions): Uint8Array<ArrayBuffer> {
+    const microsecondsPerQuarter = Math.round(60_000_000 / bpm);
+    const events: { tick: number; order: number; bytes: number[] }[] = [
+        {
+            tick: 0,
+            order: 0,
+            bytes: [0xff, 0x51, 0x03, ...uint32(microsecondsPerQuarter).slice(1)],
+        },
+    ];
+    if (meter) {
+        events.push({
+            tick: 0,
+            order: 0,
+            bytes: [0xff, 0x58, 0x04, meter.beats, Math.log2(meter.beatType), 24, 8],
+        });
+    }
+
+    for (const note of notes) {
+        const velocity = Math.max(1, Math.min(127, Math.round(note.velocity)));
+        const end = note.startTick + Math.max(1, note.durationTicks);
+        events.push({ tick: note.startTick, order: 2, bytes: [0x90, note.note, velocity] });
+        events.push({ tick: end, order: 1, bytes: [0x80, note.note, 0] });
+    }
+    events.sort((left, right) => left.tick - right.tick || left.order - right.order);
+
+    const track: number[] = [];
+    let previousTick = 0;
+    for (const event of events) {
+        track.push(...varint(event.tick - previousTick), ...event.bytes);
+        previousTick = event.tick;
+    }
+    track.push(0x00, 0xff, 0x2f, 0x00);
+
+    return new Uint8Array([
+        ...[0x4d, 0x54, 0x68, 0x64],
+        ...uint32(6),
+        0x00, 0x00,
+        0x00, 0x01,
+        (ticksPerQuarter >> 8) & 0xff, ticksPerQuarter & 0xff,
+        ...[0x4d, 0x54, 0x72, 0x6b],
+        ...uint32(track.length),
+        ...track,
+    ]);
+}
+
+/**
+ * The target notes of a score; each step sounds until the next one starts.
+ * Steps record onsets but not written lengths, so a long note under a moving
+ * part comes out shorter than written (the export menu says as much).
+ */
+export function stepsToMidiNotes(
+    steps: readonly ExpectedStep[],
+    ticksPerQuarter = EXPORT_TICKS_PER_QUARTER,
+): MidiNote[] {
+    return steps.flatMap((step, index) => {
+        const nextBeat = steps[index + 1]?.beat ?? step.beat + 1;
+        return step.notes.map((note) => ({
+            note,
+            velocity: TARGET_NOTE_VELOCITY,
+            startTick: Math.round(step.beat * ticksPerQuarter),
+            durationTicks: Math.round((nextBeat - step.beat) * ticksPerQuarter),
+        }));
+    });
+}
+
+/** Converts a recording to ticks at `bpm`, starting at its first note. */
+export function recordingToMidiNotes(
+    recording: readonly RecordedNote[],
+    bpm: number,
+    ticksPerQuarter = EXPORT_TICKS_PER_QUARTER,
+): MidiNote[] {
+    if (recording.length === 0) return [];
+
+    const origin = Math.min(...recording.map((note) => note.startMs));
+    const ticksPerMs = (bpm / 60_000) * ticksPerQuarter;
+    return recording.map((note) => ({
+        note: note.note,
+        velocity: note.velocity,
+        startTick: Math.round((note.startMs - origin) * ticksPerMs),
+        durationTicks: Math.round((note.endMs - note.startMs) * ticksPerMs),
+    }));
+}
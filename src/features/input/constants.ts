@@ -0,0 +1,13 @@
+import type { InputProfile } from "./types";
+
+/** A device nobody has calibrated: notes pass through untouched. */
+export const DEFAULT_INPUT_PROFILE: InputProfile = {
+  latencyMs: 0,
+  velocityThreshold: 0,
+  transpose: 0,
+};
+
+export const VELOCITY_THRESHOLD_OPTIONS = [0, 5, 10, 15, 20, 30, 40] as const;
+
+/** Transpose choices in semitones, two octaves either way. */
+export const TRANSPOSE_OPTIONS = Array.from({ length: 49 }, (_, index) => index - 24);
@@ -0,0 +1,27 @@
+import { useEffect, useState } from "react";
+import type { NoteInputDevice } from "../types";
+
+/**
+ * Keeps a device id in step with a source's device list: the first device is
+ * selected automatically, and if the selected one disappears the first
+ * remaining device takes over.
+ */
+export default function useDeviceSelection(devices: NoteInputDevice[]) {
+    const [selectedDevice, setSelectedDevice] = useState("");
+
+    useEffect(() => {
+        if (devices.length === 0) {
+            setSelectedDevice("");
+            return;
+        }
+
+        setSelectedDevice((current) => {
+            if (current && devices.some((device) => device.id === current)) {
+                return current;
+            }
+            return devices[0].id;
+        });
+    }, [devices]);
+
+    return { selectedDevice, setSelectedDevice };
+}
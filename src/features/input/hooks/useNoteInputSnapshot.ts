@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import type { NoteInputSnapshot, NoteInputSource } from "../types";
+
+/** A source's current status and device list, without starting it. */
+export default function useNoteInputSnapshot(source: NoteInputSource): NoteInputSnapshot {
+    return useSyncExternalStore(source.subscribeSnapshot, source.getSnapshot);
+}
@@ -0,0 +1,54 @@
+import { useEffect, useRef } from "react";
+import type { NoteInputSnapshot, NoteInputSource, Pedal } from "../types";
+import useNoteInputSnapshot from "./useNoteInputSnapshot";
+
+export interface NoteInputCallbacks {
+    /** Whether the source should be running; defaults to true. */
+    enabled?: boolean;
+    /** Device to listen to; an empty id listens to every device. */
+    deviceId?: string;
+    /** `time` is on the `performance.now()` clock, corrected for device latency. */
+    onNoteOn?: (note: number, velocity: number, time: number) => void;
+    onNoteOff?: (note: number) => void;
+    onPedal?: (pedal: Pedal, down: boolean) => void;
+    onAllNotesOff?: () => void;
+}
+
+/**
+ * Runs a `NoteInputSource` while enabled, forwards its events to the given
+ * callbacks and exposes its status and device list as React state.
+ */
+export default function useNoteInputSource(
+    source: NoteInputSource,
+    callbacks: NoteInputCallbacks,
+): NoteInputSnapshot {
+    const { enabled = true, deviceId = "" } = callbacks;
+    const callbacksRef = useRef(callbacks);
+    callbacksRef.current = callbacks;
+
+    const snapshot = useNoteInputSnapshot(source);
+
+    useEffect(() => {
+        source.selectDevice(deviceId);
+    }, [source, deviceId]);
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const unsubscribe = source.subscribe((event) => {
+            const current = callbacksRef.current;
+            if (event.type === "note-on") current.onNoteOn?.(event.note, event.velocity, event.time);
+            if (event.type === "note-off") current.onNoteOff?.(event.note);
+            if (event.type === "pedal") current.onPedal?.(event.pedal, event.down);
+            if (event.type === "all-notes-off") current.onAllNotesOff?.();
+        });
+        source.start();
+
+        return () => {
+            source.stop();
+            unsubscribe();
+        };
+    }, [source, enabled]);
+
+    return snapshot;
+}
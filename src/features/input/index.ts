@@ -0,0 +1,22 @@
+export {
+  DEFAULT_INPUT_PROFILE,
+  TRANSPOSE_OPTIONS,
+  VELOCITY_THRESHOLD_OPTIONS,
+} from "./constants";
+export { default as useDeviceSelection } from "./hooks/useDeviceSelection";
+export { default as useNoteInputSnapshot } from "./hooks/useNoteInputSnapshot";
+export { default as useNoteInputSource } from "./hooks/useNoteInputSource";
+export { createFakeNoteInputSource } from "./utils/createFakeNoteInputSource";
+export { createNoteInputChannel } from "./utils/createNoteInputChannel";
+export type { NoteInputCallbacks } from "./hooks/useNoteInputSource";
+export type { FakeNoteInputSource } from "./utils/createFakeNoteInputSource";
+export type { NoteInputChannel } from "./utils/createNoteInputChannel";
+export type {
+  InputProfile,
+  NoteInputDevice,
+  NoteInputEvent,
+  NoteInputSnapshot,
+  NoteInputSource,
+  NoteInputStatus,
+  Pedal,
+} from "./types";
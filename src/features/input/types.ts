@@ -0,0 +1,55 @@
+/** Lifecycle of a note input source, independent of how it is shown to the user. */
+export type NoteInputStatus =
+    | "checking"
+    | "connected"
+    | "no-device"
+    | "unsupported"
+    | "permission-denied";
+
+export type Pedal = "sustain" | "sostenuto" | "soft";
+
+export interface NoteInputDevice {
+    id: string;
+    name: string;
+}
+
+export type NoteInputEvent =
+    /** `time` is on the `performance.now()` clock, already corrected for device latency. */
+    | { type: "note-on"; note: number; velocity: number; time: number }
+    | { type: "note-off"; note: number }
+    | { type: "pedal"; pedal: Pedal; down: boolean }
+    /** Every held note has been released (or dropped, e.g. on disconnect). */
+    | { type: "all-notes-off" };
+
+/** Per-device corrections applied to incoming notes. */
+export interface InputProfile {
+    /** How late the device reports a key press, in milliseconds. */
+    latencyMs: number;
+    /** Note-ons softer than this are ghost notes and are dropped. */
+    velocityThreshold: number;
+    /** Semitones added to every key, e.g. 12 to play a small keyboard an octave up. */
+    transpose: number;
+}
+
+export interface NoteInputSnapshot {
+    status: NoteInputStatus;
+    devices: NoteInputDevice[];
+}
+
+/**
+ * Anything that produces notes: Web MIDI, a test double, or future sources.
+ *
+ * `getSnapshot` returns the same object until the status or device list
+ * changes, so it can back `useSyncExternalStore` directly.
+ */
+export interface NoteInputSource {
+    getSnapshot: () => NoteInputSnapshot;
+    subscribeSnapshot: (listener: () => void) => () => void;
+    subscribe: (listener: (event: NoteInputEvent) => void) => () => void;
+    /** Limits input to one device; an empty id listens to all of them. */
+    selectDevice: (deviceId: string) => void;
+    /** Corrections for the selected device; null reports notes as they arrive. */
+    setProfile: (profile: InputProfile | null) => void;
+    start: () => void;
+    stop: () => void;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { NoteInputEvent } from "../../types";
+import { createFakeNoteInputSource } from "../createFakeNoteInputSource";
+
+describe("createFakeNoteInputSource", () => {
+    it("connects on start and only forwards notes while running", () => {
+        const source = createFakeNoteInputSource();
+        const events: NoteInputEvent[] = [];
+        source.subscribe((event) => events.push(event));
+
+        source.press(60);
+        expect(source.getSnapshot().status).toBe("checking");
+
+        source.start();
+        source.press(60, 70, 1000);
+        source.press(60, 70, 1010);
+        source.setPedal("sustain", true);
+        source.setPedal("sustain", true);
+        source.release(60);
+
+        expect(source.getSnapshot().status).toBe("connected");
+        expect(events).toEqual([
+            { type: "note-on", note: 60, velocity: 70, time: 1000 },
+            { type: "pedal", pedal: "sustain", down: true },
+            { type: "note-off", note: 60 },
+            { type: "all-notes-off" },
+        ]);
+    });
+
+    it("releases held notes and pedals on stop", () => {
+        const source = createFakeNoteInputSource();
+        const events: NoteInputEvent[] = [];
+        source.subscribe((event) => events.push(event));
+
+        source.start();
+        source.press(64);
+        source.press(67);
+        source.setPedal("soft", true);
+        events.length = 0;
+        source.stop();
+
+        expect(events).toEqual([
+            { type: "pedal", pedal: "soft", down: false },
+            { type: "note-off", note: 64 },
+            { type: "note-off", note: 67 },
+            { type: "all-notes-off" },
+        ]);
+        expect(source.isStarted()).toBe(false);
+    });
+
+    it("keeps a transposed key's note when the profile changes mid-hold", () => {
+        const source = createFakeNoteInputSource();
+        const events: NoteInputEvent[] = [];
+        source.subscribe((event) => events.push(event));
+
+        source.start();
+        source.setProfile({ latencyMs: 0, velocityThreshold: 0, transpose: -12 });
+        source.press(72, 90, 0);
+        source.setProfile(null);
+        source.release(72);
+
+        expect(events).toEqual([
+            { type: "note-on", note: 60, velocity: 90, time: 0 },
+            { type: "note-off", note: 60 },
+            { type: "all-notes-off" },
+        ]);
+    });
+
+    it("keeps the snapshot stable until something changes", () => {
+        const source = createFakeNoteInputSource([{ id: "a", name: "A" }]);
+        let notified = 0;
+        source.subscribeSnapshot(() => (notified += 1));
+
+        const before = source.getSnapshot();
+        source.setStatus("checking");
+        expect(source.getSnapshot()).toBe(before);
+        expect(notified).toBe(0);
+
+        source.setStatus("no-device");
+        expect(source.getSnapshot()).not.toBe(before);
+        expect(notified).toBe(1);
+    });
+});
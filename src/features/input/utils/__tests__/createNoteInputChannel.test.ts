@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { InputProfile, NoteInputEvent } from "../../types";
+import { createNoteInputChannel } from "../createNoteInputChannel";
+
+function createChannel(profile: Partial<InputProfile>) {
+    const channel = createNoteInputChannel({ status: "connected", devices: [] });
+    const events: NoteInputEvent[] = [];
+    channel.subscribe((event) => events.push(event));
+    channel.setProfile({ latencyMs: 0, velocityThreshold: 0, transpose: 0, ...profile });
+    return { channel, events };
+}
+
+describe("createNoteInputChannel", () => {
+    it("drops ghost notes under the velocity threshold along with their note-off", () => {
+        const { channel, events } = createChannel({ velocityThreshold: 20 });
+
+        channel.noteOn(60, 12, 0);
+        channel.noteOff(60);
+        channel.noteOn(62, 20, 10);
+        channel.noteOff(62);
+
+        expect(events).toEqual([
+            { type: "note-on", note: 62, velocity: 20, time: 10 },
+            { type: "note-off", note: 62 },
+            { type: "all-notes-off" },
+        ]);
+    });
+
+    it("does not let a swallowed note-off end a note held on another key", () => {
+        const { channel, events } = createChannel({ velocityThreshold: 20 });
+
+        channel.noteOn(60, 90, 0);
+        channel.noteOn(64, 5, 5);
+        channel.noteOff(64);
+
+        expect(events).toEqual([{ type: "note-on", note: 60, velocity: 90, time: 0 }]);
+
+        // The ghost key plays normally once it is pressed again firmly.
+        channel.noteOn(64, 80, 20);
+        expect(events).toHaveLength(2);
+        expect(events[1]).toEqual({ type: "note-on", note: 64, velocity: 80, time: 20 });
+    });
+
+    it("shifts note-on times back by the measured latency", () => {
+        const { channel, events } = createChannel({ latencyMs: 35 });
+
+        channel.noteOn(60, 90, 1000);
+
+        expect(events).toEqual([{ type: "note-on", note: 60, velocity: 90, time: 965 }]);
+    });
+
+    it("ignores keys that transpose outside the MIDI range, including their note-off", () => {
+        const { channel, events } = createChannel({ transpose: 12 });
+
+        channel.noteOn(120, 90, 0);
+        channel.noteOff(120);
+        channel.setProfile({ latencyMs: 0, velocityThreshold: 0, transpose: -12 });
+        channel.noteOn(5, 90, 0);
+        channel.noteOff(5);
+        channel.noteOn(12, 90, 0);
+
+        expect(events).toEqual([{ type: "note-on", note: 0, velocity: 90, time: 0 }]);
+    });
+});
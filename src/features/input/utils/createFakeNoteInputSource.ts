@@ -0,0 +1,54 @@
+import type { NoteInputDevice, NoteInputSource, NoteInputStatus, Pedal } from "../types";
+import { createNoteInputChannel } from "./createNoteInputChannel";
+
+export interface FakeNoteInputSource extends NoteInputSource {
+    press: (note: number, velocity?: number, time?: number) => void;
+    release: (note: number) => void;
+    setPedal: (pedal: Pedal, down: boolean) => void;
+    setStatus: (status: NoteInputStatus) => void;
+    setDevices: (devices: NoteInputDevice[]) => void;
+    /** Device id last passed to `selectDevice`. */
+    getSelectedDevice: () => string;
+    isStarted: () => boolean;
+}
+
+/**
+ * A scriptable source for tests and demos. It reports "connected" once
+ * started and only forwards notes while running, like a real device would.
+ */
+export function createFakeNoteInputSource(devices: NoteInputDevice[] = []): FakeNoteInputSource {
+    const channel = createNoteInputChannel({ status: "checking", devices });
+    let started = false;
+    let selectedDevice = "";
+
+    return {
+        getSnapshot: channel.getSnapshot,
+        subscribeSnapshot: channel.subscribeSnapshot,
+        subscribe: channel.subscribe,
+        setProfile: channel.setProfile,
+        selectDevice(deviceId) {
+            selectedDevice = deviceId;
+        },
+        start() {
+            started = true;
+            channel.setSnapshot({ status: "connected" });
+        },
+        stop() {
+            started = false;
+            channel.releaseAll();
+        },
+        press(note, velocity = 96, time) {
+            if (started) channel.noteOn(note, velocity, time);
+        },
+        release(note) {
+            if (started) channel.noteOff(note);
+        },
+        setPedal(pedal, down) {
+            if (started) channel.pedal(pedal, down);
+        },
+        setStatus: (status) => channel.setSnapshot({ status }),
+        setDevices: (next) => channel.setSnapshot({ devices: next }),
+        getSelectedDevice: () => selectedDevice,
+        isStarted: () => started,
+    };
+}
@@ -0,0 +1,119 @@
+import type { InputProfile, NoteInputEvent, NoteInputSnapshot, Pedal } from "../types";
+
+export interface NoteInputChannel {
+    getSnapshot: () => NoteInputSnapshot;
+    setSnapshot: (next: Partial<NoteInputSnapshot>) => void;
+    subscribeSnapshot: (listener: () => void) => () => void;
+    subscribe: (listener: (event: NoteInputEvent) => void) => () => void;
+    /** Applies a device profile to every note from now on; null turns it off. */
+    setProfile: (profile: InputProfile | null) => void;
+    /** `time` is when the key went down on the `performance.now()` clock; defaults to now. */
+    noteOn: (key: number, velocity: number, time?: number) => void;
+    noteOff: (key: number) => void;
+    pedal: (pedal: Pedal, down: boolean) => void;
+    /** Releases every held note, as a MIDI All Notes Off does; pedals stay put. */
+    releaseNotes: () => void;
+    /** Lifts every pedal without touching held notes. */
+    releasePedals: () => void;
+    /** Releases notes and pedals, e.g. when a device goes away mid-phrase. */
+    releaseAll: () => void;
+}
+
+const MAX_MIDI_NOTE = 127;
+
+/**
+ * Shared plumbing for note input sources: listener sets, a stable snapshot
+ * and held-note bookkeeping. Repeated note-ons for a held key are ignored,
+ * and "all-notes-off" follows the release of the last held note. Pedal
+ * events only fire when a pedal actually changes position.
+ *
+ * The device profile is applied here, so every source gets it for free:
+ * ghost notes under the velocity threshold are dropped along with their
+ * note-off, keys are transposed (a key keeps the note it started with if the
+ * profile changes mid-hold), and note-on times are shifted back by the
+ * measured latency.
+ */
+export function createNoteInputChannel(initial: NoteInputSnapshot): NoteInputChannel {
+    let snapshot = initial;
+    let profile: InputProfile | null = null;
+    const snapshotListeners = new Set<() => void>();
+    const eventListeners = new Set<(event: NoteInputEvent) => void>();
+    /** Physical key → note that was reported for it. */
+    const heldNotes = new Map<number, number>();
+    const ignoredKeys = new Set<number>();
+    const pedalsDown = new Set<Pedal>();
+
+    const emit = (event: NoteInputEvent) => {
+        eventListeners.forEach((listener) => listener(event));
+    };
+
+    const releasePedals = () => {
+        pedalsDown.forEach((pedal) => emit({ type: "pedal", pedal, down: false }));
+        pedalsDown.clear();
+    };
+
+    const releaseNotes = () => {
+        ignoredKeys.clear();
+        if (heldNotes.size === 0) return;
+
+        const notes = Array.from(heldNotes.values());
+        heldNotes.clear();
+        notes.forEach((note) => emit({ type: "note-off", note }));
+        emit({ type: "all-notes-off" });
+    };
+
+    return {
+        getSnapshot: () => snapshot,
+        setSnapshot(next) {
+            const status = next.status ?? snapshot.status;
+            const devices = next.devices ?? snapshot.devices;
+            if (status === snapshot.status && devices === snapshot.devices) return;
+            snapshot = { status, devices };
+            snapshotListeners.forEach((listener) => listener());
+        },
+        subscribeSnapshot(listener) {
+            snapshotListeners.add(listener);
+            return () => snapshotListeners.delete(listener);
+        },
+        subscribe(listener) {
+            eventListeners.add(listener);
+            return () => eventListeners.delete(listener);
+        },
+        setProfile(next) {
+            profile = next;
+        },
+        noteOn(key, velocity, time = performance.now()) {
+            if (heldNotes.has(key) || ignoredKeys.has(key)) return;
+
+            const note = key + (profile?.transpose ?? 0);
+            if (velocity < (profile?.velocityThreshold ?? 0) || note < 0 || note > MAX_MIDI_NOTE) {
+                ignoredKeys.add(key);
+                return;
+            }
+
+            heldNotes.set(key, note);
+            emit({ type: "note-on", note, velocity, time: time - (profile?.latencyMs ?? 0) });
+        },
+        noteOff(key) {
+            if (ignoredKeys.delete(key)) return;
+
+            const note = heldNotes.get(key);
+            if (note === undefined) return;
+            heldNotes.delete(key);
+            emit({ type: "note-off", note });
+            if (heldNotes.size === 0) emit({ type: "all-notes-off" });
+        },
+        pedal(pedal, down) {
+            if (pedalsDown.has(pedal) === down) return;
+            if (down) pedalsDown.add(pedal);
+            else pedalsDown.delete(pedal);
+            emit({ type: "pedal", pedal, down });
+        },
+        releaseNotes,
+        releasePedals,
+        releaseAll() {
+            releasePedals();
+            releaseNotes();
+        },
+    };
+}
@@ -0,0 +1,73 @@
+import { useMemo, useRef, type PointerEvent } from "react";
+
+import { midiToNoteLabel } from "../../midi";
+import { buildPianoKeys } from "../utils/pianoKeys";
+import { qwertyLabelForMidi } from "../utils/qwertyLayout";
+
+interface VirtualPianoProps {
+    minMidi: number;
+    maxMidi: number;
+    heldNotes: ReadonlySet<number>;
+    /** When set, keys reachable from the computer keyboard show their letter. */
+    qwertyOctave: number | null;
+    onPress: (note: number) => void;
+    onRelease: (note: number) => void;
+}
+
+export default function VirtualPiano({
+    minMidi,
+    maxMidi,
+    heldNotes,
+    qwertyOctave,
+    onPress,
+    onRelease,
+}: VirtualPianoProps) {
+    const keys = useMemo(() => buildPianoKeys(minMidi, maxMidi), [minMidi, maxMidi]);
+    const whiteCount = keys.filter((key) => !key.isBlack).length;
+    const pointerNotes = useRef(new Map<number, number>());
+
+    const pressWithPointer = (event: PointerEvent<HTMLButtonElement>, note: number) => {
+        event.preventDefault();
+        // Touch pointers capture implicitly; release so sliding off a key lets go of it.
+        event.currentTarget.releasePointerCapture?.(event.pointerId);
+        pointerNotes.current.set(event.pointerId, note);
+        onPress(note);
+    };
+
+    const releasePointer = (event: PointerEvent<HTMLButtonElement>) => {
+        const note = pointerNotes.current.get(event.pointerId);
+        if (note === undefined) return;
+        pointerNotes.current.delete(event.pointerId);
+        onRelease(note);
+    };
+
+    return (
+        <div className="virtual-piano" role="group" aria-label="On-screen piano">
+            <div className="virtual-piano-keys" style={{ minWidth: `${whiteCount * 34}px` }}>
+                {keys.map((key) => {
+                    const label = qwertyOctave === null ? null : qwertyLabelForMidi(key.midi, qwertyOctave);
+                    const position = key.isBlack
+                        ? { left: `${((key.whiteIndex + 1) / whiteCount) * 100}%`, width: `${60 / whiteCount}%` }
+                        : { left: `${(key.whiteIndex / whiteCount) * 100}%`, width: `${100 / whiteCount}%` };
+
+                    return (
+                        <button
+                            key={key.midi}
+                            type="button"
+                            className={`virtual-piano-key ${key.isBlack ? "black" : "white"} ${heldNotes.has(key.midi) ? "held" : ""}`}
+                            style={position}
+                            aria-label={midiToNoteLabel(key.midi)}
+                            aria-pressed={heldNotes.has(key.midi)}
+                            onPointerDown={(event) => pressWithPointer(event, key.midi)}
+                            onPointerUp={releasePointer}
+                            onPointerLeave={releasePointer}
+                            onPointerCancel={releasePointer}
+                        >
+                            {label ? <span className="virtual-piano-label">{label}</span> : null}
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
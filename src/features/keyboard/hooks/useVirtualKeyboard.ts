@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+    DEFAULT_QWERTY_OCTAVE,
+    OCTAVE_DOWN_CODE,
+    OCTAVE_UP_CODE,
+    clampQwertyOctave,
+    qwertyCodeToMidi,
+} from "../utils/qwertyLayout";
+
+export interface VirtualKeyboardCallbacks {
+    /** Listen to the computer keyboard; the on-screen piano works regardless. */
+    enabled: boolean;
+    onNoteOn?: (note: number, velocity: number) => void;
+    onNoteOff?: (note: number) => void;
+    onAllNotesOff?: () => void;
+}
+
+export interface VirtualKeyboard {
+    heldNotes: ReadonlySet<number>;
+    /** Octave the QWERTY home row starts in (A = C of this octave). */
+    octave: number;
+    press: (note: number) => void;
+    release: (note: number) => void;
+}
+
+const VIRTUAL_VELOCITY = 96;
+
+function isTypingTarget(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false;
+    return (
+        target.isContentEditable ||
+        target.tagName === "INPUT" ||
+        target.tagName === "SELECT" ||
+        target.tagName === "TEXTAREA"
+    );
+}
+
+/**
+ * Note input without a MIDI device: the on-screen piano calls `press` and
+ * `release`, and while `enabled` the computer keyboard plays notes too (Z/X
+ * shift the octave). Both feed the same callbacks `useNoteInputSource` drives.
+ */
+export default function useVirtualKeyboard(callbacks: VirtualKeyboardCallbacks): VirtualKeyboard {
+    const { enabled, onNoteOn, onNoteOff, onAllNotesOff } = callbacks;
+    const heldRef = useRef<Set<number>>(new Set());
+    const keyNotes = useRef(new Map<string, number>());
+    const octaveRef = useRef(DEFAULT_QWERTY_OCTAVE);
+
+    const [heldNotes, setHeldNotes] = useState<ReadonlySet<number>>(new Set());
+    const [octave, setOctave] = useState(DEFAULT_QWERTY_OCTAVE);
+
+    const press = useCallback(
+        (note: number) => {
+            if (heldRef.current.has(note)) return;
+            heldRef.current.add(note);
+            setHeldNotes(new Set(heldRef.current));
+            onNoteOn?.(note, VIRTUAL_VELOCITY);
+        },
+        [onNoteOn],
+    );
+
+    const release = useCallback(
+        (note: number) => {
+            if (!heldRef.current.delete(note)) return;
+            setHeldNotes(new Set(heldRef.current));
+            onNoteOff?.(note);
+            if (heldRef.current.size === 0) {
+                onAllNotesOff?.();
+            }
+        },
+        [onNoteOff, onAllNotesOff],
+    );
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (event.repeat || event.metaKey || event.ctrlKey || event.altKey) return;
+            if (isTypingTarget(event.target)) return;
+
+            if (event.code === OCTAVE_DOWN_CODE || event.code === OCTAVE_UP_CODE) {
+                const shift = event.code === OCTAVE_UP_CODE ? 1 : -1;
+                octaveRef.current = clampQwertyOctave(octaveRef.current + shift);
+                setOctave(octaveRef.current);
+                event.preventDefault();
+                return;
+            }
+
+            const note = qwertyCodeToMidi(event.code, octaveRef.current);
+            if (note === null || keyNotes.current.has(event.code)) return;
+
+            // Remember the note per key so an octave shift mid-hold releases the right one.
+            keyNotes.current.set(event.code, note);
+            press(note);
+            event.preventDefault();
+        };
+
+        const onKeyUp = (event: KeyboardEvent) => {
+            const note = keyNotes.current.get(event.code);
+            if (note === undefined) return;
+            keyNotes.current.delete(event.code);
+            release(note);
+        };
+
+        const releaseAll = () => {
+            keyNotes.current.forEach((note) => release(note));
+            keyNotes.current.clear();
+        };
+
+        window.addEventListener("keydown", onKeyDown);
+        window.addEventListener("keyup", onKeyUp);
+        window.addEventListener("blur", releaseAll);
+
+        return () => {
+            window.removeEventListener("keydown", onKeyDown);
+            window.removeEventListener("keyup", onKeyUp);
+            window.removeEventListener("blur", releaseAll);
+            releaseAll();
+        };
+    }, [enabled, press, release]);
+
+    return { heldNotes, octave, press, release };
+}
@@ -0,0 +1,5 @@
+export { default as VirtualPiano } from "./components/VirtualPiano";
+export { default as useVirtualKeyboard } from "./hooks/useVirtualKeyboard";
+export { buildPianoKeys, isBlackKey } from "./utils/pianoKeys";
+export type { PianoKey } from "./utils/pianoKeys";
+export type { VirtualKeyboard, VirtualKeyboardCallbacks } from "./hooks/useVirtualKeyboard";
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { buildPianoKeys, isBlackKey } from "../pianoKeys";
+
+describe("buildPianoKeys", () => {
+    it("lays out one octave with black keys on the white key to their left", () => {
+        const keys = buildPianoKeys(60, 71);
+
+        expect(keys).toHaveLength(12);
+        expect(keys.filter((key) => !key.isBlack)).toHaveLength(7);
+        expect(keys.find((key) => key.midi === 61)).toEqual({ midi: 61, isBlack: true, whiteIndex: 0 });
+        expect(keys.find((key) => key.midi === 70)?.whiteIndex).toBe(5);
+    });
+
+    it("widens the range so it starts and ends on white keys", () => {
+        const keys = buildPianoKeys(61, 66);
+        expect(keys[0].midi).toBe(60);
+        expect(keys[keys.length - 1].midi).toBe(67);
+    });
+});
+
+describe("isBlackKey", () => {
+    it("recognises the sharps and flats", () => {
+        expect([60, 61, 62, 63, 64, 65, 66].map(isBlackKey)).toEqual([
+            false,
+            true,
+            false,
+            true,
+            false,
+            false,
+            true,
+        ]);
+    });
+});
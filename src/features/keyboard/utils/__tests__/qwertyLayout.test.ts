@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { clampQwertyOctave, qwertyCodeToMidi, qwertyLabelForMidi } from "../qwertyLayout";
+
+describe("qwertyCodeToMidi", () => {
+    it("maps the home row to white keys from C", () => {
+        expect(qwertyCodeToMidi("KeyA", 4)).toBe(60);
+        expect(qwertyCodeToMidi("KeyS", 4)).toBe(62);
+        expect(qwertyCodeToMidi("KeyK", 4)).toBe(72);
+    });
+
+    it("maps the upper row to black keys", () => {
+        expect(qwertyCodeToMidi("KeyW", 4)).toBe(61);
+        expect(qwertyCodeToMidi("KeyT", 3)).toBe(54);
+    });
+
+    it("ignores unmapped keys and notes above the MIDI range", () => {
+        expect(qwertyCodeToMidi("KeyQ", 4)).toBeNull();
+        expect(qwertyCodeToMidi("Semicolon", 9)).toBeNull();
+    });
+});
+
+describe("qwertyLabelForMidi", () => {
+    it("finds the key that plays a note in the current octave", () => {
+        expect(qwertyLabelForMidi(64, 4)).toBe("D");
+        expect(qwertyLabelForMidi(59, 4)).toBeNull();
+    });
+});
+
+describe("clampQwertyOctave", () => {
+    it("keeps the octave shift inside the keyboard", () => {
+        expect(clampQwertyOctave(-1)).toBe(0);
+        expect(clampQwertyOctave(9)).toBe(7);
+    });
+});
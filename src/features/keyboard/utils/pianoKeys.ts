@@ -0,0 +1,32 @@
+const BLACK_PITCH_CLASSES = new Set([1, 3, 6, 8, 10]);
+
+export type PianoKey = {
+    midi: number;
+    isBlack: boolean;
+    /** Index of the white key this key sits on (black keys sit on its right edge). */
+    whiteIndex: number;
+};
+
+export function isBlackKey(midi: number): boolean {
+    return BLACK_PITCH_CLASSES.has(((midi % 12) + 12) % 12);
+}
+
+/**
+ * Keys covering `minMidi`..`maxMidi`, widened so the keyboard starts and ends
+ * on white keys and never cuts a black key in half.
+ */
+export function buildPianoKeys(minMidi: number, maxMidi: number): PianoKey[] {
+    let first = Math.min(minMidi, maxMidi);
+    let last = Math.max(minMidi, maxMidi);
+    if (isBlackKey(first)) first -= 1;
+    if (isBlackKey(last)) last += 1;
+
+    const keys: PianoKey[] = [];
+    let whiteIndex = -1;
+    for (let midi = first; midi <= last; midi++) {
+        const isBlack = isBlackKey(midi);
+        if (!isBlack) whiteIndex += 1;
+        keys.push({ midi, isBlack, whiteIndex });
+    }
+    return keys;
+}
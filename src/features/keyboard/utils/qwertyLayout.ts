@@ -0,0 +1,58 @@
+import { clamp } from "../../../shared/utils/clamp";
+
+export type QwertyNoteKey = {
+    /** `KeyboardEvent.code`, so the mapping follows key positions, not layouts. */
+    code: string;
+    label: string;
+    /** Semitones above the C of the current octave. */
+    offset: number;
+};
+
+/**
+ * The usual "tracker" layout: the home row plays white keys from C and the
+ * row above it plays the black keys in between.
+ */
+export const QWERTY_NOTE_KEYS: readonly QwertyNoteKey[] = [
+    { code: "KeyA", label: "A", offset: 0 },
+    { code: "KeyW", label: "W", offset: 1 },
+    { code: "KeyS", label: "S", offset: 2 },
+    { code: "KeyE", label: "E", offset: 3 },
+    { code: "KeyD", label: "D", offset: 4 },
+    { code: "KeyF", label: "F", offset: 5 },
+    { code: "KeyT", label: "T", offset: 6 },
+    { code: "KeyG", label: "G", offset: 7 },
+    { code: "KeyY", label: "Y", offset: 8 },
+    { code: "KeyH", label: "H", offset: 9 },
+    { code: "KeyU", label: "U", offset: 10 },
+    { code: "KeyJ", label: "J", offset: 11 },
+    { code: "KeyK", label: "K", offset: 12 },
+    { code: "KeyO", label: "O", offset: 13 },
+    { code: "KeyL", label: "L", offset: 14 },
+    { code: "KeyP", label: "P", offset: 15 },
+    { code: "Semicolon", label: ";", offset: 16 },
+];
+
+export const OCTAVE_DOWN_CODE = "KeyZ";
+export const OCTAVE_UP_CODE = "KeyX";
+export const DEFAULT_QWERTY_OCTAVE = 4;
+export const MIN_QWERTY_OCTAVE = 0;
+export const MAX_QWERTY_OCTAVE = 7;
+
+export function clampQwertyOctave(octave: number): number {
+    return clamp(octave, MIN_QWERTY_OCTAVE, MAX_QWERTY_OCTAVE);
+}
+
+/** MIDI note for a key code in the given octave, or null for unmapped keys. */
+export function qwertyCodeToMidi(code: string, octave: number): number | null {
+    const key = QWERTY_NOTE_KEYS.find((candidate) => candidate.code === code);
+    if (!key) return null;
+
+    const midi = (octave + 1) * 12 + key.offset;
+    return midi <= 127 ? midi : null;
+}
+
+/** The key label that plays `midi` in the given octave, if any. */
+export function qwertyLabelForMidi(midi: number, octave: number): string | null {
+    const offset = midi - (octave + 1) * 12;
+    return QWERTY_NOTE_KEYS.find((key) => key.offset === offset)?.label ?? null;
+}
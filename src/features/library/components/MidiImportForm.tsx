@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { formatTime } from "../../../shared/utils";
+import {
+    DEFAULT_QUANTIZE,
+    DEFAULT_SPLIT_NOTE,
+    QUANTIZE_OPTIONS,
+    SPLIT_NOTE_OPTIONS,
+} from "../constants";
+import type { MidiFile, MidiImportOptions, QuantizeGrid } from "../types";
+import { initialBpm } from "../utils/midiToScore";
+import { ticksToSeconds } from "../utils/parseMidiFile";
+
+interface MidiImportFormProps {
+    fileName: string;
+    file: MidiFile;
+    onConfirm: (options: MidiImportOptions) => void;
+    onCancel: () => void;
+}
+
+/** Split the right-hand track at a note instead of reading the left hand from a track. */
+const SPLIT_TRACK = "split";
+
+export default function MidiImportForm({ fileName, file, onConfirm, onCancel }: MidiImportFormProps) {
+    const tracks = file.tracks.filter((track) => track.notes.length > 0);
+    const [rightTrack, setRightTrack] = useState(tracks[0]?.index ?? 0);
+    const [leftTrack, setLeftTrack] = useState<number | typeof SPLIT_TRACK>(
+        tracks[1]?.index ?? SPLIT_TRACK,
+    );
+    const [splitNote, setSplitNote] = useState(DEFAULT_SPLIT_NOTE);
+    const [quantize, setQuantize] = useState<QuantizeGrid>(DEFAULT_QUANTIZE);
+
+    const lastTick = Math.max(
+        0,
+        ...tracks.flatMap((track) => track.notes.map((note) => note.startTick + note.durationTicks)),
+    );
+    const splitsTrack = leftTrack === SPLIT_TRACK || leftTrack === rightTrack;
+
+    const handleConfirm = () => {
+        onConfirm({
+            tracks: splitsTrack ? [rightTrack] : [rightTrack, leftTrack],
+            quantize,
+            handSplit: splitsTrack ? "split-point" : "tracks",
+            splitNote,
+        });
+    };
+
+    const trackLabel = (index: number) => {
+        const track = file.tracks[index];
+        return `${track.name || `Track ${index + 1}`} · ${track.notes.length} notes`;
+    };
+
+    return (
+        <form
+            className="midi-import-form"
+            onSubmit={(event) => {
+                event.preventDefault();
+                handleConfirm();
+            }}
+        >
+            <div className="training-meta">
+                <h3>{fileName}</h3>
+                <p className="mono">
+                    {formatTime(ticksToSeconds(file, lastTick))} · {initialBpm(file)} BPM
+                </p>
+            </div>
+
+            {tracks.length === 0 ? (
+                <p className="piece-import-error">This file has no notes to import.</p>
+            ) : (
+                <>
+                    <label className="midi-import-field">
+                        <span>Right hand</span>
+                        <span className="select-wrap">
+                            <select
+                                value={rightTrack}
+                                onChange={(event) => setRightTrack(Number(event.target.value))}
+                            >
+                                {tracks.map((track) => (
+                                    <option key={track.index} value={track.index}>
+                                        {trackLabel(track.index)}
+                                    </option>
+                                ))}
+                            </select>
+                        </span>
+                    </label>
+
+                    <label className="midi-import-field">
+                        <span>Left hand</span>
+                        <span className="select-wrap">
+                            <select
+                                value={leftTrack}
+                                onChange={(event) =>
+                                    setLeftTrack(
+                                        event.target.value === SPLIT_TRACK
+                                            ? SPLIT_TRACK
+                                            : Number(event.target.value),
+                                    )
+                                }
+                            >
+                                <option value={SPLIT_TRACK}>Split the right-hand track</option>
+                                {tracks
+                                    .filter((track) => track.index !== rightTrack)
+                                    .map((track) => (
+                                        <option key={track.index} value={track.index}>
+                                            {trackLabel(track.index)}
+                                        </option>
+                                    ))}
+                            </select>
+                        </span>
+                    </label>
+
+                    {splitsTrack ? (
+                        <label className="midi-import-field">
+                            <span>Split at</span>
+                            <span className="select-wrap">
+                                <select
+                                    value={splitNote}
+                                    onChange={(event) => setSplitNote(Number(event.target.value))}
+                                >
+                                    {SPLIT_NOTE_OPTIONS.map((option) => (
+                                        <option key={option.value} value={option.value}>
+                                            {option.label}
+                                        </option>
+                                    ))}
+                                </select>
+                            </span>
+                        </label>
+                    ) : null}
+
+                    <label className="midi-import-field">
+                        <span>Quantize to</span>
+                        <span className="select-wrap">
+                            <select
+                                value={quantize}
+                                onChange={(event) => setQuantize(event.target.value as QuantizeGrid)}
+                            >
+                                {QUANTIZE_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                        </span>
+                    </label>
+                </>
+            )}
+
+            <div className="training-actions">
+                <button type="submit" className="training-load-button" disabled={tracks.length === 0}>
+                    Import
+                </button>
+                <button type="button" className="save-training-cancel" onClick={onCancel}>
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+}
@@ -0,0 +1,22 @@
+import type { QuantizeGrid } from "./types";
+
+export const DEFAULT_QUANTIZE: QuantizeGrid = "sixteenth";
+export const DEFAULT_SPLIT_NOTE = 60;
+
+export const QUANTIZE_OPTIONS: readonly { value: QuantizeGrid; label: string }[] = [
+  { value: "quarter", label: "Quarter notes" },
+  { value: "eighth", label: "Eighth notes" },
+  { value: "sixteenth", label: "Sixteenth notes" },
+];
+
+/** Split points offered when one track is shared between the hands. */
+export const SPLIT_NOTE_OPTIONS: readonly { value: number; label: string }[] = [
+  { value: 48, label: "C3" },
+  { value: 53, label: "F3" },
+  { value: 55, label: "G3" },
+  { value: 60, label: "Middle C (C4)" },
+  { value: 64, label: "E4" },
+  { value: 67, label: "G4" },
+];
+
+export const SCORE_FILE_ACCEPT = ".musicxml,.xml,.mxl,.mid,.midi";
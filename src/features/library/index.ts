@@ -0,0 +1,6 @@
+export { default as MidiImportForm } from "./components/MidiImportForm";
+export { SCORE_FILE_ACCEPT } from "./constants";
+export { initialBpm, midiToScore } from "./utils/midiToScore";
+export { parseMidiFile, ticksToSeconds } from "./utils/parseMidiFile";
+export { isMidiFileName, readMidiFile, readScoreFile } from "./utils/readScoreFile";
+export type { HandSplit, MidiFile, MidiImportOptions, QuantizeGrid } from "./types";
@@ -0,0 +1,50 @@
+import type { KeyMode, Meter } from "../../entities/score";
+
+export type MidiFileNote = {
+    note: number;
+    velocity: number;
+    /** 1–16. */
+    channel: number;
+    startTick: number;
+    durationTicks: number;
+};
+
+export type MidiFileTrack = {
+    index: number;
+    name: string;
+    channels: number[];
+    notes: MidiFileNote[];
+};
+
+export type TempoChange = {
+    tick: number;
+    microsecondsPerQuarter: number;
+};
+
+export type MidiFile = {
+    format: number;
+    ticksPerQuarter: number;
+    tracks: MidiFileTrack[];
+    /** Sorted by tick; always starts at tick 0 (120 BPM when the file sets no tempo). */
+    tempos: TempoChange[];
+    timeSignature: Meter | null;
+    keySignature: { fifths: number; mode: KeyMode } | null;
+};
+
+/** Finest note value imported notes snap to. */
+export type QuantizeGrid = "quarter" | "eighth" | "sixteenth";
+
+/**
+ * How imported notes are shared between the staves:
+ *   tracks      — the first chosen track is the right hand, the second the left
+ *   split-point — notes at or above `splitNote` go to the right hand
+ */
+export type HandSplit = "tracks" | "split-point";
+
+export type MidiImportOptions = {
+    /** One track, or a right-hand/left-hand pair. */
+    tracks: number[];
+    quantize: QuantizeGrid;
+    handSplit: HandSplit;
+    splitNote: number;
+};
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import type { MidiFile, MidiFileNote } from "../../types";
+import { initialBpm, midiToScore } from "../midiToScore";
+
+const TPQ = 480;
+
+function note(pitch: number, beat: number, beats: number): MidiFileNote {
+    return { note: pitch, velocity: 80, channel: 1, startTick: beat * TPQ, durationTicks: beats * TPQ };
+}
+
+function midiFile(tracks: MidiFileNote[][]): MidiFile {
+    return {
+        format: 1,
+        ticksPerQuarter: TPQ,
+        tracks: tracks.map((notes, index) => ({ index, name: "", channels: [1], notes })),
+        tempos: [{ tick: 0, microsecondsPerQuarter: 600_000 }],
+        timeSignature: { beats: 4, beatType: 4 },
+        keySignature: null,
+    };
+}
+
+function staffOf(xml: string, step: string, octave: number): string | undefined {
+    const element = xml
+        .split("</note>")
+        .find((part) => part.includes(`<step>${step}</step>`) && part.includes(`<octave>${octave}</octave>`));
+    return element?.match(/<staff>(\d)<\/staff>/)?.[1];
+}
+
+describe("midiToScore", () => {
+    it("snaps played timing to the quantize grid", () => {
+        const file = midiFile([[note(60, 0.05, 0.9), note(62, 1.1, 0.4), note(64, 1.45, 1)]]);
+
+        const { expectedSteps } = midiToScore(
+            file,
+            { tracks: [0], quantize: "eighth", handSplit: "split-point", splitNote: 60 },
+            "Etude",
+        );
+
+        expect(expectedSteps).toEqual([
+            { beat: 0, notes: [60] },
+            { beat: 1, notes: [62] },
+            { beat: 1.5, notes: [64] },
+        ]);
+    });
+
+    it("splits hands at the split note or by track", () => {
+        const file = midiFile([[note(67, 0, 1), note(55, 0, 1)], [note(43, 1, 1)]]);
+        const bySplit = midiToScore(
+            file,
+            { tracks: [0, 1], quantize: "quarter", handSplit: "split-point", splitNote: 60 },
+            "Duet",
+        );
+        const byTrack = midiToScore(
+            file,
+            { tracks: [0, 1], quantize: "quarter", handSplit: "tracks", splitNote: 60 },
+            "Duet",
+        );
+
+        // G3 sits on the bass staff with a split at middle C, on the treble staff by track.
+        expect(staffOf(bySplit.xml, "G", 3)).toBe("2");
+        expect(staffOf(byTrack.xml, "G", 3)).toBe("1");
+        expect(byTrack.expectedSteps).toEqual([
+            { beat: 0, notes: [55, 67] },
+            { beat: 1, notes: [43] },
+        ]);
+        expect(byTrack.title).toBe("Duet");
+    });
+
+    it("drops leading empty measures", () => {
+        const { expectedSteps } = midiToScore(
+            midiFile([[note(60, 9, 1)]]),
+            { tracks: [0], quantize: "quarter", handSplit: "split-point", splitNote: 60 },
+            "Late start",
+        );
+
+        expect(expectedSteps).toEqual([{ beat: 1, notes: [60] }]);
+    });
+
+    it("rejects tracks without notes", () => {
+        expect(() =>
+            midiToScore(
+                midiFile([[]]),
+                { tracks: [0], quantize: "quarter", handSplit: "split-point", splitNote: 60 },
+                "Empty",
+            ),
+        ).toThrow(/no notes/);
+    });
+
+    it("reads the starting tempo", () => {
+        expect(initialBpm(midiFile([]))).toBe(100);
+    });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { parseMidiFile, ticksToSeconds } from "../parseMidiFile";
+
+function varint(value: number): number[] {
+    const bytes = [value & 0x7f];
+    for (let rest = value >> 7; rest > 0; rest >>= 7) {
+        bytes.unshift((rest & 0x7f) | 0x80);
+    }
+    return bytes;
+}
+
+function chunk(type: string, data: number[]): number[] {
+    const length = data.length;
+    return [
+        ...[...type].map((char) => char.charCodeAt(0)),
+        (length >>> 24) & 0xff,
+        (length >>> 16) & 0xff,
+        (length >>> 8) & 0xff,
+        length & 0xff,
+        ...data,
+    ];
+}
+
+/** Builds a file from tracks given as [delta ticks, ...event bytes] entries. */
+function smf(format: number, tracks: number[][][], ticksPerQuarter = 480): Uint8Array {
+    const header = chunk("MThd", [0, format, 0, tracks.length, ticksPerQuarter >> 8, ticksPerQuarter & 0xff]);
+    const body = tracks.flatMap((events) =>
+        chunk("MTrk", [
+            ...events.flatMap(([delta, ...bytes]) => [...varint(delta), ...bytes]),
+            0x00, 0xff, 0x2f, 0x00,
+        ]),
+    );
+    return new Uint8Array([...header, ...body]);
+}
+
+describe("parseMidiFile", () => {
+    it("reads notes, names and meta events across format 1 tracks", () => {
+        const file = parseMidiFile(
+            smf(1, [
+                [
+                    [0, 0xff, 0x51, 0x03, 0x07, 0xa1, 0x20],
+                    [0, 0xff, 0x58, 0x04, 0x03, 0x02, 0x18, 0x08],
+                    [0, 0xff, 0x59, 0x02, 0xfe, 0x00],
+                    [960, 0xff, 0x51, 0x03, 0x03, 0xd0, 0x90],
+                ],
+                [
+                    [0, 0xff, 0x03, 0x05, ..."Piano".split("").map((char) => char.charCodeAt(0))],
+                    [0, 0x90, 60, 100],
+                    // Running status, with a velocity-0 note-on as the release.
+                    [480, 64, 90],
+                    [0, 60, 0],
+                    [480, 0x80, 64, 0],
+                ],
+            ]),
+        );
+
+        expect(file.format).toBe(1);
+        expect(file.ticksPerQuarter).toBe(480);
+        expect(file.timeSignature).toEqual({ beats: 3, beatType: 4 });
+        expect(file.keySignature).toEqual({ fifths: -2, mode: "major" });
+        expect(file.tempos).toEqual([
+            { tick: 0, microsecondsPerQuarter: 500_000 },
+            { tick: 960, microsecondsPerQuarter: 250_000 },
+        ]);
+        expect(file.tracks[1]).toMatchObject({ name: "Piano", channels: [1] });
+        expect(file.tracks[1].notes).toEqual([
+            { note: 60, velocity: 100, channel: 1, startTick: 0, durationTicks: 480 },
+            { note: 64, velocity: 90, channel: 1, startTick: 480, durationTicks: 480 },
+        ]);
+    });
+
+    it("splits a format 0 track by channel", () => {
+        const file = parseMidiFile(
+            smf(0, [[
+                [0, 0x90, 72, 80],
+                [0, 0x91, 48, 80],
+                [240, 0x80, 72, 0],
+                [0, 0x81, 48, 0],
+            ]]),
+        );
+
+        expect(file.tracks.map((track) => track.channels)).toEqual([[1], [2]]);
+        expect(file.tracks.map((track) => track.notes[0].note)).toEqual([72, 48]);
+    });
+
+    it("converts ticks to seconds through tempo changes", () => {
+        const file = parseMidiFile(
+            smf(0, [[
+                [480, 0xff, 0x51, 0x03, 0x03, 0xd0, 0x90],
+                [480, 0x90, 60, 64],
+                [0, 0x80, 60, 0],
+            ]]),
+        );
+
+        // One beat at 120 BPM, then one at 240 BPM.
+        expect(ticksToSeconds(file, 960)).toBeCloseTo(0.75);
+    });
+
+    it("rejects other files and unsupported formats", () => {
+        expect(() => parseMidiFile(new TextEncoder().encode("<score-partwise/>"))).toThrow(/Not a Standard MIDI/);
+        expect(() => parseMidiFile(smf(2, [[]]))).toThrow(/format 2/);
+        expect(() => parseMidiFile(smf(1, [[]], 0xe728))).toThrow(/SMPTE/);
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { readScoreFile } from "../readScoreFile";
+
+const SCORE =
+    '<?xml version="1.0" encoding="UTF-8"?><score-partwise><part-list/><part id="P1"><measure>' +
+    "<attributes><divisions>1</divisions></attributes>" +
+    "<note><pitch><step>A</step><octave>4</octave></pitch><duration>4</duration></note>" +
+    "</measure></part></score-partwise>";
+
+/** Wraps files in a ZIP archive using the stored method. */
+function storedZip(files: Record<string, string>): Uint8Array<ArrayBuffer> {
+    const encoder = new TextEncoder();
+    const locals: Uint8Array[] = [];
+    const centrals: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const [path, text] of Object.entries(files)) {
+        const name = encoder.encode(path);
+        const data = encoder.encode(text);
+
+        const local = new Uint8Array(30 + name.length + data.length);
+        const localView = new DataView(local.buffer);
+        localView.setUint32(0, 0x04034b50, true);
+        localView.setUint32(18, data.length, true);
+        localView.setUint32(22, data.length, true);
+        localView.setUint16(26, name.length, true);
+        local.set(name, 30);
+        local.set(data, 30 + name.length);
+
+        const central = new Uint8Array(46 + name.length);
+        const centralView = new DataView(central.buffer);
+        centralView.setUint32(0, 0x02014b50, true);
+        centralView.setUint32(20, data.length, true);
+        centralView.setUint32(24, data.length, true);
+        centralView.setUint16(28, name.length, true);
+        centralView.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        locals.push(local);
+        centrals.push(central);
+        offset += local.length;
+    }
+
+    const end = new Uint8Array(22);
+    const endView = new DataView(end.buffer);
+    endView.setUint32(0, 0x06054b50, true);
+    endView.setUint16(10, centrals.length, true);
+    endView.setUint32(12, centrals.reduce((sum, part) => sum + part.length, 0), true);
+    endView.setUint32(16, offset, true);
+
+    const parts = [...locals, ...centrals, end];
+    const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+        zip.set(part, position);
+        position += part.length;
+    }
+    return zip;
+}
+
+describe("readScoreFile", () => {
+    it("reads an uncompressed file and names it after the file", async () => {
+        const score = await readScoreFile(new File([SCORE], "Minuet in G.musicxml"));
+
+        expect(score.title).toBe("Minuet in G");
+        expect(score.expectedSteps).toEqual([{ beat: 0, notes: [69] }]);
+    });
+
+    it("follows the container of a compressed file", async () => {
+        const zip = storedZip({
+            mimetype: "application/vnd.recordare.musicxml",
+            "META-INF/container.xml":
+                '<container><rootfiles><rootfile full-path="score/piece.xml"/></rootfiles></container>',
+            "score/piece.xml": SCORE,
+        });
+
+        const score = await readScoreFile(new File([zip], "piece.mxl"));
+
+        expect(score.xml).toBe(SCORE);
+        expect(score.expectedSteps).toHaveLength(1);
+    });
+
+    it("rejects other file types", async () => {
+        await expect(readScoreFile(new File(["MThd"], "song.mid"))).rejects.toThrow(/isn't a MusicXML/);
+    });
+});
@@ -0,0 +1,72 @@
+import { notateScore, type ImportedScore, type Meter, type TimedChord } from "../../../entities/score";
+import { clamp } from "../../../shared/utils";
+import type { MidiFile, MidiImportOptions, QuantizeGrid } from "../types";
+
+/** Grid size of each quantize setting in quarter-note beats. */
+const GRID_BEATS: Readonly<Record<QuantizeGrid, number>> = {
+    quarter: 1,
+    eighth: 0.5,
+    sixteenth: 0.25,
+};
+
+const COMMON_TIME: Meter = { beats: 4, beatType: 4 };
+
+/** Whether a meter fills a whole number of sixteenth notes per measure. */
+function isNotatable(meter: Meter | null): meter is Meter {
+    return meter !== null && meter.beats > 0 && Number.isInteger((meter.beats * 16) / meter.beatType);
+}
+
+/** The tempo the file starts at, in quarter notes per minute. */
+export function initialBpm(file: MidiFile): number {
+    return Math.round(60_000_000 / file.tempos[0].microsecondsPerQuarter);
+}
+
+/**
+ * Converts the chosen tracks of a MIDI file into a grand-staff score. Onsets
+ * and releases snap to the quantize grid, leading empty measures are dropped,
+ * and notes go to the hands by track (when two tracks are chosen) or by
+ * `splitNote`.
+ */
+export function midiToScore(file: MidiFile, options: MidiImportOptions, title: string): ImportedScore {
+    const tracks = options.tracks.map((index) => {
+        const track = file.tracks[index];
+        if (!track) throw new Error(`The MIDI file has no track ${index + 1}.`);
+        return track;
+    });
+    if (tracks.every((track) => track.notes.length === 0)) {
+        throw new Error("The chosen tracks contain no notes.");
+    }
+
+    const grid = GRID_BEATS[options.quantize];
+    const snap = (tick: number) => Math.round(tick / file.ticksPerQuarter / grid) * grid;
+    const meter = isNotatable(file.timeSignature) ? file.timeSignature : COMMON_TIME;
+    const measureBeats = (meter.beats * 4) / meter.beatType;
+
+    const byTrack = options.handSplit === "tracks" && tracks.length >= 2;
+    const rightHand: TimedChord[] = [];
+    const leftHand: TimedChord[] = [];
+
+    tracks.forEach((track, trackIndex) => {
+        for (const note of track.notes) {
+            const start = snap(note.startTick);
+            const end = snap(note.startTick + note.durationTicks);
+            const chord = { notes: [note.note], start, duration: Math.max(grid, end - start) };
+            const isRightHand = byTrack ? trackIndex === 0 : note.note >= options.splitNote;
+            (isRightHand ? rightHand : leftHand).push(chord);
+        }
+    });
+
+    const firstStart = Math.min(...[...rightHand, ...leftHand].map((chord) => chord.start));
+    const offset = Math.floor(firstStart / measureBeats) * measureBeats;
+    const shift = (chords: TimedChord[]) => chords.map((chord) => ({ ...chord, start: chord.start - offset }));
+
+    const score = notateScore({
+        meter,
+        fifths: clamp(file.keySignature?.fifths ?? 0, -7, 7),
+        mode: file.keySignature?.mode,
+        title,
+        rightHand: shift(rightHand),
+        leftHand: shift(leftHand),
+    });
+    return { ...score, title };
+}
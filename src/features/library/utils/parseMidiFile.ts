@@ -0,0 +1,254 @@
+import type { MidiFile, MidiFileNote, MidiFileTrack, TempoChange } from "../types";
+
+const HEADER_CHUNK = "MThd";
+const TRACK_CHUNK = "MTrk";
+const DEFAULT_MICROSECONDS_PER_QUARTER = 500_000;
+
+const META_EVENT = 0xff;
+const SYSEX_START = 0xf0;
+const SYSEX_ESCAPE = 0xf7;
+const META_TRACK_NAME = 0x03;
+const META_END_OF_TRACK = 0x2f;
+const META_TEMPO = 0x51;
+const META_TIME_SIGNATURE = 0x58;
+const META_KEY_SIGNATURE = 0x59;
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const PROGRAM_CHANGE = 0xc0;
+const CHANNEL_PRESSURE = 0xd0;
+
+type ByteReader = {
+    readonly done: boolean;
+    position: number;
+    byte: () => number;
+    peek: () => number;
+    uint: (length: number) => number;
+    /** A variable-length quantity: seven bits per byte, high bit set on all but the last. */
+    varint: () => number;
+    text: (length: number) => string;
+    skip: (length: number) => void;
+};
+
+function createByteReader(bytes: Uint8Array): ByteReader {
+    const fail = (): never => {
+        throw new Error("The MIDI file ends unexpectedly.");
+    };
+
+    const reader: ByteReader = {
+        position: 0,
+        get done() {
+            return reader.position >= bytes.length;
+        },
+        byte: () => (reader.position < bytes.length ? bytes[reader.position++] : fail()),
+        peek: () => bytes[reader.position],
+        uint: (length) => {
+            let value = 0;
+            for (let index = 0; index < length; index++) {
+                value = value * 256 + reader.byte();
+            }
+            return value;
+        },
+        varint: () => {
+            let value = 0;
+            for (let index = 0; index < 4; index++) {
+                const byte = reader.byte();
+                value = value * 128 + (byte & 0x7f);
+                if ((byte & 0x80) === 0) return value;
+            }
+            throw new Error("Invalid variable-length number in MIDI file.");
+        },
+        text: (length) => {
+            const slice = bytes.subarray(reader.position, reader.position + length);
+            reader.skip(length);
+            return new TextDecoder("latin1").decode(slice);
+        },
+        skip: (length) => {
+            if (reader.position + length > bytes.length) fail();
+            reader.position += length;
+        },
+    };
+    return reader;
+}
+
+type TrackContext = {
+    tempos: TempoChange[];
+    timeSignature: MidiFile["timeSignature"];
+    keySignature: MidiFile["keySignature"];
+};
+
+function readTrack(reader: ByteReader, index: number, context: TrackContext): MidiFileTrack {
+    const notes: MidiFileNote[] = [];
+    const channels = new Set<number>();
+    // Open notes per channel and key; repeated note-ons stack up.
+    const open = new Map<string, { tick: number; velocity: number }[]>();
+    let name = "";
+    let tick = 0;
+    let runningStatus = 0;
+
+    const closeNote = (channel: number, note: number, endTick: number) => {
+        const started = open.get(`${channel}:${note}`)?.shift();
+        if (!started) return;
+        notes.push({
+            note,
+            velocity: started.velocity,
+            channel,
+            startTick: started.tick,
+            durationTicks: endTick - started.tick,
+        });
+    };
+
+    while (!reader.done) {
+        tick += reader.varint();
+        let status = reader.peek();
+
+        if (status === META_EVENT) {
+            reader.byte();
+            const type = reader.byte();
+            const length = reader.varint();
+            if (type === META_END_OF_TRACK) {
+                reader.skip(length);
+                break;
+            }
+            if (type === META_TRACK_NAME && !name) {
+                name = reader.text(length).trim();
+            } else if (type === META_TEMPO && length === 3) {
+                context.tempos.push({ tick, microsecondsPerQuarter: reader.uint(3) });
+            } else if (type === META_TIME_SIGNATURE && length >= 2 && !context.timeSignature) {
+                const beats = reader.byte();
+                const beatType = 2 ** reader.byte();
+                reader.skip(length - 2);
+                context.timeSignature = { beats, beatType };
+            } else if (type === META_KEY_SIGNATURE && length === 2 && !context.keySignature) {
+                const sharpsOrFlats = reader.byte();
+                const minor = reader.byte() === 1;
+                context.keySignature = {
+                    fifths: sharpsOrFlats > 127 ? sharpsOrFlats - 256 : sharpsOrFlats,
+                    mode: minor ? "minor" : "major",
+                };
+            } else {
+                reader.skip(length);
+            }
+            continue;
+        }
+
+        if (status === SYSEX_START || status === SYSEX_ESCAPE) {
+            reader.byte();
+            reader.skip(reader.varint());
+            continue;
+        }
+
+        if (status & 0x80) {
+            reader.byte();
+            runningStatus = status;
+        } else if (runningStatus) {
+            status = runningStatus;
+        } else {
+            throw new Error("MIDI data byte without a status byte.");
+        }
+
+        const command = status & 0xf0;
+        const channel = (status & 0x0f) + 1;
+        const first = reader.byte();
+        const second = command === PROGRAM_CHANGE || command === CHANNEL_PRESSURE ? 0 : reader.byte();
+
+        if (command === NOTE_ON && second > 0) {
+            const key = `${channel}:${first}`;
+            open.set(key, [...(open.get(key) ?? []), { tick, velocity: second }]);
+            channels.add(channel);
+        } else if (command === NOTE_OFF || command === NOTE_ON) {
+            closeNote(channel, first, tick);
+        }
+    }
+
+    // Notes never released end with the track.
+    for (const [key, starts] of open) {
+        const [channel, note] = key.split(":").map(Number);
+        while (starts.length > 0) closeNote(channel, note, tick);
+    }
+
+    notes.sort((left, right) => left.startTick - right.startTick || left.note - right.note);
+    return { index, name, channels: [...channels].sort((left, right) => left - right), notes };
+}
+
+/** Format 0 files keep every part in one track; give each channel its own track instead. */
+function splitByChannel(tracks: readonly MidiFileTrack[]): MidiFileTrack[] {
+    return tracks
+        .flatMap((track) =>
+            track.channels.length <= 1
+                ? [track]
+                : track.channels.map((channel) => ({
+                      ...track,
+                      name: `${track.name || "Track"} (channel ${channel})`,
+                      channels: [channel],
+                      notes: track.notes.filter((note) => note.channel === channel),
+                  })),
+        )
+        .map((track, index) => ({ ...track, index }));
+}
+
+/**
+ * Reads a Standard MIDI File (format 0 or 1). Notes are paired into
+ * durations per channel; tempo, time and key signature meta events are
+ * collected from every track, and format 0 files are split into one track
+ * per channel. SMPTE time division and format 2 files are rejected.
+ */
+export function parseMidiFile(bytes: Uint8Array): MidiFile {
+    const reader = createByteReader(bytes);
+    if (bytes.length < 14 || reader.text(4) !== HEADER_CHUNK) {
+        throw new Error("Not a Standard MIDI File.");
+    }
+
+    const headerLength = reader.uint(4);
+    const format = reader.uint(2);
+    const trackCount = reader.uint(2);
+    const division = reader.uint(2);
+    reader.skip(headerLength - 6);
+
+    if (format !== 0 && format !== 1) {
+        throw new Error(`MIDI file format ${format} isn't supported; use format 0 or 1.`);
+    }
+    if (division & 0x8000) {
+        throw new Error("MIDI files timed in SMPTE frames aren't supported.");
+    }
+
+    const context: TrackContext = { tempos: [], timeSignature: null, keySignature: null };
+    const tracks: MidiFileTrack[] = [];
+
+    while (!reader.done && tracks.length < trackCount) {
+        const chunkType = reader.text(4);
+        const length = reader.uint(4);
+        const chunkEnd = reader.position + length;
+        if (chunkType === TRACK_CHUNK) {
+            const trackReader = createByteReader(bytes.subarray(reader.position, chunkEnd));
+            tracks.push(readTrack(trackReader, tracks.length, context));
+        }
+        reader.position = chunkEnd;
+    }
+
+    const tempos = context.tempos.sort((left, right) => left.tick - right.tick);
+    if (tempos.length === 0 || tempos[0].tick > 0) {
+        tempos.unshift({ tick: 0, microsecondsPerQuarter: DEFAULT_MICROSECONDS_PER_QUARTER });
+    }
+
+    return {
+        format,
+        ticksPerQuarter: division,
+        tracks: format === 0 ? splitByChannel(tracks) : tracks,
+        tempos,
+        timeSignature: context.timeSignature,
+        keySignature: context.keySignature,
+    };
+}
+
+/** Converts a tick position to seconds by walking the tempo map. */
+export function ticksToSeconds(file: MidiFile, tick: number): number {
+    let seconds = 0;
+    for (let index = 0; index < file.tempos.length; index++) {
+        const tempo = file.tempos[index];
+        if (tempo.tick >= tick) break;
+        const segmentEnd = Math.min(tick, file.tempos[index + 1]?.tick ?? Infinity);
+        seconds += ((segmentEnd - tempo.tick) / file.ticksPerQuarter) * (tempo.microsecondsPerQuarter / 1_000_000);
+    }
+    return seconds;
+}
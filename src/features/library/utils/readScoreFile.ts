@@ -0,0 +1,69 @@
+import { parseMusicXml, type ImportedScore } from "../../../entities/score";
+import { parseXml, unzip, xmlChild, xmlChildren } from "../../../shared/utils";
+import type { MidiFile } from "../types";
+import { parseMidiFile } from "./parseMidiFile";
+
+const CONTAINER_PATH = "META-INF/container.xml";
+const SCORE_EXTENSIONS = [".musicxml", ".xml", ".mxl"];
+const MIDI_EXTENSIONS = [".mid", ".midi"];
+
+function decodeText(bytes: Uint8Array): string {
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder("utf-16le").decode(bytes);
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder("utf-16be").decode(bytes);
+    return new TextDecoder().decode(bytes);
+}
+
+function isZip(bytes: Uint8Array): boolean {
+    return bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+/**
+ * Finds the score inside a compressed `.mxl` archive: the first rootfile
+ * named by `META-INF/container.xml`, or else the first XML file outside
+ * `META-INF`.
+ */
+async function extractCompressedScore(bytes: Uint8Array): Promise<string> {
+    const files = await unzip(bytes);
+
+    const container = files.get(CONTAINER_PATH);
+    if (container) {
+        const rootfiles = xmlChild(parseXml(decodeText(container)), "rootfiles");
+        const path = xmlChildren(rootfiles, "rootfile")[0]?.attributes["full-path"];
+        const score = path ? files.get(path) : undefined;
+        if (score) return decodeText(score);
+    }
+
+    for (const [path, data] of files) {
+        if (!path.startsWith("META-INF/") && /\.(musicxml|xml)$/i.test(path)) {
+            return decodeText(data);
+        }
+    }
+    throw new Error("The archive doesn't contain a MusicXML score.");
+}
+
+/** Reads an uncompressed or compressed MusicXML file into a practice score. */
+export async function readScoreFile(file: File): Promise<ImportedScore> {
+    const name = file.name.toLowerCase();
+    if (!SCORE_EXTENSIONS.some((extension) => name.endsWith(extension))) {
+        throw new Error(`"${file.name}" isn't a MusicXML file (.musicxml, .xml or .mxl).`);
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const xml = isZip(bytes) ? await extractCompressedScore(bytes) : decodeText(bytes);
+    const score = parseMusicXml(xml);
+
+    // Fall back to the file name when the score carries no title of its own.
+    return score.title === "Untitled"
+        ? { ...score, title: file.name.replace(/\.(musicxml|xml|mxl)$/i, "") }
+        : score;
+}
+
+export function isMidiFileName(name: string): boolean {
+    const lowerCase = name.toLowerCase();
+    return MIDI_EXTENSIONS.some((extension) => lowerCase.endsWith(extension));
+}
+
+/** Reads a Standard MIDI File; turning it into a score needs the user's track choices. */
+export async function readMidiFile(file: File): Promise<MidiFile> {
+    return parseMidiFile(new Uint8Array(await file.arrayBuffer()));
+}
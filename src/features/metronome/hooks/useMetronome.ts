@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { MetronomeAudioContext, Subdivision } from "../types";
+import {
+    LOOKAHEAD_MS,
+    createMetronomeScheduler,
+    type MetronomeScheduler,
+    type MetronomeStartOptions,
+} from "../utils/scheduler";
+
+type ManagedAudioContext = MetronomeAudioContext & Pick<AudioContext, "resume" | "close">;
+
+export interface MetronomeOptions {
+    bpm: number;
+    beatsPerBar: number;
+    subdivision: Subdivision;
+}
+
+export interface Metronome {
+    isPlaying: boolean;
+    /**
+     * Creates or resumes the audio context. Browsers only allow this from a
+     * user gesture, so call it from a click handler before `start()`.
+     */
+    prepare: () => void;
+    /**
+     * Starts clicking and returns milliseconds until the first downbeat after
+     * any count-in, or null when Web Audio is unavailable.
+     */
+    start: (options?: MetronomeStartOptions) => number | null;
+    stop: () => void;
+}
+
+function createBrowserContext(): ManagedAudioContext {
+    return new AudioContext();
+}
+
+export default function useMetronome({
+    bpm,
+    beatsPerBar,
+    subdivision,
+}: MetronomeOptions): Metronome {
+    const contextRef = useRef<ManagedAudioContext | null>(null);
+    const schedulerRef = useRef<MetronomeScheduler | null>(null);
+    const intervalRef = useRef<number | null>(null);
+
+    const [isPlaying, setPlaying] = useState(false);
+
+    const clearLoop = useCallback(() => {
+        if (intervalRef.current !== null) {
+            window.clearInterval(intervalRef.current);
+            intervalRef.current = null;
+        }
+    }, []);
+
+    const prepare = useCallback(() => {
+        if (!contextRef.current) {
+            try {
+                contextRef.current = createBrowserContext();
+            } catch (error: unknown) {
+                console.warn("Web Audio is unavailable; the metronome stays silent.", error);
+                return;
+            }
+        }
+        void contextRef.current.resume().catch(() => {
+            // Resuming outside a user gesture is refused; the next gesture retries.
+        });
+    }, []);
+
+    const stop = useCallback(() => {
+        clearLoop();
+        schedulerRef.current?.stop();
+        setPlaying(false);
+    }, [clearLoop]);
+
+    const start = useCallback(
+        (options?: MetronomeStartOptions) => {
+            prepare();
+            const context = contextRef.current;
+            if (!context) return null;
+
+            clearLoop();
+            schedulerRef.current?.stop();
+            const scheduler = createMetronomeScheduler(context, { bpm, beatsPerBar, subdivision });
+            schedulerRef.current = scheduler;
+
+            const downbeat = scheduler.start(options);
+            setPlaying(true);
+            intervalRef.current = window.setInterval(() => {
+                scheduler.tick();
+                if (!scheduler.isRunning()) {
+                    clearLoop();
+                    setPlaying(false);
+                }
+            }, LOOKAHEAD_MS);
+
+            return Math.max(0, (downbeat - context.currentTime) * 1000);
+        },
+        [bpm, beatsPerBar, subdivision, prepare, clearLoop],
+    );
+
+    useEffect(() => {
+        schedulerRef.current?.setTempo(bpm);
+    }, [bpm]);
+
+    useEffect(() => {
+        schedulerRef.current?.setSubdivision(subdivision);
+    }, [subdivision]);
+
+    useEffect(() => {
+        return () => {
+            clearLoop();
+            schedulerRef.current?.stop();
+            void contextRef.current?.close().catch(() => undefined);
+            contextRef.current = null;
+        };
+    }, [clearLoop]);
+
+    return { isPlaying, prepare, start, stop };
+}
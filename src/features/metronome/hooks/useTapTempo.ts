@@ -0,0 +1,15 @@
+import { useCallback, useRef } from "react";
+import { createTapTempo } from "../utils/tapTempo";
+
+/**
+ * Returns a handler for a "tap" button. Each tap after the first reports the
+ * averaged tempo of the recent taps through `onTempo`.
+ */
+export default function useTapTempo(onTempo: (bpm: number) => void): () => void {
+    const tapTempo = useRef(createTapTempo());
+
+    return useCallback(() => {
+        const bpm = tapTempo.current.tap(performance.now());
+        if (bpm !== null) onTempo(bpm);
+    }, [onTempo]);
+}
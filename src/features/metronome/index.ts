@@ -0,0 +1,8 @@
+export { default as useMetronome } from "./hooks/useMetronome";
+export { default as useTapTempo } from "./hooks/useTapTempo";
+export { playClick } from "./utils/playClick";
+export { createMetronomeScheduler } from "./utils/scheduler";
+export { createTapTempo } from "./utils/tapTempo";
+export type { Metronome, MetronomeOptions } from "./hooks/useMetronome";
+export type { MetronomeScheduler, MetronomeStartOptions } from "./utils/scheduler";
+export type { ClickKind, MetronomeAudioContext, Subdivision } from "./types";
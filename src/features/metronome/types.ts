@@ -0,0 +1,13 @@
+/** Clicks per beat: 1 = beats only, 2 = eighths, 3 = triplets, 4 = sixteenths. */
+export type Subdivision = 1 | 2 | 3 | 4;
+
+export type ClickKind = "accent" | "beat" | "subdivision";
+
+/**
+ * The slice of `AudioContext` the metronome relies on. Keeping it this narrow
+ * lets tests drive the scheduler with a fake context and a hand-moved clock.
+ */
+export type MetronomeAudioContext = Pick<
+    BaseAudioContext,
+    "currentTime" | "destination" | "createOscillator" | "createGain"
+>;
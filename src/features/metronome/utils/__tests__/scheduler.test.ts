@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { ClickKind, MetronomeAudioContext } from "../../types";
+import { SCHEDULE_AHEAD_S, createMetronomeScheduler, type MetronomeScheduler } from "../scheduler";
+
+function createFakeContext() {
+    const started: number[] = [];
+    const param = () => ({
+        value: 0,
+        setValueAtTime: () => undefined,
+        exponentialRampToValueAtTime: () => undefined,
+    });
+    const fake = {
+        currentTime: 0,
+        destination: {},
+        createOscillator: () => ({
+            frequency: param(),
+            connect: () => undefined,
+            start: (time: number) => started.push(time),
+            stop: () => undefined,
+        }),
+        createGain: () => ({ gain: param(), connect: () => undefined }),
+    };
+    return { context: fake as unknown as MetronomeAudioContext, fake, started };
+}
+
+/** Moves the fake clock forward in lookahead-sized steps, ticking the scheduler each time. */
+function runFor(seconds: number, fake: { currentTime: number }, scheduler: MetronomeScheduler) {
+    for (let time = 0; time <= seconds; time += 0.025) {
+        fake.currentTime = time;
+        scheduler.tick();
+    }
+}
+
+describe("createMetronomeScheduler", () => {
+    it("only queues clicks inside the lookahead window", () => {
+        const { context, fake, started } = createFakeContext();
+        const scheduler = createMetronomeScheduler(context, { bpm: 120, beatsPerBar: 4, subdivision: 1 });
+
+        scheduler.start();
+        expect(started).toHaveLength(1);
+
+        fake.currentTime = 0.5;
+        scheduler.tick();
+        expect(started.every((time) => time < fake.currentTime + SCHEDULE_AHEAD_S)).toBe(true);
+        expect(started).toHaveLength(2);
+    });
+
+    it("accents beat one and spaces beats by the tempo", () => {
+        const { context, fake } = createFakeContext();
+        const clicks: { kind: ClickKind; time: number }[] = [];
+        const scheduler = createMetronomeScheduler(context, {
+            bpm: 120,
+            beatsPerBar: 4,
+            subdivision: 1,
+            onClick: (kind, time) => clicks.push({ kind, time }),
+        });
+
+        scheduler.start();
+        runFor(2.1, fake, scheduler);
+
+        expect(clicks.map((click) => click.kind).slice(0, 5)).toEqual([
+            "accent",
+            "beat",
+            "beat",
+            "beat",
+            "accent",
+        ]);
+        expect(clicks[1].time - clicks[0].time).toBeCloseTo(0.5);
+    });
+
+    it("adds subdivision clicks between beats", () => {
+        const { context, fake } = createFakeContext();
+        const clicks: { kind: ClickKind; time: number }[] = [];
+        const scheduler = createMetronomeScheduler(context, {
+            bpm: 60,
+            beatsPerBar: 2,
+            subdivision: 3,
+            onClick: (kind, time) => clicks.push({ kind, time }),
+        });
+
+        scheduler.start();
+        runFor(1, fake, scheduler);
+
+        expect(clicks.map((click) => click.kind).slice(0, 4)).toEqual([
+            "accent",
+            "subdivision",
+            "subdivision",
+            "beat",
+        ]);
+        expect(clicks[1].time - clicks[0].time).toBeCloseTo(1 / 3);
+    });
+
+    it("counts in a bar and reports the first downbeat", () => {
+        const { context, fake } = createFakeContext();
+        const clicks: number[] = [];
+        const scheduler = createMetronomeScheduler(context, {
+            bpm: 60,
+            beatsPerBar: 3,
+            subdivision: 1,
+            onClick: (_kind, time) => clicks.push(time),
+        });
+
+        const downbeat = scheduler.start({ countInBeats: 3, continueAfterCountIn: false });
+        runFor(5, fake, scheduler);
+
+        expect(clicks).toHaveLength(3);
+        expect(downbeat).toBeCloseTo(clicks[0] + 3);
+        expect(scheduler.isRunning()).toBe(false);
+    });
+
+    it("stops queueing clicks once stopped", () => {
+        const { context, fake, started } = createFakeContext();
+        const scheduler = createMetronomeScheduler(context, { bpm: 120, beatsPerBar: 4, subdivision: 1 });
+
+        scheduler.start();
+        scheduler.stop();
+        fake.currentTime = 3;
+        scheduler.tick();
+
+        expect(started).toHaveLength(1);
+    });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { TAP_RESET_MS, createTapTempo } from "../tapTempo";
+
+describe("createTapTempo", () => {
+    it("needs two taps before reporting a tempo", () => {
+        const tapTempo = createTapTempo();
+        expect(tapTempo.tap(0)).toBeNull();
+        expect(tapTempo.tap(500)).toBe(120);
+    });
+
+    it("averages the recent taps", () => {
+        const tapTempo = createTapTempo();
+        tapTempo.tap(0);
+        tapTempo.tap(1000);
+        expect(tapTempo.tap(1500)).toBe(80);
+    });
+
+    it("starts over after a long pause", () => {
+        const tapTempo = createTapTempo();
+        tapTempo.tap(0);
+        tapTempo.tap(1000);
+        expect(tapTempo.tap(1000 + TAP_RESET_MS + 1)).toBeNull();
+    });
+});
@@ -0,0 +1,25 @@
+import type { ClickKind, MetronomeAudioContext } from "../types";
+
+const CLICK_SOUNDS: Readonly<Record<ClickKind, { frequency: number; gain: number }>> = {
+    accent: { frequency: 1760, gain: 0.9 },
+    beat: { frequency: 1320, gain: 0.6 },
+    subdivision: { frequency: 990, gain: 0.3 },
+};
+
+const CLICK_LENGTH_S = 0.05;
+
+/** Schedules one short percussive blip at `time` (in context seconds). */
+export function playClick(context: MetronomeAudioContext, time: number, kind: ClickKind): void {
+    const sound = CLICK_SOUNDS[kind];
+    const oscillator = context.createOscillator();
+    const envelope = context.createGain();
+
+    oscillator.frequency.value = sound.frequency;
+    envelope.gain.setValueAtTime(sound.gain, time);
+    envelope.gain.exponentialRampToValueAtTime(0.0001, time + CLICK_LENGTH_S);
+
+    oscillator.connect(envelope);
+    envelope.connect(context.destination);
+    oscillator.start(time);
+    oscillator.stop(time + CLICK_LENGTH_S);
+}
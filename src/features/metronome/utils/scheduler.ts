@@ -0,0 +1,119 @@
+import type { ClickKind, MetronomeAudioContext, Subdivision } from "../types";
+import { playClick } from "./playClick";
+
+/** How far ahead of the audio clock clicks are queued, in seconds. */
+export const SCHEDULE_AHEAD_S = 0.1;
+/** How often the scheduler should be ticked, in milliseconds. */
+export const LOOKAHEAD_MS = 25;
+/** Gap between `start()` and the first click, so it is never scheduled in the past. */
+const START_DELAY_S = 0.05;
+
+export interface MetronomeSchedulerOptions {
+    bpm: number;
+    beatsPerBar: number;
+    subdivision: Subdivision;
+    /** Called for every click as it is queued; mostly useful for visuals and tests. */
+    onClick?: (kind: ClickKind, time: number) => void;
+}
+
+export interface MetronomeStartOptions {
+    /** Unaccented lead-in beats (beat one still accented) before the first bar. */
+    countInBeats?: number;
+    /** Keep clicking once the count-in is over. */
+    continueAfterCountIn?: boolean;
+    /** Seconds from now until the first click; never less than a short safety gap. */
+    delaySeconds?: number;
+}
+
+export interface MetronomeScheduler {
+    /** Starts clicking and returns the context time of the first downbeat after the count-in. */
+    start: (options?: MetronomeStartOptions) => number;
+    stop: () => void;
+    /** Queues every click that falls inside the lookahead window. */
+    tick: () => void;
+    isRunning: () => boolean;
+    setTempo: (bpm: number) => void;
+    setSubdivision: (subdivision: Subdivision) => void;
+}
+
+/**
+ * Lookahead metronome scheduler in the style of "A Tale of Two Clocks": a
+ * coarse JS timer calls `tick()`, and each tick hands the audio clock every
+ * click due within the next `SCHEDULE_AHEAD_S`. Timing therefore stays
+ * sample-accurate even when the main thread stutters.
+ */
+export function createMetronomeScheduler(
+    context: MetronomeAudioContext,
+    options: MetronomeSchedulerOptions,
+): MetronomeScheduler {
+    let bpm = options.bpm;
+    let subdivision = options.subdivision;
+    let pendingSubdivision = options.subdivision;
+    let running = false;
+    let nextClickTime = 0;
+    let clickInBar = 0;
+    let countInRemaining = 0;
+    let continueAfterCountIn = true;
+
+    const beatSeconds = () => 60 / bpm;
+
+    const queueClick = (kind: ClickKind, time: number) => {
+        playClick(context, time, kind);
+        options.onClick?.(kind, time);
+    };
+
+    const tick = () => {
+        const horizon = context.currentTime + SCHEDULE_AHEAD_S;
+
+        while (running && nextClickTime < horizon) {
+            if (countInRemaining > 0) {
+                queueClick(clickInBar === 0 ? "accent" : "beat", nextClickTime);
+                nextClickTime += beatSeconds();
+                clickInBar = (clickInBar + 1) % options.beatsPerBar;
+                countInRemaining -= 1;
+
+                if (countInRemaining === 0) {
+                    clickInBar = 0;
+                    if (!continueAfterCountIn) running = false;
+                }
+                continue;
+            }
+
+            // Subdivision changes wait for the next bar so no beat is cut short.
+            if (clickInBar === 0) subdivision = pendingSubdivision;
+
+            const clicksPerBar = options.beatsPerBar * subdivision;
+            const kind: ClickKind =
+                clickInBar === 0 ? "accent" : clickInBar % subdivision === 0 ? "beat" : "subdivision";
+            queueClick(kind, nextClickTime);
+            nextClickTime += beatSeconds() / subdivision;
+            clickInBar = (clickInBar + 1) % clicksPerBar;
+        }
+    };
+
+    const start = (startOptions: MetronomeStartOptions = {}) => {
+        countInRemaining = Math.max(0, Math.floor(startOptions.countInBeats ?? 0));
+        continueAfterCountIn = startOptions.continueAfterCountIn ?? true;
+        clickInBar = 0;
+        nextClickTime = context.currentTime + Math.max(START_DELAY_S, startOptions.delaySeconds ?? 0);
+        running = true;
+
+        const downbeat = nextClickTime + countInRemaining * beatSeconds();
+        tick();
+        return downbeat;
+    };
+
+    const stop = () => {
+        running = false;
+    };
+
+    const setTempo = (value: number) => {
+        bpm = value;
+    };
+
+    const setSubdivision = (value: Subdivision) => {
+        pendingSubdivision = value;
+    };
+
+    return { start, stop, tick, isRunning: () => running, setTempo, setSubdivision };
+}
@@ -0,0 +1,36 @@
+import { clamp } from "../../../shared/utils/clamp";
+
+/** Taps further apart than this start a new measurement. */
+export const TAP_RESET_MS = 2000;
+const MAX_TAPS = 5;
+const MIN_BPM = 30;
+const MAX_BPM = 240;
+
+export interface TapTempo {
+    /** Registers a tap at `timeMs`; returns the averaged tempo once two taps are in. */
+    tap: (timeMs: number) => number | null;
+    reset: () => void;
+}
+
+export function createTapTempo(): TapTempo {
+    let taps: number[] = [];
+
+    const tap = (timeMs: number) => {
+        const previous = taps[taps.length - 1];
+        if (previous !== undefined && (timeMs - previous > TAP_RESET_MS || timeMs <= previous)) {
+            taps = [];
+        }
+
+        taps = [...taps, timeMs].slice(-MAX_TAPS);
+        if (taps.length < 2) return null;
+
+        const averageGapMs = (taps[taps.length - 1] - taps[0]) / (taps.length - 1);
+        return clamp(Math.round(60_000 / averageGapMs), MIN_BPM, MAX_BPM);
+    };
+
+    const reset = () => {
+        taps = [];
+    };
+
+    return { tap, reset };
+}
@@ -0,0 +1,12 @@
+/** Name the pitch worklet registers under; shared by the worklet and the hook. */
+export const PITCH_PROCESSOR_NAME = "srl-pitch-processor";
+
+/** How long calibration listens to the room, in milliseconds. */
+export const CALIBRATION_DURATION_MS = 2000;
+
+/** Samples the pitch worklet analyses per frame; about 43 ms at 48 kHz, enough for ~50 Hz. */
+export const PITCH_FRAME_SIZE = 2048;
+/** Samples between analyses, so frames overlap by half. */
+export const PITCH_HOP_SIZE = 1024;
+/** Consecutive frames that must agree on a pitch before a note is reported. */
+export const NOTE_STABLE_FRAMES = 3;
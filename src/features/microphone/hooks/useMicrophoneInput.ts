@@ -0,0 +1,163 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import pitchProcessorUrl from "../worklet/pitchProcessor.ts?worker&url";
+import { CALIBRATION_DURATION_MS, PITCH_PROCESSOR_NAME } from "../constants";
+import type { MicrophoneStatus, NoteTrackerEvent, PitchFrame } from "../types";
+import { measureNoiseFloor } from "../utils/calibration";
+import { createNoteTracker, noteOnsetDelayMs, type NoteTracker } from "../utils/noteTracker";
+
+export interface MicrophoneCallbacks {
+    enabled: boolean;
+    /** Level a note must reach to register; see `onsetThresholdForNoiseFloor`. */
+    onsetThreshold: number;
+    /** `time` is when the note was struck on the `performance.now()` clock. */
+    onNoteOn?: (note: number, velocity: number, time: number) => void;
+    onNoteOff?: (note: number) => void;
+    onAllNotesOff?: () => void;
+}
+
+export interface MicrophoneInput {
+    status: MicrophoneStatus;
+    /** Listens to the room for a moment and resolves with its noise floor. */
+    calibrate: () => Promise<number | null>;
+    /** Ignores the microphone for a while, e.g. while the app itself plays a note. */
+    mute: (durationMs: number) => void;
+}
+
+const MICROPHONE_VELOCITY = 80;
+
+function supportsMicrophone(): boolean {
+    return (
+        typeof window !== "undefined" &&
+        typeof AudioWorkletNode !== "undefined" &&
+        Boolean(navigator.mediaDevices?.getUserMedia)
+    );
+}
+
+/**
+ * Acoustic-piano input: streams the microphone through a YIN pitch worklet
+ * and turns its frames into the same note callbacks `useNoteInputSource` fires.
+ * Detection is monophonic, so chords register one note at a time at best.
+ */
+export default function useMicrophoneInput(callbacks: MicrophoneCallbacks): MicrophoneInput {
+    const { enabled, onsetThreshold } = callbacks;
+    const callbacksRef = useRef(callbacks);
+    callbacksRef.current = callbacks;
+
+    const trackerRef = useRef<NoteTracker>(createNoteTracker({ onsetThreshold }));
+    const calibrationLevels = useRef<number[] | null>(null);
+    const mutedUntilMs = useRef(0);
+    const onsetDelayMs = useRef(noteOnsetDelayMs(48_000));
+    const [status, setStatus] = useState<MicrophoneStatus>("idle");
+
+    /** `receivedAtMs` is when the frame behind `events` arrived from the worklet. */
+    const emit = useCallback((events: NoteTrackerEvent[], receivedAtMs = performance.now()) => {
+        for (const event of events) {
+            if (event.type === "note-on") {
+                // Detection lags the attack, so report the note from when it was struck.
+                const struckAtMs = receivedAtMs - onsetDelayMs.current;
+                callbacksRef.current.onNoteOn?.(event.note, MICROPHONE_VELOCITY, struckAtMs);
+            } else {
+                callbacksRef.current.onNoteOff?.(event.note);
+                callbacksRef.current.onAllNotesOff?.();
+            }
+        }
+    }, []);
+
+    useEffect(() => {
+        emit(trackerRef.current.reset());
+        trackerRef.current = createNoteTracker({ onsetThreshold });
+    }, [onsetThreshold, emit]);
+
+    useEffect(() => {
+        if (!enabled) {
+            setStatus("idle");
+            return;
+        }
+        if (!supportsMicrophone()) {
+            setStatus("unsupported");
+            return;
+        }
+
+        let cancelled = false;
+        let stream: MediaStream | null = null;
+        let context: AudioContext | null = null;
+
+        const handleFrame = (frame: PitchFrame) => {
+            if (calibrationLevels.current) {
+                calibrationLevels.current.push(frame.rms);
+                return;
+            }
+            const receivedAtMs = performance.now();
+            if (receivedAtMs < mutedUntilMs.current) return;
+            emit(trackerRef.current.process(frame), receivedAtMs);
+        };
+
+        const start = async () => {
+            setStatus("requesting");
+            try {
+                stream = await navigator.mediaDevices.getUserMedia({
+                    audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false },
+                });
+            } catch {
+                if (!cancelled) setStatus("permission-denied");
+                return;
+            }
+            if (cancelled) {
+                stream.getTracks().forEach((track) => track.stop());
+                return;
+            }
+
+            context = new AudioContext();
+            onsetDelayMs.current = noteOnsetDelayMs(context.sampleRate);
+            await context.audioWorklet.addModule(pitchProcessorUrl);
+            if (cancelled) return;
+
+            const source = context.createMediaStreamSource(stream);
+            const analyser = new AudioWorkletNode(context, PITCH_PROCESSOR_NAME);
+            // A silent path to the output keeps the worklet pulled on every browser.
+            const silence = context.createGain();
+            silence.gain.value = 0;
+
+            analyser.port.onmessage = (event: MessageEvent<PitchFrame>) => handleFrame(event.data);
+            source.connect(analyser);
+            analyser.connect(silence);
+            silence.connect(context.destination);
+            await context.resume();
+            if (!cancelled) setStatus("listening");
+        };
+
+        void start().catch((error: unknown) => {
+            console.warn("Failed to start microphone input.", error);
+            if (!cancelled) setStatus("unsupported");
+        });
+
+        return () => {
+            cancelled = true;
+            emit(trackerRef.current.reset());
+            stream?.getTracks().forEach((track) => track.stop());
+            void context?.close().catch(() => undefined);
+        };
+    }, [enabled, emit]);
+
+    const calibrate = useCallback(async () => {
+        if (status !== "listening") return null;
+
+        calibrationLevels.current = [];
+        emit(trackerRef.current.reset());
+        await new Promise((resolve) => window.setTimeout(resolve, CALIBRATION_DURATION_MS));
+
+        const levels = calibrationLevels.current ?? [];
+        calibrationLevels.current = null;
+        return levels.length === 0 ? null : measureNoiseFloor(levels);
+    }, [status, emit]);
+
+    const mute = useCallback(
+        (durationMs: number) => {
+            mutedUntilMs.current = performance.now() + durationMs;
+            emit(trackerRef.current.reset());
+        },
+        [emit],
+    );
+
+    return { status, calibrate, mute };
+}
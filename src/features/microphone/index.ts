@@ -0,0 +1,7 @@
+export { default as useMicrophoneInput } from "./hooks/useMicrophoneInput";
+export { measureNoiseFloor, onsetThresholdForNoiseFloor } from "./utils/calibration";
+export { microphoneStatusLabel } from "./utils/microphoneStatusLabel";
+export { createNoteTracker } from "./utils/noteTracker";
+export { detectPitch, frequencyToMidi } from "./utils/yin";
+export type { MicrophoneCallbacks, MicrophoneInput } from "./hooks/useMicrophoneInput";
+export type { MicrophoneStatus, PitchFrame } from "./types";
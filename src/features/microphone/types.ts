@@ -0,0 +1,23 @@
+export type MicrophoneStatus =
+    | "idle"
+    | "requesting"
+    | "listening"
+    | "permission-denied"
+    | "unsupported";
+
+/** One analysis frame posted by the pitch worklet. */
+export interface PitchFrame {
+    /** Root-mean-square level of the frame, 0..1. */
+    rms: number;
+    /** Detected fundamental in Hz, or null when no clear pitch was found. */
+    frequency: number | null;
+    /** YIN confidence, 0..1; higher is a cleaner periodic signal. */
+    clarity: number;
+}
+
+export interface PitchEstimate {
+    frequency: number;
+    clarity: number;
+}
+
+export type NoteTrackerEvent = { type: "note-on"; note: number } | { type: "note-off"; note: number };
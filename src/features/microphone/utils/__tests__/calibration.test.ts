@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { measureNoiseFloor, onsetThresholdForNoiseFloor } from "../calibration";
+
+describe("measureNoiseFloor", () => {
+    it("sets the onset threshold above the room's noise", () => {
+        const floor = measureNoiseFloor([
+            0.002, 0.003, 0.004, 0.003, 0.05, 0.002, 0.003, 0.002, 0.003, 0.004,
+        ]);
+        expect(floor).toBeLessThan(0.05);
+        expect(onsetThresholdForNoiseFloor(floor)).toBeCloseTo(floor * 4);
+    });
+
+    it("never drops below the minimum threshold", () => {
+        expect(onsetThresholdForNoiseFloor(0)).toBe(0.01);
+        expect(measureNoiseFloor([])).toBe(0);
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import type { PitchFrame } from "../../types";
+import { createNoteTracker, noteOnsetDelayMs } from "../noteTracker";
+
+const A4: PitchFrame = { rms: 0.2, frequency: 440, clarity: 0.95 };
+const QUIET: PitchFrame = { rms: 0.001, frequency: null, clarity: 0 };
+
+function feed(frames: PitchFrame[]) {
+    const tracker = createNoteTracker({ onsetThreshold: 0.02 });
+    return frames.flatMap((frame) => tracker.process(frame));
+}
+
+describe("createNoteTracker", () => {
+    it("starts a note once its pitch is stable and ends it when the sound fades", () => {
+        const events = feed([QUIET, A4, A4, A4, A4, QUIET, QUIET, QUIET, QUIET]);
+        expect(events).toEqual([
+            { type: "note-on", note: 69 },
+            { type: "note-off", note: 69 },
+        ]);
+    });
+
+    it("ignores pitches that don't hold for long enough", () => {
+        expect(feed([QUIET, A4, A4, QUIET, QUIET, QUIET, QUIET])).toEqual([]);
+    });
+
+    it("ignores unclear frames", () => {
+        const murky = { ...A4, clarity: 0.4 };
+        expect(feed([murky, murky, murky, murky])).toEqual([]);
+    });
+
+    it("moves straight to a new pitch", () => {
+        const C5 = { rms: 0.2, frequency: 523.25, clarity: 0.95 };
+        expect(feed([A4, A4, A4, C5, C5, C5])).toEqual([
+            { type: "note-on", note: 69 },
+            { type: "note-off", note: 69 },
+            { type: "note-on", note: 72 },
+        ]);
+    });
+
+    it("restarts a repeated note on a fresh attack", () => {
+        const decaying = { ...A4, rms: 0.05 };
+        const struck = { ...A4, rms: 0.25 };
+        expect(feed([A4, A4, A4, decaying, struck, struck, struck])).toEqual([
+            { type: "note-on", note: 69 },
+            { type: "note-off", note: 69 },
+            { type: "note-on", note: 69 },
+        ]);
+    });
+
+    it("releases the sounding note on reset", () => {
+        const tracker = createNoteTracker({ onsetThreshold: 0.02 });
+        [A4, A4, A4].forEach((frame) => tracker.process(frame));
+        expect(tracker.reset()).toEqual([{ type: "note-off", note: 69 }]);
+        expect(tracker.reset()).toEqual([]);
+    });
+});
+
+describe("noteOnsetDelayMs", () => {
+    it("covers half a frame plus the hops the pitch must hold for", () => {
+        // 1024 + 2 * 1024 samples at 48 kHz.
+        expect(noteOnsetDelayMs(48_000)).toBeCloseTo(64);
+        expect(noteOnsetDelayMs(44_100, 1)).toBeCloseTo((1024 / 44_100) * 1000);
+    });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { detectPitch, frequencyToMidi, rootMeanSquare } from "../yin";
+
+const SAMPLE_RATE = 44100;
+
+function tone(partials: readonly [frequency: number, amplitude: number][], length = 2048) {
+    const buffer = new Float32Array(length);
+    for (let index = 0; index < length; index++) {
+        const time = index / SAMPLE_RATE;
+        buffer[index] = partials.reduce(
+            (sum, [frequency, amplitude]) => sum + amplitude * Math.sin(2 * Math.PI * frequency * time),
+            0,
+        );
+    }
+    return buffer;
+}
+
+function noise(length = 2048) {
+    // Deterministic pseudo-noise so the test never flakes.
+    let seed = 1;
+    return Float32Array.from({ length }, () => {
+        seed = (seed * 16807) % 2147483647;
+        return (seed / 2147483647) * 2 - 1;
+    });
+}
+
+describe("detectPitch", () => {
+    it("finds the frequency of a pure tone", () => {
+        const estimate = detectPitch(tone([[440, 0.5]]), SAMPLE_RATE);
+        expect(estimate?.frequency).toBeCloseTo(440, 0);
+        expect(estimate?.clarity).toBeGreaterThan(0.9);
+    });
+
+    it("handles low notes near the bottom of the range", () => {
+        const estimate = detectPitch(tone([[65.41, 0.5]]), SAMPLE_RATE);
+        expect(frequencyToMidi(estimate?.frequency ?? 0)).toBe(36);
+    });
+
+    it("reports the fundamental of a harmonic-rich tone, not an overtone", () => {
+        const estimate = detectPitch(
+            tone([
+                [220, 0.3],
+                [440, 0.5],
+                [660, 0.25],
+                [880, 0.15],
+            ]),
+            SAMPLE_RATE,
+        );
+        expect(frequencyToMidi(estimate?.frequency ?? 0)).toBe(57);
+    });
+
+    it("returns null for silence and for noise", () => {
+        expect(detectPitch(new Float32Array(2048), SAMPLE_RATE)).toBeNull();
+        expect(detectPitch(noise(), SAMPLE_RATE)).toBeNull();
+    });
+});
+
+describe("rootMeanSquare", () => {
+    it("measures the level of a sine wave", () => {
+        expect(rootMeanSquare(tone([[441, 1]], 4000))).toBeCloseTo(Math.SQRT1_2, 2);
+        expect(rootMeanSquare(new Float32Array(0))).toBe(0);
+    });
+});
+
+describe("frequencyToMidi", () => {
+    it("rounds to the nearest equal-tempered note", () => {
+        expect(frequencyToMidi(440)).toBe(69);
+        expect(frequencyToMidi(261.63)).toBe(60);
+        expect(frequencyToMidi(452)).toBe(69);
+    });
+});
@@ -0,0 +1,18 @@
+/** Never trigger on anything quieter than this, however silent the room. */
+export const MIN_ONSET_THRESHOLD = 0.01;
+const NOISE_HEADROOM = 4;
+
+/**
+ * Estimates the room's noise floor from levels recorded while the student
+ * stays silent. Uses a high percentile so brief clicks don't dominate.
+ */
+export function measureNoiseFloor(levels: readonly number[]): number {
+    if (levels.length === 0) return 0;
+
+    const sorted = [...levels].sort((left, right) => left - right);
+    return sorted[Math.floor((sorted.length - 1) * 0.9)];
+}
+
+export function onsetThresholdForNoiseFloor(noiseFloor: number): number {
+    return Math.max(MIN_ONSET_THRESHOLD, noiseFloor * NOISE_HEADROOM);
+}
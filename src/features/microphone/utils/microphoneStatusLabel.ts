@@ -0,0 +1,9 @@
+import type { MicrophoneStatus } from "../types";
+
+export function microphoneStatusLabel(status: MicrophoneStatus): string {
+    if (status === "listening") return "Microphone listening";
+    if (status === "requesting") return "Waiting for microphone";
+    if (status === "permission-denied") return "Microphone blocked";
+    if (status === "unsupported") return "Microphone unsupported";
+    return "Microphone off";
+}
@@ -0,0 +1,114 @@
+import { NOTE_STABLE_FRAMES, PITCH_FRAME_SIZE, PITCH_HOP_SIZE } from "../constants";
+import type { NoteTrackerEvent, PitchFrame } from "../types";
+import { frequencyToMidi } from "./yin";
+
+export interface NoteTrackerOptions {
+    /** Level a frame must reach to count as sounding. */
+    onsetThreshold: number;
+    /** Minimum YIN clarity for a frame's pitch to be trusted. */
+    minClarity?: number;
+    /** Consecutive frames that must agree on a pitch before it is reported. */
+    stableFrames?: number;
+    /** Consecutive quiet frames before a sounding note is released. */
+    releaseFrames?: number;
+}
+
+export interface NoteTracker {
+    process: (frame: PitchFrame) => NoteTrackerEvent[];
+    reset: () => NoteTrackerEvent[];
+}
+
+/** A jump in level this large between frames is treated as a new attack. */
+const ONSET_LEVEL_RATIO = 1.6;
+/** Notes are released once the level falls under this share of the onset threshold. */
+const RELEASE_LEVEL_RATIO = 0.6;
+
+/**
+ * Turns a stream of pitch frames into note-on/note-off events.
+ *
+ * A note starts once the same pitch is heard for a few frames above the
+ * onset threshold. A sudden rise in level (a re-struck key) or a new stable
+ * pitch restarts it, and it ends when the level stays below the release
+ * level. Monophonic by design: only one note sounds at a time.
+ */
+export function createNoteTracker(options: NoteTrackerOptions): NoteTracker {
+    const minClarity = options.minClarity ?? 0.8;
+    const stableFrames = options.stableFrames ?? NOTE_STABLE_FRAMES;
+    const releaseFrames = options.releaseFrames ?? 4;
+    const releaseLevel = options.onsetThreshold * RELEASE_LEVEL_RATIO;
+
+    let current: number | null = null;
+    let candidate: number | null = null;
+    let candidateFrames = 0;
+    let quietFrames = 0;
+    let previousRms = 0;
+    let attackPending = false;
+
+    const release = (events: NoteTrackerEvent[]) => {
+        if (current !== null) events.push({ type: "note-off", note: current });
+        current = null;
+    };
+
+    const process = (frame: PitchFrame): NoteTrackerEvent[] => {
+        const events: NoteTrackerEvent[] = [];
+
+        if (frame.rms >= options.onsetThreshold && frame.rms > previousRms * ONSET_LEVEL_RATIO) {
+            attackPending = true;
+            candidateFrames = 0;
+        }
+        previousRms = frame.rms;
+
+        if (frame.rms < releaseLevel) {
+            quietFrames += 1;
+            candidate = null;
+            candidateFrames = 0;
+            if (quietFrames >= releaseFrames) release(events);
+            return events;
+        }
+        quietFrames = 0;
+
+        const pitched =
+            frame.frequency !== null &&
+            frame.clarity >= minClarity &&
+            frame.rms >= options.onsetThreshold;
+        if (!pitched || frame.frequency === null) return events;
+
+        const note = frequencyToMidi(frame.frequency);
+        if (note !== candidate) {
+            candidate = note;
+            candidateFrames = 0;
+        }
+        candidateFrames += 1;
+        if (candidateFrames < stableFrames) return events;
+
+        if (note !== current || attackPending) {
+            release(events);
+            current = note;
+            events.push({ type: "note-on", note });
+        }
+        attackPending = false;
+        return events;
+    };
+
+    const reset = () => {
+        const events: NoteTrackerEvent[] = [];
+        release(events);
+        candidate = null;
+        candidateFrames = 0;
+        quietFrames = 0;
+        previousRms = 0;
+        attackPending = false;
+        return events;
+    };
+
+    return { process, reset };
+}
+
+/**
+ * How long after the attack a note-on is reported, in milliseconds: the attack
+ * is caught about half a frame after it sounds, and the pitch then has to hold
+ * for `stableFrames - 1` more hops. Subtract it to time notes from the attack.
+ */
+export function noteOnsetDelayMs(sampleRate: number, stableFrames = NOTE_STABLE_FRAMES): number {
+    return ((PITCH_FRAME_SIZE / 2 + (stableFrames - 1) * PITCH_HOP_SIZE) / sampleRate) * 1000;
+}
@@ -0,0 +1,84 @@
+import type { PitchEstimate } from "../types";
+
+export interface YinOptions {
+    /** Cumulative-mean-normalised difference below which a lag counts as periodic. */
+    threshold?: number;
+    minFrequency?: number;
+    maxFrequency?: number;
+}
+
+/** Lowest note the detector looks for; lower lags cost more than they are worth. */
+const DEFAULT_MIN_FREQUENCY = 50;
+const DEFAULT_MAX_FREQUENCY = 4200;
+const DEFAULT_THRESHOLD = 0.15;
+
+/**
+ * YIN fundamental-frequency estimator (de Cheveigné & Kawahara, 2002).
+ *
+ * Pure and allocation-light so it can run inside an AudioWorklet, and be
+ * tested against synthetic buffers. Returns null when the buffer holds no
+ * clearly periodic signal in the requested range.
+ */
+export function detectPitch(
+    buffer: Float32Array,
+    sampleRate: number,
+    options: YinOptions = {},
+): PitchEstimate | null {
+    const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+    const maxLag = Math.min(
+        Math.floor(sampleRate / (options.minFrequency ?? DEFAULT_MIN_FREQUENCY)),
+        Math.floor(buffer.length / 2),
+    );
+    const minLag = Math.max(2, Math.floor(sampleRate / (options.maxFrequency ?? DEFAULT_MAX_FREQUENCY)));
+    if (maxLag <= minLag) return null;
+
+    const windowSize = buffer.length - maxLag;
+    const normalised = new Float32Array(maxLag + 1);
+    normalised[0] = 1;
+
+    // Steps 2 and 3: difference function, normalised by its running mean.
+    let runningSum = 0;
+    for (let lag = 1; lag <= maxLag; lag++) {
+        let difference = 0;
+        for (let index = 0; index < windowSize; index++) {
+            const delta = buffer[index] - buffer[index + lag];
+            difference += delta * delta;
+        }
+        runningSum += difference;
+        normalised[lag] = runningSum === 0 ? 1 : (difference * lag) / runningSum;
+    }
+
+    // Step 4: the first dip under the threshold, followed down to its minimum.
+    let lag = minLag;
+    while (lag <= maxLag && normalised[lag] >= threshold) lag++;
+    if (lag > maxLag) return null;
+    while (lag + 1 <= maxLag && normalised[lag + 1] < normalised[lag]) lag++;
+
+    // Step 5: parabolic interpolation around the minimum for sub-sample accuracy.
+    let refinedLag = lag;
+    if (lag > 1 && lag < maxLag) {
+        const left = normalised[lag - 1];
+        const centre = normalised[lag];
+        const right = normalised[lag + 1];
+        const curvature = left + right - 2 * centre;
+        if (curvature !== 0) refinedLag = lag + (left - right) / (2 * curvature);
+    }
+
+    return {
+        frequency: sampleRate / refinedLag,
+        clarity: Math.max(0, Math.min(1, 1 - normalised[lag])),
+    };
+}
+
+export function rootMeanSquare(buffer: Float32Array): number {
+    let sum = 0;
+    for (let index = 0; index < buffer.length; index++) {
+        sum += buffer[index] * buffer[index];
+    }
+    return buffer.length === 0 ? 0 : Math.sqrt(sum / buffer.length);
+}
+
+/** Nearest MIDI note to a frequency (A4 = 440 Hz). */
+export function frequencyToMidi(frequency: number): number {
+    return Math.round(69 + 12 * Math.log2(frequency / 440));
+}
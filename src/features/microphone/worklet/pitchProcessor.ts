@@ -0,0 +1,56 @@
+import {
+    PITCH_FRAME_SIZE as FRAME_SIZE,
+    PITCH_HOP_SIZE as HOP_SIZE,
+    PITCH_PROCESSOR_NAME,
+} from "../constants";
+import type { PitchFrame } from "../types";
+import { detectPitch, rootMeanSquare } from "../utils/yin";
+
+// AudioWorkletGlobalScope is not part of the DOM typings.
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processor: unknown): void;
+declare class AudioWorkletProcessor {
+    readonly port: MessagePort;
+}
+
+/**
+ * Collects microphone samples in a ring buffer and, every hop, posts the
+ * level and YIN pitch of the latest frame to the main thread.
+ */
+class PitchProcessor extends AudioWorkletProcessor {
+    private readonly ring = new Float32Array(FRAME_SIZE);
+    private readonly frame = new Float32Array(FRAME_SIZE);
+    private writeIndex = 0;
+    private filled = 0;
+    private sinceLastAnalysis = 0;
+
+    process(inputs: Float32Array[][]): boolean {
+        const channel = inputs[0]?.[0];
+        if (!channel) return true;
+
+        for (let index = 0; index < channel.length; index++) {
+            this.ring[this.writeIndex] = channel[index];
+            this.writeIndex = (this.writeIndex + 1) % FRAME_SIZE;
+        }
+        this.filled = Math.min(FRAME_SIZE, this.filled + channel.length);
+        this.sinceLastAnalysis += channel.length;
+
+        if (this.filled < FRAME_SIZE || this.sinceLastAnalysis < HOP_SIZE) return true;
+        this.sinceLastAnalysis = 0;
+
+        // Unroll the ring so the frame runs oldest to newest.
+        this.frame.set(this.ring.subarray(this.writeIndex));
+        this.frame.set(this.ring.subarray(0, this.writeIndex), FRAME_SIZE - this.writeIndex);
+
+        const estimate = detectPitch(this.frame, sampleRate);
+        const message: PitchFrame = {
+            rms: rootMeanSquare(this.frame),
+            frequency: estimate?.frequency ?? null,
+            clarity: estimate?.clarity ?? 0,
+        };
+        this.port.postMessage(message);
+        return true;
+    }
+}
+
+registerProcessor(PITCH_PROCESSOR_NAME, PitchProcessor);
@@ -0,0 +1,10 @@
+/** How long a step can go unplayed before "when stuck" hints light its keys. */
+export const HINT_STUCK_DELAY_MS = 5000;
+
+/** Clicks played during latency calibration; the first two are for settling in. */
+export const CALIBRATION_CLICKS = 10;
+export const CALIBRATION_WARMUP_CLICKS = 2;
+export const CALIBRATION_INTERVAL_MS = 750;
+/** Presses needed, after warm-up, for a trustworthy estimate. */
+export const MIN_CALIBRATION_PRESSES = 5;
+export const MAX_LATENCY_MS = 250;
@@ -0,0 +1,42 @@
+import { useEffect, useMemo, useRef } from "react";
+import type { HintMode } from "../types";
+import type { MidiOutput } from "../utils/createWebMidiOutput";
+import { createKeyboardHints } from "../utils/keyboardHints";
+
+export interface KeyboardHintOptions {
+    output: MidiOutput;
+    mode: HintMode;
+    /** Index of the step under the cursor; a new index restarts the hint even for equal notes. */
+    step: number;
+    /** Notes of the step under the cursor, or null when nothing should light. */
+    notes: readonly number[] | null;
+    /** Running count of wrong notes; a miss on the current step counts as being stuck. */
+    missCount: number;
+}
+
+/** Lights the expected keys on the output keyboard; see `createKeyboardHints`. */
+export default function useKeyboardHints({
+    output,
+    mode,
+    step,
+    notes,
+    missCount,
+}: KeyboardHintOptions) {
+    // A string key keeps the effect from re-running for equal note arrays within a step.
+    const noteKey = notes && notes.length > 0 ? notes.join(",") : null;
+    const notesRef = useRef(notes);
+    notesRef.current = notes;
+    const missCountRef = useRef(missCount);
+    missCountRef.current = missCount;
+
+    const hints = useMemo(() => createKeyboardHints(output), [output]);
+
+    useEffect(() => {
+        hints.enterStep(mode, noteKey === null ? null : notesRef.current, missCountRef.current);
+        return hints.clear;
+    }, [hints, mode, step, noteKey]);
+
+    useEffect(() => {
+        hints.updateMisses(missCount);
+    }, [hints, missCount]);
+}
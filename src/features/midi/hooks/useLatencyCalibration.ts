@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { CALIBRATION_CLICKS, CALIBRATION_INTERVAL_MS } from "../constants";
+import {
+    estimateLatency,
+    scheduleCalibrationClicks,
+    type CalibrationClock,
+} from "../utils/latency";
+
+type CalibrationAudioContext = CalibrationClock & Pick<AudioContext, "resume" | "close">;
+
+export type CalibrationPhase = "idle" | "listening" | "done" | "failed";
+
+export interface LatencyCalibrationOptions {
+    /** Receives the measured latency in milliseconds. */
+    onResult: (latencyMs: number) => void;
+}
+
+export interface LatencyCalibration {
+    phase: CalibrationPhase;
+    /** Plays the click track; call it from a user gesture so audio may start. */
+    start: () => void;
+    cancel: () => void;
+    /** Feed raw (uncorrected) note-on times here while `phase` is "listening". */
+    recordPress: (time: number) => void;
+}
+
+/** Gap before the first click, so it is never scheduled in the past. */
+const LEAD_IN_S = 0.5;
+
+function createBrowserContext(): CalibrationAudioContext {
+    return new AudioContext();
+}
+
+/**
+ * Measures how late a device reports key presses. A short click track plays
+ * and the student presses any key along with it; comparing press times to
+ * when each click actually left the speakers gives the device's latency.
+ */
+export default function useLatencyCalibration({
+    onResult,
+}: LatencyCalibrationOptions): LatencyCalibration {
+    const onResultRef = useRef(onResult);
+    onResultRef.current = onResult;
+
+    const contextRef = useRef<CalibrationAudioContext | null>(null);
+    const timerRef = useRef<number | null>(null);
+    const clickTimes = useRef<number[]>([]);
+    const pressTimes = useRef<number[] | null>(null);
+    const [phase, setPhase] = useState<CalibrationPhase>("idle");
+
+    const teardown = useCallback(() => {
+        if (timerRef.current !== null) {
+            window.clearTimeout(timerRef.current);
+            timerRef.current = null;
+        }
+        pressTimes.current = null;
+        void contextRef.current?.close().catch(() => undefined);
+        contextRef.current = null;
+    }, []);
+
+    const finish = useCallback(() => {
+        const latencyMs = estimateLatency(clickTimes.current, pressTimes.current ?? []);
+        teardown();
+
+        if (latencyMs === null) {
+            setPhase("failed");
+            return;
+        }
+        setPhase("done");
+        onResultRef.current(latencyMs);
+    }, [teardown]);
+
+    const start = useCallback(() => {
+        teardown();
+
+        let context: CalibrationAudioContext;
+        try {
+            context = createBrowserContext();
+        } catch (error: unknown) {
+            console.warn("Web Audio is unavailable; latency calibration needs it.", error);
+            setPhase("failed");
+            return;
+        }
+        contextRef.current = context;
+
+        // A new context may start suspended with its clock stopped, so the clicks
+        // are only mapped onto performance.now() once it is actually running.
+        void context.resume().then(
+            () => {
+                if (contextRef.current !== context) return;
+
+                const now = performance.now();
+                clickTimes.current = scheduleCalibrationClicks(context, now, LEAD_IN_S);
+                pressTimes.current = [];
+                setPhase("listening");
+                timerRef.current = window.setTimeout(
+                    finish,
+                    LEAD_IN_S * 1000 + CALIBRATION_CLICKS * CALIBRATION_INTERVAL_MS,
+                );
+            },
+            (error: unknown) => {
+                if (contextRef.current !== context) return;
+                console.warn("Audio would not start; latency calibration needs it.", error);
+                teardown();
+                setPhase("failed");
+            },
+        );
+    }, [finish, teardown]);
+
+    const cancel = useCallback(() => {
+        teardown();
+        setPhase("idle");
+    }, [teardown]);
+
+    const recordPress = useCallback((time: number) => {
+        pressTimes.current?.push(time);
+    }, []);
+
+    useEffect(() => teardown, [teardown]);
+
+    return { phase, start, cancel, recordPress };
+}
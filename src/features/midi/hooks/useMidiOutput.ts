@@ -0,0 +1,19 @@
+import { useEffect, useSyncExternalStore } from "react";
+import type { MidiOutputSnapshot } from "../types";
+import type { MidiOutput } from "../utils/createWebMidiOutput";
+
+/** Runs a MIDI output for the component's lifetime and routes it to `deviceId`. */
+export default function useMidiOutput(output: MidiOutput, deviceId: string): MidiOutputSnapshot {
+    const snapshot = useSyncExternalStore(output.subscribeSnapshot, output.getSnapshot);
+
+    useEffect(() => {
+        output.selectDevice(deviceId);
+    }, [output, deviceId]);
+
+    useEffect(() => {
+        output.start();
+        return () => output.stop();
+    }, [output]);
+
+    return snapshot;
+}
@@ -1,5 +1,21 @@
-export { default as useMidiDevices } from "./hooks/useMidiDevices";
-export { default as useMidiInput } from "./hooks/useMidiInput";
+export { default as useKeyboardHints } from "./hooks/useKeyboardHints";
+export { default as useLatencyCalibration } from "./hooks/useLatencyCalibration";
+export { default as useMidiOutput } from "./hooks/useMidiOutput";
+export { createWebMidiOutput } from "./utils/createWebMidiOutput";
+export { createWebMidiSource } from "./utils/createWebMidiSource";
+export { createKeyboardHints } from "./utils/keyboardHints";
+export { estimateLatency } from "./utils/latency";
+export { createMidiParser } from "./utils/parseMidiMessages";
 export { midiStatusLabel } from "./utils/midiStatusLabel";
 export { midiToNoteLabel } from "./utils/midiToNoteLabel";
-export type { MidiCallbacks, MidiStatus } from "./hooks/useMidiInput";
+export type { KeyboardHintOptions } from "./hooks/useKeyboardHints";
+export type {
+  CalibrationPhase,
+  LatencyCalibration,
+  LatencyCalibrationOptions,
+} from "./hooks/useLatencyCalibration";
+export type { MidiOutput, WebMidiOutputOptions } from "./utils/createWebMidiOutput";
+export type { HintScheduler, KeyboardHints } from "./utils/keyboardHints";
+export type { WebMidiSource, WebMidiSourceOptions } from "./utils/createWebMidiSource";
+export type { MidiMessage, MidiParser } from "./utils/parseMidiMessages";
+export type { HintMode, MidiOutputSnapshot } from "./types";
@@ -1 +1,12 @@
-export type MidiInputOption = { id: string; name: string };
+import type { NoteInputDevice, NoteInputStatus } from "../input";
+
+/**
+ * How the connected keyboard helps: not at all, by lighting the expected
+ * keys once the student is stuck, or by always lighting the next step.
+ */
+export type HintMode = "off" | "stuck" | "guided";
+
+export interface MidiOutputSnapshot {
+    status: NoteInputStatus;
+    devices: NoteInputDevice[];
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { HINT_VELOCITY, createWebMidiOutput } from "../createWebMidiOutput";
+
+function createFakeAccess(ids: string[]) {
+    const sent = new Map<string, number[][]>(ids.map((id) => [id, []]));
+    const outputs = new Map(
+        ids.map((id) => [id, { id, name: `Keys ${id}`, send: (bytes: number[]) => sent.get(id)?.push(bytes) }]),
+    );
+    const access = { outputs, onstatechange: null as (() => void) | null };
+    return { access, sent };
+}
+
+async function startOutput(ids: string[], deviceId: string, channel?: number) {
+    const fake = createFakeAccess(ids);
+    const output = createWebMidiOutput({
+        requestAccess: () => Promise.resolve(fake.access as unknown as MIDIAccess),
+        channel,
+    });
+    output.selectDevice(deviceId);
+    output.start();
+    await Promise.resolve();
+    return { ...fake, output };
+}
+
+describe("createWebMidiOutput", () => {
+    it("lists output devices", async () => {
+        const { output } = await startOutput(["a"], "");
+
+        expect(output.getSnapshot()).toEqual({
+            status: "connected",
+            devices: [{ id: "a", name: "Keys a" }],
+        });
+    });
+
+    it("lights hint notes softly and only switches off what changes", async () => {
+        const { output, sent } = await startOutput(["a"], "a");
+
+        output.showHint([60, 64]);
+        output.showHint([64, 67]);
+        output.clearHint();
+
+        expect(sent.get("a")).toEqual([
+            [0x90, 60, HINT_VELOCITY],
+            [0x90, 64, HINT_VELOCITY],
+            [0x80, 60, 0],
+            [0x90, 67, HINT_VELOCITY],
+            [0x80, 64, 0],
+            [0x80, 67, 0],
+        ]);
+    });
+
+    it("sends on the configured channel", async () => {
+        const { output, sent } = await startOutput(["a"], "a", 10);
+
+        output.showHint([60]);
+
+        expect(sent.get("a")).toEqual([[0x99, 60, HINT_VELOCITY]]);
+    });
+
+    it("switches lit keys off before changing device or stopping", async () => {
+        const { output, sent } = await startOutput(["a", "b"], "a");
+
+        output.showHint([60]);
+        output.selectDevice("b");
+        output.showHint([62]);
+        output.stop();
+
+        expect(sent.get("a")).toEqual([
+            [0x90, 60, HINT_VELOCITY],
+            [0x80, 60, 0],
+        ]);
+        expect(sent.get("b")).toEqual([
+            [0x90, 62, HINT_VELOCITY],
+            [0x80, 62, 0],
+        ]);
+    });
+
+    it("sends nothing without a selected device", async () => {
+        const { output, sent } = await startOutput(["a"], "");
+
+        output.showHint([60]);
+
+        expect(sent.get("a")).toEqual([]);
+    });
+});
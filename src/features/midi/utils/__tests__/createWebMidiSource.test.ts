@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import type { NoteInputEvent } from "../../../input";
+import { createWebMidiSource } from "../createWebMidiSource";
+
+interface FakeInput {
+    id: string;
+    name: string;
+    onmidimessage: ((event: { data: Uint8Array; timeStamp: number }) => void) | null;
+}
+
+function createFakeAccess(ids: string[]) {
+    const inputs = new Map<string, FakeInput>(
+        ids.map((id) => [id, { id, name: `Piano ${id}`, onmidimessage: null }]),
+    );
+    const access = { inputs, onstatechange: null as (() => void) | null };
+    const send = (id: string, ...bytes: number[]) =>
+        inputs.get(id)?.onmidimessage?.({ data: new Uint8Array(bytes), timeStamp: 500 });
+    return { access, inputs, send };
+}
+
+async function startSource(ids: string[], deviceId = "") {
+    const fake = createFakeAccess(ids);
+    const source = createWebMidiSource({
+        requestAccess: () => Promise.resolve(fake.access as unknown as MIDIAccess),
+    });
+    const events: NoteInputEvent[] = [];
+    source.subscribe((event) => events.push(event));
+    source.selectDevice(deviceId);
+    source.start();
+    await Promise.resolve();
+    return { ...fake, source, events };
+}
+
+describe("createWebMidiSource", () => {
+    it("reports unsupported without Web MIDI", () => {
+        expect(createWebMidiSource().getSnapshot().status).toBe("unsupported");
+    });
+
+    it("lists devices and connects once access is granted", async () => {
+        const { source } = await startSource(["a", "b"]);
+
+        expect(source.getSnapshot()).toEqual({
+            status: "connected",
+            devices: [
+                { id: "a", name: "Piano a" },
+                { id: "b", name: "Piano b" },
+            ],
+        });
+    });
+
+    it("reports a denied permission", async () => {
+        const source = createWebMidiSource({ requestAccess: () => Promise.reject(new Error("no")) });
+        source.start();
+        await Promise.resolve();
+        await Promise.resolve();
+
+        expect(source.getSnapshot().status).toBe("permission-denied");
+    });
+
+    it("turns note and pedal messages into events", async () => {
+        const { send, events } = await startSource(["a"]);
+
+        send("a", 0x90, 60, 100);
+        send("a", 0x90, 60, 90);
+        send("a", 0xb0, 64, 127);
+        send("a", 0x90, 60, 0);
+        send("a", 0xb0, 64, 0);
+
+        expect(events).toEqual([
+            { type: "note-on", note: 60, velocity: 100, time: 500 },
+            { type: "pedal", pedal: "sustain", down: true },
+            { type: "note-off", note: 60 },
+            { type: "all-notes-off" },
+            { type: "pedal", pedal: "sustain", down: false },
+        ]);
+    });
+
+    it("releases held notes on All Notes Off but keeps pedals down", async () => {
+        const { send, events } = await startSource(["a"]);
+
+        send("a", 0xb0, 67, 100);
+        send("a", 0x90, 60, 100, 64, 100);
+        events.length = 0;
+        send("a", 0xb0, 123, 0);
+
+        expect(events).toEqual([
+            { type: "note-off", note: 60 },
+            { type: "note-off", note: 64 },
+            { type: "all-notes-off" },
+        ]);
+    });
+
+    it("filters by channel", async () => {
+        const { send, events, source } = await startSource(["a"]);
+        source.selectChannel(2);
+
+        send("a", 0x90, 60, 100);
+        send("a", 0x91, 62, 100);
+
+        expect(events).toEqual([{ type: "note-on", note: 62, velocity: 100, time: 500 }]);
+    });
+
+    it("applies the device profile", async () => {
+        const { send, events, source } = await startSource(["a"]);
+        source.setProfile({ latencyMs: 20, velocityThreshold: 10, transpose: 12 });
+
+        send("a", 0x90, 60, 5);
+        send("a", 0x90, 62, 80);
+        send("a", 0x80, 60, 0);
+        send("a", 0x80, 62, 0);
+
+        expect(events).toEqual([
+            { type: "note-on", note: 74, velocity: 80, time: 480 },
+            { type: "note-off", note: 74 },
+            { type: "all-notes-off" },
+        ]);
+    });
+
+    it("only listens to the selected device", async () => {
+        const { send, events, source } = await startSource(["a", "b"], "b");
+
+        send("a", 0x90, 60, 100);
+        send("b", 0x90, 62, 100);
+        expect(events).toEqual([{ type: "note-on", note: 62, velocity: 100, time: 500 }]);
+
+        source.selectDevice("missing");
+        expect(source.getSnapshot().status).toBe("no-device");
+        expect(events[events.length - 1]).toEqual({ type: "all-notes-off" });
+    });
+
+    it("follows hot-plugged devices", async () => {
+        const { access, inputs, source } = await startSource([]);
+        expect(source.getSnapshot().status).toBe("no-device");
+
+        inputs.set("c", { id: "c", name: "Piano c", onmidimessage: null });
+        access.onstatechange?.();
+
+        expect(source.getSnapshot().status).toBe("connected");
+        expect(source.getSnapshot().devices).toEqual([{ id: "c", name: "Piano c" }]);
+    });
+
+    it("ignores an access grant that arrives after stop", async () => {
+        const fake = createFakeAccess(["a"]);
+        const source = createWebMidiSource({
+            requestAccess: () => Promise.resolve(fake.access as unknown as MIDIAccess),
+        });
+
+        source.start();
+        source.stop();
+        await Promise.resolve();
+
+        expect(source.getSnapshot().status).toBe("checking");
+        expect(fake.inputs.get("a")?.onmidimessage).toBeNull();
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { HINT_STUCK_DELAY_MS } from "../../constants";
+import { createKeyboardHints, type HintScheduler } from "../keyboardHints";
+
+function createFakeOutput() {
+    const calls: (number[] | "clear")[] = [];
+    const output = {
+        showHint: (notes: readonly number[]) => calls.push([...notes]),
+        clearHint: () => calls.push("clear"),
+    };
+    /** The notes lit by the latest call. */
+    const lit = () => {
+        const last = calls[calls.length - 1];
+        return !last || last === "clear" ? [] : last;
+    };
+    return { output, calls, lit };
+}
+
+function createFakeScheduler() {
+    let pending: { callback: () => void; delayMs: number } | null = null;
+    const schedule: HintScheduler = (callback, delayMs) => {
+        const entry = { callback, delayMs };
+        pending = entry;
+        return () => {
+            if (pending === entry) pending = null;
+        };
+    };
+    const fire = () => {
+        const entry = pending;
+        pending = null;
+        entry?.callback();
+        return entry?.delayMs ?? null;
+    };
+    return { schedule, fire };
+}
+
+describe("createKeyboardHints", () => {
+    it("lights each step right away in guided mode", () => {
+        const { output, lit } = createFakeOutput();
+        const hints = createKeyboardHints(output, createFakeScheduler().schedule);
+
+        hints.enterStep("guided", [60, 64], 0);
+        expect(lit()).toEqual([60, 64]);
+
+        hints.enterStep("guided", null, 0);
+        expect(lit()).toEqual([]);
+    });
+
+    it("lights a stuck step after a delay or on a miss", () => {
+        const { output, lit } = createFakeOutput();
+        const timer = createFakeScheduler();
+        const hints = createKeyboardHints(output, timer.schedule);
+
+        hints.enterStep("stuck", [60], 2);
+        hints.updateMisses(2);
+        expect(lit()).toEqual([]);
+        hints.updateMisses(3);
+        expect(lit()).toEqual([60]);
+
+        hints.enterStep("stuck", [62], 3);
+        expect(lit()).toEqual([]);
+        expect(timer.fire()).toBe(HINT_STUCK_DELAY_MS);
+        expect(lit()).toEqual([62]);
+    });
+
+    it("starts over when the next step repeats the same notes", () => {
+        const { output, lit } = createFakeOutput();
+        const timer = createFakeScheduler();
+        const hints = createKeyboardHints(output, timer.schedule);
+
+        hints.enterStep("stuck", [60, 64], 0);
+        hints.updateMisses(1);
+        expect(lit()).toEqual([60, 64]);
+
+        // Same notes, next step: the hint goes dark, the timer restarts and
+        // the earlier miss no longer counts.
+        hints.enterStep("stuck", [60, 64], 1);
+        expect(lit()).toEqual([]);
+        hints.updateMisses(1);
+        expect(lit()).toEqual([]);
+        expect(timer.fire()).toBe(HINT_STUCK_DELAY_MS);
+        expect(lit()).toEqual([60, 64]);
+    });
+
+    it("drops a pending hint when cleared", () => {
+        const { output, lit } = createFakeOutput();
+        const timer = createFakeScheduler();
+        const hints = createKeyboardHints(output, timer.schedule);
+
+        hints.enterStep("stuck", [60], 0);
+        hints.clear();
+
+        expect(timer.fire()).toBeNull();
+        expect(lit()).toEqual([]);
+    });
+});
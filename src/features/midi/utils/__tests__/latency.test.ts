@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { CALIBRATION_CLICKS, CALIBRATION_WARMUP_CLICKS } from "../../constants";
+import { estimateLatency, scheduleCalibrationClicks, type CalibrationClock } from "../latency";
+
+const CLICKS = [0, 750, 1500, 2250, 3000, 3750, 4500];
+
+describe("estimateLatency", () => {
+    it("returns the median offset between presses and clicks", () => {
+        const presses = [30, 790, 1530, 2270, 3035, 3780];
+
+        expect(estimateLatency(CLICKS, presses)).toBe(30);
+    });
+
+    it("ignores stray presses far from any click", () => {
+        const presses = [20, 400, 770, 1520, 1900, 2270, 3020, 3770];
+
+        expect(estimateLatency(CLICKS, presses)).toBe(20);
+    });
+
+    it("needs enough presses to trust the result", () => {
+        expect(estimateLatency(CLICKS, [20, 770, 1520])).toBeNull();
+        expect(estimateLatency([], [20])).toBeNull();
+    });
+
+    it("does not report negative latency for a student rushing the click", () => {
+        const presses = [-40, 710, 1460, 2210, 2960];
+
+        expect(estimateLatency(CLICKS, presses)).toBe(0);
+    });
+});
+
+function createFakeContext(currentTime: number, outputLatency?: number) {
+    const started: number[] = [];
+    const param = () => ({
+        value: 0,
+        setValueAtTime: () => undefined,
+        exponentialRampToValueAtTime: () => undefined,
+    });
+    const fake = {
+        currentTime,
+        outputLatency,
+        baseLatency: 0.01,
+        destination: {},
+        createOscillator: () => ({
+            frequency: param(),
+            connect: () => undefined,
+            start: (time: number) => started.push(time),
+            stop: () => undefined,
+        }),
+        createGain: () => ({ gain: param(), connect: () => undefined }),
+    };
+    return { context: fake as unknown as CalibrationClock, started };
+}
+
+describe("scheduleCalibrationClicks", () => {
+    it("queues every click but only reports the ones after the warm-up", () => {
+        const { context, started } = createFakeContext(2);
+
+        const clicks = scheduleCalibrationClicks(context, 5000, 0.5);
+
+        expect(started).toHaveLength(CALIBRATION_CLICKS);
+        expect(started[0]).toBe(2.5);
+        expect(clicks).toHaveLength(CALIBRATION_CLICKS - CALIBRATION_WARMUP_CLICKS);
+    });
+
+    it("maps click times onto the performance clock, including output latency", () => {
+        const { context } = createFakeContext(2, 0.02);
+
+        const clicks = scheduleCalibrationClicks(context, 5000, 0.5);
+
+        // 0.5 s lead-in, two 750 ms warm-up clicks, then 30 ms on the way to the speakers.
+        expect(clicks[0]).toBeCloseTo(5000 + 500 + 1500 + 30);
+        expect(clicks[1] - clicks[0]).toBeCloseTo(750);
+    });
+});
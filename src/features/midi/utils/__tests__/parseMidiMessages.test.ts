@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { createMidiParser } from "../parseMidiMessages";
+
+describe("createMidiParser", () => {
+    it("parses note and control-change messages with 1-based channels", () => {
+        const parser = createMidiParser();
+
+        expect(parser.parse([0x90, 60, 100, 0x8f, 60, 40, 0xb3, 64, 127])).toEqual([
+            { type: "note-on", channel: 1, note: 60, velocity: 100 },
+            { type: "note-off", channel: 16, note: 60, velocity: 40 },
+            { type: "control-change", channel: 4, controller: 64, value: 127 },
+        ]);
+    });
+
+    it("treats a velocity-0 note-on as a note-off", () => {
+        expect(createMidiParser().parse([0x92, 62, 0])).toEqual([
+            { type: "note-off", channel: 3, note: 62, velocity: 0 },
+        ]);
+    });
+
+    it("applies running status to following data bytes", () => {
+        const parser = createMidiParser();
+
+        expect(parser.parse([0x90, 60, 100, 64, 90, 60, 0])).toEqual([
+            { type: "note-on", channel: 1, note: 60, velocity: 100 },
+            { type: "note-on", channel: 1, note: 64, velocity: 90 },
+            { type: "note-off", channel: 1, note: 60, velocity: 0 },
+        ]);
+    });
+
+    it("keeps running status across packets and completes split messages", () => {
+        const parser = createMidiParser();
+
+        expect(parser.parse([0x90, 60])).toEqual([]);
+        expect(parser.parse([100])).toEqual([
+            { type: "note-on", channel: 1, note: 60, velocity: 100 },
+        ]);
+        expect(parser.parse([67, 80])).toEqual([
+            { type: "note-on", channel: 1, note: 67, velocity: 80 },
+        ]);
+    });
+
+    it("ignores real-time bytes in the middle of a message", () => {
+        expect(createMidiParser().parse([0x90, 0xf8, 60, 0xfe, 100])).toEqual([
+            { type: "note-on", channel: 1, note: 60, velocity: 100 },
+        ]);
+    });
+
+    it("skips SysEx and system common messages and clears running status", () => {
+        const parser = createMidiParser();
+
+        expect(parser.parse([0x90, 60, 100, 0xf0, 0x7e, 0x01, 0xf7, 62, 100])).toEqual([
+            { type: "note-on", channel: 1, note: 60, velocity: 100 },
+        ]);
+        expect(parser.parse([0xf2, 0x10, 0x20, 0xb0, 123, 0])).toEqual([
+            { type: "control-change", channel: 1, controller: 123, value: 0 },
+        ]);
+    });
+
+    it("consumes one-byte messages without returning them", () => {
+        expect(createMidiParser().parse([0xc0, 5, 0xd0, 40, 0x90, 60, 1])).toEqual([
+            { type: "note-on", channel: 1, note: 60, velocity: 1 },
+        ]);
+    });
+
+    it("drops stray data bytes until a status byte arrives", () => {
+        const parser = createMidiParser();
+
+        expect(parser.parse([60, 100])).toEqual([]);
+        parser.reset();
+        expect(parser.parse([0x80, 60, 0])).toEqual([
+            { type: "note-off", channel: 1, note: 60, velocity: 0 },
+        ]);
+    });
+});
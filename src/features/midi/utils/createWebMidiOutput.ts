@@ -0,0 +1,147 @@
+import type { MidiOutputSnapshot } from "../types";
+
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+/** Quiet enough not to be mistaken for the student's own playing. */
+export const HINT_VELOCITY = 1;
+
+export interface WebMidiOutputOptions {
+    /** Defaults to `navigator.requestMIDIAccess`; injectable for tests. */
+    requestAccess?: () => Promise<MIDIAccess>;
+    /** Channel hints are sent on, 1–16. */
+    channel?: number;
+}
+
+export interface MidiOutput {
+    getSnapshot: () => MidiOutputSnapshot;
+    subscribeSnapshot: (listener: () => void) => () => void;
+    /** Output that receives hints; an empty id sends nowhere. */
+    selectDevice: (deviceId: string) => void;
+    start: () => void;
+    stop: () => void;
+    /** Lights exactly these keys, switching off any others still lit. */
+    showHint: (notes: readonly number[]) => void;
+    clearHint: () => void;
+}
+
+function defaultRequestAccess(): (() => Promise<MIDIAccess>) | null {
+    if (typeof navigator === "undefined" || !navigator.requestMIDIAccess) return null;
+    return () => navigator.requestMIDIAccess();
+}
+
+/**
+ * Talks back to a Web MIDI instrument. Hints go out as very soft note-ons,
+ * which lighted-key keyboards show on their keys, and are switched off with
+ * matching note-offs before the device changes or the output stops.
+ */
+export function createWebMidiOutput(options: WebMidiOutputOptions = {}): MidiOutput {
+    const requestAccess = options.requestAccess ?? defaultRequestAccess();
+    const channelBits = ((options.channel ?? 1) - 1) & 0x0f;
+
+    let snapshot: MidiOutputSnapshot = {
+        status: requestAccess ? "checking" : "unsupported",
+        devices: [],
+    };
+    const listeners = new Set<() => void>();
+    let access: MIDIAccess | null = null;
+    let requesting = false;
+    let generation = 0;
+    let selectedDeviceId = "";
+    let litNotes: number[] = [];
+
+    const setSnapshot = (next: MidiOutputSnapshot) => {
+        snapshot = next;
+        listeners.forEach((listener) => listener());
+    };
+
+    const currentOutput = (): MIDIOutput | null => {
+        if (!access || !selectedDeviceId) return null;
+        return access.outputs.get(selectedDeviceId) ?? null;
+    };
+
+    const send = (bytes: number[]) => {
+        try {
+            currentOutput()?.send(bytes);
+        } catch (error: unknown) {
+            console.warn("Failed to send MIDI hint.", error);
+        }
+    };
+
+    const clearHint = () => {
+        litNotes.forEach((note) => send([NOTE_OFF | channelBits, note, 0]));
+        litNotes = [];
+    };
+
+    const syncOutputs = () => {
+        if (!access) return;
+
+        const devices = Array.from(access.outputs.values()).map((output) => ({
+            id: output.id,
+            name: output.name ?? "Unnamed MIDI Output",
+        }));
+        const unchanged =
+            devices.length === snapshot.devices.length &&
+            devices.every(
+                (device, index) =>
+                    device.id === snapshot.devices[index].id &&
+                    device.name === snapshot.devices[index].name,
+            );
+        const status = devices.length > 0 ? "connected" : "no-device";
+        if (unchanged && status === snapshot.status) return;
+
+        setSnapshot({ status, devices: unchanged ? snapshot.devices : devices });
+    };
+
+    return {
+        getSnapshot: () => snapshot,
+        subscribeSnapshot(listener) {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        selectDevice(deviceId) {
+            if (deviceId === selectedDeviceId) return;
+            clearHint();
+            selectedDeviceId = deviceId;
+        },
+        start() {
+            if (!requestAccess || access || requesting) return;
+
+            const startedGeneration = generation;
+            requesting = true;
+            void requestAccess().then(
+                (granted) => {
+                    if (startedGeneration !== generation) return;
+                    requesting = false;
+                    access = granted;
+                    granted.onstatechange = syncOutputs;
+                    syncOutputs();
+                },
+                () => {
+                    if (startedGeneration !== generation) return;
+                    requesting = false;
+                    setSnapshot({ ...snapshot, status: "permission-denied" });
+                },
+            );
+        },
+        stop() {
+            clearHint();
+            generation += 1;
+            requesting = false;
+            if (access) {
+                access.onstatechange = null;
+                access = null;
+            }
+        },
+        showHint(notes) {
+            const next = Array.from(new Set(notes));
+            litNotes
+                .filter((note) => !next.includes(note))
+                .forEach((note) => send([NOTE_OFF | channelBits, note, 0]));
+            next
+                .filter((note) => !litNotes.includes(note))
+                .forEach((note) => send([NOTE_ON | channelBits, note, HINT_VELOCITY]));
+            litNotes = next;
+        },
+        clearHint,
+    };
+}
@@ -0,0 +1,151 @@
+import { createNoteInputChannel, type NoteInputSource, type Pedal } from "../../input";
+import { createMidiParser, type MidiMessage } from "./parseMidiMessages";
+
+const PEDAL_CONTROLLERS: Record<number, Pedal> = { 64: "sustain", 66: "sostenuto", 67: "soft" };
+const PEDAL_DOWN_VALUE = 64;
+const ALL_SOUND_OFF = 120;
+const RESET_ALL_CONTROLLERS = 121;
+const ALL_NOTES_OFF = 123;
+
+export interface WebMidiSourceOptions {
+    /** Defaults to `navigator.requestMIDIAccess`; injectable for tests. */
+    requestAccess?: () => Promise<MIDIAccess>;
+}
+
+export interface WebMidiSource extends NoteInputSource {
+    /** Limits input to one channel (1–16); null accepts every channel. */
+    selectChannel: (channel: number | null) => void;
+}
+
+function defaultRequestAccess(): (() => Promise<MIDIAccess>) | null {
+    if (typeof navigator === "undefined" || !navigator.requestMIDIAccess) return null;
+    return () => navigator.requestMIDIAccess();
+}
+
+/**
+ * Note input from Web MIDI devices. Access is requested on `start()`, the
+ * device list follows hot-plugging, and messages from the selected input
+ * (or every input when none is selected) on the selected channel become
+ * note and pedal events. Each input gets its own parser, so running status
+ * and split packets are handled per device.
+ */
+export function createWebMidiSource(options: WebMidiSourceOptions = {}): WebMidiSource {
+    const requestAccess = options.requestAccess ?? defaultRequestAccess();
+    const channel = createNoteInputChannel({
+        status: requestAccess ? "checking" : "unsupported",
+        devices: [],
+    });
+
+    let access: MIDIAccess | null = null;
+    let boundInputs: MIDIInput[] = [];
+    let selectedDeviceId = "";
+    let selectedChannel: number | null = null;
+    let requesting = false;
+    // Bumped on every stop so a late permission answer can't revive a stopped source.
+    let generation = 0;
+
+    const handleMessage = (message: MidiMessage, time: number) => {
+        if (selectedChannel !== null && message.channel !== selectedChannel) return;
+
+        if (message.type === "note-on") {
+            channel.noteOn(message.note, message.velocity, time);
+        } else if (message.type === "note-off") {
+            channel.noteOff(message.note);
+        } else if (message.controller in PEDAL_CONTROLLERS) {
+            channel.pedal(PEDAL_CONTROLLERS[message.controller], message.value >= PEDAL_DOWN_VALUE);
+        } else if (message.controller === ALL_NOTES_OFF || message.controller === ALL_SOUND_OFF) {
+            channel.releaseNotes();
+        } else if (message.controller === RESET_ALL_CONTROLLERS) {
+            channel.releasePedals();
+        }
+    };
+
+    const unbindInputs = () => {
+        for (const input of boundInputs) {
+            input.onmidimessage = null;
+        }
+        boundInputs = [];
+        channel.releaseAll();
+    };
+
+    const bindInputs = () => {
+        if (!access) return;
+
+        const allInputs = Array.from(access.inputs.values());
+        unbindInputs();
+        boundInputs = selectedDeviceId
+            ? allInputs.filter((input) => input.id === selectedDeviceId)
+            : allInputs;
+
+        for (const input of boundInputs) {
+            const parser = createMidiParser();
+            input.onmidimessage = (event) => {
+                if (!event.data) return;
+                // MIDI event stamps share the performance.now() clock.
+                const time = event.timeStamp || performance.now();
+                parser.parse(event.data).forEach((message) => handleMessage(message, time));
+            };
+        }
+
+        const devices = allInputs.map((input) => ({
+            id: input.id,
+            name: input.name ?? "Unnamed MIDI Input",
+        }));
+        const current = channel.getSnapshot().devices;
+        const devicesChanged =
+            devices.length !== current.length ||
+            devices.some((device, index) => device.id !== current[index].id || device.name !== current[index].name);
+
+        channel.setSnapshot({
+            status: boundInputs.length > 0 ? "connected" : "no-device",
+            devices: devicesChanged ? devices : current,
+        });
+    };
+
+    return {
+        getSnapshot: channel.getSnapshot,
+        subscribeSnapshot: channel.subscribeSnapshot,
+        subscribe: channel.subscribe,
+        setProfile: channel.setProfile,
+        selectDevice(deviceId) {
+            if (deviceId === selectedDeviceId) return;
+            selectedDeviceId = deviceId;
+            bindInputs();
+        },
+        selectChannel(midiChannel) {
+            if (midiChannel === selectedChannel) return;
+            selectedChannel = midiChannel;
+            // Notes from the old channel would never see their note-off.
+            channel.releaseAll();
+        },
+        start() {
+            if (!requestAccess || access || requesting) return;
+
+            const startedGeneration = generation;
+            requesting = true;
+            void requestAccess().then(
+                (granted) => {
+                    if (startedGeneration !== generation) return;
+                    requesting = false;
+                    access = granted;
+                    granted.onstatechange = bindInputs;
+                    bindInputs();
+                },
+                () => {
+                    if (startedGeneration !== generation) return;
+                    requesting = false;
+                    channel.setSnapshot({ status: "permission-denied" });
+                },
+            );
+        },
+        stop() {
+            generation += 1;
+            requesting = false;
+            if (access) {
+                access.onstatechange = null;
+                access = null;
+            }
+            unbindInputs();
+        },
+    };
+}
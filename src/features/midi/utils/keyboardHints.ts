@@ -0,0 +1,68 @@
+import { HINT_STUCK_DELAY_MS } from "../constants";
+import type { HintMode } from "../types";
+import type { MidiOutput } from "./createWebMidiOutput";
+
+/** Runs `callback` after `delayMs` and returns a function that cancels it. */
+export type HintScheduler = (callback: () => void, delayMs: number) => () => void;
+
+export interface KeyboardHints {
+    /**
+     * The cursor reached a new step (or left the score when `notes` is null).
+     * Called once per step, even when it repeats the previous step's notes.
+     */
+    enterStep: (mode: HintMode, notes: readonly number[] | null, missCount: number) => void;
+    /** The running count of wrong notes changed. */
+    updateMisses: (missCount: number) => void;
+    /** Turns the hint off and drops any pending timer. */
+    clear: () => void;
+}
+
+const scheduleTimeout: HintScheduler = (callback, delayMs) => {
+    const timer = setTimeout(callback, delayMs);
+    return () => clearTimeout(timer);
+};
+
+/**
+ * Decides when the expected keys light up on the output keyboard. "guided"
+ * lights each step as the cursor reaches it; "stuck" waits until the student
+ * plays a wrong note or lingers on the step, and goes dark again once the
+ * cursor moves.
+ */
+export function createKeyboardHints(
+    output: Pick<MidiOutput, "showHint" | "clearHint">,
+    schedule: HintScheduler = scheduleTimeout,
+): KeyboardHints {
+    let mode: HintMode = "off";
+    let notes: readonly number[] = [];
+    let missesBeforeStep = 0;
+    let cancelTimer: (() => void) | null = null;
+
+    const clear = () => {
+        cancelTimer?.();
+        cancelTimer = null;
+        output.clearHint();
+    };
+
+    return {
+        enterStep(nextMode, nextNotes, missCount) {
+            clear();
+            mode = nextMode;
+            notes = nextNotes ?? [];
+            missesBeforeStep = missCount;
+            if (mode === "off" || notes.length === 0) return;
+
+            if (mode === "guided") {
+                output.showHint(notes);
+                return;
+            }
+            const expected = notes;
+            cancelTimer = schedule(() => output.showHint(expected), HINT_STUCK_DELAY_MS);
+        },
+        updateMisses(missCount) {
+            if (mode !== "stuck" || notes.length === 0) return;
+            if (missCount <= missesBeforeStep) return;
+            output.showHint(notes);
+        },
+        clear,
+    };
+}
@@ -0,0 +1,75 @@
+import { playClick, type MetronomeAudioContext } from "../../metronome";
+import {
+    CALIBRATION_CLICKS,
+    CALIBRATION_INTERVAL_MS,
+    CALIBRATION_WARMUP_CLICKS,
+    MAX_LATENCY_MS,
+    MIN_CALIBRATION_PRESSES,
+} from "../constants";
+
+export type CalibrationClock = MetronomeAudioContext &
+    Partial<Pick<AudioContext, "outputLatency" | "baseLatency">>;
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((left, right) => left - right);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Estimates how late a device reports presses made along with a click track.
+ *
+ * Each press is paired with the nearest click; pairs further apart than half
+ * the click spacing are stray presses and are dropped. The median offset is
+ * robust to the odd rushed or dragged press. Returns null when too few
+ * presses line up, and never reports less than zero (a student playing
+ * ahead of the click is not device latency).
+ */
+export function estimateLatency(clickTimesMs: readonly number[], pressTimesMs: readonly number[]): number | null {
+    if (clickTimesMs.length === 0) return null;
+
+    const spacing =
+        clickTimesMs.length > 1 ? clickTimesMs[1] - clickTimesMs[0] : Number.POSITIVE_INFINITY;
+    const maxOffset = Math.min(spacing / 2, MAX_LATENCY_MS);
+    const offsets: number[] = [];
+
+    for (const press of pressTimesMs) {
+        let nearest = clickTimesMs[0];
+        for (const click of clickTimesMs) {
+            if (Math.abs(press - click) < Math.abs(press - nearest)) nearest = click;
+        }
+        const offset = press - nearest;
+        if (Math.abs(offset) <= maxOffset) offsets.push(offset);
+    }
+
+    if (offsets.length < MIN_CALIBRATION_PRESSES) return null;
+    return Math.max(0, Math.round(median(offsets)));
+}
+
+/**
+ * Queues the calibration click track starting `leadInS` from now and returns
+ * when each counted click (warm-up clicks excluded) reaches the speakers, on
+ * the `performance.now()` clock whose current reading is `nowMs`.
+ */
+export function scheduleCalibrationClicks(
+    context: CalibrationClock,
+    nowMs: number,
+    leadInS: number,
+): number[] {
+    const firstClick = context.currentTime + leadInS;
+    // Map the audio clock onto performance.now(), plus the time sound takes to reach the speakers.
+    const audioToPerformanceMs =
+        nowMs -
+        context.currentTime * 1000 +
+        ((context.outputLatency ?? 0) + (context.baseLatency ?? 0)) * 1000;
+
+    const clickTimes: number[] = [];
+    for (let index = 0; index < CALIBRATION_CLICKS; index++) {
+        const time = firstClick + (index * CALIBRATION_INTERVAL_MS) / 1000;
+        playClick(context, time, index % 4 === 0 ? "accent" : "beat");
+        if (index >= CALIBRATION_WARMUP_CLICKS) {
+            clickTimes.push(time * 1000 + audioToPerformanceMs);
+        }
+    }
+    return clickTimes;
+}
@@ -1,9 +1,9 @@
-import type { MidiStatus } from "../hooks/useMidiInput";
+import type { NoteInputStatus } from "../../input";
 
-export function midiStatusLabel(status: MidiStatus): string {
-    if (status === "MIDI: connected") return "MIDI connected";
-    if (status === "Checking MIDI support…") return "Checking MIDI";
-    if (status === "MIDI: permission denied") return "MIDI permission denied";
-    if (status === "MIDI: not supported in this browser") return "MIDI unsupported";
+export function midiStatusLabel(status: NoteInputStatus): string {
+    if (status === "connected") return "MIDI connected";
+    if (status === "checking") return "Checking MIDI";
+    if (status === "permission-denied") return "MIDI permission denied";
+    if (status === "unsupported") return "MIDI unsupported";
     return "MIDI disconnected";
 }
@@ -0,0 +1,113 @@
+/** A channel voice message we act on. Channels are 1–16, as printed on instruments. */
+export type MidiMessage =
+    | { type: "note-on"; channel: number; note: number; velocity: number }
+    | { type: "note-off"; channel: number; note: number; velocity: number }
+    | { type: "control-change"; channel: number; controller: number; value: number };
+
+export interface MidiParser {
+    /** Feeds raw bytes; returns every complete message they finish. */
+    parse: (bytes: ArrayLike<number>) => MidiMessage[];
+    reset: () => void;
+}
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+const PROGRAM_CHANGE = 0xc0;
+const CHANNEL_PRESSURE = 0xd0;
+const SYSEX_START = 0xf0;
+const SYSEX_END = 0xf7;
+const REALTIME_START = 0xf8;
+
+/** Data bytes following each system common status byte (0xF1–0xF6). */
+const SYSTEM_COMMON_LENGTHS: Record<number, number> = { 0xf1: 1, 0xf2: 2, 0xf3: 1, 0xf6: 0 };
+
+function dataLength(status: number): number {
+    const command = status & 0xf0;
+    return command === PROGRAM_CHANGE || command === CHANNEL_PRESSURE ? 1 : 2;
+}
+
+function toMessage(status: number, data: number[]): MidiMessage | null {
+    const command = status & 0xf0;
+    const channel = (status & 0x0f) + 1;
+
+    if (command === NOTE_ON && data[1] > 0) {
+        return { type: "note-on", channel, note: data[0], velocity: data[1] };
+    }
+    if (command === NOTE_OFF || command === NOTE_ON) {
+        return { type: "note-off", channel, note: data[0], velocity: data[1] };
+    }
+    if (command === CONTROL_CHANGE) {
+        return { type: "control-change", channel, controller: data[0], value: data[1] };
+    }
+    return null;
+}
+
+/**
+ * Incremental parser for a raw MIDI byte stream.
+ *
+ * Handles running status (data bytes reusing the last channel status),
+ * messages split across packets, real-time bytes interleaved anywhere, and
+ * skips SysEx and system common messages. Velocity-0 note-ons come out as
+ * note-offs. Messages other than notes and control changes are consumed but
+ * not returned.
+ */
+export function createMidiParser(): MidiParser {
+    let runningStatus: number | null = null;
+    let data: number[] = [];
+    let skipRemaining = 0;
+    let inSysex = false;
+
+    const reset = () => {
+        runningStatus = null;
+        data = [];
+        skipRemaining = 0;
+        inSysex = false;
+    };
+
+    const parse = (bytes: ArrayLike<number>) => {
+        const messages: MidiMessage[] = [];
+
+        for (let index = 0; index < bytes.length; index++) {
+            const byte = bytes[index] & 0xff;
+
+            // Real-time bytes may appear anywhere, even mid-message, and change nothing.
+            if (byte >= REALTIME_START) continue;
+
+            if (byte & 0x80) {
+                data = [];
+                skipRemaining = 0;
+                inSysex = byte === SYSEX_START;
+
+                if (byte < SYSEX_START) {
+                    runningStatus = byte;
+                } else {
+                    // System messages cancel running status.
+                    runningStatus = null;
+                    if (byte !== SYSEX_START && byte !== SYSEX_END) {
+                        skipRemaining = SYSTEM_COMMON_LENGTHS[byte] ?? 0;
+                    }
+                }
+                continue;
+            }
+
+            if (inSysex) continue;
+            if (skipRemaining > 0) {
+                skipRemaining -= 1;
+                continue;
+            }
+            if (runningStatus === null) continue;
+
+            data.push(byte);
+            if (data.length < dataLength(runningStatus)) continue;
+
+            const message = toMessage(runningStatus, data);
+            if (message) messages.push(message);
+            data = [];
+        }
+
+        return messages;
+    };
+
+    return { parse, reset };
+}
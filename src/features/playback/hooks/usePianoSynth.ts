@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ExpectedStep } from "../../../entities/score";
+import type { PlaybackAudioContext } from "../types";
+import { startPianoVoice, type PianoVoice } from "../utils/pianoVoice";
+import {
+    QUEUE_INTERVAL_MS,
+    createScoreScheduler,
+    type ScoreScheduler,
+} from "../utils/scoreScheduler";
+import { stepsToNotes } from "../utils/stepsToNotes";
+
+type ManagedAudioContext = PlaybackAudioContext & Pick<AudioContext, "resume" | "close">;
+
+const PREVIEW_DURATION_S = 0.9;
+const HELD_NOTE_VELOCITY = 0.8;
+/** Held notes struck with the soft pedal down come out this much quieter. */
+const SOFT_PEDAL_VELOCITY = 0.5;
+
+export interface PianoSynth {
+    /** True while a score is being played back. */
+    isPlaying: boolean;
+    /** Creates or resumes the audio context; call it from a user gesture. */
+    prepare: () => void;
+    /** Starts a held note, e.g. to echo a key the student pressed. */
+    noteOn: (midi: number) => void;
+    noteOff: (midi: number) => void;
+    /** While down, released notes keep ringing until the pedal lifts. */
+    setSustain: (down: boolean) => void;
+    /** While down, new held notes are struck more softly, as with a piano's una corda. */
+    setSoftPedal: (down: boolean) => void;
+    /** Plays a short preview of the given notes together. */
+    playNotes: (midis: readonly number[]) => void;
+    /** Plays back a sequence of steps at the given tempo. */
+    playSteps: (steps: readonly ExpectedStep[], bpm: number) => void;
+    /** Silences everything the synth is playing. */
+    stop: () => void;
+}
+
+function createBrowserContext(): ManagedAudioContext {
+    return new AudioContext();
+}
+
+/**
+ * A small oscillator-based piano for previews, echoes and score playback.
+ * Long scores are queued in slices just ahead of the audio clock rather than
+ * all at once, so thousands of notes never sit in the audio graph together.
+ */
+export default function usePianoSynth(): PianoSynth {
+    const contextRef = useRef<ManagedAudioContext | null>(null);
+
+    const heldVoices = useRef(new Map<number, PianoVoice>());
+    const sustainedVoices = useRef(new Map<number, PianoVoice>());
+    const sustainDown = useRef(false);
+    const softDown = useRef(false);
+    const scheduler = useRef<ScoreScheduler | null>(null);
+    const queueInterval = useRef<number | null>(null);
+
+    const [isPlaying, setPlaying] = useState(false);
+
+    const getContext = useCallback((): ManagedAudioContext | null => {
+        if (!contextRef.current) {
+            try {
+                contextRef.current = createBrowserContext();
+            } catch (error: unknown) {
+                console.warn("Web Audio is unavailable; playback stays silent.", error);
+                return null;
+            }
+        }
+        return contextRef.current;
+    }, []);
+
+    const prepare = useCallback(() => {
+        void getContext()
+            ?.resume()
+            .catch(() => {
+                // Resuming outside a user gesture is refused; the next gesture retries.
+            });
+    }, [getContext]);
+
+    const noteOn = useCallback(
+        (midi: number) => {
+            const context = getContext();
+            if (!context) return;
+
+            heldVoices.current.get(midi)?.release();
+            sustainedVoices.current.get(midi)?.release();
+            sustainedVoices.current.delete(midi);
+            const velocity = softDown.current ? SOFT_PEDAL_VELOCITY : HELD_NOTE_VELOCITY;
+            const voice = startPianoVoice(context, midi, context.currentTime, velocity);
+            heldVoices.current.set(midi, voice);
+        },
+        [getContext],
+    );
+
+    const noteOff = useCallback((midi: number) => {
+        const voice = heldVoices.current.get(midi);
+        if (!voice) return;
+
+        heldVoices.current.delete(midi);
+        if (sustainDown.current) {
+            sustainedVoices.current.set(midi, voice);
+        } else {
+            voice.release();
+        }
+    }, []);
+
+    const setSustain = useCallback((down: boolean) => {
+        sustainDown.current = down;
+        if (down) return;
+
+        sustainedVoices.current.forEach((voice) => voice.release());
+        sustainedVoices.current.clear();
+    }, []);
+
+    const setSoftPedal = useCallback((down: boolean) => {
+        softDown.current = down;
+    }, []);
+
+    const playNotes = useCallback(
+        (midis: readonly number[]) => {
+            const context = getContext();
+            if (!context) return;
+
+            const now = context.currentTime;
+            midis.forEach((midi) => {
+                startPianoVoice(context, midi, now).release(now + PREVIEW_DURATION_S);
+            });
+        },
+        [getContext],
+    );
+
+    const stopQueue = useCallback(() => {
+        if (queueInterval.current !== null) {
+            window.clearInterval(queueInterval.current);
+            queueInterval.current = null;
+        }
+    }, []);
+
+    const stop = useCallback(() => {
+        stopQueue();
+        scheduler.current?.stop();
+        heldVoices.current.forEach((voice) => voice.release());
+        heldVoices.current.clear();
+        sustainedVoices.current.forEach((voice) => voice.release());
+        sustainedVoices.current.clear();
+        setPlaying(false);
+    }, [stopQueue]);
+
+    const playSteps = useCallback(
+        (steps: readonly ExpectedStep[], bpm: number) => {
+            const context = getContext();
+            if (!context) return;
+
+            stop();
+            scheduler.current ??= createScoreScheduler(context, {
+                onEnd: () => {
+                    stopQueue();
+                    setPlaying(false);
+                },
+            });
+
+            const queue = scheduler.current;
+            setPlaying(true);
+            queue.start(stepsToNotes(steps, bpm));
+            if (queue.isRunning()) {
+                queueInterval.current = window.setInterval(queue.tick, QUEUE_INTERVAL_MS);
+            }
+        },
+        [getContext, stop, stopQueue],
+    );
+
+    useEffect(() => {
+        return () => {
+            stopQueue();
+            scheduler.current?.stop();
+            scheduler.current = null;
+            void contextRef.current?.close().catch(() => undefined);
+            contextRef.current = null;
+        };
+    }, [stopQueue]);
+
+    return {
+        isPlaying,
+        prepare,
+        noteOn,
+        noteOff,
+        setSustain,
+        setSoftPedal,
+        playNotes,
+        playSteps,
+        stop,
+    };
+}
@@ -0,0 +1,5 @@
+export { default as usePianoSynth } from "./hooks/usePianoSynth";
+export { midiToFrequency } from "./utils/midiToFrequency";
+export { stepsToNotes } from "./utils/stepsToNotes";
+export type { PianoSynth } from "./hooks/usePianoSynth";
+export type { PlaybackAudioContext, ScheduledNote } from "./types";
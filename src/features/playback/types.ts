@@ -0,0 +1,12 @@
+/** The slice of `AudioContext` the synth relies on, so tests can pass a fake. */
+export type PlaybackAudioContext = Pick<
+    BaseAudioContext,
+    "currentTime" | "destination" | "createOscillator" | "createGain"
+>;
+
+/** One note of a playback queue, in seconds from the start of playback. */
+export interface ScheduledNote {
+    midi: number;
+    startSeconds: number;
+    durationSeconds: number;
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import type { PlaybackAudioContext } from "../../types";
+import { QUEUE_AHEAD_S, createScoreScheduler } from "../scoreScheduler";
+
+interface FakeOscillator {
+    startTime: number;
+    stopTime: number | null;
+}
+
+function createFakeContext() {
+    const oscillators: FakeOscillator[] = [];
+    const param = () => ({
+        value: 0,
+        setValueAtTime: () => undefined,
+        linearRampToValueAtTime: () => undefined,
+        setTargetAtTime: () => undefined,
+        cancelScheduledValues: () => undefined,
+    });
+    const fake = {
+        currentTime: 0,
+        destination: {},
+        createOscillator: () => {
+            const record: FakeOscillator = { startTime: 0, stopTime: null };
+            oscillators.push(record);
+            return {
+                type: "sine",
+                frequency: param(),
+                connect: () => undefined,
+                start: (time: number) => {
+                    record.startTime = time;
+                },
+                // A later stop() replaces an earlier one, as in Web Audio.
+                stop: (time: number) => {
+                    record.stopTime = time;
+                },
+            };
+        },
+        createGain: () => ({ gain: param(), connect: () => undefined }),
+    };
+    return { context: fake as unknown as PlaybackAudioContext, fake, oscillators };
+}
+
+const notes = Array.from({ length: 8 }, (_, index) => ({
+    midi: 60 + index,
+    startSeconds: index * 0.2,
+    durationSeconds: 0.2,
+}));
+
+describe("createScoreScheduler", () => {
+    it("only queues notes inside the lookahead window", () => {
+        const { context, oscillators } = createFakeContext();
+        const scheduler = createScoreScheduler(context);
+
+        scheduler.start(notes);
+
+        expect(oscillators.length).toBeGreaterThan(0);
+        expect(oscillators.every((oscillator) => oscillator.startTime <= QUEUE_AHEAD_S)).toBe(true);
+        expect(scheduler.activeVoices()).toBeLessThan(notes.length);
+    });
+
+    it("silences queued voices on stop, even ones whose release was already scheduled", () => {
+        const { context, fake, oscillators } = createFakeContext();
+        const scheduler = createScoreScheduler(context);
+
+        scheduler.start(notes);
+        fake.currentTime = 0.2;
+        scheduler.tick();
+        scheduler.stop();
+
+        expect(oscillators.length).toBeGreaterThan(0);
+        // Every oscillator now stops within a short fade of the stop, not at its written end.
+        const stopTimes = oscillators.map((oscillator) => oscillator.stopTime ?? Infinity);
+        expect(stopTimes.every((time) => time <= 0.25)).toBe(true);
+        expect(scheduler.activeVoices()).toBe(0);
+        expect(scheduler.isRunning()).toBe(false);
+    });
+
+    it("drops finished voices as playback goes and reports the end", () => {
+        const { context, fake } = createFakeContext();
+        let ended = 0;
+        const scheduler = createScoreScheduler(context, { onEnd: () => (ended += 1) });
+
+        scheduler.start(notes);
+        let peak = 0;
+        for (let time = 0; time <= 3; time += 0.1) {
+            fake.currentTime = time;
+            scheduler.tick();
+            peak = Math.max(peak, scheduler.activeVoices());
+        }
+
+        expect(peak).toBeLessThan(notes.length);
+        expect(scheduler.activeVoices()).toBe(0);
+        expect(scheduler.isRunning()).toBe(false);
+        expect(ended).toBe(1);
+    });
+});
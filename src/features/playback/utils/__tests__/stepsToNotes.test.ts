@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { midiToFrequency } from "../midiToFrequency";
+import { stepsToNotes } from "../stepsToNotes";
+
+describe("stepsToNotes", () => {
+    it("lets each step ring until the next one starts", () => {
+        const notes = stepsToNotes(
+            [
+                { notes: [60], beat: 0 },
+                { notes: [64, 67], beat: 2 },
+                { notes: [72], beat: 3 },
+            ],
+            120,
+        );
+
+        expect(notes).toEqual([
+            { midi: 60, startSeconds: 0, durationSeconds: 1 },
+            { midi: 64, startSeconds: 1, durationSeconds: 0.5 },
+            { midi: 67, startSeconds: 1, durationSeconds: 0.5 },
+            { midi: 72, startSeconds: 1.5, durationSeconds: 0.5 },
+        ]);
+    });
+
+    it("starts playback at the first step even after leading rests", () => {
+        const [first] = stepsToNotes([{ notes: [60], beat: 1.5 }], 60);
+        expect(first.startSeconds).toBe(0);
+        expect(first.durationSeconds).toBe(1);
+    });
+
+    it("returns nothing for an empty score", () => {
+        expect(stepsToNotes([], 90)).toEqual([]);
+    });
+});
+
+describe("midiToFrequency", () => {
+    it("tunes A4 to 440 Hz and doubles per octave", () => {
+        expect(midiToFrequency(69)).toBe(440);
+        expect(midiToFrequency(81)).toBe(880);
+        expect(midiToFrequency(60)).toBeCloseTo(261.63, 2);
+    });
+});
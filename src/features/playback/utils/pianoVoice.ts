@@ -0,0 +1,85 @@
+import type { PlaybackAudioContext } from "../types";
+import { midiToFrequency } from "./midiToFrequency";
+
+/**
+ * Partials of the synthesized piano tone as [frequency ratio, relative gain].
+ * A bright triangle fundamental plus a couple of soft sine overtones is close
+ * enough for ear training and needs no samples, so it works offline.
+ */
+const PARTIALS: readonly [OscillatorType, number, number][] = [
+    ["triangle", 1, 1],
+    ["sine", 2, 0.35],
+    ["sine", 3, 0.12],
+];
+
+const ATTACK_S = 0.005;
+const DECAY_TIME_CONSTANT_S = 0.6;
+const SUSTAIN_LEVEL = 0.25;
+/** Tail after a release before the oscillators stop, in seconds. */
+export const RELEASE_S = 0.25;
+/** Fade used by `cancel()`; short enough to feel instant without clicking. */
+const CANCEL_S = 0.03;
+const PEAK_GAIN = 0.28;
+
+export interface PianoVoice {
+    /** Fades the note out from `time` (context seconds; defaults to now). */
+    release: (time?: number) => void;
+    /**
+     * Silences the note from `time` (defaults to now), overriding any release
+     * already scheduled for later. A note that has not started yet never sounds.
+     */
+    cancel: (time?: number) => void;
+}
+
+export function startPianoVoice(
+    context: PlaybackAudioContext,
+    midi: number,
+    time: number,
+    velocity = 0.8,
+): PianoVoice {
+    const envelope = context.createGain();
+    const peak = PEAK_GAIN * velocity;
+    envelope.gain.setValueAtTime(0, time);
+    envelope.gain.linearRampToValueAtTime(peak, time + ATTACK_S);
+    envelope.gain.setTargetAtTime(peak * SUSTAIN_LEVEL, time + ATTACK_S, DECAY_TIME_CONSTANT_S);
+    envelope.connect(context.destination);
+
+    const frequency = midiToFrequency(midi);
+    const oscillators = PARTIALS.map(([type, ratio, gain]) => {
+        const oscillator = context.createOscillator();
+        const partialGain = context.createGain();
+        oscillator.type = type;
+        oscillator.frequency.value = frequency * ratio;
+        partialGain.gain.value = gain;
+        oscillator.connect(partialGain);
+        partialGain.connect(envelope);
+        oscillator.start(time);
+        return oscillator;
+    });
+
+    let released = false;
+    const release = (releaseTime = context.currentTime) => {
+        if (released) return;
+        released = true;
+
+        const at = Math.max(releaseTime, time + ATTACK_S);
+        envelope.gain.cancelScheduledValues(at);
+        envelope.gain.setTargetAtTime(0, at, RELEASE_S / 4);
+        oscillators.forEach((oscillator) => oscillator.stop(at + RELEASE_S));
+    };
+
+    let cancelled = false;
+    const cancel = (cancelTime = context.currentTime) => {
+        if (cancelled) return;
+        cancelled = true;
+        released = true;
+
+        envelope.gain.cancelScheduledValues(cancelTime);
+        envelope.gain.setTargetAtTime(0, cancelTime, CANCEL_S / 4);
+        // Calling stop() again replaces the time given by an earlier release().
+        const stopAt = cancelTime < time ? cancelTime : cancelTime + CANCEL_S;
+        oscillators.forEach((oscillator) => oscillator.stop(stopAt));
+    };
+
+    return { release, cancel };
+}
@@ -0,0 +1,91 @@
+import type { PlaybackAudioContext, ScheduledNote } from "../types";
+import { RELEASE_S, startPianoVoice, type PianoVoice } from "./pianoVoice";
+
+/** Notes are handed to the audio clock this far ahead of time, in seconds. */
+export const QUEUE_AHEAD_S = 0.5;
+/** How often the scheduler should be ticked, in milliseconds. */
+export const QUEUE_INTERVAL_MS = 100;
+/** Gap before a queued playback starts, so its first notes are never in the past. */
+const PLAYBACK_DELAY_S = 0.1;
+const PLAYBACK_VELOCITY = 0.7;
+
+export interface ScoreSchedulerOptions {
+    /** Called once the last queued note has finished on its own. */
+    onEnd?: () => void;
+}
+
+export interface ScoreScheduler {
+    /** Replaces whatever is playing with the given notes, starting shortly from now. */
+    start: (notes: readonly ScheduledNote[]) => void;
+    /** Queues every note that falls inside the lookahead window and drops finished voices. */
+    tick: () => void;
+    /** Silences every queued voice, including ones that have not started yet. */
+    stop: () => void;
+    isRunning: () => boolean;
+    /** Number of voices handed to the audio clock that may still be sounding. */
+    activeVoices: () => number;
+}
+
+interface QueuedVoice {
+    voice: PianoVoice;
+    endsAt: number;
+}
+
+/**
+ * Lookahead queue for score playback. Like the metronome scheduler, a coarse
+ * timer calls `tick()` and only the notes due within `QUEUE_AHEAD_S` reach the
+ * audio graph, so thousands of notes never sit in it together.
+ */
+export function createScoreScheduler(
+    context: PlaybackAudioContext,
+    options: ScoreSchedulerOptions = {},
+): ScoreScheduler {
+    let notes: readonly ScheduledNote[] = [];
+    let nextIndex = 0;
+    let startTime = 0;
+    let running = false;
+    let voices: QueuedVoice[] = [];
+
+    const tick = () => {
+        if (!running) return;
+
+        const now = context.currentTime;
+        voices = voices.filter((queued) => queued.endsAt > now);
+
+        const horizon = now + QUEUE_AHEAD_S;
+        while (nextIndex < notes.length) {
+            const note = notes[nextIndex];
+            const start = startTime + note.startSeconds;
+            if (start > horizon) break;
+
+            const end = start + note.durationSeconds;
+            const voice = startPianoVoice(context, note.midi, start, PLAYBACK_VELOCITY);
+            voice.release(end);
+            voices.push({ voice, endsAt: end + RELEASE_S });
+            nextIndex += 1;
+        }
+
+        if (nextIndex >= notes.length && voices.length === 0) {
+            running = false;
+            options.onEnd?.();
+        }
+    };
+
+    const stop = () => {
+        running = false;
+        voices.forEach(({ voice }) => voice.cancel());
+        voices = [];
+        notes = [];
+        nextIndex = 0;
+    };
+
+    const start = (next: readonly ScheduledNote[]) => {
+        stop();
+        notes = next;
+        startTime = context.currentTime + PLAYBACK_DELAY_S;
+        running = true;
+        tick();
+    };
+
+    return { start, tick, stop, isRunning: () => running, activeVoices: () => voices.length };
+}
@@ -0,0 +1,22 @@
+import type { ExpectedStep } from "../../../entities/score";
+import type { ScheduledNote } from "../types";
+
+/** Notes on the last step (which has no successor) ring for this many beats. */
+const FINAL_STEP_BEATS = 1;
+
+/**
+ * Flattens expected steps into a playback queue, starting at the first step.
+ * Steps record onsets but not written durations, so each one rings until the
+ * next step starts.
+ */
+export function stepsToNotes(steps: readonly ExpectedStep[], bpm: number): ScheduledNote[] {
+    const secondsPerBeat = 60 / bpm;
+    const firstBeat = steps[0]?.beat ?? 0;
+
+    return steps.flatMap((step, index) => {
+        const nextBeat = steps[index + 1]?.beat ?? step.beat + FINAL_STEP_BEATS;
+        const startSeconds = (step.beat - firstBeat) * secondsPerBeat;
+        const durationSeconds = (nextBeat - step.beat) * secondsPerBeat;
+        return step.notes.map((midi) => ({ midi, startSeconds, durationSeconds }));
+    });
+}
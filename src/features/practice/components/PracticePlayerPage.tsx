@@ -1,7 +1,22 @@
-import { Suspense, lazy, useCallback, useEffect, useState, type RefObject } from "react";
+import {
+    Suspense,
+    lazy,
+    useCallback,
+    useEffect,
+    useState,
+    type ReactNode,
+    type RefObject,
+} from "react";
 
+import type { StepProgress, TimingVerdict } from "../../session";
 import type { StaffHandle } from "./Staff";
 
+const TIMING_LABELS: Readonly<Record<TimingVerdict, string>> = {
+    early: "Early",
+    "on-time": "On time",
+    late: "Late",
+};
+
 const Staff = lazy(() => import("./Staff"));
 
 interface PracticePlayerPageProps {
@@ -14,10 +29,20 @@ interface PracticePlayerPageProps {
     accuracy: number;
     errorCount: number;
     currentStreak: number;
+    stepProgress: StepProgress;
+    /** Tempo and the verdict for the latest press; null when the cursor waits for input. */
+    timing: { tempo: number; lastVerdict: TimingVerdict | null } | null;
     elapsedTimeLabel: string;
     timerRunning: boolean;
     onToggleTimer: () => void;
     missedMessage: string | null;
+    /** Rendered under the score, e.g. the on-screen piano. */
+    inputPanel?: ReactNode;
+    metronomeOn: boolean;
+    onToggleMetronome: () => void;
+    onPlayTarget: () => void;
+    /** Download menu for the score and the recorded performance. */
+    exportMenu?: ReactNode;
     onOpenSettings: () => void;
     onFinish: () => void;
 }
@@ -32,10 +57,17 @@ export default function PracticePlayerPage({
     accuracy,
     errorCount,
     currentStreak,
+    stepProgress,
+    timing,
     elapsedTimeLabel,
     timerRunning,
     onToggleTimer,
     missedMessage,
+    inputPanel,
+    metronomeOn,
+    onToggleMetronome,
+    onPlayTarget,
+    exportMenu,
     onOpenSettings,
     onFinish,
 }: PracticePlayerPageProps) {
@@ -120,6 +152,29 @@ export default function PracticePlayerPage({
                                 <span className="material-symbols-outlined">local_fire_department</span>
                                 <span className="practice-stat-value mono">{currentStreak}</span>
                             </div>
+
+                            {stepProgress.total > 1 ? (
+                                <div className="practice-stat-chip" aria-label="Chord notes held">
+                                    <span className="material-symbols-outlined">piano</span>
+                                    <div className="practice-notes-value">
+                                        <span className="practice-stat-value mono">{stepProgress.matched}</span>
+                                        <span className="practice-stat-total">/{stepProgress.total}</span>
+                                    </div>
+                                </div>
+                            ) : null}
+
+                            {timing ? (
+                                <div
+                                    className={`practice-stat-chip ${timing.lastVerdict ? `timing-${timing.lastVerdict}` : ""}`}
+                                    aria-label="Timing"
+                                    aria-live="polite"
+                                >
+                                    <span className="material-symbols-outlined">avg_pace</span>
+                                    <span className="practice-stat-value mono">
+                                        {timing.lastVerdict ? TIMING_LABELS[timing.lastVerdict] : `${timing.tempo} BPM`}
+                                    </span>
+                                </div>
+                            ) : null}
                         </div>
 
                         <div className="practice-progress-row">
@@ -135,6 +190,27 @@ export default function PracticePlayerPage({
                     </div>
 
                     <div className="practice-header-actions">
+                        <button
+                            type="button"
+                            className="practice-icon-button icon-button"
+                            aria-label="Play target notes"
+                            onClick={onPlayTarget}
+                        >
+                            <span className="material-symbols-outlined">volume_up</span>
+                        </button>
+
+                        <button
+                            type="button"
+                            className={`practice-icon-button icon-button ${metronomeOn ? "active" : ""}`}
+                            aria-label={metronomeOn ? "Turn metronome off" : "Turn metronome on"}
+                            aria-pressed={metronomeOn}
+                            onClick={onToggleMetronome}
+                        >
+                            <span className="material-symbols-outlined">graphic_eq</span>
+                        </button>
+
+                        {exportMenu}
+
                         <button
                             type="button"
                             className="practice-icon-button icon-button"
@@ -158,7 +234,7 @@ export default function PracticePlayerPage({
                 </div>
             </header>
 
-            <main className="practice-main">
+            <main className={`practice-main ${inputPanel ? "with-input-panel" : ""}`}>
                 {missedMessage ? (
                     <div className="missed-message" aria-live="polite">
                         {missedMessage}
@@ -172,6 +248,8 @@ export default function PracticePlayerPage({
                         </Suspense>
                     </div>
                 </div>
+
+                {inputPanel}
             </main>
 
             <footer className="practice-footer">
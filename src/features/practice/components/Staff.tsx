@@ -10,6 +10,8 @@ import type { OpenSheetMusicDisplay } from "opensheetmusicdisplay";
 interface StaffProps {
   scoreXml: string;
   cursorStyle: CursorStyle;
+  /** Notehead color per expected step, used to mark up a finished session. */
+  noteColors?: readonly (string | null)[];
 }
 
 interface CursorStyle {
@@ -20,13 +22,50 @@ interface CursorStyle {
 export interface StaffHandle {
   nextCursor(): void;
   resetCursor(): void;
+  /** Jumps the cursor to an expected step, counted from 0. */
+  moveCursorTo(step: number): void;
 }
 
 const SCORE_ZOOM = 1.5;
 type OpenSheetMusicDisplayCtor = typeof import("opensheetmusicdisplay")["OpenSheetMusicDisplay"];
+type OsmdCursor = OpenSheetMusicDisplay["cursor"];
+
+/** Whether any note under the cursor is newly struck (not a rest or a tied continuation). */
+function hasNoteOnset(cursor: OsmdCursor): boolean {
+  return cursor.NotesUnderCursor().some(
+    (note) => !note.isRest() && (!note.NoteTie || note.NoteTie.StartNote === note),
+  );
+}
+
+/**
+ * Moves the cursor forward past positions that start no note, so each cursor
+ * stop lines up with one expected step of the session.
+ */
+function skipToOnset(cursor: OsmdCursor): void {
+  while (!cursor.Iterator.EndReached && !hasNoteOnset(cursor)) {
+    cursor.next();
+  }
+}
+
+/** Colors the noteheads struck at each cursor stop, then returns the cursor to the start. */
+function colorSteps(cursor: OsmdCursor, colors: readonly (string | null)[]): void {
+  cursor.reset();
+  skipToOnset(cursor);
+  for (let step = 0; step < colors.length && !cursor.Iterator.EndReached; step++) {
+    const color = colors[step];
+    if (color) {
+      for (const note of cursor.NotesUnderCursor()) {
+        if (!note.isRest()) note.NoteheadColor = color;
+      }
+    }
+    cursor.next();
+    skipToOnset(cursor);
+  }
+  cursor.reset();
+}
 
 const Staff = forwardRef<StaffHandle, StaffProps>(function Staff(
-  { scoreXml, cursorStyle },
+  { scoreXml, cursorStyle, noteColors },
   ref,
 ) {
   const containerRef = useRef<HTMLDivElement>(null);
@@ -35,6 +74,8 @@ const Staff = forwardRef<StaffHandle, StaffProps>(function Staff(
 
   const cursorStyleRef = useRef(cursorStyle);
   cursorStyleRef.current = cursorStyle;
+  const noteColorsRef = useRef(noteColors);
+  noteColorsRef.current = noteColors;
 
   const applyCursorStyle = useCallback((style: CursorStyle) => {
     const cursor = osmdRef.current?.cursor;
@@ -110,6 +151,7 @@ const Staff = forwardRef<StaffHandle, StaffProps>(function Staff(
       renderSingleHorizontalStaffline: true,
       spacingFactorSoftmax: 100,
       autoResize: true,
+      autoBeam: true,
     });
 
     return osmdRef.current;
@@ -117,19 +159,40 @@ const Staff = forwardRef<StaffHandle, StaffProps>(function Staff(
 
   useImperativeHandle(ref, () => ({
     nextCursor: () => {
-      osmdRef.current?.cursor?.next();
+      const cursor = osmdRef.current?.cursor;
+      if (cursor) {
+        cursor.next();
+        skipToOnset(cursor);
+      }
       window.requestAnimationFrame(() => {
         scrollCursorIntoView("smooth");
       });
     },
     resetCursor: () => {
-      osmdRef.current?.cursor?.reset();
+      const cursor = osmdRef.current?.cursor;
+      if (cursor) {
+        cursor.reset();
+        skipToOnset(cursor);
+      }
       const scrollContainer = getScrollContainer();
       scrollContainer?.scrollTo({ left: 0, behavior: "auto" });
       window.requestAnimationFrame(() => {
         scrollCursorIntoView("auto");
       });
     },
+    moveCursorTo: (step) => {
+      const cursor = osmdRef.current?.cursor;
+      if (!cursor) return;
+      cursor.reset();
+      skipToOnset(cursor);
+      for (let index = 0; index < step && !cursor.Iterator.EndReached; index++) {
+        cursor.next();
+        skipToOnset(cursor);
+      }
+      window.requestAnimationFrame(() => {
+        scrollCursorIntoView("smooth");
+      });
+    },
   }), [getScrollContainer, scrollCursorIntoView]);
 
   useEffect(() => {
@@ -144,8 +207,16 @@ const Staff = forwardRef<StaffHandle, StaffProps>(function Staff(
 
       osmd.zoom = SCORE_ZOOM;
       osmd.render();
+      // The cursor only exists once the score is rendered, so colored notes need a second pass.
+      if (osmd.cursor && noteColorsRef.current) {
+        colorSteps(osmd.cursor, noteColorsRef.current);
+        osmd.render();
+      }
       applyCursorStyle(cursorStyleRef.current);
-      osmd.cursor?.reset();
+      if (osmd.cursor) {
+        osmd.cursor.reset();
+        skipToOnset(osmd.cursor);
+      }
       const scrollContainer = getScrollContainer();
       scrollContainer?.scrollTo({ left: 0, behavior: "auto" });
     })();
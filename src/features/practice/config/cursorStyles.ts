@@ -13,11 +13,13 @@ interface CursorStyle {
  * Maps each feedback state to the visual style applied to the OSMD cursor.
  *
  *   idle    — default blue; awaiting player input
+ *   partial — amber; some notes of the current chord are held
  *   correct — green flash; the player pressed the right key
  *   wrong   — red flash; the player pressed the wrong key
  */
 export const CURSOR_STYLES: Readonly<Record<CursorFeedback, CursorStyle>> = {
     idle: { color: "#6daaf5", alpha: 0.60 },
+    partial: { color: "#f2b640", alpha: 0.55 },
     correct: { color: "#0ad053", alpha: 0.60 },
     wrong: { color: "#f76666", alpha: 0.45 },
 };
@@ -1 +1,3 @@
 export const MISSED_MESSAGE_TIMEOUT_MS = 1400;
+export const TARGET_AFTER_MISS_DELAY_MS = 450;
+export const TARGET_PREVIEW_MUTE_MS = 1200;
@@ -1 +1 @@
-export type CursorFeedback = "idle" | "correct" | "wrong";
+export type CursorFeedback = "idle" | "partial" | "correct" | "wrong";
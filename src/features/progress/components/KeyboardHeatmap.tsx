@@ -0,0 +1,68 @@
+import { useMemo } from "react";
+
+import { buildPianoKeys } from "../../keyboard";
+import type { PitchStat } from "../types";
+import { describePitchStat, heatOpacity } from "../utils/describePitchStat";
+
+const WHITE_WIDTH = 20;
+const WHITE_HEIGHT = 90;
+const BLACK_WIDTH = 12;
+const BLACK_HEIGHT = 56;
+
+interface KeyboardHeatmapProps {
+    stats: PitchStat[];
+}
+
+/** Keys tinted by how often each pitch was misread; hover a key for its numbers. */
+export default function KeyboardHeatmap({ stats }: KeyboardHeatmapProps) {
+    const byNote = useMemo(() => new Map(stats.map((stat) => [stat.note, stat])), [stats]);
+    const keys = useMemo(() => {
+        const notes = stats.map((stat) => stat.note);
+        return buildPianoKeys(Math.min(...notes), Math.max(...notes));
+    }, [stats]);
+    const whiteCount = keys.filter((key) => !key.isBlack).length;
+    // Black keys are drawn last so they sit on top of their white neighbours.
+    const ordered = [...keys.filter((key) => !key.isBlack), ...keys.filter((key) => key.isBlack)];
+
+    return (
+        <svg
+            className="keyboard-heatmap"
+            viewBox={`0 0 ${whiteCount * WHITE_WIDTH} ${WHITE_HEIGHT}`}
+            role="img"
+            aria-label="Miss rate per key"
+        >
+            {ordered.map((key) => {
+                const stat = byNote.get(key.midi);
+                const x = key.isBlack
+                    ? (key.whiteIndex + 1) * WHITE_WIDTH - BLACK_WIDTH / 2
+                    : key.whiteIndex * WHITE_WIDTH;
+                const width = key.isBlack ? BLACK_WIDTH : WHITE_WIDTH;
+                const height = key.isBlack ? BLACK_HEIGHT : WHITE_HEIGHT;
+
+                return (
+                    <g key={key.midi}>
+                        <rect
+                            className={`heatmap-key ${key.isBlack ? "black" : "white"}`}
+                            x={x}
+                            y={0}
+                            width={width}
+                            height={height}
+                        />
+                        {stat ? (
+                            <rect
+                                className="heat-cell"
+                                x={x + 1}
+                                y={1}
+                                width={width - 2}
+                                height={height - 2}
+                                style={{ fillOpacity: heatOpacity(stat.missRate) }}
+                            >
+                                <title>{describePitchStat(stat)}</title>
+                            </rect>
+                        ) : null}
+                    </g>
+                );
+            })}
+        </svg>
+    );
+}
@@ -0,0 +1,130 @@
+import type { ProgressPoint } from "../types";
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PADDING = { top: 12, right: 12, bottom: 26, left: 40 };
+const MAX_X_LABELS = 6;
+
+interface ProgressChartProps {
+    title: string;
+    unit: string;
+    points: ProgressPoint[];
+    value: (point: ProgressPoint) => number | null;
+    /** Bars suit totals such as minutes; lines suit averages. */
+    variant: "line" | "bar";
+    /** Fixed top of the scale, e.g. 100 for percentages; otherwise fitted to the data. */
+    max?: number;
+}
+
+/** Rounds the scale up to 1, 2 or 5 times a power of ten. */
+function niceMax(value: number): number {
+    if (value <= 0) return 1;
+    const magnitude = 10 ** Math.floor(Math.log10(value));
+    const step = [1, 2, 5, 10].find((factor) => factor * magnitude >= value) ?? 10;
+    return step * magnitude;
+}
+
+export default function ProgressChart({
+    title,
+    unit,
+    points,
+    value,
+    variant,
+    max,
+}: ProgressChartProps) {
+    const values = points.map(value);
+    const top = max ?? niceMax(Math.max(0, ...values.map((entry) => entry ?? 0)));
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+    const slot = plotWidth / Math.max(points.length, 1);
+
+    const xAt = (index: number) => PADDING.left + slot * (index + 0.5);
+    const yAt = (entry: number) => PADDING.top + plotHeight * (1 - Math.min(entry, top) / top);
+    const labelEvery = Math.ceil(points.length / MAX_X_LABELS);
+
+    // Days without sessions break the line instead of dropping it to zero.
+    const segments: string[] = [];
+    let segment = "";
+    values.forEach((entry, index) => {
+        if (entry === null) {
+            if (segment) segments.push(segment);
+            segment = "";
+            return;
+        }
+        segment += `${segment ? "L" : "M"}${xAt(index).toFixed(1)},${yAt(entry).toFixed(1)}`;
+    });
+    if (segment) segments.push(segment);
+
+    return (
+        <figure className="progress-chart">
+            <figcaption>
+                <span>{title}</span>
+                <span className="mono">{unit}</span>
+            </figcaption>
+
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={`${title} over time`}>
+                {[0, 0.5, 1].map((fraction) => {
+                    const y = yAt(top * fraction);
+                    return (
+                        <g key={fraction} className="progress-chart-grid">
+                            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y} y2={y} />
+                            <text x={PADDING.left - 6} y={y} textAnchor="end" dominantBaseline="middle">
+                                {Math.round(top * fraction)}
+                            </text>
+                        </g>
+                    );
+                })}
+
+                {variant === "bar"
+                    ? values.map((entry, index) =>
+                          entry ? (
+                              <rect
+                                  key={points[index].start}
+                                  className="progress-chart-bar"
+                                  x={xAt(index) - slot * 0.35}
+                                  y={yAt(entry)}
+                                  width={slot * 0.7}
+                                  height={PADDING.top + plotHeight - yAt(entry)}
+                                  rx={2}
+                              >
+                                  <title>{`${points[index].label}: ${entry} ${unit}`}</title>
+                              </rect>
+                          ) : null,
+                      )
+                    : segments.map((path) => (
+                          <path key={path} className="progress-chart-line" d={path} />
+                      ))}
+
+                {variant === "line"
+                    ? values.map((entry, index) =>
+                          entry === null ? null : (
+                              <circle
+                                  key={points[index].start}
+                                  className="progress-chart-dot"
+                                  cx={xAt(index)}
+                                  cy={yAt(entry)}
+                                  r={3.5}
+                              >
+                                  <title>{`${points[index].label}: ${entry} ${unit}`}</title>
+                              </circle>
+                          ),
+                      )
+                    : null}
+
+                {points.map((point, index) =>
+                    (points.length - 1 - index) % labelEvery === 0 ? (
+                        <text
+                            key={point.start}
+                            className="progress-chart-label"
+                            x={xAt(index)}
+                            y={HEIGHT - 8}
+                            textAnchor="middle"
+                        >
+                            {point.label}
+                        </text>
+                    ) : null,
+                )}
+            </svg>
+        </figure>
+    );
+}
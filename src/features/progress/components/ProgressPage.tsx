@@ -0,0 +1,200 @@
+import { useMemo, useState } from "react";
+
+import type { Training } from "../../setup/config/trainings";
+import AppTopBar from "../../../shared/ui/components/AppTopBar";
+import BackButton from "../../../shared/ui/components/BackButton";
+import {
+    ALL_SESSIONS_FILTER_VALUE,
+    BUCKET_OPTIONS,
+    MAX_RANKED_WEAKNESSES,
+    MIN_RANKED_ATTEMPTS,
+} from "../constants";
+import type { Clef, ProgressAttemptLog, ProgressBucket, ProgressRun } from "../types";
+import { bucketRuns } from "../utils/bucketRuns";
+import { describePitchStat } from "../utils/describePitchStat";
+import { buildFilterOptions, matchesFilter } from "../utils/filterRuns";
+import { buildPitchStats, buildStaffStats } from "../utils/pitchStats";
+import KeyboardHeatmap from "./KeyboardHeatmap";
+import ProgressChart from "./ProgressChart";
+import StaffHeatmap from "./StaffHeatmap";
+
+const CLEFS: readonly Clef[] = ["treble", "bass"];
+
+function formatPracticeTime(seconds: number): string {
+    const minutes = Math.round(seconds / 60);
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+interface ProgressPageProps {
+    runs: ProgressRun[];
+    /** Per-note logs of the runs that have one; older runs were stored without. */
+    attemptLogs: ProgressAttemptLog[];
+    trainings: Training[];
+    onBack: () => void;
+}
+
+export default function ProgressPage({ runs, attemptLogs, trainings, onBack }: ProgressPageProps) {
+    const [bucket, setBucket] = useState<ProgressBucket>("day");
+    const [filterValue, setFilterValue] = useState(ALL_SESSIONS_FILTER_VALUE);
+
+    const filterOptions = useMemo(() => buildFilterOptions(runs, trainings), [runs, trainings]);
+    const filter =
+        filterOptions.find((option) => option.value === filterValue)?.filter ?? filterOptions[0].filter;
+
+    const filteredRuns = useMemo(
+        () => runs.filter((run) => matchesFilter(run, filter)),
+        [runs, filter],
+    );
+    const points = useMemo(() => bucketRuns(filteredRuns, bucket, Date.now()), [filteredRuns, bucket]);
+
+    const pitchStats = useMemo(() => {
+        const runIds = new Set(filteredRuns.map((run) => run.id));
+        return buildPitchStats(attemptLogs.filter((log) => runIds.has(log.runId)));
+    }, [attemptLogs, filteredRuns]);
+    const staffStats = useMemo(() => buildStaffStats(pitchStats), [pitchStats]);
+    const weaknesses = pitchStats
+        .filter((stat) => stat.attempts >= MIN_RANKED_ATTEMPTS && stat.misses > 0)
+        .sort((left, right) => right.missRate - left.missRate || right.attempts - left.attempts)
+        .slice(0, MAX_RANKED_WEAKNESSES);
+
+    const totalSeconds = filteredRuns.reduce((sum, run) => sum + run.durationSeconds, 0);
+    const averageAccuracy =
+        filteredRuns.length > 0
+            ? Math.round(
+                  filteredRuns.reduce((sum, run) => sum + run.accuracy, 0) / filteredRuns.length,
+              )
+            : 0;
+
+    return (
+        <div className="app-page progress-page">
+            <AppTopBar rightSlot={<BackButton onClick={onBack} />} />
+
+            <main className="progress-main">
+                <div className="progress-wrapper">
+                    <header className="settings-intro">
+                        <p className="section-kicker">History</p>
+                        <h1>Progress</h1>
+                        <p>How your reading has developed across sessions.</p>
+                    </header>
+
+                    <div className="progress-filters">
+                        <div className="select-wrap">
+                            <select
+                                aria-label="Group sessions by"
+                                value={bucket}
+                                onChange={(event) => setBucket(event.target.value as ProgressBucket)}
+                            >
+                                {BUCKET_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                            <span className="material-symbols-outlined">expand_more</span>
+                        </div>
+
+                        <div className="select-wrap">
+                            <select
+                                aria-label="Show sessions"
+                                value={filterValue}
+                                onChange={(event) => setFilterValue(event.target.value)}
+                            >
+                                {filterOptions.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                            <span className="material-symbols-outlined">expand_more</span>
+                        </div>
+                    </div>
+
+                    <section className="progress-summary">
+                        <div>
+                            <p>Sessions</p>
+                            <strong className="mono">{filteredRuns.length}</strong>
+                        </div>
+                        <div>
+                            <p>Practice time</p>
+                            <strong className="mono">{formatPracticeTime(totalSeconds)}</strong>
+                        </div>
+                        <div>
+                            <p>Average accuracy</p>
+                            <strong className="mono">{averageAccuracy}%</strong>
+                        </div>
+                    </section>
+
+                    {points.length === 0 ? (
+                        <p className="progress-empty">
+                            No sessions in this period yet. Finish a session to start your history.
+                        </p>
+                    ) : (
+                        <section className="progress-charts">
+                            <ProgressChart
+                                title="Accuracy"
+                                unit="%"
+                                points={points}
+                                value={(point) => point.accuracy}
+                                variant="line"
+                                max={100}
+                            />
+                            <ProgressChart
+                                title="Speed"
+                                unit="notes/min"
+                                points={points}
+                                value={(point) => point.notesPerMinute}
+                                variant="line"
+                            />
+                            <ProgressChart
+                                title="Practice time"
+                                unit="min"
+                                points={points}
+                                value={(point) => point.minutes}
+                                variant="bar"
+                            />
+                        </section>
+                    )}
+
+                    <section className="progress-weaknesses">
+                        <div className="section-head">
+                            <div>
+                                <p className="section-kicker">Heatmap</p>
+                                <h2>Reading weaknesses</h2>
+                            </div>
+                        </div>
+
+                        {pitchStats.length === 0 ? (
+                            <p className="progress-empty">
+                                Per-note statistics appear once you finish a session.
+                            </p>
+                        ) : (
+                            <>
+                                <KeyboardHeatmap stats={pitchStats} />
+
+                                {CLEFS.map((clef) => {
+                                    const positions = staffStats.filter(
+                                        (position) => position.clef === clef,
+                                    );
+                                    return positions.length > 0 ? (
+                                        <StaffHeatmap key={clef} clef={clef} positions={positions} />
+                                    ) : null;
+                                })}
+
+                                {weaknesses.length > 0 ? (
+                                    <ol className="progress-weakness-list">
+                                        {weaknesses.map((stat) => (
+                                            <li key={stat.note} className="mono">
+                                                {describePitchStat(stat)}
+                                            </li>
+                                        ))}
+                                    </ol>
+                                ) : null}
+                            </>
+                        )}
+                    </section>
+                </div>
+            </main>
+        </div>
+    );
+}
@@ -0,0 +1,103 @@
+import { midiToNoteLabel } from "../../midi";
+import type { Clef, StaffPositionStat } from "../types";
+import { formatMissRate, heatOpacity } from "../utils/describePitchStat";
+
+const HALF_SPACE = 6;
+const COLUMN_WIDTH = 26;
+const LEFT_MARGIN = 52;
+const NOTE_RADIUS = 5.5;
+/** Diatonic index of each clef's bottom line: E4 and G2. */
+const BOTTOM_LINE: Readonly<Record<Clef, number>> = { treble: 30, bass: 18 };
+const STAFF_SPAN = 8;
+const CLEF_LABELS: Readonly<Record<Clef, string>> = { treble: "Treble", bass: "Bass" };
+const NATURAL_SEMITONES = [0, 2, 4, 5, 7, 9, 11];
+
+/** Spelled as a natural: accidentals share the position of their note. */
+function positionLabel(diatonic: number): string {
+    const octave = Math.floor(diatonic / 7);
+    return midiToNoteLabel((octave + 1) * 12 + NATURAL_SEMITONES[diatonic % 7]);
+}
+
+interface StaffHeatmapProps {
+    clef: Clef;
+    positions: StaffPositionStat[];
+}
+
+/** The lines and spaces of one staff, each read note drawn as a notehead tinted by its miss rate. */
+export default function StaffHeatmap({ clef, positions }: StaffHeatmapProps) {
+    const bottom = BOTTOM_LINE[clef];
+    const lowest = Math.min(bottom - 1, ...positions.map((position) => position.diatonic));
+    const highest = Math.max(bottom + STAFF_SPAN + 1, ...positions.map((position) => position.diatonic));
+    const height = (highest - lowest + 2) * HALF_SPACE;
+    const width = LEFT_MARGIN + positions.length * COLUMN_WIDTH + 8;
+    const yAt = (diatonic: number) => (highest - diatonic + 1) * HALF_SPACE;
+
+    return (
+        <svg
+            className="staff-heatmap"
+            viewBox={`0 0 ${width} ${height}`}
+            role="img"
+            aria-label={`Miss rate per ${CLEF_LABELS[clef].toLowerCase()} staff position`}
+        >
+            <text
+                className="staff-heatmap-clef"
+                x={4}
+                y={yAt(bottom + STAFF_SPAN / 2)}
+                dominantBaseline="middle"
+            >
+                {CLEF_LABELS[clef]}
+            </text>
+
+            {[0, 2, 4, 6, 8].map((offset) => (
+                <line
+                    key={offset}
+                    className="staff-heatmap-line"
+                    x1={LEFT_MARGIN - 6}
+                    x2={width - 4}
+                    y1={yAt(bottom + offset)}
+                    y2={yAt(bottom + offset)}
+                />
+            ))}
+
+            {positions.map((position, index) => {
+                const x = LEFT_MARGIN + index * COLUMN_WIDTH + COLUMN_WIDTH / 2;
+                const label = `${positionLabel(position.diatonic)}: ${formatMissRate(position.missRate)} missed of ${position.attempts}`;
+                const ledgers: number[] = [];
+                for (let line = bottom - 2; line >= position.diatonic; line -= 2) ledgers.push(line);
+                for (let line = bottom + STAFF_SPAN + 2; line <= position.diatonic; line += 2) ledgers.push(line);
+
+                return (
+                    <g key={position.diatonic}>
+                        {ledgers.map((line) => (
+                            <line
+                                key={line}
+                                className="staff-heatmap-line"
+                                x1={x - NOTE_RADIUS * 1.8}
+                                x2={x + NOTE_RADIUS * 1.8}
+                                y1={yAt(line)}
+                                y2={yAt(line)}
+                            />
+                        ))}
+                        <ellipse
+                            className="staff-heatmap-note"
+                            cx={x}
+                            cy={yAt(position.diatonic)}
+                            rx={NOTE_RADIUS * 1.25}
+                            ry={NOTE_RADIUS}
+                        />
+                        <ellipse
+                            className="heat-cell"
+                            cx={x}
+                            cy={yAt(position.diatonic)}
+                            rx={NOTE_RADIUS * 1.25}
+                            ry={NOTE_RADIUS}
+                            style={{ fillOpacity: heatOpacity(position.missRate) }}
+                        >
+                            <title>{label}</title>
+                        </ellipse>
+                    </g>
+                );
+            })}
+        </svg>
+    );
+}
@@ -0,0 +1,20 @@
+import type { ProgressBucket } from "./types";
+
+/** How many buckets back from the current one the charts cover. */
+export const BUCKET_COUNTS: Readonly<Record<ProgressBucket, number>> = {
+  day: 30,
+  week: 26,
+  month: 24,
+};
+
+export const BUCKET_OPTIONS: readonly { value: ProgressBucket; label: string }[] = [
+  { value: "day", label: "Daily" },
+  { value: "week", label: "Weekly" },
+  { value: "month", label: "Monthly" },
+];
+
+export const ALL_SESSIONS_FILTER_VALUE = "all";
+
+/** Pitches need this many attempts before they are ranked as weaknesses. */
+export const MIN_RANKED_ATTEMPTS = 3;
+export const MAX_RANKED_WEAKNESSES = 6;
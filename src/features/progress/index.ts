@@ -0,0 +1,15 @@
+export { default as ProgressPage } from "./components/ProgressPage";
+export { bucketRuns, bucketStart } from "./utils/bucketRuns";
+export { buildFilterOptions, matchesFilter } from "./utils/filterRuns";
+export { buildPitchStats, buildStaffStats, clefForNote } from "./utils/pitchStats";
+export type {
+  Clef,
+  PitchConfusion,
+  PitchStat,
+  ProgressAttemptLog,
+  ProgressBucket,
+  ProgressFilter,
+  ProgressPoint,
+  ProgressRun,
+  StaffPositionStat,
+} from "./types";
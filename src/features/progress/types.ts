@@ -0,0 +1,91 @@
+import type { MelodicMotion, NoteName } from "../../entities/score";
+import type { NoteAttempt } from "../session/types";
+
+/** The parts of a stored session run the dashboard reads. */
+export interface ProgressRun {
+    id: string;
+    createdAt: number;
+    durationSeconds: number;
+    accuracy: number;
+    speedNpm: number;
+    config: {
+        minNote: NoteName;
+        maxNote: NoteName;
+        totalNotes: number;
+        motion?: MelodicMotion;
+        pieceId?: string;
+    };
+}
+
+export type ProgressBucket = "day" | "week" | "month";
+
+/**
+ * Which runs the charts include:
+ *   all      — every session
+ *   range    — generated sessions over one note range
+ *   training — sessions started from a training preset (its range and length)
+ */
+export type ProgressFilter =
+    | { kind: "all" }
+    | { kind: "range"; minNote: NoteName; maxNote: NoteName }
+    | {
+          kind: "training";
+          minNote: NoteName;
+          maxNote: NoteName;
+          totalNotes: number;
+          motion?: MelodicMotion;
+      };
+
+export interface ProgressFilterOption {
+    value: string;
+    label: string;
+    filter: ProgressFilter;
+}
+
+/** Sessions of one day, week or month; averages are null when there were none. */
+export interface ProgressPoint {
+    /** Start of the bucket in local time, as epoch milliseconds. */
+    start: number;
+    label: string;
+    sessions: number;
+    accuracy: number | null;
+    notesPerMinute: number | null;
+    minutes: number;
+}
+
+/** The per-note log stored with a run. */
+export interface ProgressAttemptLog {
+    runId: string;
+    attempts: NoteAttempt[];
+}
+
+export interface PitchConfusion {
+    /** The note played instead. */
+    note: number;
+    count: number;
+}
+
+/** How one pitch has been read across every logged session. */
+export interface PitchStat {
+    note: number;
+    /** Steps that asked for the note and were played or passed. */
+    attempts: number;
+    misses: number;
+    /** Share of attempts that were misses, 0–1. */
+    missRate: number;
+    medianResponseMs: number | null;
+    /** Wrong notes played in its place, most frequent first. */
+    confusions: PitchConfusion[];
+}
+
+export type Clef = "treble" | "bass";
+
+/** Pitch statistics folded onto a line or space of the staff; accidentals share their note's place. */
+export interface StaffPositionStat {
+    clef: Clef;
+    /** Seven per octave, counted from C0. */
+    diatonic: number;
+    attempts: number;
+    misses: number;
+    missRate: number;
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { ProgressRun } from "../../types";
+import { bucketRuns, bucketStart } from "../bucketRuns";
+
+function run(date: Date, accuracy: number, speedNpm: number, durationSeconds = 60): ProgressRun {
+    return {
+        id: String(date.getTime()),
+        createdAt: date.getTime(),
+        durationSeconds,
+        accuracy,
+        speedNpm,
+        config: { minNote: "C4", maxNote: "C5", totalNotes: 50 },
+    };
+}
+
+describe("bucketStart", () => {
+    it("starts weeks on Monday and months on the first", () => {
+        // Thursday, March 14 2024.
+        const time = new Date(2024, 2, 14, 15, 30).getTime();
+
+        expect(bucketStart(time, "day")).toEqual(new Date(2024, 2, 14));
+        expect(bucketStart(time, "week")).toEqual(new Date(2024, 2, 11));
+        expect(bucketStart(time, "month")).toEqual(new Date(2024, 2, 1));
+    });
+});
+
+describe("bucketRuns", () => {
+    const now = new Date(2024, 2, 14, 20).getTime();
+
+    it("averages each day and keeps empty days as gaps", () => {
+        const points = bucketRuns(
+            [
+                run(new Date(2024, 2, 12, 9), 80, 30, 120),
+                run(new Date(2024, 2, 12, 18), 90, 40, 60),
+                run(new Date(2024, 2, 14, 8), 95, 50, 90),
+            ],
+            "day",
+            now,
+        );
+
+        expect(points.map((point) => point.sessions)).toEqual([2, 0, 1]);
+        expect(points[0]).toMatchObject({ accuracy: 85, notesPerMinute: 35, minutes: 3 });
+        expect(points[1]).toMatchObject({ accuracy: null, notesPerMinute: null, minutes: 0 });
+        expect(points[2]).toMatchObject({ accuracy: 95, minutes: 1.5 });
+    });
+
+    it("drops runs older than the window and returns nothing without runs", () => {
+        expect(bucketRuns([run(new Date(2023, 0, 1), 80, 30)], "day", now)).toEqual([]);
+        expect(bucketRuns([], "month", now)).toEqual([]);
+    });
+
+    it("groups by week and by month", () => {
+        const runs = [run(new Date(2024, 1, 28), 70, 20), run(new Date(2024, 2, 13), 90, 40)];
+
+        expect(bucketRuns(runs, "week", now).map((point) => point.sessions)).toEqual([1, 0, 1]);
+        expect(bucketRuns(runs, "month", now).map((point) => point.accuracy)).toEqual([70, 90]);
+    });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { ProgressRun } from "../../types";
+import { buildFilterOptions, matchesFilter } from "../filterRuns";
+
+const TRAININGS = [
+    { id: "treble-low", title: "Treble low", minNote: "C4", maxNote: "C5", totalNotes: 100 },
+    { id: "bass-middle", title: "Bass middle", minNote: "C3", maxNote: "C4", totalNotes: 100 },
+] as const;
+
+function run(config: ProgressRun["config"]): ProgressRun {
+    return { id: "run", createdAt: 0, durationSeconds: 60, accuracy: 90, speedNpm: 30, config };
+}
+
+const RUNS = [
+    run({ minNote: "C4", maxNote: "C5", totalNotes: 100 }),
+    run({ minNote: "C4", maxNote: "C5", totalNotes: 40 }),
+    run({ minNote: "E2", maxNote: "E4", totalNotes: 60 }),
+    run({ minNote: "C4", maxNote: "C5", totalNotes: 80, pieceId: "piece-1" }),
+];
+
+describe("buildFilterOptions", () => {
+    it("lists practiced presets and ranges after all sessions", () => {
+        const options = buildFilterOptions(RUNS, [...TRAININGS]);
+
+        expect(options.map((option) => option.label)).toEqual([
+            "All sessions",
+            "Treble low",
+            "C4 – C5",
+            "E2 – E4",
+        ]);
+    });
+});
+
+describe("matchesFilter", () => {
+    it("matches presets by range and length and ranges by range alone", () => {
+        const preset = { kind: "training", minNote: "C4", maxNote: "C5", totalNotes: 100 } as const;
+        const range = { kind: "range", minNote: "C4", maxNote: "C5" } as const;
+
+        expect(RUNS.filter((entry) => matchesFilter(entry, preset))).toHaveLength(1);
+        expect(RUNS.filter((entry) => matchesFilter(entry, range))).toHaveLength(2);
+        expect(RUNS.filter((entry) => matchesFilter(entry, { kind: "all" }))).toHaveLength(4);
+    });
+
+    it("tells apart presets that differ only in motion", () => {
+        const stepwise = {
+            id: "treble-stepwise",
+            title: "Treble stepwise",
+            minNote: "C4",
+            maxNote: "G5",
+            totalNotes: 100,
+            motion: { contour: "free", maxInterval: 3, stepRatio: 0.8 },
+        } as const;
+        const leaps = {
+            id: "treble-thirds-fifths",
+            title: "Treble 3rds and 5ths",
+            minNote: "C4",
+            maxNote: "G5",
+            totalNotes: 100,
+            motion: { contour: "free", intervals: [3, 5] },
+        } as const;
+        const runs = [
+            run({ minNote: "C4", maxNote: "G5", totalNotes: 100, motion: stepwise.motion }),
+            run({ minNote: "C4", maxNote: "G5", totalNotes: 100, motion: stepwise.motion }),
+            run({ minNote: "C4", maxNote: "G5", totalNotes: 100, motion: { contour: "free" } }),
+        ];
+
+        const options = buildFilterOptions(runs, [stepwise, leaps]);
+        const preset = options.find((option) => option.value === "training:treble-stepwise");
+
+        expect(options.map((option) => option.label)).toEqual([
+            "All sessions",
+            "Treble stepwise",
+            "C4 – G5",
+        ]);
+        expect(runs.filter((entry) => matchesFilter(entry, preset!.filter))).toHaveLength(2);
+    });
+});
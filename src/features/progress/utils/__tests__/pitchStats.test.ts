@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import type { NoteAttempt } from "../../../session/types";
+import { buildPitchStats, buildStaffStats } from "../pitchStats";
+
+function attempt(
+    step: number,
+    expected: number[],
+    presses: NoteAttempt["presses"],
+    reactionMs: number | null,
+): NoteAttempt {
+    return { step, beat: step, expected, arrivedAtMs: step * 1000, presses, reactionMs };
+}
+
+const LOG = {
+    runId: "run-1",
+    attempts: [
+        attempt(0, [64], [{ note: 64, atMs: 500, result: "correct" }], 500),
+        attempt(
+            1,
+            [64],
+            [
+                { note: 67, atMs: 1400, result: "wrong" },
+                { note: 64, atMs: 1900, result: "correct" },
+            ],
+            900,
+        ),
+        attempt(
+            2,
+            [48, 52],
+            [
+                { note: 48, atMs: 2300, result: "partial" },
+                { note: 53, atMs: 2500, result: "wrong" },
+                { note: 52, atMs: 2700, result: "correct" },
+            ],
+            700,
+        ),
+        // Still under the cursor when the session ended.
+        attempt(3, [60], [], null),
+    ],
+};
+
+describe("buildPitchStats", () => {
+    it("counts misses, median response and confusions per pitch", () => {
+        const stats = buildPitchStats([LOG]);
+
+        expect(stats.map((stat) => stat.note)).toEqual([48, 52, 64]);
+        expect(stats[2]).toEqual({
+            note: 64,
+            attempts: 2,
+            misses: 1,
+            missRate: 0.5,
+            medianResponseMs: 700,
+            confusions: [{ note: 67, count: 1 }],
+        });
+    });
+
+    it("blames a wrong chord note on the closest expected note", () => {
+        const [low, high] = buildPitchStats([LOG]);
+
+        expect(low).toMatchObject({ note: 48, misses: 0, confusions: [] });
+        expect(high).toMatchObject({ note: 52, misses: 1, confusions: [{ note: 53, count: 1 }] });
+    });
+
+    it("misses every note of a step that was passed without a correct press", () => {
+        const [stat] = buildPitchStats([
+            {
+                runId: "timed",
+                attempts: [
+                    attempt(0, [62], [], null),
+                    attempt(
+                        1,
+                        [65],
+                        [{ note: 65, atMs: 1000, result: "correct", timing: "on-time" }],
+                        0,
+                    ),
+                ],
+            },
+        ]);
+
+        expect(stat).toMatchObject({ note: 62, attempts: 1, misses: 1, medianResponseMs: null });
+    });
+});
+
+describe("buildStaffStats", () => {
+    it("folds accidentals onto their line or space per clef", () => {
+        const stats = buildPitchStats([
+            {
+                runId: "run",
+                attempts: [
+                    attempt(
+                        0,
+                        [65],
+                        [
+                            { note: 66, atMs: 100, result: "wrong" },
+                            { note: 65, atMs: 300, result: "correct" },
+                        ],
+                        300,
+                    ),
+                    attempt(1, [66], [{ note: 66, atMs: 1200, result: "correct" }], 200),
+                    attempt(2, [43], [{ note: 43, atMs: 2100, result: "correct" }], 100),
+                ],
+            },
+        ]);
+
+        expect(buildStaffStats(stats)).toEqual([
+            { clef: "bass", diatonic: 18, attempts: 1, misses: 0, missRate: 0 },
+            { clef: "treble", diatonic: 31, attempts: 2, misses: 1, missRate: 0.5 },
+        ]);
+    });
+});
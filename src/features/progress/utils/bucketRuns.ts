@@ -0,0 +1,70 @@
+import { BUCKET_COUNTS } from "../constants";
+import type { ProgressBucket, ProgressPoint, ProgressRun } from "../types";
+
+const dayFormatter = new Intl.DateTimeFormat(undefined, { month: "short", day: "numeric" });
+const monthFormatter = new Intl.DateTimeFormat(undefined, { month: "short", year: "numeric" });
+
+/** Local midnight of the day, Monday of the week or first of the month containing `time`. */
+export function bucketStart(time: number, bucket: ProgressBucket): Date {
+    const date = new Date(time);
+    date.setHours(0, 0, 0, 0);
+    if (bucket === "week") {
+        date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+    } else if (bucket === "month") {
+        date.setDate(1);
+    }
+    return date;
+}
+
+function shiftBucket(date: Date, bucket: ProgressBucket, count: number): Date {
+    const shifted = new Date(date);
+    if (bucket === "day") shifted.setDate(shifted.getDate() + count);
+    if (bucket === "week") shifted.setDate(shifted.getDate() + count * 7);
+    if (bucket === "month") shifted.setMonth(shifted.getMonth() + count);
+    return shifted;
+}
+
+function average(values: readonly number[]): number | null {
+    if (values.length === 0) return null;
+    return Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+}
+
+/**
+ * Groups session runs into consecutive day, week or month buckets ending with
+ * the one containing `now`. Buckets without sessions are kept so the charts
+ * show gaps in practice; the window starts at the first bucket with a session.
+ */
+export function bucketRuns(
+    runs: readonly ProgressRun[],
+    bucket: ProgressBucket,
+    now: number,
+): ProgressPoint[] {
+    const last = bucketStart(now, bucket);
+    const windowStart = shiftBucket(last, bucket, -(BUCKET_COUNTS[bucket] - 1)).getTime();
+    const windowEnd = shiftBucket(last, bucket, 1).getTime();
+    const inWindow = runs.filter(
+        (run) => run.createdAt >= windowStart && run.createdAt < windowEnd,
+    );
+    if (inWindow.length === 0) return [];
+
+    const earliest = Math.min(...inWindow.map((run) => run.createdAt));
+    const points: ProgressPoint[] = [];
+
+    for (let start = bucketStart(earliest, bucket); start <= last; start = shiftBucket(start, bucket, 1)) {
+        const end = shiftBucket(start, bucket, 1).getTime();
+        const members = inWindow.filter(
+            (run) => run.createdAt >= start.getTime() && run.createdAt < end,
+        );
+        points.push({
+            start: start.getTime(),
+            label: bucket === "month" ? monthFormatter.format(start) : dayFormatter.format(start),
+            sessions: members.length,
+            accuracy: average(members.map((run) => run.accuracy)),
+            notesPerMinute: average(members.map((run) => run.speedNpm)),
+            // Tenths of a minute.
+            minutes: Math.round(members.reduce((sum, run) => sum + run.durationSeconds, 0) / 6) / 10,
+        });
+    }
+
+    return points;
+}
@@ -0,0 +1,22 @@
+import { midiToNoteLabel } from "../../midi";
+import type { PitchStat } from "../types";
+
+/** Opacity of the heat overlay: a light tint for any attempts, full at a 100% miss rate. */
+export function heatOpacity(missRate: number): number {
+    return 0.12 + 0.88 * Math.min(1, Math.max(0, missRate));
+}
+
+export function formatMissRate(missRate: number): string {
+    return `${Math.round(missRate * 100)}%`;
+}
+
+/** One line for tooltips and lists, e.g. "E4: 30% missed of 10 · median 820 ms · read as G4 ×3". */
+export function describePitchStat(stat: PitchStat): string {
+    const parts = [
+        `${midiToNoteLabel(stat.note)}: ${formatMissRate(stat.missRate)} missed of ${stat.attempts}`,
+    ];
+    if (stat.medianResponseMs !== null) parts.push(`median ${stat.medianResponseMs} ms`);
+    const [confusion] = stat.confusions;
+    if (confusion) parts.push(`read as ${midiToNoteLabel(confusion.note)} ×${confusion.count}`);
+    return parts.join(" · ");
+}
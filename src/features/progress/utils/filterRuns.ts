@@ -0,0 +1,64 @@
+import type { MelodicMotion } from "../../../entities/score";
+import type { Training } from "../../setup/config/trainings";
+import { ALL_SESSIONS_FILTER_VALUE } from "../constants";
+import type { ProgressFilter, ProgressFilterOption, ProgressRun } from "../types";
+
+/** Compares motion settings, treating a missing one as the default free contour. */
+function sameMotion(left: MelodicMotion = {}, right: MelodicMotion = {}): boolean {
+    return (
+        (left.contour ?? "free") === (right.contour ?? "free") &&
+        left.maxInterval === right.maxInterval &&
+        left.stepRatio === right.stepRatio &&
+        (left.intervals ?? []).join() === (right.intervals ?? []).join()
+    );
+}
+
+export function matchesFilter(run: ProgressRun, filter: ProgressFilter): boolean {
+    if (filter.kind === "all") return true;
+    // Imported pieces ignore the generator's range, so they only show up under "all".
+    if (run.config.pieceId) return false;
+    if (run.config.minNote !== filter.minNote || run.config.maxNote !== filter.maxNote) return false;
+    if (filter.kind === "range") return true;
+    // Presets can share a range and length and differ only in how the line moves.
+    return run.config.totalNotes === filter.totalNotes && sameMotion(run.config.motion, filter.motion);
+}
+
+/**
+ * Filter choices for the dashboard: every session, each training preset that
+ * has sessions, and each note range that was practiced.
+ */
+export function buildFilterOptions(
+    runs: readonly ProgressRun[],
+    trainings: readonly Training[],
+): ProgressFilterOption[] {
+    const options: ProgressFilterOption[] = [
+        { value: ALL_SESSIONS_FILTER_VALUE, label: "All sessions", filter: { kind: "all" } },
+    ];
+
+    for (const training of trainings) {
+        const filter: ProgressFilter = {
+            kind: "training",
+            minNote: training.minNote,
+            maxNote: training.maxNote,
+            totalNotes: training.totalNotes,
+            motion: training.motion,
+        };
+        if (!runs.some((run) => matchesFilter(run, filter))) continue;
+        options.push({ value: `training:${training.id}`, label: training.title, filter });
+    }
+
+    const ranges = new Set<string>();
+    for (const run of runs) {
+        if (run.config.pieceId) continue;
+        const value = `range:${run.config.minNote}-${run.config.maxNote}`;
+        if (ranges.has(value)) continue;
+        ranges.add(value);
+        options.push({
+            value,
+            label: `${run.config.minNote} – ${run.config.maxNote}`,
+            filter: { kind: "range", minNote: run.config.minNote, maxNote: run.config.maxNote },
+        });
+    }
+
+    return options;
+}
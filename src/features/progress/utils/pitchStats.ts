@@ -0,0 +1,111 @@
+import { diatonicIndex, midiToPitch } from "../../../entities/score";
+import type { NoteAttempt } from "../../session/types";
+import type { Clef, PitchStat, ProgressAttemptLog, StaffPositionStat } from "../types";
+
+const MIDDLE_C = 60;
+
+type PitchTally = {
+    attempts: number;
+    misses: number;
+    responses: number[];
+    confusions: Map<number, number>;
+};
+
+function median(values: readonly number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((left, right) => left - right);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : Math.round((sorted[middle - 1] + sorted[middle]) / 2);
+}
+
+/** The expected note a wrong press was most likely meant to be: the closest one, lower on a tie. */
+function intendedNote(expected: readonly number[], played: number): number {
+    return expected.reduce((best, note) =>
+        Math.abs(note - played) < Math.abs(best - played) ? note : best,
+    );
+}
+
+/**
+ * A step counts once it was played at or passed by; the step still under the
+ * cursor when a session ended without a press does not.
+ */
+function wasAttempted(attempt: NoteAttempt, next: NoteAttempt | undefined): boolean {
+    return attempt.presses.length > 0 || (attempt.arrivedAtMs !== null && next?.arrivedAtMs != null);
+}
+
+/**
+ * Aggregates attempt logs into per-pitch statistics. A wrong press is blamed
+ * on the closest expected note of its step, which counts as a miss and records
+ * the pair as a confusion; a step that was never played right misses every
+ * note it asked for.
+ */
+export function buildPitchStats(logs: readonly ProgressAttemptLog[]): PitchStat[] {
+    const tallies = new Map<number, PitchTally>();
+    const tallyFor = (note: number) => {
+        const existing = tallies.get(note);
+        if (existing) return existing;
+        const created: PitchTally = { attempts: 0, misses: 0, responses: [], confusions: new Map() };
+        tallies.set(note, created);
+        return created;
+    };
+
+    for (const log of logs) {
+        log.attempts.forEach((attempt, index) => {
+            if (attempt.expected.length === 0) return;
+            if (!wasAttempted(attempt, log.attempts[index + 1])) return;
+
+            const played = attempt.presses.some((press) => press.result === "correct");
+            const missed = new Set<number>(played ? [] : attempt.expected);
+            for (const press of attempt.presses) {
+                if (press.result !== "wrong") continue;
+                const intended = intendedNote(attempt.expected, press.note);
+                missed.add(intended);
+                const confusions = tallyFor(intended).confusions;
+                confusions.set(press.note, (confusions.get(press.note) ?? 0) + 1);
+            }
+
+            for (const note of attempt.expected) {
+                const tally = tallyFor(note);
+                tally.attempts += 1;
+                if (missed.has(note)) tally.misses += 1;
+                if (attempt.reactionMs !== null) tally.responses.push(attempt.reactionMs);
+            }
+        });
+    }
+
+    return [...tallies.entries()]
+        .filter(([, tally]) => tally.attempts > 0)
+        .sort(([left], [right]) => left - right)
+        .map(([note, tally]) => ({
+            note,
+            attempts: tally.attempts,
+            misses: tally.misses,
+            missRate: tally.misses / tally.attempts,
+            medianResponseMs: median(tally.responses),
+            confusions: [...tally.confusions.entries()]
+                .map(([played, count]) => ({ note: played, count }))
+                .sort((left, right) => right.count - left.count || left.note - right.note),
+        }));
+}
+
+export function clefForNote(note: number): Clef {
+    return note >= MIDDLE_C ? "treble" : "bass";
+}
+
+/** Folds pitch statistics onto staff positions, spelling accidentals as sharps. */
+export function buildStaffStats(stats: readonly PitchStat[]): StaffPositionStat[] {
+    const positions = new Map<string, StaffPositionStat>();
+
+    for (const stat of stats) {
+        const clef = clefForNote(stat.note);
+        const diatonic = diatonicIndex(midiToPitch(stat.note, 0));
+        const key = `${clef}:${diatonic}`;
+        const position = positions.get(key) ?? { clef, diatonic, attempts: 0, misses: 0, missRate: 0 };
+        position.attempts += stat.attempts;
+        position.misses += stat.misses;
+        position.missRate = position.misses / position.attempts;
+        positions.set(key, position);
+    }
+
+    return [...positions.values()].sort((left, right) => left.diatonic - right.diatonic);
+}
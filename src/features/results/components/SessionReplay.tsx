@@ -0,0 +1,189 @@
+import { Suspense, lazy, useEffect, useMemo, useRef, useState } from "react";
+
+import { midiToNoteLabel } from "../../midi";
+import { CURSOR_STYLES } from "../../practice/config/cursorStyles";
+import type { StaffHandle } from "../../practice/components/Staff";
+import type { NoteAttempt } from "../../session/types";
+import { REPLAY_NOTE_COLORS, REPLAY_OUTCOME_LABELS } from "../constants";
+import type { ReplayStep } from "../types";
+import { buildReplay, replayNoteColors, replayStepAt } from "../utils/buildReplay";
+
+const Staff = lazy(() => import("../../practice/components/Staff"));
+
+interface SessionReplayProps {
+    scoreXml: string;
+    stepCount: number;
+    attempts: readonly NoteAttempt[];
+}
+
+function formatClock(ms: number): string {
+    const totalSeconds = Math.max(0, ms) / 1000;
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = (totalSeconds % 60).toFixed(1).padStart(4, "0");
+    return `${minutes}:${seconds}`;
+}
+
+function describeStep(step: ReplayStep): string {
+    const wrong = step.wrongNotes.map(midiToNoteLabel).join(", ");
+    const reaction = step.reactionMs === null ? "" : ` in ${(step.reactionMs / 1000).toFixed(1)} s`;
+    const slow = step.slow ? " · slow" : "";
+
+    switch (step.outcome) {
+        case "first-try":
+            return `Played right first time${reaction}${slow}`;
+        case "corrected": {
+            const presses = step.wrongNotes.length === 1 ? "press" : "presses";
+            return `Corrected after ${step.wrongNotes.length} wrong ${presses} (${wrong})${reaction}${slow}`;
+        }
+        case "missed":
+        default:
+            return wrong ? `Missed · pressed ${wrong}` : "Missed";
+    }
+}
+
+/**
+ * Plays a finished session back on its score: the cursor follows the recorded
+ * arrival times and every note is colored by how it went.
+ */
+export default function SessionReplay({ scoreXml, stepCount, attempts }: SessionReplayProps) {
+    const staffRef = useRef<StaffHandle>(null);
+    const replay = useMemo(() => buildReplay(attempts), [attempts]);
+    const noteColors = useMemo(() => replayNoteColors(replay, stepCount), [replay, stepCount]);
+    const [timeMs, setTimeMs] = useState(0);
+    const [playing, setPlaying] = useState(false);
+
+    const index = replayStepAt(replay.steps, timeMs);
+    const current = index >= 0 ? replay.steps[index] : null;
+    const currentStep = current?.step ?? 0;
+
+    useEffect(() => {
+        if (!playing) return;
+
+        let frame = 0;
+        let last = performance.now();
+        const tick = (now: number) => {
+            const elapsed = now - last;
+            last = now;
+            setTimeMs((value) => Math.min(replay.durationMs, value + elapsed));
+            frame = window.requestAnimationFrame(tick);
+        };
+        frame = window.requestAnimationFrame(tick);
+        return () => window.cancelAnimationFrame(frame);
+    }, [playing, replay.durationMs]);
+
+    useEffect(() => {
+        if (playing && timeMs >= replay.durationMs) setPlaying(false);
+    }, [playing, replay.durationMs, timeMs]);
+
+    useEffect(() => {
+        staffRef.current?.moveCursorTo(currentStep);
+    }, [currentStep]);
+
+    if (replay.steps.length === 0) {
+        return <p className="result-replay-empty">No notes were played in this session.</p>;
+    }
+
+    const togglePlaying = () => {
+        if (!playing && timeMs >= replay.durationMs) setTimeMs(0);
+        setPlaying((value) => !value);
+    };
+
+    const jumpTo = (stepIndex: number) => {
+        const target = replay.steps[Math.min(Math.max(stepIndex, 0), replay.steps.length - 1)];
+        setTimeMs(target.atMs);
+    };
+
+    return (
+        <div className="result-replay-body">
+            <div className="result-replay-score">
+                <Suspense fallback={<div className="osmd" aria-hidden />}>
+                    <Staff
+                        ref={staffRef}
+                        scoreXml={scoreXml}
+                        cursorStyle={CURSOR_STYLES.idle}
+                        noteColors={noteColors}
+                    />
+                </Suspense>
+            </div>
+
+            <div className="result-replay-controls">
+                <button
+                    type="button"
+                    className="icon-button"
+                    onClick={() => jumpTo(index - 1)}
+                    disabled={index <= 0}
+                    aria-label="Previous note"
+                >
+                    <span className="material-symbols-outlined">skip_previous</span>
+                </button>
+                <button
+                    type="button"
+                    className="icon-button"
+                    onClick={togglePlaying}
+                    aria-label={playing ? "Pause replay" : "Play replay"}
+                >
+                    <span className="material-symbols-outlined">{playing ? "pause" : "play_arrow"}</span>
+                </button>
+                <button
+                    type="button"
+                    className="icon-button"
+                    onClick={() => jumpTo(index + 1)}
+                    disabled={index >= replay.steps.length - 1}
+                    aria-label="Next note"
+                >
+                    <span className="material-symbols-outlined">skip_next</span>
+                </button>
+
+                <input
+                    type="range"
+                    className="result-replay-scrubber"
+                    min={0}
+                    max={replay.durationMs}
+                    step={10}
+                    value={timeMs}
+                    onChange={(event) => setTimeMs(Number(event.target.value))}
+                    aria-label="Replay position"
+                />
+                <span className="result-replay-clock mono">
+                    {formatClock(timeMs)} / {formatClock(replay.durationMs)}
+                </span>
+            </div>
+
+            <div className="result-replay-step" aria-live="polite">
+                {current ? (
+                    <>
+                        <span
+                            className="result-replay-swatch"
+                            style={{
+                                background:
+                                    current.outcome === "first-try" && current.slow
+                                        ? REPLAY_NOTE_COLORS.slow
+                                        : REPLAY_NOTE_COLORS[current.outcome],
+                            }}
+                            aria-hidden
+                        />
+                        <span className="mono">
+                            #{current.step + 1} · {current.expected.map(midiToNoteLabel).join(" ")}
+                        </span>
+                        <span>{describeStep(current)}</span>
+                    </>
+                ) : (
+                    <span>Press play to follow the session note by note.</span>
+                )}
+            </div>
+
+            <ul className="result-replay-legend">
+                {(["first-try", "slow", "corrected", "missed"] as const).map((key) => (
+                    <li key={key}>
+                        <span
+                            className="result-replay-swatch"
+                            style={{ background: REPLAY_NOTE_COLORS[key] }}
+                            aria-hidden
+                        />
+                        {REPLAY_OUTCOME_LABELS[key]}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+}
@@ -1,12 +1,22 @@
-import { useEffect } from "react";
+import { useEffect, useState, type ReactNode } from "react";
 
 import AppTopBar from "../../../shared/ui/components/AppTopBar";
+import type { NoteAttempt } from "../../session/types";
+import { isRetryShortcutTarget } from "../utils/retryShortcut";
+import SessionReplay from "./SessionReplay";
 
 type ImprovementItem = {
     note: string;
     misses: number;
 };
 
+type TimingResult = {
+    accuracy: number;
+    early: number;
+    onTime: number;
+    late: number;
+};
+
 interface SessionResultPageProps {
     accuracy: number;
     errorCount: number;
@@ -14,8 +24,17 @@ interface SessionResultPageProps {
     speedNpm: number;
     speedDelta: number;
     improvements: ImprovementItem[];
+    timing?: TimingResult;
     durationLabel: string;
     sessionId: string;
+    scorePlaying: boolean;
+    onToggleScorePlayback: () => void;
+    /** Download menu for the score and the recorded performance. */
+    exportMenu?: ReactNode;
+    /** The finished session's score and attempt log, for the replay view. */
+    scoreXml: string;
+    stepCount: number;
+    attempts: readonly NoteAttempt[];
     onNewSetup: () => void;
     onTryAgain: () => void;
 }
@@ -27,14 +46,23 @@ export default function SessionResultPage({
     speedNpm,
     speedDelta,
     improvements,
+    timing,
     durationLabel,
     sessionId,
+    scorePlaying,
+    onToggleScorePlayback,
+    exportMenu,
+    scoreXml,
+    stepCount,
+    attempts,
     onNewSetup,
     onTryAgain,
 }: SessionResultPageProps) {
+    const [showReplay, setShowReplay] = useState(false);
+
     useEffect(() => {
         const onKeyDown = (event: KeyboardEvent) => {
-            if (event.key !== "Enter") return;
+            if (event.key !== "Enter" || !isRetryShortcutTarget(event.target)) return;
             onTryAgain();
         };
 
@@ -86,6 +114,16 @@ export default function SessionResultPage({
                             <div className="result-metric-value negative">{errorCount}</div>
                         </article>
 
+                        {timing ? (
+                            <article className="result-metric-card">
+                                <h2>Timing</h2>
+                                <div className="result-metric-value primary">{timing.accuracy}%</div>
+                                <p className="result-timing-breakdown mono">
+                                    {timing.early} early · {timing.onTime} on time · {timing.late} late
+                                </p>
+                            </article>
+                        ) : null}
+
                         <article className="result-metric-card">
                             <h2>Longest streak</h2>
                             <div className="result-metric-value accent">
@@ -119,7 +157,39 @@ export default function SessionResultPage({
                         )}
                     </section>
 
+                    <section className="result-replay">
+                        <div className="result-replay-head">
+                            <h3>Replay</h3>
+                            <button
+                                type="button"
+                                className="result-secondary-button"
+                                onClick={() => setShowReplay((value) => !value)}
+                                aria-expanded={showReplay}
+                            >
+                                <span className="material-symbols-outlined">
+                                    {showReplay ? "expand_less" : "slow_motion_video"}
+                                </span>
+                                <span>{showReplay ? "Hide replay" : "Watch replay"}</span>
+                            </button>
+                        </div>
+
+                        {showReplay ? (
+                            <SessionReplay scoreXml={scoreXml} stepCount={stepCount} attempts={attempts} />
+                        ) : null}
+                    </section>
+
                     <div className="result-actions">
+                        {exportMenu}
+
+                        <button
+                            type="button"
+                            className="result-secondary-button"
+                            onClick={onToggleScorePlayback}
+                            aria-pressed={scorePlaying}
+                        >
+                            {scorePlaying ? "Stop playback" : "Play score"}
+                        </button>
+
                         <button type="button" className="result-secondary-button" onClick={onNewSetup}>
                             New setup
                         </button>
@@ -0,0 +1,24 @@
+import type { ReplayOutcome } from "./types";
+
+/** A reaction counts as slow past this many times the session's median… */
+export const SLOW_REACTION_FACTOR = 2;
+/** …and never below this many milliseconds. */
+export const MIN_SLOW_REACTION_MS = 1200;
+
+/** Replay playback keeps going this long after the last recorded event. */
+export const REPLAY_TAIL_MS = 1000;
+
+/** Notehead colors of the replay score; slow first-try notes get their own. */
+export const REPLAY_NOTE_COLORS: Readonly<Record<ReplayOutcome | "slow", string>> = {
+  "first-try": "#1f9d55",
+  slow: "#2f6fd6",
+  corrected: "#d08a1c",
+  missed: "#d64545",
+};
+
+export const REPLAY_OUTCOME_LABELS: Readonly<Record<ReplayOutcome | "slow", string>> = {
+  "first-try": "First try",
+  slow: "Slow",
+  corrected: "Corrected",
+  missed: "Missed",
+};
@@ -1 +1,4 @@
+export { default as SessionReplay } from "./components/SessionReplay";
 export { default as SessionResultPage } from "./components/SessionResultPage";
+export { buildReplay, replayNoteColors, replayStepAt } from "./utils/buildReplay";
+export type { ReplayOutcome, ReplayStep, ReplayTimeline } from "./types";
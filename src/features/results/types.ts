@@ -0,0 +1,25 @@
+/**
+ * How a step of a finished session went:
+ *   first-try — played right with no wrong key before it
+ *   corrected — played right after one or more wrong keys
+ *   missed    — never played right (timed mode, or the session ended on it)
+ */
+export type ReplayOutcome = "first-try" | "corrected" | "missed";
+
+/** One reached step of a session replay, timed from the session's first event. */
+export interface ReplayStep {
+    step: number;
+    expected: number[];
+    atMs: number;
+    outcome: ReplayOutcome;
+    /** Wrong keys pressed before the step was played right, in order. */
+    wrongNotes: number[];
+    reactionMs: number | null;
+    /** Answered much more slowly than the rest of the session. */
+    slow: boolean;
+}
+
+export interface ReplayTimeline {
+    steps: ReplayStep[];
+    durationMs: number;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import type { NoteAttempt } from "../../../session/types";
+import { REPLAY_NOTE_COLORS } from "../../constants";
+import { buildReplay, replayNoteColors, replayStepAt } from "../buildReplay";
+
+function attempt(
+    step: number,
+    arrivedAtMs: number | null,
+    reactionMs: number | null,
+    presses: NoteAttempt["presses"] = [],
+): NoteAttempt {
+    return { step, beat: step, expected: [60 + step], arrivedAtMs, presses, reactionMs };
+}
+
+describe("buildReplay", () => {
+    it("classifies first-try, corrected and missed steps", () => {
+        const { steps } = buildReplay([
+            attempt(0, 0, 400, [{ note: 60, atMs: 400, result: "correct" }]),
+            attempt(1, 500, 700, [
+                { note: 63, atMs: 600, result: "wrong" },
+                { note: 65, atMs: 900, result: "wrong" },
+                { note: 61, atMs: 1200, result: "correct" },
+            ]),
+            attempt(2, 1300, null, [{ note: 70, atMs: 1500, result: "wrong" }]),
+        ]);
+
+        expect(steps.map((step) => step.outcome)).toEqual(["first-try", "corrected", "missed"]);
+        expect(steps[1].wrongNotes).toEqual([63, 65]);
+        expect(steps[2].wrongNotes).toEqual([70]);
+    });
+
+    it("ignores wrong presses after the step was played right", () => {
+        const { steps } = buildReplay([
+            attempt(0, 0, 300, [
+                { note: 60, atMs: 300, result: "correct" },
+                { note: 62, atMs: 450, result: "wrong" },
+            ]),
+        ]);
+        expect(steps[0]).toMatchObject({ outcome: "first-try", wrongNotes: [] });
+    });
+
+    it("flags reactions well above the session median as slow", () => {
+        const { steps } = buildReplay([
+            attempt(0, 0, 500),
+            attempt(1, 1000, 600),
+            attempt(2, 2000, 550),
+            attempt(3, 3000, 2400),
+        ]);
+        expect(steps.map((step) => step.slow)).toEqual([false, false, false, true]);
+    });
+
+    it("leaves out steps the cursor never reached and times the whole session", () => {
+        const replay = buildReplay([
+            attempt(0, 0, 400, [{ note: 60, atMs: 400, result: "correct" }]),
+            attempt(1, 900, null),
+            attempt(2, null, null),
+        ]);
+        expect(replay.steps.map((step) => step.step)).toEqual([0, 1]);
+        expect(replay.durationMs).toBe(1900);
+    });
+});
+
+describe("replayStepAt", () => {
+    const { steps } = buildReplay([attempt(0, 0, 100), attempt(1, 500, 100), attempt(2, 800, 100)]);
+
+    it("finds the step under the cursor at a point in time", () => {
+        expect(replayStepAt(steps, -1)).toBe(-1);
+        expect(replayStepAt(steps, 0)).toBe(0);
+        expect(replayStepAt(steps, 650)).toBe(1);
+        expect(replayStepAt(steps, 5000)).toBe(2);
+    });
+});
+
+describe("replayNoteColors", () => {
+    it("colors every reached step by its outcome", () => {
+        const replay = buildReplay([attempt(0, 0, 300), attempt(1, 500, null)]);
+        expect(replayNoteColors(replay, 3)).toEqual([
+            REPLAY_NOTE_COLORS["first-try"],
+            REPLAY_NOTE_COLORS.missed,
+            null,
+        ]);
+    });
+});
@@ -0,0 +1,38 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { isRetryShortcutTarget } from "../retryShortcut";
+
+/**
+ * Builds `<outer><inner/></outer>` in the document and returns the innermost
+ * element. Each entry is a tag name with optional classes, e.g. "div.result-replay".
+ */
+function element(...path: string[]): Element {
+    let parent: Element = document.body;
+    for (const entry of [...path].reverse()) {
+        const [tag, ...classes] = entry.split(".");
+        const child = document.createElement(tag);
+        child.classList.add(...classes);
+        parent = parent.appendChild(child);
+    }
+    return parent;
+}
+
+describe("isRetryShortcutTarget", () => {
+    it("retries when Enter is pressed outside any control", () => {
+        expect(isRetryShortcutTarget(null)).toBe(true);
+        expect(isRetryShortcutTarget(document.body)).toBe(true);
+        expect(isRetryShortcutTarget(element("div", "main"))).toBe(true);
+        expect(isRetryShortcutTarget(window)).toBe(true);
+    });
+
+    it("leaves the export menu and the replay alone", () => {
+        expect(isRetryShortcutTarget(element("summary", "details"))).toBe(false);
+        expect(isRetryShortcutTarget(element("button", "details"))).toBe(false);
+        expect(isRetryShortcutTarget(element("input", "div.result-replay"))).toBe(false);
+        expect(isRetryShortcutTarget(element("div", "div.result-replay"))).toBe(false);
+    });
+
+    it("lets Enter toggle score playback without starting a retry", () => {
+        expect(isRetryShortcutTarget(element("button", "div.result-actions"))).toBe(false);
+    });
+});
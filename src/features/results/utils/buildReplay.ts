@@ -0,0 +1,88 @@
+import type { NoteAttempt } from "../../session/types";
+import {
+    MIN_SLOW_REACTION_MS,
+    REPLAY_NOTE_COLORS,
+    REPLAY_TAIL_MS,
+    SLOW_REACTION_FACTOR,
+} from "../constants";
+import type { ReplayStep, ReplayTimeline } from "../types";
+
+function median(values: readonly number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((left, right) => left - right);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Turns an attempt log into replay steps. Steps the cursor never reached are
+ * left out; a step is slow when its reaction is well above the session's median.
+ */
+export function buildReplay(attempts: readonly NoteAttempt[]): ReplayTimeline {
+    const reached = attempts
+        .filter((attempt) => attempt.arrivedAtMs !== null)
+        .sort((left, right) => left.step - right.step);
+    const medianReaction = median(
+        reached.flatMap((attempt) => (attempt.reactionMs === null ? [] : [attempt.reactionMs])),
+    );
+    const slowAfterMs = Math.max(MIN_SLOW_REACTION_MS, (medianReaction ?? 0) * SLOW_REACTION_FACTOR);
+
+    let lastEventMs = 0;
+    const steps = reached.map((attempt): ReplayStep => {
+        const atMs = attempt.arrivedAtMs ?? 0;
+        const resolvedAtMs = attempt.reactionMs === null ? Infinity : atMs + attempt.reactionMs;
+        const wrongNotes = attempt.presses
+            .filter((press) => press.result === "wrong" && press.atMs <= resolvedAtMs)
+            .map((press) => press.note);
+
+        lastEventMs = Math.max(lastEventMs, atMs, ...attempt.presses.map((press) => press.atMs));
+
+        const outcome =
+            attempt.reactionMs === null ? "missed" : wrongNotes.length > 0 ? "corrected" : "first-try";
+
+        return {
+            step: attempt.step,
+            expected: attempt.expected,
+            atMs,
+            outcome,
+            wrongNotes,
+            reactionMs: attempt.reactionMs,
+            slow: attempt.reactionMs !== null && attempt.reactionMs > slowAfterMs,
+        };
+    });
+
+    return { steps, durationMs: steps.length > 0 ? lastEventMs + REPLAY_TAIL_MS : 0 };
+}
+
+/** Index of the step under the cursor at `timeMs`; -1 before the first step. */
+export function replayStepAt(steps: readonly ReplayStep[], timeMs: number): number {
+    let low = 0;
+    let high = steps.length - 1;
+    let found = -1;
+    while (low <= high) {
+        const middle = (low + high) >> 1;
+        if (steps[middle].atMs <= timeMs) {
+            found = middle;
+            low = middle + 1;
+        } else {
+            high = middle - 1;
+        }
+    }
+    return found;
+}
+
+/**
+ * Notehead color for every step of the score, indexed by step number. Steps
+ * the session never reached stay uncolored.
+ */
+export function replayNoteColors(replay: ReplayTimeline, stepCount: number): (string | null)[] {
+    const colors: (string | null)[] = Array.from({ length: stepCount }, () => null);
+    for (const step of replay.steps) {
+        if (step.step >= stepCount) continue;
+        colors[step.step] =
+            step.outcome === "first-try" && step.slow
+                ? REPLAY_NOTE_COLORS.slow
+                : REPLAY_NOTE_COLORS[step.outcome];
+    }
+    return colors;
+}
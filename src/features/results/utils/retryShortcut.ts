@@ -0,0 +1,10 @@
+/**
+ * Targets that handle Enter themselves: native controls (including the export
+ * menu's summary) and the replay player. The page-wide shortcut leaves them be.
+ */
+const OWNS_ENTER_SELECTOR = "button, summary, a, input, select, textarea, .result-replay";
+
+/** True when Enter pressed on `target` should start another session. */
+export function isRetryShortcutTarget(target: EventTarget | null): boolean {
+    return !(target instanceof Element && target.closest(OWNS_ENTER_SELECTOR));
+}
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ExpectedStep } from "../../../entities/score";
+import type { TimingSummary } from "../types";
+import { beatToMs } from "../utils/timing";
+import { createTimedSteps, type TimedMatch, type TimedSteps } from "../utils/timedSteps";
+
+export type TimedNoteResult = TimedMatch | { pitch: "idle"; timing: null };
+
+export interface TimedSessionCallbacks {
+    /** The clock reached the next step; move the score cursor. `onsetMs` is on the `performance.now()` clock. */
+    onCursorAdvance?: (step: number, onsetMs: number) => void;
+    /** A step's window closed. `missingNotes` lists expected notes never played. */
+    onStepResolved?: (missingNotes: number[], step: number, onsetMs: number) => void;
+    /** Every step has been resolved. */
+    onComplete?: () => void;
+}
+
+export interface TimedSession {
+    isRunning: boolean;
+    reset: (expectedSteps: ExpectedStep[], bpm: number) => void;
+    /** Starts or resumes the clock; the next step falls `leadMs` later (one beat by default). */
+    start: (leadMs?: number) => void;
+    pause: () => void;
+    /** Milliseconds until the clock next crosses a beat, or null while stopped. */
+    getMsUntilNextBeat: () => number | null;
+    /** The step under the cursor. */
+    getCurrentStep: () => ExpectedStep | null;
+    /** `atMs` is when the key went down on the `performance.now()` clock; defaults to now. */
+    handleNoteOn: (midiNote: number, atMs?: number) => TimedNoteResult;
+    getTimingSummary: () => TimingSummary;
+}
+
+/**
+ * Drives a session on a tempo clock instead of waiting for input.
+ *
+ * The first step sounds one beat (or `leadMs`) after `start()`. The cursor
+ * moves on when the clock reaches each step's onset, and every press is
+ * matched to the closest open step that expects that pitch and scored as
+ * early, on time or late. Resuming after a pause rewinds to the last beat
+ * and gives the same lead again, so a count-in lines up with the score.
+ */
+export default function useTimedSession(callbacks: TimedSessionCallbacks): TimedSession {
+    const callbacksRef = useRef(callbacks);
+    callbacksRef.current = callbacks;
+
+    const expectedSteps = useRef<ExpectedStep[]>([]);
+    const timeline = useRef<TimedSteps>(createTimedSteps([], 60));
+    const beatMs = useRef(0);
+    const originMs = useRef<number | null>(null);
+    const pausedAtMs = useRef<number | null>(null);
+
+    const [isRunning, setRunning] = useState(false);
+
+    const reset = useCallback((steps: ExpectedStep[], bpm: number) => {
+        expectedSteps.current = steps;
+        timeline.current = createTimedSteps(steps, bpm);
+        beatMs.current = beatToMs(1, bpm);
+        originMs.current = null;
+        pausedAtMs.current = null;
+        setRunning(false);
+    }, []);
+
+    const start = useCallback((leadMs?: number) => {
+        if (timeline.current.isComplete()) return;
+        if (originMs.current !== null && pausedAtMs.current === null) return;
+
+        const now = performance.now();
+        const lead = leadMs ?? beatMs.current;
+        const resumeAtMs =
+            originMs.current === null || pausedAtMs.current === null
+                ? 0
+                : Math.max(
+                      0,
+                      Math.floor((pausedAtMs.current - originMs.current) / beatMs.current) *
+                          beatMs.current,
+                  );
+
+        originMs.current = now + lead - resumeAtMs;
+        pausedAtMs.current = null;
+        setRunning(true);
+    }, []);
+
+    const pause = useCallback(() => {
+        if (originMs.current === null || pausedAtMs.current !== null) return;
+        pausedAtMs.current = performance.now();
+        setRunning(false);
+    }, []);
+
+    const getMsUntilNextBeat = useCallback(() => {
+        if (originMs.current === null || pausedAtMs.current !== null) return null;
+
+        const elapsedMs = performance.now() - originMs.current;
+        if (elapsedMs < 0) return -elapsedMs;
+        return beatMs.current - (elapsedMs % beatMs.current);
+    }, []);
+
+    const getCurrentStep = useCallback(
+        () => expectedSteps.current[timeline.current.getCursor()] ?? null,
+        [],
+    );
+
+    const getTimingSummary = useCallback((): TimingSummary => timeline.current.getSummary(), []);
+
+    const handleNoteOn = useCallback((midiNote: number, atMs?: number): TimedNoteResult => {
+        if (originMs.current === null || pausedAtMs.current !== null) {
+            return { pitch: "idle", timing: null };
+        }
+
+        return timeline.current.match(midiNote, (atMs ?? performance.now()) - originMs.current);
+    }, []);
+
+    useEffect(() => {
+        if (!isRunning) return;
+
+        let frameId = 0;
+
+        const tick = () => {
+            if (originMs.current === null) return;
+            const origin = originMs.current;
+            const { reached, resolved } = timeline.current.advance(performance.now() - origin);
+
+            const onsetAt = (step: number) => origin + timeline.current.getOnsetMs(step);
+
+            reached.forEach((step) => callbacksRef.current.onCursorAdvance?.(step, onsetAt(step)));
+            resolved.forEach(({ step, missingNotes }) => {
+                callbacksRef.current.onStepResolved?.(missingNotes, step, onsetAt(step));
+            });
+
+            if (timeline.current.isComplete()) {
+                setRunning(false);
+                callbacksRef.current.onComplete?.();
+                return;
+            }
+
+            frameId = window.requestAnimationFrame(tick);
+        };
+
+        frameId = window.requestAnimationFrame(tick);
+        return () => window.cancelAnimationFrame(frameId);
+    }, [isRunning]);
+
+    return {
+        isRunning,
+        reset,
+        start,
+        pause,
+        getMsUntilNextBeat,
+        getCurrentStep,
+        handleNoteOn,
+        getTimingSummary,
+    };
+}
@@ -1,8 +1,22 @@
 export { default as useSightReadingSession } from "./hooks/useSightReadingSession";
+export { default as useTimedSession } from "./hooks/useTimedSession";
 export { default as useTimer } from "./hooks/useTimer";
+export { createAttemptLog } from "./utils/createAttemptLog";
+export { timingAccuracy } from "./utils/timing";
+export type { AttemptLog, LoggedPress } from "./utils/createAttemptLog";
 export type { Timer } from "./hooks/useTimer";
 export type {
   NoteOnResult,
   NoteOffResult,
   SightReadingSession,
+  StepProgress,
 } from "./hooks/useSightReadingSession";
+export type { TimedNoteResult, TimedSession, TimedSessionCallbacks } from "./hooks/useTimedSession";
+export type {
+  NoteAttempt,
+  PlayedNote,
+  PracticeMode,
+  PressResult,
+  TimingSummary,
+  TimingVerdict,
+} from "./types";
@@ -0,0 +1,44 @@
+/**
+ * How the cursor moves through a session:
+ *   wait  — the cursor waits on each step until it is played
+ *   timed — the cursor advances on a tempo clock and presses are scored for timing
+ */
+export type PracticeMode = "wait" | "timed";
+
+export type TimingVerdict = "early" | "on-time" | "late";
+
+export interface TimingSummary {
+  early: number;
+  onTime: number;
+  late: number;
+  missed: number;
+}
+
+/**
+ * How a press was judged:
+ *   correct — it completed the step (or, in timed mode, matched an expected note)
+ *   partial — an expected note of a chord that is not fully held yet
+ *   wrong   — not a note of the step
+ */
+export type PressResult = "correct" | "partial" | "wrong";
+
+export interface PlayedNote {
+    note: number;
+    /** Milliseconds since the first logged event of the session. */
+    atMs: number;
+    result: PressResult;
+    /** Only in timed mode, for correct presses. */
+    timing?: TimingVerdict;
+}
+
+/** Everything that happened while one expected step was under the cursor. */
+export interface NoteAttempt {
+    step: number;
+    beat: number;
+    expected: number[];
+    /** When the cursor reached the step, in ms since the session's first event; null if it never did. */
+    arrivedAtMs: number | null;
+    presses: PlayedNote[];
+    /** Milliseconds from the cursor's arrival to the first correct press; null if never played right. */
+    reactionMs: number | null;
+}
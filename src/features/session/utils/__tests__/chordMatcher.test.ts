@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { createChordMatcher } from "../chordMatcher";
+
+const STEPS = [
+  { beat: 0, notes: [60, 64, 67] },
+  { beat: 1, notes: [62] },
+];
+
+function started() {
+  const matcher = createChordMatcher();
+  matcher.reset(STEPS);
+  return matcher;
+}
+
+describe("createChordMatcher", () => {
+  it("builds a chord one key at a time and advances when it is released", () => {
+    const matcher = started();
+
+    expect(matcher.handleNoteOn(60)).toBe("partial");
+    expect(matcher.handleNoteOn(64)).toBe("partial");
+    expect(matcher.getStepProgress()).toEqual({ matched: 2, total: 3 });
+    expect(matcher.handleNoteOn(67)).toBe("correct");
+
+    expect(matcher.handleNoteOff(64)).toBe("advanced");
+    expect(matcher.getCurrentStep()).toEqual(STEPS[1]);
+  });
+
+  it("flags a wrong note mid-chord without losing the keys already held", () => {
+    const matcher = started();
+
+    matcher.handleNoteOn(60);
+    expect(matcher.handleNoteOn(65)).toBe("wrong");
+    expect(matcher.handleNoteOff(65)).toBe("idle");
+    expect(matcher.getStepProgress()).toEqual({ matched: 1, total: 3 });
+
+    matcher.handleNoteOn(64);
+    expect(matcher.handleNoteOn(67)).toBe("correct");
+  });
+
+  it("does not arm when a chord tone is let go before the chord is complete", () => {
+    const matcher = started();
+
+    matcher.handleNoteOn(60);
+    matcher.handleNoteOn(64);
+    expect(matcher.handleNoteOff(60)).toBe("idle");
+    expect(matcher.handleNoteOn(67)).toBe("partial");
+
+    // Pressing the released tone again re-arms the step.
+    expect(matcher.handleNoteOn(60)).toBe("correct");
+    expect(matcher.handleNoteOff(67)).toBe("advanced");
+  });
+
+  it("needs fresh presses for the next step even if a key is still held", () => {
+    const matcher = createChordMatcher();
+    matcher.reset([
+      { beat: 0, notes: [48, 60] },
+      { beat: 1, notes: [48, 62] },
+    ]);
+
+    matcher.handleNoteOn(48);
+    matcher.handleNoteOn(60);
+    expect(matcher.handleNoteOff(60)).toBe("advanced");
+
+    // 48 is still down from the previous step, but it does not count here.
+    expect(matcher.handleNoteOn(62)).toBe("partial");
+    expect(matcher.getStepProgress()).toEqual({ matched: 1, total: 2 });
+  });
+
+  it("keeps pedaled chord tones sounding until the pedal lifts", () => {
+    const matcher = started();
+
+    matcher.handleSustain(true);
+    matcher.handleNoteOn(60);
+    matcher.handleNoteOff(60);
+    matcher.handleNoteOn(64);
+    matcher.handleNoteOff(64);
+    expect(matcher.handleNoteOn(67)).toBe("correct");
+
+    const unpedaled = started();
+    unpedaled.handleSustain(true);
+    unpedaled.handleNoteOn(60);
+    unpedaled.handleNoteOff(60);
+    unpedaled.handleSustain(false);
+    unpedaled.handleNoteOn(64);
+    expect(unpedaled.handleNoteOn(67)).toBe("partial");
+  });
+
+  it("keeps only the notes caught by the sostenuto pedal sounding", () => {
+    const matcher = started();
+
+    matcher.handleNoteOn(60);
+    matcher.handleSostenuto(true);
+    matcher.handleNoteOff(60);
+    matcher.handleNoteOn(64);
+    matcher.handleNoteOff(64);
+    expect(matcher.getStepProgress()).toEqual({ matched: 1, total: 3 });
+
+    matcher.handleNoteOn(64);
+    expect(matcher.handleNoteOn(67)).toBe("correct");
+    expect(matcher.handleNoteOff(67)).toBe("advanced");
+
+    // Caught notes do not carry over to the next step.
+    expect(matcher.getStepProgress()).toEqual({ matched: 0, total: 1 });
+  });
+
+  it("completes a chord played one note at a time on a monophonic source", () => {
+    const matcher = started();
+    matcher.setMonophonic(true);
+
+    // Like the microphone, each note is released as the next one starts.
+    expect(matcher.handleNoteOn(60)).toBe("partial");
+    expect(matcher.handleNoteOff(60)).toBe("idle");
+    expect(matcher.handleNoteOn(64)).toBe("partial");
+    expect(matcher.handleNoteOff(64)).toBe("idle");
+    // Lifting a pedal does not forget them while the source stays monophonic.
+    matcher.handleSustain(false);
+    expect(matcher.handleNoteOn(67)).toBe("correct");
+
+    expect(matcher.handleNoteOff(67)).toBe("advanced");
+    expect(matcher.getStepProgress()).toEqual({ matched: 0, total: 1 });
+  });
+
+  it("reports completion after the last step", () => {
+    const matcher = started();
+
+    [60, 64, 67].forEach((note) => matcher.handleNoteOn(note));
+    matcher.handleNoteOff(60);
+    matcher.handleNoteOn(62);
+
+    expect(matcher.handleNoteOff(62)).toBe("complete");
+    expect(matcher.handleNoteOn(62)).toBe("complete");
+    expect(matcher.getCurrentStep()).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { createAttemptLog } from "../createAttemptLog";
+
+const STEPS = [
+  { beat: 0, notes: [60] },
+  { beat: 1, notes: [64, 67] },
+  { beat: 2, notes: [65] },
+];
+
+describe("createAttemptLog", () => {
+  it("logs presses per step with times relative to the first event", () => {
+    const log = createAttemptLog();
+    log.reset(STEPS);
+
+    log.arrive(0, 1000);
+    log.press({ note: 62, atMs: 1000, result: "wrong" });
+    log.press({ note: 60, atMs: 1400, result: "correct" });
+    log.advance(1500);
+    log.press({ note: 64, atMs: 1700, result: "partial" });
+    log.press({ note: 67, atMs: 1900, result: "correct" });
+
+    const [first, second, third] = log.getAttempts();
+    expect(first).toEqual({
+      step: 0,
+      beat: 0,
+      expected: [60],
+      arrivedAtMs: 0,
+      presses: [
+        { note: 62, atMs: 0, result: "wrong" },
+        { note: 60, atMs: 400, result: "correct" },
+      ],
+      reactionMs: 400,
+    });
+    expect(second.arrivedAtMs).toBe(500);
+    expect(second.presses.map((press) => press.result)).toEqual(["partial", "correct"]);
+    expect(second.reactionMs).toBe(400);
+    expect(third).toMatchObject({ arrivedAtMs: null, presses: [], reactionMs: null });
+  });
+
+  it("keeps the first arrival and files presses under an explicit step", () => {
+    const log = createAttemptLog();
+    log.reset(STEPS);
+
+    log.press({ note: 60, atMs: 980, result: "correct", timing: "early", step: 0 });
+    log.arrive(0, 1000);
+    log.arrive(0, 1200);
+
+    const [first] = log.getAttempts();
+    expect(first.arrivedAtMs).toBe(20);
+    expect(first.presses).toEqual([{ note: 60, atMs: 0, result: "correct", timing: "early" }]);
+    expect(first.reactionMs).toBe(-20);
+  });
+
+  it("forgets everything on reset", () => {
+    const log = createAttemptLog();
+    log.reset(STEPS);
+    log.arrive(0, 10);
+    log.press({ note: 60, atMs: 20, result: "correct" });
+
+    log.reset(STEPS.slice(0, 1));
+
+    expect(log.getAttempts()).toEqual([
+      { step: 0, beat: 0, expected: [60], arrivedAtMs: null, presses: [], reactionMs: null },
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { TIMING_WINDOWS_MS } from "../timing";
+import { createTimedSteps } from "../timedSteps";
+
+// At 60 bpm one beat is exactly one second.
+const STEPS = [
+  { beat: 0, notes: [60] },
+  { beat: 1, notes: [62] },
+  { beat: 2, notes: [64, 67] },
+];
+
+describe("createTimedSteps", () => {
+  it("scores presses as early, on time or late by their offset from the onset", () => {
+    const timeline = createTimedSteps(STEPS, 60);
+
+    expect(timeline.match(60, 40)).toEqual({
+      pitch: "correct",
+      timing: "on-time",
+      step: 0,
+      offsetMs: 40,
+    });
+    expect(timeline.match(62, 850)).toEqual({
+      pitch: "correct",
+      timing: "early",
+      step: 1,
+      offsetMs: -150,
+    });
+    expect(timeline.match(64, 2200)).toEqual({
+      pitch: "correct",
+      timing: "late",
+      step: 2,
+      offsetMs: 200,
+    });
+    expect(timeline.getSummary()).toEqual({ early: 1, onTime: 1, late: 1, missed: 0 });
+  });
+
+  it("rejects presses outside every window, wrong pitches and repeats", () => {
+    const timeline = createTimedSteps(STEPS, 60);
+
+    expect(timeline.match(62, 1000 - TIMING_WINDOWS_MS.accepted - 1).pitch).toBe("wrong");
+    expect(timeline.match(61, 0).pitch).toBe("wrong");
+    expect(timeline.match(60, 0).pitch).toBe("correct");
+    expect(timeline.match(60, 10).pitch).toBe("wrong");
+  });
+
+  it("advances on each onset and counts notes unplayed by the window's end as missed", () => {
+    const timeline = createTimedSteps(STEPS, 60);
+    timeline.match(64, 2000);
+
+    expect(timeline.advance(1000)).toEqual({
+      reached: [1],
+      resolved: [{ step: 0, missingNotes: [60] }],
+    });
+    expect(timeline.getCursor()).toBe(1);
+    expect(timeline.isComplete()).toBe(false);
+
+    // Past the end of its window a press no longer counts for the step.
+    expect(timeline.match(62, 1000 + TIMING_WINDOWS_MS.accepted + 1).pitch).toBe("wrong");
+
+    expect(timeline.advance(2000 + TIMING_WINDOWS_MS.accepted + 1)).toEqual({
+      reached: [2],
+      resolved: [
+        { step: 1, missingNotes: [62] },
+        { step: 2, missingNotes: [67] },
+      ],
+    });
+    expect(timeline.isComplete()).toBe(true);
+    expect(timeline.getSummary().missed).toBe(3);
+  });
+
+  it("gives a press halfway between two steps to the earlier one", () => {
+    const timeline = createTimedSteps(
+      [
+        { beat: 0, notes: [60] },
+        { beat: 0.4, notes: [60] },
+      ],
+      60,
+    );
+
+    expect(timeline.match(60, 200)).toMatchObject({ step: 0, timing: "late" });
+    expect(timeline.match(60, 200)).toMatchObject({ step: 1, timing: "early" });
+  });
+
+  it("reports each step's onset relative to beat zero", () => {
+    const timeline = createTimedSteps([{ beat: 2, notes: [60] }], 120);
+
+    expect(timeline.getOnsetMs(0)).toBe(1000);
+  });
+});
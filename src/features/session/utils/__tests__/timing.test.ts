@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { beatToMs, classifyTiming, timingAccuracy } from "../timing";
+
+describe("beatToMs", () => {
+  it("converts quarter-note beats at the given tempo", () => {
+    expect(beatToMs(2, 120)).toBe(1000);
+  });
+});
+
+describe("classifyTiming", () => {
+  it("treats presses close to the onset as on time", () => {
+    expect(classifyTiming(-40)).toBe("on-time");
+    expect(classifyTiming(90)).toBe("on-time");
+  });
+
+  it("separates early and late presses", () => {
+    expect(classifyTiming(-150)).toBe("early");
+    expect(classifyTiming(200)).toBe("late");
+  });
+
+  it("rejects presses outside the accepted window", () => {
+    expect(classifyTiming(400)).toBeNull();
+  });
+});
+
+describe("timingAccuracy", () => {
+  it("ignores missed notes and reports the on-time share of hits", () => {
+    expect(timingAccuracy({ early: 1, onTime: 6, late: 1, missed: 5 })).toBe(75);
+  });
+
+  it("returns 0 when nothing was hit", () => {
+    expect(timingAccuracy({ early: 0, onTime: 0, late: 0, missed: 3 })).toBe(0);
+  });
+});
@@ -0,0 +1,148 @@
+import type { ExpectedStep } from "../../../entities/score";
+
+export type NoteOnResult =
+    | "correct"
+    | "partial"
+    | "wrong"
+    | "complete";
+
+export type NoteOffResult =
+    | "advanced"
+    | "complete"
+    | "idle";
+
+export interface StepProgress {
+    matched: number;
+    total: number;
+}
+
+export interface ChordMatcher {
+    reset: (expectedSteps: readonly ExpectedStep[]) => void;
+    handleNoteOn: (midiNote: number) => NoteOnResult;
+    handleNoteOff: (midiNote: number) => NoteOffResult;
+    /** Sustain pedal position; lets a chord be built from keys released under the pedal. */
+    handleSustain: (down: boolean) => void;
+    /** Sostenuto pedal position; keeps the notes held when it went down sounding. */
+    handleSostenuto: (down: boolean) => void;
+    /**
+     * For sources that hear one note at a time (the microphone), which release
+     * each note as the next one starts: expected notes keep counting once
+     * released, as under the pedal, so a broken chord still arms the step.
+     */
+    setMonophonic: (monophonic: boolean) => void;
+    getStepProgress: () => StepProgress;
+    getCurrentStep: () => ExpectedStep | null;
+}
+
+/**
+ * Tracks the cursor through a sequence of expected steps.
+ *
+ * A step is armed once every expected note is held at the same time, and the
+ * cursor advances as soon as one of those notes is released. Notes pressed
+ * towards a step are collected until then, so chords can be built up one key
+ * at a time ("partial") before they count as "correct". Keys still held when
+ * the cursor moves on (e.g. a sustained left-hand note under a moving right
+ * hand) do not count towards the next step; it needs fresh presses.
+ *
+ * With the sustain pedal down, an expected note released before the step is
+ * armed keeps counting as "sounding", so a pedaled broken chord arms the step
+ * like a held one would. Pedaled notes never carry over to the next step, and
+ * lifting the pedal forgets them. The sostenuto pedal does the same for just
+ * the notes held when it went down, until it lifts or the step is played.
+ * A monophonic source gets the same treatment
+ * for as long as it is active, whatever the pedal does.
+ */
+export function createChordMatcher(): ChordMatcher {
+    let expectedSteps: readonly ExpectedStep[] = [];
+    let cursor = 0;
+    let heldNotes = new Set<number>();
+    let sustainedNotes = new Set<number>();
+    let sostenutoNotes = new Set<number>();
+    let sustainDown = false;
+    let monophonic = false;
+    let armed = false;
+
+    const isSounding = (note: number) =>
+        heldNotes.has(note) || sustainedNotes.has(note) || sostenutoNotes.has(note);
+
+    const reset = (steps: readonly ExpectedStep[]) => {
+        expectedSteps = steps;
+        cursor = 0;
+        heldNotes = new Set();
+        sustainedNotes = new Set();
+        sostenutoNotes = new Set();
+        armed = false;
+    };
+
+    const getStepProgress = (): StepProgress => {
+        const step = expectedSteps[cursor];
+        if (!step) return { matched: 0, total: 0 };
+
+        const matched = step.notes.filter(isSounding).length;
+        return { matched, total: step.notes.length };
+    };
+
+    const getCurrentStep = () => expectedSteps[cursor] ?? null;
+
+    const handleNoteOn = (midiNote: number): NoteOnResult => {
+        const step = expectedSteps[cursor];
+
+        if (!step) return "complete";
+
+        heldNotes.add(midiNote);
+
+        if (!step.notes.includes(midiNote)) return "wrong";
+        if (armed) return "correct";
+
+        if (step.notes.every(isSounding)) {
+            armed = true;
+            return "correct";
+        }
+
+        return "partial";
+    };
+
+    const handleNoteOff = (midiNote: number): NoteOffResult => {
+        heldNotes.delete(midiNote);
+
+        const step = expectedSteps[cursor];
+        if (!step || !step.notes.includes(midiNote)) return "idle";
+        if (!armed) {
+            if (sustainDown || monophonic) sustainedNotes.add(midiNote);
+            return "idle";
+        }
+
+        armed = false;
+        heldNotes = new Set();
+        sustainedNotes = new Set();
+        sostenutoNotes = new Set();
+        cursor += 1;
+
+        return cursor >= expectedSteps.length ? "complete" : "advanced";
+    };
+
+    const handleSustain = (down: boolean) => {
+        sustainDown = down;
+        if (!down && !monophonic) sustainedNotes = new Set();
+    };
+
+    const handleSostenuto = (down: boolean) => {
+        sostenutoNotes = down ? new Set(heldNotes) : new Set();
+    };
+
+    const setMonophonic = (value: boolean) => {
+        monophonic = value;
+        if (!monophonic && !sustainDown) sustainedNotes = new Set();
+    };
+
+    return {
+        reset,
+        handleNoteOn,
+        handleNoteOff,
+        handleSustain,
+        handleSostenuto,
+        setMonophonic,
+        getStepProgress,
+        getCurrentStep,
+    };
+}
@@ -0,0 +1,86 @@
+import type { ExpectedStep } from "../../../entities/score";
+import type { NoteAttempt, PressResult, TimingVerdict } from "../types";
+
+export interface LoggedPress {
+    note: number;
+    /** When the key went down on the `performance.now()` clock. */
+    atMs: number;
+    result: PressResult;
+    timing?: TimingVerdict | null;
+    /** Step the press counts towards; defaults to the step the cursor last reached. */
+    step?: number;
+}
+
+export interface AttemptLog {
+    reset: (expectedSteps: readonly ExpectedStep[]) => void;
+    /** The cursor reached `step` at `atMs`; only the first arrival per step is kept. */
+    arrive: (step: number, atMs: number) => void;
+    /** The cursor moved on to the step after the current one. */
+    advance: (atMs: number) => void;
+    press: (press: LoggedPress) => void;
+    /** One entry per expected step, with times relative to the session's first event. */
+    getAttempts: () => NoteAttempt[];
+}
+
+type StepRecord = {
+    arrivedAtMs: number | null;
+    presses: { note: number; atMs: number; result: PressResult; timing?: TimingVerdict }[];
+};
+
+/**
+ * Keeps a per-step log of a session: when the cursor reached each step,
+ * every key pressed while it was there and how long the correct press took.
+ */
+export function createAttemptLog(): AttemptLog {
+    let steps: readonly ExpectedStep[] = [];
+    let records: StepRecord[] = [];
+    let current = 0;
+
+    const arrive = (step: number, atMs: number) => {
+        const record = records[step];
+        if (!record) return;
+        current = Math.max(current, step);
+        if (record.arrivedAtMs === null) record.arrivedAtMs = atMs;
+    };
+
+    return {
+        reset: (expectedSteps) => {
+            steps = expectedSteps;
+            records = expectedSteps.map(() => ({ arrivedAtMs: null, presses: [] }));
+            current = 0;
+        },
+        arrive,
+        advance: (atMs) => arrive(current + 1, atMs),
+        press: ({ note, atMs, result, timing, step = current }) => {
+            const record = records[step];
+            if (!record) return;
+            record.presses.push(timing ? { note, atMs, result, timing } : { note, atMs, result });
+        },
+        getAttempts: () => {
+            const originMs = records.reduce(
+                (earliest, record) =>
+                    record.presses.reduce(
+                        (first, press) => Math.min(first, press.atMs),
+                        Math.min(earliest, record.arrivedAtMs ?? Infinity),
+                    ),
+                Infinity,
+            );
+            const relative = (time: number) => Math.round(time - originMs);
+
+            return records.map((record, index) => {
+                const firstCorrect = record.presses.find((press) => press.result === "correct");
+                return {
+                    step: index,
+                    beat: steps[index].beat,
+                    expected: [...steps[index].notes],
+                    arrivedAtMs: record.arrivedAtMs === null ? null : relative(record.arrivedAtMs),
+                    presses: record.presses.map((press) => ({ ...press, atMs: relative(press.atMs) })),
+                    reactionMs:
+                        firstCorrect && record.arrivedAtMs !== null
+                            ? Math.round(firstCorrect.atMs - record.arrivedAtMs)
+                            : null,
+                };
+            });
+        },
+    };
+}
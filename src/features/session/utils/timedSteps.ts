@@ -0,0 +1,119 @@
+import type { ExpectedStep } from "../../../entities/score";
+import type { TimingSummary, TimingVerdict } from "../types";
+import { TIMING_WINDOWS_MS, beatToMs, classifyTiming } from "./timing";
+
+export type TimedMatch =
+    | {
+          pitch: "correct";
+          timing: TimingVerdict;
+          /** Index of the step the press was matched to. */
+          step: number;
+          /** Signed distance from that step's onset in milliseconds. */
+          offsetMs: number;
+      }
+    | { pitch: "wrong"; timing: null };
+
+export interface ResolvedStep {
+    step: number;
+    /** Expected notes that were never played before the step's window closed. */
+    missingNotes: number[];
+}
+
+export interface TimedAdvance {
+    /** Steps whose onset the clock crossed, in order. */
+    reached: number[];
+    /** Steps whose window closed, in order. */
+    resolved: ResolvedStep[];
+}
+
+export interface TimedSteps {
+    /** The step under the cursor. */
+    getCursor: () => number;
+    /** When `step` falls, in milliseconds after the session origin (beat zero). */
+    getOnsetMs: (step: number) => number;
+    /** Every step's window has closed. */
+    isComplete: () => boolean;
+    /** Scores a press `elapsedMs` after the origin against the closest open step expecting it. */
+    match: (midiNote: number, elapsedMs: number) => TimedMatch;
+    /** Moves the cursor and closes windows up to `elapsedMs` after the origin. */
+    advance: (elapsedMs: number) => TimedAdvance;
+    getSummary: () => TimingSummary;
+}
+
+/**
+ * The clock-free part of a timed session: onsets for each step, which notes
+ * have been matched, and the early / on time / late / missed tally. Times are
+ * relative to the session origin, so the hook only has to own the clock.
+ *
+ * A press goes to the closest step still open that expects its pitch and has
+ * not had it yet; on a tie the earlier step wins. A step's window closes
+ * `TIMING_WINDOWS_MS.accepted` after its onset, and anything unplayed by then
+ * counts as missed.
+ */
+export function createTimedSteps(steps: readonly ExpectedStep[], bpm: number): TimedSteps {
+    const onsetsMs = steps.map((step) => beatToMs(step.beat, bpm));
+    const matchedNotes = steps.map(() => new Set<number>());
+    const summary: TimingSummary = { early: 0, onTime: 0, late: 0, missed: 0 };
+    let cursor = 0;
+    let resolvedCount = 0;
+
+    const match = (midiNote: number, elapsedMs: number): TimedMatch => {
+        let bestIndex = -1;
+        let bestOffset = Infinity;
+
+        for (let index = resolvedCount; index < steps.length; index++) {
+            const offset = elapsedMs - onsetsMs[index];
+            if (offset < -TIMING_WINDOWS_MS.accepted) break;
+            if (!steps[index].notes.includes(midiNote)) continue;
+            if (matchedNotes[index].has(midiNote)) continue;
+            if (Math.abs(offset) < Math.abs(bestOffset)) {
+                bestIndex = index;
+                bestOffset = offset;
+            }
+        }
+
+        const timing = bestIndex === -1 ? null : classifyTiming(bestOffset);
+        if (timing === null) {
+            return { pitch: "wrong", timing: null };
+        }
+
+        matchedNotes[bestIndex].add(midiNote);
+        if (timing === "early") summary.early += 1;
+        if (timing === "on-time") summary.onTime += 1;
+        if (timing === "late") summary.late += 1;
+
+        return { pitch: "correct", timing, step: bestIndex, offsetMs: bestOffset };
+    };
+
+    const advance = (elapsedMs: number): TimedAdvance => {
+        const reached: number[] = [];
+        const resolved: ResolvedStep[] = [];
+
+        while (cursor + 1 < steps.length && elapsedMs >= onsetsMs[cursor + 1]) {
+            cursor += 1;
+            reached.push(cursor);
+        }
+
+        while (
+            resolvedCount < steps.length &&
+            elapsedMs > onsetsMs[resolvedCount] + TIMING_WINDOWS_MS.accepted
+        ) {
+            const step = resolvedCount;
+            const missingNotes = steps[step].notes.filter((note) => !matchedNotes[step].has(note));
+            summary.missed += missingNotes.length;
+            resolvedCount += 1;
+            resolved.push({ step, missingNotes });
+        }
+
+        return { reached, resolved };
+    };
+
+    return {
+        getCursor: () => cursor,
+        getOnsetMs: (step) => onsetsMs[step],
+        isComplete: () => resolvedCount >= steps.length,
+        match,
+        advance,
+        getSummary: () => ({ ...summary }),
+    };
+}
@@ -0,0 +1,29 @@
+import type { TimingSummary, TimingVerdict } from "../types";
+
+/**
+ * Timing windows around each expected onset, in milliseconds. Presses within
+ * `onTime` of the onset are on time; up to `accepted` they count as early or
+ * late; further away they do not belong to the step at all.
+ */
+export const TIMING_WINDOWS_MS = {
+  onTime: 90,
+  accepted: 250,
+} as const;
+
+export function beatToMs(beat: number, bpm: number): number {
+  return (beat * 60_000) / bpm;
+}
+
+/** Classifies a press by its offset from the expected onset (negative = early). */
+export function classifyTiming(offsetMs: number): TimingVerdict | null {
+  const distance = Math.abs(offsetMs);
+  if (distance > TIMING_WINDOWS_MS.accepted) return null;
+  if (distance <= TIMING_WINDOWS_MS.onTime) return "on-time";
+  return offsetMs < 0 ? "early" : "late";
+}
+
+/** Share of correctly pitched presses that landed on time, as a whole percentage. */
+export function timingAccuracy(summary: TimingSummary): number {
+  const hits = summary.early + summary.onTime + summary.late;
+  return hits === 0 ? 0 : Math.round((summary.onTime / hits) * 100);
+}
@@ -1,30 +1,148 @@
-import type { MidiInputOption } from "../../midi/types";
+import { useState } from "react";
+import {
+    TRANSPOSE_OPTIONS,
+    VELOCITY_THRESHOLD_OPTIONS,
+    type InputProfile,
+    type NoteInputDevice,
+} from "../../input";
+import type { CalibrationPhase } from "../../midi";
+import type { HintMode } from "../../midi/types";
 import { APP_NAME, APP_RELEASE_STAGE, APP_VERSION } from "../../../shared/config/appMeta";
-import type { ThemeMode } from "../types";
+import type { StorageStatus } from "../../../shared/storage";
+import { formatBytes } from "../../../shared/utils";
+import type {
+    BackupConflictPolicy,
+    BackupImportMode,
+    BackupRestoreOptions,
+    BackupStatus,
+    InputSourceKind,
+    ThemeMode,
+} from "../types";
 import AppTopBar from "../../../shared/ui/components/AppTopBar";
 import BackButton from "../../../shared/ui/components/BackButton";
 
+const MIDI_CHANNELS = Array.from({ length: 16 }, (_, index) => index + 1);
+
+const REPLACE_CONFIRMATION =
+    "Replace all sessions, trainings, pieces and settings on this device with the backup?";
+
+function transposeLabel(semitones: number): string {
+    if (semitones === 0) return "No transpose";
+    const sign = semitones > 0 ? "+" : "−";
+    const size = Math.abs(semitones);
+    if (size % 12 === 0) return `${sign}${size / 12} octave${size === 12 ? "" : "s"}`;
+    return `${sign}${size} semitone${size === 1 ? "" : "s"}`;
+}
+
+function storageSummary(status: StorageStatus | null): string {
+    if (!status) return "Checking browser storage…";
+    if (status.backend === "memory") return "Not saved: this browser isn't letting the site store data.";
+
+    const place = status.backend === "indexeddb" ? "Saved in this browser" : "Saved in limited fallback storage";
+    const usage =
+        status.usageBytes !== null && status.quotaBytes !== null
+            ? ` · ${formatBytes(status.usageBytes)} of ${formatBytes(status.quotaBytes)} used`
+            : "";
+    const eviction = status.persisted
+        ? " · Kept even when space runs low."
+        : " · The browser may clear it when space runs low.";
+    return `${place}${usage}${eviction}`;
+}
+
+function latencyLabel(profile: InputProfile, phase: CalibrationPhase): string {
+    if (phase === "listening") return "Press any key with each click…";
+    if (phase === "failed") return "Not enough presses on the beat; try again";
+    return `Latency ${profile.latencyMs} ms`;
+}
+
 interface SettingsPageProps {
     themeMode: ThemeMode;
-    midiInputs: MidiInputOption[];
+    inputSource: InputSourceKind;
+    midiInputs: NoteInputDevice[];
     midiDevice: string;
+    /** 1–16, or null for every channel. */
+    midiChannel: number | null;
+    midiOutputs: NoteInputDevice[];
+    midiOutputDevice: string;
+    midiHintMode: HintMode;
     midiConnected: boolean;
+    /** Corrections for the selected MIDI input, or null when none is selected. */
+    deviceProfile: InputProfile | null;
+    onDeviceProfileChange: (patch: Partial<InputProfile>) => void;
+    latencyCalibrationPhase: CalibrationPhase;
+    onLatencyCalibrationToggle: () => void;
+    microphoneLabel: string;
+    microphoneListening: boolean;
+    microphoneCalibrating: boolean;
+    onCalibrateMicrophone: () => void;
+    echoPlayedNotes: boolean;
+    playTargetOnMiss: boolean;
     onThemeModeChange: (value: ThemeMode) => void;
+    onInputSourceChange: (value: InputSourceKind) => void;
     onMidiDeviceChange: (value: string) => void;
+    onMidiChannelChange: (value: number | null) => void;
+    onMidiOutputDeviceChange: (value: string) => void;
+    onMidiHintModeChange: (value: HintMode) => void;
+    onEchoPlayedNotesChange: (value: boolean) => void;
+    onPlayTargetOnMissChange: (value: boolean) => void;
+    sessionRunCount: number;
+    backupStatus: BackupStatus | null;
+    /** Null until the storage backend has been checked. */
+    storageStatus: StorageStatus | null;
+    onKeepStorage: () => void;
+    onExportBackup: () => void;
+    onExportSessionCsv: () => void;
+    onRestoreBackup: (file: File, options: BackupRestoreOptions) => void;
     onOpenAbout: () => void;
     onBack: () => void;
 }
 
 export default function SettingsPage({
     themeMode,
+    inputSource,
     midiInputs,
     midiDevice,
+    midiChannel,
+    midiOutputs,
+    midiOutputDevice,
+    midiHintMode,
     midiConnected,
+    deviceProfile,
+    onDeviceProfileChange,
+    latencyCalibrationPhase,
+    onLatencyCalibrationToggle,
+    microphoneLabel,
+    microphoneListening,
+    microphoneCalibrating,
+    onCalibrateMicrophone,
+    echoPlayedNotes,
+    playTargetOnMiss,
     onThemeModeChange,
+    onInputSourceChange,
     onMidiDeviceChange,
+    onMidiChannelChange,
+    onMidiOutputDeviceChange,
+    onMidiHintModeChange,
+    onEchoPlayedNotesChange,
+    onPlayTargetOnMissChange,
+    sessionRunCount,
+    backupStatus,
+    storageStatus,
+    onKeepStorage,
+    onExportBackup,
+    onExportSessionCsv,
+    onRestoreBackup,
     onOpenAbout,
     onBack,
 }: SettingsPageProps) {
+    const [restoreMode, setRestoreMode] = useState<BackupImportMode>("merge");
+    const [restoreConflict, setRestoreConflict] = useState<BackupConflictPolicy>("keep-local");
+
+    const handleRestoreFile = (file: File) => {
+        if (restoreMode === "replace" && !window.confirm(REPLACE_CONFIRMATION)) return;
+        onRestoreBackup(file, { mode: restoreMode, conflict: restoreConflict });
+    };
+
     return (
         <div className="app-page settings-page">
             <AppTopBar
@@ -47,7 +165,26 @@ export default function SettingsPage({
                                 <div className="settings-icon-box">
                                     <span className="material-symbols-outlined">piano</span>
                                 </div>
-                                <h2>MIDI input device</h2>
+                                <h2>Note input</h2>
+                            </div>
+
+                            <label className="settings-field" htmlFor="input-source-select">
+                                Play with
+                            </label>
+
+                            <div className="select-wrap">
+                                <select
+                                    id="input-source-select"
+                                    value={inputSource}
+                                    onChange={(event) =>
+                                        onInputSourceChange(event.target.value as InputSourceKind)
+                                    }
+                                >
+                                    <option value="midi">MIDI keyboard</option>
+                                    <option value="virtual">On-screen piano &amp; computer keys</option>
+                                    <option value="microphone">Acoustic piano (microphone)</option>
+                                </select>
+                                <span className="material-symbols-outlined">expand_more</span>
                             </div>
 
                             <label className="settings-field" htmlFor="midi-device-select">
@@ -59,7 +196,7 @@ export default function SettingsPage({
                                     id="midi-device-select"
                                     value={midiDevice}
                                     onChange={(event) => onMidiDeviceChange(event.target.value)}
-                                    disabled={midiInputs.length === 0}
+                                    disabled={inputSource !== "midi" || midiInputs.length === 0}
                                 >
                                     {midiInputs.length === 0 ? (
                                         <option value="">No MIDI inputs detected</option>
@@ -74,19 +211,237 @@ export default function SettingsPage({
                                 <span className="material-symbols-outlined">expand_more</span>
                             </div>
 
-                            <div
-                                className={`device-status ${midiConnected ? "connected" : "disconnected"}`}
-                            >
-                                <span className="status-dot" aria-hidden />
-                                <span>{midiConnected ? "Device connected" : "No device detected"}</span>
+                            <label className="settings-field" htmlFor="midi-channel-select">
+                                MIDI channel
+                            </label>
+
+                            <div className="select-wrap">
+                                <select
+                                    id="midi-channel-select"
+                                    value={midiChannel ?? ""}
+                                    onChange={(event) =>
+                                        onMidiChannelChange(
+                                            event.target.value === "" ? null : Number(event.target.value),
+                                        )
+                                    }
+                                    disabled={inputSource !== "midi"}
+                                >
+                                    <option value="">All channels</option>
+                                    {MIDI_CHANNELS.map((channel) => (
+                                        <option key={channel} value={channel}>
+                                            Channel {channel}
+                                        </option>
+                                    ))}
+                                </select>
+                                <span className="material-symbols-outlined">expand_more</span>
                             </div>
 
+                            {inputSource === "midi" && deviceProfile ? (
+                                <>
+                                    <span className="settings-field">Device latency</span>
+
+                                    <div className="latency-row">
+                                        <div
+                                            className={`device-status ${latencyCalibrationPhase === "failed" ? "disconnected" : "connected"}`}
+                                        >
+                                            <span className="status-dot" aria-hidden />
+                                            <span>{latencyLabel(deviceProfile, latencyCalibrationPhase)}</span>
+                                        </div>
+
+                                        <button
+                                            type="button"
+                                            className="settings-about-button"
+                                            onClick={onLatencyCalibrationToggle}
+                                            disabled={!midiConnected}
+                                        >
+                                            <span className="material-symbols-outlined">timer</span>
+                                            <span>
+                                                {latencyCalibrationPhase === "listening" ? "Stop" : "Calibrate latency"}
+                                            </span>
+                                        </button>
+                                    </div>
+
+                                    <label className="settings-field" htmlFor="velocity-threshold-select">
+                                        Ignore notes softer than
+                                    </label>
+
+                                    <div className="select-wrap">
+                                        <select
+                                            id="velocity-threshold-select"
+                                            value={deviceProfile.velocityThreshold}
+                                            onChange={(event) =>
+                                                onDeviceProfileChange({
+                                                    velocityThreshold: Number(event.target.value),
+                                                })
+                                            }
+                                        >
+                                            {VELOCITY_THRESHOLD_OPTIONS.map((threshold) => (
+                                                <option key={threshold} value={threshold}>
+                                                    {threshold === 0 ? "Accept every note" : `Velocity ${threshold}`}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <span className="material-symbols-outlined">expand_more</span>
+                                    </div>
+
+                                    <label className="settings-field" htmlFor="transpose-select">
+                                        Transpose
+                                    </label>
+
+                                    <div className="select-wrap">
+                                        <select
+                                            id="transpose-select"
+                                            value={deviceProfile.transpose}
+                                            onChange={(event) =>
+                                                onDeviceProfileChange({ transpose: Number(event.target.value) })
+                                            }
+                                        >
+                                            {TRANSPOSE_OPTIONS.map((semitones) => (
+                                                <option key={semitones} value={semitones}>
+                                                    {transposeLabel(semitones)}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <span className="material-symbols-outlined">expand_more</span>
+                                    </div>
+                                </>
+                            ) : null}
+
+                            <label className="settings-field" htmlFor="midi-output-select">
+                                Send key hints to
+                            </label>
+
+                            <div className="select-wrap">
+                                <select
+                                    id="midi-output-select"
+                                    value={midiOutputDevice}
+                                    onChange={(event) => onMidiOutputDeviceChange(event.target.value)}
+                                >
+                                    <option value="">No output</option>
+                                    {midiOutputs.map((output) => (
+                                        <option key={output.id} value={output.id}>
+                                            {output.name}
+                                        </option>
+                                    ))}
+                                    {midiOutputDevice &&
+                                    !midiOutputs.some((output) => output.id === midiOutputDevice) ? (
+                                        <option value={midiOutputDevice}>Disconnected output</option>
+                                    ) : null}
+                                </select>
+                                <span className="material-symbols-outlined">expand_more</span>
+                            </div>
+
+                            <label className="settings-field" htmlFor="midi-hint-select">
+                                Key hints
+                            </label>
+
+                            <div className="select-wrap">
+                                <select
+                                    id="midi-hint-select"
+                                    value={midiHintMode}
+                                    onChange={(event) => onMidiHintModeChange(event.target.value as HintMode)}
+                                    disabled={!midiOutputDevice}
+                                >
+                                    <option value="off">Off</option>
+                                    <option value="stuck">Light the answer when I'm stuck</option>
+                                    <option value="guided">Guided: always light the next key</option>
+                                </select>
+                                <span className="material-symbols-outlined">expand_more</span>
+                            </div>
+
+                            {inputSource === "microphone" ? (
+                                <div className="microphone-row">
+                                    <div
+                                        className={`device-status ${microphoneListening ? "connected" : "disconnected"}`}
+                                    >
+                                        <span className="status-dot" aria-hidden />
+                                        <span>{microphoneLabel}</span>
+                                    </div>
+
+                                    <button
+                                        type="button"
+                                        className="settings-about-button"
+                                        onClick={onCalibrateMicrophone}
+                                        disabled={!microphoneListening || microphoneCalibrating}
+                                    >
+                                        <span className="material-symbols-outlined">mic</span>
+                                        <span>{microphoneCalibrating ? "Listening… stay quiet" : "Calibrate"}</span>
+                                    </button>
+                                </div>
+                            ) : (
+                                <div
+                                    className={`device-status ${midiConnected ? "connected" : "disconnected"}`}
+                                >
+                                    <span className="status-dot" aria-hidden />
+                                    <span>{midiConnected ? "Device connected" : "No device detected"}</span>
+                                </div>
+                            )}
+
                             <div className="settings-info">
                                 <span className="material-symbols-outlined">info</span>
-                                <p>
-                                    If your keyboard isn't showing up, try reconnecting the USB cable
-                                    or refreshing the page.
-                                </p>
+                                {inputSource === "midi" ? (
+                                    <p>
+                                        If your keyboard isn't showing up, try reconnecting the USB cable
+                                        or refreshing the page. Latency, ghost-note filtering and
+                                        transpose are remembered for each keyboard. Key hints are sent
+                                        as very soft notes, which lighted-key keyboards show on their keys.
+                                    </p>
+                                ) : inputSource === "microphone" ? (
+                                    <p>
+                                        Place the device near the piano and calibrate in a quiet room.
+                                        The microphone hears one note at a time, so play chords as
+                                        broken chords; each note keeps counting until the whole chord
+                                        has been heard.
+                                    </p>
+                                ) : (
+                                    <p>
+                                        Tap the on-screen piano, or play A–; on your computer keyboard
+                                        (W, E, T, Y, U, O, P for sharps). Z and X shift the octave.
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+
+                        <div className="settings-section">
+                            <div className="settings-title">
+                                <div className="settings-icon-box">
+                                    <span className="material-symbols-outlined">volume_up</span>
+                                </div>
+                                <h2>Sound</h2>
+                            </div>
+
+                            <div className="toggle-row">
+                                <div>
+                                    <h3>Echo played notes</h3>
+                                    <p>Sound each key you press, for keyboards without speakers.</p>
+                                </div>
+                                <label className="switch">
+                                    <input
+                                        type="checkbox"
+                                        className="toggle-input"
+                                        checked={echoPlayedNotes}
+                                        onChange={(event) => onEchoPlayedNotesChange(event.target.checked)}
+                                        aria-label="Echo played notes"
+                                    />
+                                    <span className="toggle-track" aria-hidden />
+                                </label>
+                            </div>
+
+                            <div className="toggle-row">
+                                <div>
+                                    <h3>Play target after a miss</h3>
+                                    <p>Hear the note you should have played when you press a wrong key.</p>
+                                </div>
+                                <label className="switch">
+                                    <input
+                                        type="checkbox"
+                                        className="toggle-input"
+                                        checked={playTargetOnMiss}
+                                        onChange={(event) => onPlayTargetOnMissChange(event.target.checked)}
+                                        aria-label="Play target after a miss"
+                                    />
+                                    <span className="toggle-track" aria-hidden />
+                                </label>
                             </div>
                         </div>
 
@@ -121,6 +476,118 @@ export default function SettingsPage({
                             </div>
                         </div>
 
+                        <div className="settings-section">
+                            <div className="settings-title">
+                                <div className="settings-icon-box">
+                                    <span className="material-symbols-outlined">database</span>
+                                </div>
+                                <h2>Your data</h2>
+                            </div>
+
+                            <div className="toggle-row">
+                                <div>
+                                    <h3>On this device</h3>
+                                    <p>{storageSummary(storageStatus)}</p>
+                                </div>
+                                {storageStatus?.persisted === false && storageStatus.backend !== "memory" ? (
+                                    <button type="button" className="settings-about-button" onClick={onKeepStorage}>
+                                        <span className="material-symbols-outlined">lock</span>
+                                        <span>Keep my data</span>
+                                    </button>
+                                ) : null}
+                            </div>
+
+                            <div className="toggle-row">
+                                <div>
+                                    <h3>Back up everything</h3>
+                                    <p>
+                                        Download settings, sessions, trainings, pieces and keyboard
+                                        profiles as one JSON file.
+                                    </p>
+                                </div>
+                                <button type="button" className="settings-about-button" onClick={onExportBackup}>
+                                    <span className="material-symbols-outlined">download</span>
+                                    <span>Export backup</span>
+                                </button>
+                            </div>
+
+                            <div className="toggle-row">
+                                <div>
+                                    <h3>Session history</h3>
+                                    <p>A spreadsheet of every session with its score and setup.</p>
+                                </div>
+                                <button
+                                    type="button"
+                                    className="settings-about-button"
+                                    onClick={onExportSessionCsv}
+                                    disabled={sessionRunCount === 0}
+                                >
+                                    <span className="material-symbols-outlined">table_view</span>
+                                    <span>Export CSV</span>
+                                </button>
+                            </div>
+
+                            <label className="settings-field" htmlFor="restore-mode-select">
+                                Restoring a backup
+                            </label>
+
+                            <div className="select-wrap">
+                                <select
+                                    id="restore-mode-select"
+                                    value={restoreMode}
+                                    onChange={(event) => setRestoreMode(event.target.value as BackupImportMode)}
+                                >
+                                    <option value="merge">Merge with the data on this device</option>
+                                    <option value="replace">Replace everything on this device</option>
+                                </select>
+                                <span className="material-symbols-outlined">expand_more</span>
+                            </div>
+
+                            {restoreMode === "merge" ? (
+                                <>
+                                    <label className="settings-field" htmlFor="restore-conflict-select">
+                                        When a record exists in both
+                                    </label>
+
+                                    <div className="select-wrap">
+                                        <select
+                                            id="restore-conflict-select"
+                                            value={restoreConflict}
+                                            onChange={(event) =>
+                                                setRestoreConflict(event.target.value as BackupConflictPolicy)
+                                            }
+                                        >
+                                            <option value="keep-local">Keep this device's copy</option>
+                                            <option value="use-backup">Use the backup's copy</option>
+                                        </select>
+                                        <span className="material-symbols-outlined">expand_more</span>
+                                    </div>
+                                </>
+                            ) : null}
+
+                            <div className="backup-restore-row">
+                                <label className="settings-about-button">
+                                    <span className="material-symbols-outlined">upload_file</span>
+                                    <span>Restore from file</span>
+                                    <input
+                                        type="file"
+                                        accept="application/json,.json"
+                                        onChange={(event) => {
+                                            const file = event.target.files?.[0];
+                                            if (file) handleRestoreFile(file);
+                                            event.target.value = "";
+                                        }}
+                                    />
+                                </label>
+
+                                {backupStatus ? (
+                                    <p className={`backup-status ${backupStatus.kind}`} role="status">
+                                        {backupStatus.message}
+                                    </p>
+                                ) : null}
+                            </div>
+                        </div>
+
                         <div className="settings-bottom-row">
                             <button type="button" className="settings-about-button" onClick={onOpenAbout}>
                                 <span className="material-symbols-outlined">info</span>
@@ -1 +1,9 @@
 export { default as SettingsPage } from "./components/SettingsPage";
+export type {
+  BackupConflictPolicy,
+  BackupImportMode,
+  BackupRestoreOptions,
+  BackupStatus,
+  InputSourceKind,
+  ThemeMode,
+} from "./types";
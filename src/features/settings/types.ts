@@ -1 +1,28 @@
 export type ThemeMode = "light" | "dark" | "system";
+
+/**
+ * Where notes come from: a MIDI device, the on-screen piano plus computer
+ * keys, or an acoustic piano heard through the microphone.
+ */
+export type InputSourceKind = "midi" | "virtual" | "microphone";
+
+/**
+ * How a restored backup meets the data already on this device:
+ *   merge   — add the backup's records alongside the existing ones
+ *   replace — clear every store first, so the device matches the backup
+ */
+export type BackupImportMode = "merge" | "replace";
+
+/** When merging, which copy wins for records that share an id. */
+export type BackupConflictPolicy = "keep-local" | "use-backup";
+
+export interface BackupRestoreOptions {
+    mode: BackupImportMode;
+    conflict: BackupConflictPolicy;
+}
+
+/** Outcome of the last export or restore, shown in the data section. */
+export interface BackupStatus {
+    kind: "success" | "error";
+    message: string;
+}
@@ -1,8 +1,36 @@
 import { useState } from "react";
-import type { NoteName } from "../../../entities/score";
-import { MAX_TOTAL_NOTES, MIN_TOTAL_NOTES } from "../constants";
+import {
+    INTERVAL_SIZES,
+    KEY_SIGNATURES,
+    TIME_SIGNATURES,
+    type HandMode,
+    type KeySignatureName,
+    type MelodicContour,
+    type MelodicMotion,
+    type NoteName,
+    type RhythmLevel,
+    type Texture,
+    type TimeSignatureName,
+} from "../../../entities/score";
+import { MidiImportForm, SCORE_FILE_ACCEPT, type MidiFile, type MidiImportOptions } from "../../library";
+import type { Subdivision } from "../../metronome";
+import type { PracticeMode } from "../../session";
+import {
+    ACCIDENTAL_DENSITY_OPTIONS,
+    CONTOUR_OPTIONS,
+    DEFAULT_MELODIC_INTERVALS,
+    HAND_MODE_OPTIONS,
+    INTERVAL_LABELS,
+    MAX_TOTAL_NOTES,
+    MIN_TOTAL_NOTES,
+    PRACTICE_MODE_OPTIONS,
+    RHYTHM_OPTIONS,
+    STEP_RATIO_OPTIONS,
+    SUBDIVISION_OPTIONS,
+    TEXTURE_OPTIONS,
+} from "../constants";
 import type { Training } from "../config/trainings";
-import type { PreviousSessionItem } from "../types";
+import type { PieceItem, PreviousSessionItem } from "../types";
 import AppTopBar from "../../../shared/ui/components/AppTopBar";
 import KeyStepper from "./KeyStepper";
 
@@ -13,6 +41,37 @@ interface GeneratorSetupPageProps {
     maxNote: NoteName;
     totalNotes: number;
     rangeSummary: string;
+    keySignature: KeySignatureName;
+    keySummary: string;
+    accidentalDensity: number;
+    onKeySignatureChange: (value: KeySignatureName) => void;
+    onAccidentalDensityChange: (value: number) => void;
+    texture: Texture;
+    intervals: number[];
+    inversions: boolean;
+    onTextureChange: (value: Texture) => void;
+    onIntervalsChange: (value: number[]) => void;
+    onInversionsChange: (value: boolean) => void;
+    adaptive: boolean;
+    onAdaptiveChange: (value: boolean) => void;
+    motion: MelodicMotion;
+    onMotionChange: (value: MelodicMotion) => void;
+    hands: HandMode;
+    onHandsChange: (value: HandMode) => void;
+    timeSignature: TimeSignatureName;
+    rhythm: RhythmLevel;
+    practiceMode: PracticeMode;
+    tempo: number;
+    onTimeSignatureChange: (value: TimeSignatureName) => void;
+    onRhythmChange: (value: RhythmLevel) => void;
+    onPracticeModeChange: (value: PracticeMode) => void;
+    onDecreaseTempo: () => void;
+    onIncreaseTempo: () => void;
+    onTapTempo: () => void;
+    subdivision: Subdivision;
+    countIn: boolean;
+    onSubdivisionChange: (value: Subdivision) => void;
+    onCountInChange: (value: boolean) => void;
     selectedRangeLeftPercent: number;
     selectedRangeWidthPercent: number;
     onDecreaseMinNote: () => void;
@@ -25,11 +84,24 @@ interface GeneratorSetupPageProps {
     onStartSession: () => void;
     onOpenSettings: () => void;
     previousSessions: PreviousSessionItem[];
+    /** Whether older sessions exist beyond `previousSessions`. */
+    hasMorePreviousSessions: boolean;
+    onShowMorePreviousSessions: () => void;
     onLoadPreviousSession: (sessionId: string) => void;
+    onOpenProgress: () => void;
     trainings: readonly Training[];
     onLoadTraining: (trainingId: string) => void;
     onSaveTraining: (title: string) => void;
     onDeleteTraining: (trainingId: string) => void;
+    pieces: readonly PieceItem[];
+    activePieceId: string | null;
+    pieceImportError: string | null;
+    pendingMidiImport: { fileName: string; file: MidiFile } | null;
+    onImportPiece: (file: File) => void;
+    onConfirmMidiImport: (options: MidiImportOptions) => void;
+    onCancelMidiImport: () => void;
+    onStartPiece: (pieceId: string) => void;
+    onDeletePiece: (pieceId: string) => void;
 }
 
 export default function GeneratorSetupPage({
@@ -39,6 +111,37 @@ export default function GeneratorSetupPage({
     maxNote,
     totalNotes,
     rangeSummary,
+    keySignature,
+    keySummary,
+    accidentalDensity,
+    onKeySignatureChange,
+    onAccidentalDensityChange,
+    texture,
+    intervals,
+    inversions,
+    onTextureChange,
+    onIntervalsChange,
+    onInversionsChange,
+    adaptive,
+    onAdaptiveChange,
+    motion,
+    onMotionChange,
+    hands,
+    onHandsChange,
+    timeSignature,
+    rhythm,
+    practiceMode,
+    tempo,
+    onTimeSignatureChange,
+    onRhythmChange,
+    onPracticeModeChange,
+    onDecreaseTempo,
+    onIncreaseTempo,
+    onTapTempo,
+    subdivision,
+    countIn,
+    onSubdivisionChange,
+    onCountInChange,
     selectedRangeLeftPercent,
     selectedRangeWidthPercent,
     onDecreaseMinNote,
@@ -51,11 +154,23 @@ export default function GeneratorSetupPage({
     onStartSession,
     onOpenSettings,
     previousSessions,
+    hasMorePreviousSessions,
+    onShowMorePreviousSessions,
     onLoadPreviousSession,
+    onOpenProgress,
     trainings,
     onLoadTraining,
     onSaveTraining,
     onDeleteTraining,
+    pieces,
+    activePieceId,
+    pieceImportError,
+    pendingMidiImport,
+    onImportPiece,
+    onConfirmMidiImport,
+    onCancelMidiImport,
+    onStartPiece,
+    onDeletePiece,
 }: GeneratorSetupPageProps) {
     const [showSaveForm, setShowSaveForm] = useState(false);
     const [saveTitle, setSaveTitle] = useState("");
@@ -68,6 +183,43 @@ export default function GeneratorSetupPage({
         setShowSaveForm(false);
     };
 
+    const textureLabel =
+        TEXTURE_OPTIONS.find((option) => option.value === texture)?.label ?? "Single notes";
+    const handsLabel =
+        HAND_MODE_OPTIONS.find((option) => option.value === hands)?.label ?? "One line";
+    const rhythmLabel =
+        RHYTHM_OPTIONS.find((option) => option.value === rhythm)?.label ?? "Quarter notes";
+    const contour = motion.contour ?? "free";
+    const contourLabel =
+        CONTOUR_OPTIONS.find((option) => option.value === contour)?.label ?? "Free";
+    const motionSummary =
+        contour === "free" && motion.maxInterval
+            ? `${contourLabel} · Up to a ${INTERVAL_LABELS[motion.maxInterval]}`
+            : contourLabel;
+    const timingSummary =
+        practiceMode === "timed"
+            ? `${timeSignature} · ${tempo} BPM`
+            : `${timeSignature} · Untimed`;
+
+    const toggleInterval = (size: number) => {
+        if (intervals.includes(size)) {
+            if (intervals.length === 1) return;
+            onIntervalsChange(intervals.filter((value) => value !== size));
+            return;
+        }
+        onIntervalsChange([...intervals, size].sort((left, right) => left - right));
+    };
+
+    const toggleMelodicInterval = (size: number) => {
+        const current = motion.intervals ?? [];
+        if (current.includes(size)) {
+            if (current.length === 1) return;
+            onMotionChange({ ...motion, intervals: current.filter((value) => value !== size) });
+            return;
+        }
+        onMotionChange({ ...motion, intervals: [...current, size].sort((left, right) => left - right) });
+    };
+
     const renderTrainingsPanelContent = () => (
         <>
             <div className="section-head">
@@ -115,6 +267,81 @@ export default function GeneratorSetupPage({
                     ))}
                 </ul>
             )}
+
+            <div className="pieces-section">
+                <div className="section-head">
+                    <div>
+                        <p className="section-kicker">Library</p>
+                        <h2>Your pieces</h2>
+                    </div>
+                    <label className="piece-import-button">
+                        <span className="material-symbols-outlined">upload_file</span>
+                        <span>Import</span>
+                        <input
+                            type="file"
+                            accept={SCORE_FILE_ACCEPT}
+                            onChange={(event) => {
+                                const file = event.target.files?.[0];
+                                if (file) onImportPiece(file);
+                                event.target.value = "";
+                            }}
+                        />
+                    </label>
+                </div>
+
+                {pieceImportError ? (
+                    <p className="piece-import-error" role="alert">{pieceImportError}</p>
+                ) : null}
+
+                {pendingMidiImport ? (
+                    <MidiImportForm
+                        key={pendingMidiImport.fileName}
+                        fileName={pendingMidiImport.fileName}
+                        file={pendingMidiImport.file}
+                        onConfirm={onConfirmMidiImport}
+                        onCancel={onCancelMidiImport}
+                    />
+                ) : null}
+
+                {pieces.length === 0 ? (
+                    <p className="trainings-empty">Import a MusicXML or MIDI file to practice real repertoire.</p>
+                ) : (
+                    <ul className="trainings-list">
+                        {pieces.map((piece) => (
+                            <li
+                                key={piece.id}
+                                className={`training-item${piece.id === activePieceId ? " active" : ""}`}
+                            >
+                                <div className="training-meta">
+                                    <h3>{piece.title}</h3>
+                                    <p className="mono">
+                                        {piece.fileName} · {piece.stepCount} steps
+                                    </p>
+                                </div>
+
+                                <div className="training-actions">
+                                    <button
+                                        type="button"
+                                        className="training-load-button"
+                                        onClick={() => onStartPiece(piece.id)}
+                                        aria-label={`Practice ${piece.title}`}
+                                    >
+                                        Practice
+                                    </button>
+                                    <button
+                                        type="button"
+                                        className="training-delete-button"
+                                        onClick={() => onDeletePiece(piece.id)}
+                                        aria-label={`Delete piece ${piece.title}`}
+                                    >
+                                        <span className="material-symbols-outlined">delete</span>
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
         </>
     );
 
@@ -125,6 +352,12 @@ export default function GeneratorSetupPage({
                     <p className="section-kicker">History</p>
                     <h2>Previous sessions</h2>
                 </div>
+
+                {previousSessions.length > 0 ? (
+                    <button type="button" className="section-summary" onClick={onOpenProgress}>
+                        View progress
+                    </button>
+                ) : null}
             </div>
 
             {previousSessions.length === 0 ? (
@@ -161,6 +394,16 @@ export default function GeneratorSetupPage({
                     })}
                 </ul>
             )}
+
+            {hasMorePreviousSessions ? (
+                <button
+                    type="button"
+                    className="previous-sessions-more"
+                    onClick={onShowMorePreviousSessions}
+                >
+                    Show older sessions
+                </button>
+            ) : null}
         </>
     );
 
@@ -177,6 +420,15 @@ export default function GeneratorSetupPage({
                             <span className="midi-chip-label">{midiLabel}</span>
                         </div>
 
+                        <button
+                            type="button"
+                            className="icon-button"
+                            aria-label="Open progress"
+                            onClick={onOpenProgress}
+                        >
+                            <span className="material-symbols-outlined">insights</span>
+                        </button>
+
                         <button
                             type="button"
                             className="icon-button"
@@ -280,6 +532,423 @@ export default function GeneratorSetupPage({
                                             />
                                         </div>
                                     </div>
+
+                                    <label className="setup-checkbox">
+                                        <input
+                                            type="checkbox"
+                                            checked={adaptive}
+                                            onChange={(event) => onAdaptiveChange(event.target.checked)}
+                                        />
+                                        <span>Focus on notes I often misread</span>
+                                    </label>
+                                </div>
+
+                                <div className="setup-section">
+                                    <div className="section-head">
+                                        <div>
+                                            <p className="section-kicker">Tonality</p>
+                                            <h2>Key signature</h2>
+                                        </div>
+                                        <span className="section-summary mono">{keySummary}</span>
+                                    </div>
+
+                                    <div className="key-grid">
+                                        <div className="key-stepper">
+                                            <label className="key-label" htmlFor="key-signature-select">
+                                                Key
+                                            </label>
+                                            <div className="select-wrap">
+                                                <select
+                                                    id="key-signature-select"
+                                                    value={keySignature}
+                                                    onChange={(event) =>
+                                                        onKeySignatureChange(event.target.value as KeySignatureName)
+                                                    }
+                                                >
+                                                    <optgroup label="Major">
+                                                        {KEY_SIGNATURES.filter((key) => key.mode === "major").map((key) => (
+                                                            <option key={key.name} value={key.name}>
+                                                                {key.label}
+                                                            </option>
+                                                        ))}
+                                                    </optgroup>
+                                                    <optgroup label="Minor">
+                                                        {KEY_SIGNATURES.filter((key) => key.mode === "minor").map((key) => (
+                                                            <option key={key.name} value={key.name}>
+                                                                {key.label}
+                                                            </option>
+                                                        ))}
+                                                    </optgroup>
+                                                </select>
+                                                <span className="material-symbols-outlined">expand_more</span>
+                                            </div>
+                                        </div>
+
+                                        <div className="key-stepper">
+                                            <label className="key-label" htmlFor="accidental-density-select">
+                                                Accidentals
+                                            </label>
+                                            <div className="select-wrap">
+                                                <select
+                                                    id="accidental-density-select"
+                                                    value={accidentalDensity}
+                                                    onChange={(event) =>
+                                                        onAccidentalDensityChange(Number(event.target.value))
+                                                    }
+                                                >
+                                                    {ACCIDENTAL_DENSITY_OPTIONS.map((option) => (
+                                                        <option key={option.value} value={option.value}>
+                                                            {option.label}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <span className="material-symbols-outlined">expand_more</span>
+                                            </div>
+                                        </div>
+                                    </div>
+                                </div>
+
+                                <div className="setup-section">
+                                    <div className="section-head">
+                                        <div>
+                                            <p className="section-kicker">Texture</p>
+                                            <h2>Notes per step</h2>
+                                        </div>
+                                        <span className="section-summary mono">
+                                            {textureLabel} · {handsLabel}
+                                        </span>
+                                    </div>
+
+                                    <div className="key-grid">
+                                        <div className="key-stepper">
+                                            <label className="key-label" htmlFor="texture-select">
+                                                Texture
+                                            </label>
+                                            <div className="select-wrap">
+                                                <select
+                                                    id="texture-select"
+                                                    value={texture}
+                                                    onChange={(event) => onTextureChange(event.target.value as Texture)}
+                                                >
+                                                    {TEXTURE_OPTIONS.map((option) => (
+                                                        <option key={option.value} value={option.value}>
+                                                            {option.label}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <span className="material-symbols-outlined">expand_more</span>
+                                            </div>
+                                        </div>
+
+                                        <div className="key-stepper">
+                                            <label className="key-label" htmlFor="hand-mode-select">
+                                                Hands
+                                            </label>
+                                            <div className="select-wrap">
+                                                <select
+                                                    id="hand-mode-select"
+                                                    value={hands}
+                                                    onChange={(event) => onHandsChange(event.target.value as HandMode)}
+                                                >
+                                                    {HAND_MODE_OPTIONS.map((option) => (
+                                                        <option key={option.value} value={option.value}>
+                                                            {option.label}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <span className="material-symbols-outlined">expand_more</span>
+                                            </div>
+                                            <span className="key-hint">
+                                                Both hands splits the range at middle C
+                                            </span>
+                                        </div>
+                                    </div>
+
+                                    {texture === "intervals" ? (
+                                        <div className="interval-chips" role="group" aria-label="Intervals">
+                                            {INTERVAL_SIZES.map((size) => (
+                                                <button
+                                                    key={size}
+                                                    type="button"
+                                                    className={`interval-chip ${intervals.includes(size) ? "active" : ""}`}
+                                                    aria-pressed={intervals.includes(size)}
+                                                    onClick={() => toggleInterval(size)}
+                                                >
+                                                    {INTERVAL_LABELS[size]}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    ) : null}
+
+                                    {texture === "triads" || texture === "sevenths" ? (
+                                        <label className="setup-checkbox">
+                                            <input
+                                                type="checkbox"
+                                                checked={inversions}
+                                                onChange={(event) => onInversionsChange(event.target.checked)}
+                                            />
+                                            <span>Include inversions</span>
+                                        </label>
+                                    ) : null}
+                                </div>
+
+                                <div className="setup-section">
+                                    <div className="section-head">
+                                        <div>
+                                            <p className="section-kicker">Motion</p>
+                                            <h2>Melodic line</h2>
+                                        </div>
+                                        <span className="section-summary mono">{motionSummary}</span>
+                                    </div>
+
+                                    <div className="key-grid">
+                                        <div className="key-stepper">
+                                            <label className="key-label" htmlFor="contour-select">
+                                                Contour
+                                            </label>
+                                            <div className="select-wrap">
+                                                <select
+                                                    id="contour-select"
+                                                    value={contour}
+                                                    onChange={(event) =>
+                                                        onMotionChange({
+                                                            ...motion,
+                                                            contour: event.target.value as MelodicContour,
+                                                        })
+                                                    }
+                                                >
+                                                    {CONTOUR_OPTIONS.map((option) => (
+                                                        <option key={option.value} value={option.value}>
+                                                            {option.label}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <span className="material-symbols-outlined">expand_more</span>
+                                            </div>
+                                            {contour !== "free" ? (
+                                                <span className="key-hint">
+                                                    Patterns turn around at the edges of the range
+                                                </span>
+                                            ) : null}
+                                        </div>
+
+                                        {contour === "free" ? (
+                                            <>
+                                                <div className="key-stepper">
+                                                    <label className="key-label" htmlFor="max-interval-select">
+                                                        Largest leap
+                                                    </label>
+                                                    <div className="select-wrap">
+                                                        <select
+                                                            id="max-interval-select"
+                                                            value={motion.maxInterval ?? ""}
+                                                            onChange={(event) =>
+                                                                onMotionChange({
+                                                                    ...motion,
+                                                                    maxInterval: event.target.value
+                                                                        ? Number(event.target.value)
+                                                                        : undefined,
+                                                                })
+                                                            }
+                                                        >
+                                                            <option value="">Any</option>
+                                                            {INTERVAL_SIZES.map((size) => (
+                                                                <option key={size} value={size}>
+                                                                    {INTERVAL_LABELS[size]}
+                                                                </option>
+                                                            ))}
+                                                        </select>
+                                                        <span className="material-symbols-outlined">expand_more</span>
+                                                    </div>
+                                                </div>
+
+                                                <div className="key-stepper">
+                                                    <label className="key-label" htmlFor="step-ratio-select">
+                                                        Steps and leaps
+                                                    </label>
+                                                    <div className="select-wrap">
+                                                        <select
+                                                            id="step-ratio-select"
+                                                            value={motion.stepRatio ?? ""}
+                                                            onChange={(event) =>
+                                                                onMotionChange({
+                                                                    ...motion,
+                                                                    stepRatio: event.target.value
+                                                                        ? Number(event.target.value)
+                                                                        : undefined,
+                                                                })
+                                                            }
+                                                        >
+                                                            {STEP_RATIO_OPTIONS.map((option) => (
+                                                                <option key={option.label} value={option.value ?? ""}>
+                                                                    {option.label}
+                                                                </option>
+                                                            ))}
+                                                        </select>
+                                                        <span className="material-symbols-outlined">expand_more</span>
+                                                    </div>
+                                                </div>
+                                            </>
+                                        ) : null}
+                                    </div>
+
+                                    {contour === "free" ? (
+                                        <label className="setup-checkbox">
+                                            <input
+                                                type="checkbox"
+                                                checked={motion.intervals !== undefined}
+                                                onChange={(event) =>
+                                                    onMotionChange({
+                                                        ...motion,
+                                                        intervals: event.target.checked
+                                                            ? DEFAULT_MELODIC_INTERVALS
+                                                            : undefined,
+                                                    })
+                                                }
+                                            />
+                                            <span>Intervals only</span>
+                                        </label>
+                                    ) : null}
+
+                                    {contour === "free" && motion.intervals ? (
+                                        <div className="interval-chips" role="group" aria-label="Melodic intervals">
+                                            {INTERVAL_SIZES.map((size) => (
+                                                <button
+                                                    key={size}
+                                                    type="button"
+                                                    className={`interval-chip ${motion.intervals?.includes(size) ? "active" : ""}`}
+                                                    aria-pressed={motion.intervals?.includes(size)}
+                                                    onClick={() => toggleMelodicInterval(size)}
+                                                >
+                                                    {INTERVAL_LABELS[size]}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    ) : null}
+                                </div>
+
+                                <div className="setup-section">
+                                    <div className="section-head">
+                                        <div>
+                                            <p className="section-kicker">Timing</p>
+                                            <h2>Rhythm and tempo</h2>
+                                        </div>
+                                        <span className="section-summary mono">{timingSummary}</span>
+                                    </div>
+
+                                    <div className="key-grid">
+                                        <div className="key-stepper">
+                                            <label className="key-label" htmlFor="time-signature-select">
+                                                Time signature
+                                            </label>
+                                            <div className="select-wrap">
+                                                <select
+                                                    id="time-signature-select"
+                                                    value={timeSignature}
+                                                    onChange={(event) =>
+                                                        onTimeSignatureChange(event.target.value as TimeSignatureName)
+                                                    }
+                                                >
+                                                    {TIME_SIGNATURES.map((name) => (
+                                                        <option key={name} value={name}>
+                                                            {name}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <span className="material-symbols-outlined">expand_more</span>
+                                            </div>
+                                        </div>
+
+                                        <div className="key-stepper">
+                                            <label className="key-label" htmlFor="rhythm-select">
+                                                Rhythm
+                                            </label>
+                                            <div className="select-wrap">
+                                                <select
+                                                    id="rhythm-select"
+                                                    value={rhythm}
+                                                    onChange={(event) => onRhythmChange(event.target.value as RhythmLevel)}
+                                                >
+                                                    {RHYTHM_OPTIONS.map((option) => (
+                                                        <option key={option.value} value={option.value}>
+                                                            {option.label}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <span className="material-symbols-outlined">expand_more</span>
+                                            </div>
+                                        </div>
+
+                                        <div className="key-stepper">
+                                            <label className="key-label" htmlFor="practice-mode-select">
+                                                Cursor
+                                            </label>
+                                            <div className="select-wrap">
+                                                <select
+                                                    id="practice-mode-select"
+                                                    value={practiceMode}
+                                                    onChange={(event) =>
+                                                        onPracticeModeChange(event.target.value as PracticeMode)
+                                                    }
+                                                >
+                                                    {PRACTICE_MODE_OPTIONS.map((option) => (
+                                                        <option key={option.value} value={option.value}>
+                                                            {option.label}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <span className="material-symbols-outlined">expand_more</span>
+                                            </div>
+                                            <span className="key-hint">
+                                                Play in time moves on with the beat
+                                            </span>
+                                        </div>
+
+                                        <KeyStepper
+                                            label="Tempo"
+                                            value={`${tempo} BPM`}
+                                            hint="Sets the timed cursor and the metronome"
+                                            onDecrease={onDecreaseTempo}
+                                            onIncrease={onIncreaseTempo}
+                                        />
+
+                                        <div className="key-stepper">
+                                            <label className="key-label" htmlFor="subdivision-select">
+                                                Metronome clicks
+                                            </label>
+                                            <div className="select-wrap">
+                                                <select
+                                                    id="subdivision-select"
+                                                    value={subdivision}
+                                                    onChange={(event) =>
+                                                        onSubdivisionChange(Number(event.target.value) as Subdivision)
+                                                    }
+                                                >
+                                                    {SUBDIVISION_OPTIONS.map((option) => (
+                                                        <option key={option.value} value={option.value}>
+                                                            {option.label}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                                <span className="material-symbols-outlined">expand_more</span>
+                                            </div>
+                                        </div>
+                                    </div>
+
+                                    <div className="setup-inline-row">
+                                        <button type="button" className="tap-tempo-button" onClick={onTapTempo}>
+                                            Tap tempo
+                                        </button>
+
+                                        <label className="setup-checkbox">
+                                            <input
+                                                type="checkbox"
+                                                checked={countIn}
+                                                onChange={(event) => onCountInChange(event.target.checked)}
+                                            />
+                                            <span>Count in one bar</span>
+                                        </label>
+                                    </div>
                                 </div>
 
                                 <div className="setup-section">
@@ -334,6 +1003,22 @@ export default function GeneratorSetupPage({
                                             <dt>Range</dt>
                                             <dd className="mono">{rangeSummary}</dd>
                                         </div>
+                                        <div>
+                                            <dt>Key</dt>
+                                            <dd className="mono">{keySummary}</dd>
+                                        </div>
+                                        <div>
+                                            <dt>Texture</dt>
+                                            <dd className="mono">
+                                                {textureLabel} · {handsLabel}
+                                            </dd>
+                                        </div>
+                                        <div>
+                                            <dt>Rhythm</dt>
+                                            <dd className="mono">
+                                                {rhythmLabel} · {timingSummary}
+                                            </dd>
+                                        </div>
                                         <div>
                                             <dt>Total</dt>
                                             <dd className="mono">{totalNotes} notes</dd>
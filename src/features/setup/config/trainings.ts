@@ -1,4 +1,4 @@
-import type { NoteName } from "../../../entities/score";
+import type { MelodicMotion, NoteName } from "../../../entities/score";
 
 export type Training = {
     id: string;
@@ -6,6 +6,7 @@ export type Training = {
     minNote: NoteName;
     maxNote: NoteName;
     totalNotes: number;
+    motion?: MelodicMotion;
 };
 
 export const TRAININGS: readonly Training[] = [
@@ -16,4 +17,28 @@ export const TRAININGS: readonly Training[] = [
     { id: "bass-low-middle", title: "Bass low–middle", minNote: "E2", maxNote: "E4", totalNotes: 100 },
     { id: "grand-staff-mod", title: "Grand staff moderate", minNote: "E2", maxNote: "G5", totalNotes: 200 },
     { id: "grand-staff-wide", title: "Grand staff wide", minNote: "C2", maxNote: "C6", totalNotes: 260 },
+    {
+        id: "treble-stepwise",
+        title: "Treble stepwise",
+        minNote: "C4",
+        maxNote: "G5",
+        totalNotes: 100,
+        motion: { contour: "free", maxInterval: 3, stepRatio: 0.8 },
+    },
+    {
+        id: "treble-thirds-fifths",
+        title: "Treble 3rds and 5ths",
+        minNote: "C4",
+        maxNote: "G5",
+        totalNotes: 100,
+        motion: { contour: "free", intervals: [3, 5] },
+    },
+    {
+        id: "bass-arpeggios",
+        title: "Bass arpeggios",
+        minNote: "E2",
+        maxNote: "C4",
+        totalNotes: 100,
+        motion: { contour: "arpeggio" },
+    },
 ] as const;
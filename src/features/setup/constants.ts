@@ -1,7 +1,104 @@
-import type { NoteName } from "../../entities/score";
+import type {
+  HandMode,
+  KeySignatureName,
+  MelodicContour,
+  MelodicMotion,
+  NoteName,
+  RhythmLevel,
+  Texture,
+  TimeSignatureName,
+} from "../../entities/score";
+import type { Subdivision } from "../metronome";
+import type { PracticeMode } from "../session";
 
 export const MIN_TOTAL_NOTES = 10;
 export const MAX_TOTAL_NOTES = 5000;
 export const DEFAULT_TOTAL_NOTES = 100;
 export const DEFAULT_MIN_NOTE: NoteName = "C4";
 export const DEFAULT_MAX_NOTE: NoteName = "C5";
+export const DEFAULT_KEY_SIGNATURE: KeySignatureName = "C";
+export const DEFAULT_ACCIDENTAL_DENSITY = 0;
+
+export const ACCIDENTAL_DENSITY_OPTIONS: readonly { value: number; label: string }[] = [
+  { value: 0, label: "None" },
+  { value: 0.1, label: "Occasional" },
+  { value: 0.25, label: "Frequent" },
+];
+
+export const DEFAULT_TEXTURE: Texture = "single";
+export const DEFAULT_INTERVALS: number[] = [3, 5, 8];
+
+export const TEXTURE_OPTIONS: readonly { value: Texture; label: string }[] = [
+  { value: "single", label: "Single notes" },
+  { value: "intervals", label: "Intervals" },
+  { value: "triads", label: "Triads" },
+  { value: "sevenths", label: "Seventh chords" },
+];
+
+export const DEFAULT_HAND_MODE: HandMode = "combined";
+
+export const HAND_MODE_OPTIONS: readonly { value: HandMode; label: string }[] = [
+  { value: "combined", label: "One line" },
+  { value: "independent", label: "Both hands" },
+];
+
+export const INTERVAL_LABELS: Readonly<Record<number, string>> = {
+  2: "2nd",
+  3: "3rd",
+  4: "4th",
+  5: "5th",
+  6: "6th",
+  7: "7th",
+  8: "8ve",
+};
+
+export const DEFAULT_MOTION: MelodicMotion = { contour: "free" };
+
+export const CONTOUR_OPTIONS: readonly { value: MelodicContour; label: string }[] = [
+  { value: "free", label: "Free" },
+  { value: "scale", label: "Scales" },
+  { value: "arpeggio", label: "Arpeggios" },
+  { value: "sequence", label: "Sequences" },
+];
+
+/** Chance of a step rather than a leap; null leaves it to the range. */
+export const STEP_RATIO_OPTIONS: readonly { value: number | null; label: string }[] = [
+  { value: null, label: "Any mix" },
+  { value: 0.8, label: "Mostly steps" },
+  { value: 0.5, label: "Balanced" },
+  { value: 0.2, label: "Mostly leaps" },
+];
+
+/** Starting point when "intervals only" is switched on. */
+export const DEFAULT_MELODIC_INTERVALS: number[] = [3, 5];
+
+export const DEFAULT_TIME_SIGNATURE: TimeSignatureName = "4/4";
+export const DEFAULT_RHYTHM: RhythmLevel = "quarters";
+export const DEFAULT_PRACTICE_MODE: PracticeMode = "wait";
+export const DEFAULT_TEMPO = 72;
+export const MIN_TEMPO = 30;
+export const MAX_TEMPO = 200;
+export const TEMPO_STEP = 5;
+
+export const DEFAULT_SUBDIVISION: Subdivision = 1;
+
+export const SUBDIVISION_OPTIONS: readonly { value: Subdivision; label: string }[] = [
+  { value: 1, label: "Beats" },
+  { value: 2, label: "Eighths" },
+  { value: 3, label: "Triplets" },
+  { value: 4, label: "Sixteenths" },
+];
+
+export const RHYTHM_OPTIONS: readonly { value: RhythmLevel; label: string }[] = [
+  { value: "quarters", label: "Quarter notes" },
+  { value: "simple", label: "Halves & quarters" },
+  { value: "mixed", label: "Mixed with eighths" },
+];
+
+export const PRACTICE_MODE_OPTIONS: readonly { value: PracticeMode; label: string }[] = [
+  { value: "wait", label: "Wait for me" },
+  { value: "timed", label: "Play in time" },
+];
+
+/** Previous sessions listed on the setup page before "Show more". */
+export const PREVIOUS_SESSIONS_PAGE_SIZE = 10;
@@ -11,3 +11,10 @@ export type PreviousSessionItem = {
     totalNotes: number;
   };
 };
+
+export type PieceItem = {
+  id: string;
+  title: string;
+  fileName: string;
+  stepCount: number;
+};
@@ -0,0 +1,8 @@
+import type { ComponentProps } from "react";
+import ProgressPageFeature from "../../features/progress/components/ProgressPage";
+
+export type ProgressPageProps = ComponentProps<typeof ProgressPageFeature>;
+
+export default function ProgressPage(props: ProgressPageProps) {
+  return <ProgressPageFeature {...props} />;
+}
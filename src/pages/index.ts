@@ -1,5 +1,6 @@
 export { default as AboutPage } from "./About/AboutPage";
 export { default as PracticePage } from "./Practice/PracticePage";
+export { default as ProgressPage } from "./Progress/ProgressPage";
 export { default as ResultsPage } from "./Results/ResultsPage";
 export { default as SettingsPage } from "./Settings/SettingsPage";
 export { default as SetupPage } from "./Setup/SetupPage";
@@ -74,6 +74,14 @@ export const APP_ROUTE_SEO: Record<AppPage, RouteSeoConfig> = {
     canonicalPath: APP_ROUTES.about,
     ogType: "article",
   },
+  progress: {
+    title: `Progress — ${APP_TITLE}`,
+    description:
+      "Charts of your sight-reading accuracy, speed and practice time by day, week or month.",
+    robots: "noindex, follow",
+    canonicalPath: APP_ROUTES.progress,
+    ogType: "website",
+  },
 };
 
 export function absoluteUrl(path: string): string {
@@ -0,0 +1,204 @@
+import { describe, expect, it } from "vitest";
+import { createLocalStorageBackend, createMemoryBackend } from "../backends";
+import { LATEST_VERSION } from "../migrations";
+import { DB_NAME, QUARANTINE_STORE, SESSION_RUNS_STORE, SETTINGS_STORE } from "../stores";
+
+/** Stands in for `localStorage`; `setItem` throws once the value passes `quota` characters. */
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  constructor(private quota = Infinity) {}
+
+  get length() {
+    return this.items.size;
+  }
+
+  clear() {
+    this.items.clear();
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string) {
+    if (value.length > this.quota) throw new Error("QuotaExceededError");
+    this.items.set(key, value);
+  }
+}
+
+const training = (id: string) => ({
+  id,
+  title: id,
+  minNote: "C4",
+  maxNote: "C5",
+  totalNotes: 20,
+  createdAt: 1,
+});
+
+describe("createMemoryBackend", () => {
+  it("reads back what was written, in key order", async () => {
+    const backend = await createMemoryBackend();
+
+    await backend.write(["custom_trainings"], (batch) => {
+      batch.put("custom_trainings", training("b"));
+      batch.put("custom_trainings", training("a"));
+    });
+
+    expect(await backend.keys("custom_trainings")).toEqual(["a", "b"]);
+    expect(await backend.get("custom_trainings", "a")).toEqual(training("a"));
+    expect(await backend.get("custom_trainings", "missing")).toBeUndefined();
+  });
+
+  it("hands out copies, so callers can't change stored records", async () => {
+    const backend = await createMemoryBackend();
+    const record = training("a");
+    await backend.write(["custom_trainings"], (batch) => batch.put("custom_trainings", record));
+
+    record.title = "changed";
+    const [entry] = await backend.entries("custom_trainings");
+    (entry.value as { title: string }).title = "changed again";
+
+    expect(await backend.get("custom_trainings", "a")).toMatchObject({ title: "a" });
+  });
+
+  it("applies nothing when a write fails part-way", async () => {
+    const backend = await createMemoryBackend();
+    await backend.write(["custom_trainings"], (batch) =>
+      batch.put("custom_trainings", training("a")),
+    );
+
+    await expect(
+      backend.write(["custom_trainings"], (batch) => {
+        batch.delete("custom_trainings", "a");
+        batch.put("custom_trainings", { title: "no id" });
+      }),
+    ).rejects.toThrow(/key/);
+
+    expect(await backend.keys("custom_trainings")).toEqual(["a"]);
+  });
+
+  it("numbers records added to an auto-increment store", async () => {
+    const backend = await createMemoryBackend();
+
+    await backend.write([QUARANTINE_STORE], (batch) => {
+      batch.add(QUARANTINE_STORE, { store: "pieces", key: "x", record: null, quarantinedAt: 1 });
+      batch.add(QUARANTINE_STORE, { store: "pieces", key: "y", record: null, quarantinedAt: 1 });
+    });
+
+    const entries = await backend.entries(QUARANTINE_STORE);
+    expect(entries.map((entry) => entry.key)).toEqual([1, 2]);
+    expect(entries[1].value).toMatchObject({ id: 2, key: "y" });
+  });
+
+  it("walks an index in either direction with bounds, offset and limit", async () => {
+    const backend = await createMemoryBackend();
+    await backend.write(["custom_trainings"], (batch) => {
+      [3, 1, 4, 2].forEach((createdAt) =>
+        batch.put("custom_trainings", { ...training(`t${createdAt}`), createdAt }),
+      );
+    });
+    const ids = (entries: { key: IDBValidKey }[]) => entries.map((entry) => entry.key);
+
+    expect(ids(await backend.query("custom_trainings", { index: "createdAt" }))).toEqual([
+      "t1",
+      "t2",
+      "t3",
+      "t4",
+    ]);
+    expect(
+      ids(
+        await backend.query("custom_trainings", {
+          index: "createdAt",
+          direction: "prev",
+          offset: 1,
+          limit: 2,
+        }),
+      ),
+    ).toEqual(["t3", "t2"]);
+    expect(
+      await backend.count("custom_trainings", { index: "createdAt", lower: 2, upper: 3 }),
+    ).toBe(2);
+    await expect(backend.query("custom_trainings", { index: "title" })).rejects.toThrow(/index/);
+  });
+
+  it("rejects writes to stores the write didn't name", async () => {
+    const backend = await createMemoryBackend();
+
+    await expect(
+      backend.write([SETTINGS_STORE], (batch) => batch.put("custom_trainings", training("a"))),
+    ).rejects.toThrow(/not part of this write/);
+  });
+});
+
+describe("createLocalStorageBackend", () => {
+  it("keeps records across page loads", async () => {
+    const storage = new MemoryStorage();
+    const first = await createLocalStorageBackend(storage);
+    await first.write(["custom_trainings"], (batch) =>
+      batch.put("custom_trainings", training("a")),
+    );
+
+    const second = await createLocalStorageBackend(storage);
+
+    expect(await second.get("custom_trainings", "a")).toEqual(training("a"));
+    expect(await second.estimate()).toMatchObject({
+      usageBytes: (storage.getItem(DB_NAME)?.length ?? 0) * 2,
+    });
+  });
+
+  it("leaves the stores unchanged when the quota is exceeded", async () => {
+    const storage = new MemoryStorage(2_000);
+    const backend = await createLocalStorageBackend(storage);
+    const saved = storage.getItem(DB_NAME);
+
+    await expect(
+      backend.write(["custom_trainings"], (batch) =>
+        batch.put("custom_trainings", { ...training("a"), title: "x".repeat(5_000) }),
+      ),
+    ).rejects.toThrow(/Quota/);
+
+    expect(await backend.keys("custom_trainings")).toEqual([]);
+    expect(storage.getItem(DB_NAME)).toBe(saved);
+  });
+
+  it("migrates a snapshot written by an older version", async () => {
+    const storage = new MemoryStorage();
+    const run = {
+      id: "run-1",
+      sessionId: "#SRL-0001",
+      createdAt: 1,
+      durationSeconds: 60,
+      accuracy: 90,
+      speedNpm: 30,
+      speedDelta: 0,
+      improvements: [],
+      config: { minNote: "C4", maxNote: "C5", totalNotes: 20 },
+    };
+    storage.setItem(
+      DB_NAME,
+      JSON.stringify({
+        version: 5,
+        stores: {
+          [SESSION_RUNS_STORE]: { schema: { keyPath: "id" }, records: [run], nextId: 1 },
+        },
+      }),
+    );
+
+    const backend = await createLocalStorageBackend(storage);
+
+    expect(await backend.get(SESSION_RUNS_STORE, "run-1")).toMatchObject({
+      config: { texture: "single", practiceMode: "wait" },
+    });
+    expect(await backend.keys(QUARANTINE_STORE)).toEqual([]);
+    expect(JSON.parse(storage.getItem(DB_NAME) ?? "{}")).toMatchObject({ version: LATEST_VERSION });
+  });
+});
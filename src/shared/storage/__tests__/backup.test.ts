@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  BACKUP_VERSION,
+  createBackupBundle,
+  formatRestoreSummary,
+  parseBackupBundle,
+  sessionRunsToCsv,
+} from "../backup";
+import type { BackupData, PersistedSessionRun } from "../types";
+
+const RUN: PersistedSessionRun = {
+  id: "run-1",
+  sessionId: "#SRL-0007",
+  createdAt: Date.UTC(2026, 0, 2, 9, 30),
+  durationSeconds: 120,
+  accuracy: 92,
+  speedNpm: 40,
+  speedDelta: 4,
+  improvements: [{ note: "F4", misses: 2 }],
+  config: { minNote: "C4", maxNote: "C5", totalNotes: 100, keySignature: "G", tempo: 72 },
+};
+
+const DATA: BackupData = {
+  settings: null,
+  sessionRuns: [RUN],
+  customTrainings: [
+    { id: "t-1", title: "Mine", minNote: "C4", maxNote: "G5", totalNotes: 50, createdAt: 1 },
+  ],
+  deviceProfiles: [],
+  pieces: [],
+  attemptLogs: [{ runId: "run-1", createdAt: RUN.createdAt, attempts: [] }],
+};
+
+describe("parseBackupBundle", () => {
+  it("reads back an exported bundle", () => {
+    const bundle = createBackupBundle(DATA, 1000);
+    expect(parseBackupBundle(JSON.stringify(bundle))).toEqual({ bundle, invalid: 0 });
+  });
+
+  it("drops records that fail validation and counts them", () => {
+    const bundle = createBackupBundle(DATA, 1000);
+    const tampered = {
+      ...bundle,
+      data: { ...bundle.data, sessionRuns: [RUN, { id: 5 }], pieces: ["nope"] },
+    };
+
+    const { bundle: parsed, invalid } = parseBackupBundle(JSON.stringify(tampered));
+    expect(parsed.data.sessionRuns).toEqual([RUN]);
+    expect(parsed.data.pieces).toEqual([]);
+    expect(invalid).toBe(2);
+  });
+
+  it("rejects files that are not backups", () => {
+    expect(() => parseBackupBundle("not json")).toThrow(/valid JSON/);
+    expect(() => parseBackupBundle(JSON.stringify({ runs: [] }))).toThrow(
+      /isn't a Sight Reading Labs backup/,
+    );
+  });
+
+  it("rejects backups from a newer version", () => {
+    const bundle = { ...createBackupBundle(DATA, 1000), version: BACKUP_VERSION + 1 };
+    expect(() => parseBackupBundle(JSON.stringify(bundle))).toThrow(/newer version/);
+  });
+
+  it("rejects backups with a store missing", () => {
+    const bundle = createBackupBundle(DATA, 1000);
+    const { pieces: _pieces, ...partial } = bundle.data;
+    expect(() => parseBackupBundle(JSON.stringify({ ...bundle, data: partial }))).toThrow(
+      /missing/,
+    );
+  });
+});
+
+describe("formatRestoreSummary", () => {
+  it("mentions only the counts that apply", () => {
+    expect(formatRestoreSummary({ added: 3, updated: 0, kept: 2 }, 1)).toBe(
+      "Backup restored: 3 added, 2 kept from this device, 1 skipped as invalid.",
+    );
+  });
+});
+
+describe("sessionRunsToCsv", () => {
+  it("writes one row per run with a header", () => {
+    const [header, row] = sessionRunsToCsv([RUN]).trim().split("\r\n");
+    expect(header.split(",")).toContain("accuracy");
+    expect(row).toBe(
+      "run-1,#SRL-0007,2026-01-02T09:30:00.000Z,120,92,40,,C4,C5,100,G,,,,,,72,",
+    );
+  });
+});
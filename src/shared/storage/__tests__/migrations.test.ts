@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import { isPersistedSessionRun } from "../indexedDb";
+import { LATEST_VERSION, MIGRATIONS, runMigrations } from "../migrations";
+import type { Migration, MigrationTarget, StoreSchema } from "../migrations";
+import { QUARANTINE_STORE, SESSION_RUNS_STORE } from "../stores";
+
+type MemoryStore = {
+  schema: StoreSchema;
+  records: unknown[];
+};
+
+/** Stands in for an upgrade transaction: stores are plain arrays. */
+function createMemoryTarget(initial: Record<string, unknown[]> = {}) {
+  const stores = new Map<string, MemoryStore>(
+    Object.entries(initial).map(([name, records]) => [
+      name,
+      { schema: { keyPath: "id" }, records },
+    ]),
+  );
+  const writes: string[] = [];
+
+  const target: MigrationTarget = {
+    hasStore: (name) => stores.has(name),
+    createStore: (name, schema) => {
+      if (stores.has(name)) throw new Error(`Store ${name} already exists.`);
+      stores.set(name, { schema, records: [] });
+    },
+    updateRecords: async (name, transform) => {
+      const store = stores.get(name);
+      if (!store) throw new Error(`No store named ${name}.`);
+      store.records = store.records.map((record) => {
+        const next = transform(record);
+        if (next !== record) writes.push(name);
+        return next;
+      });
+    },
+  };
+
+  return { target, stores, writes };
+}
+
+const LEGACY_RUN = {
+  id: "run-1",
+  sessionId: "#SRL-0001",
+  createdAt: 1,
+  durationSeconds: 60,
+  accuracy: 90,
+  speedNpm: 30,
+  speedDelta: 0,
+  improvements: [],
+  config: { minNote: "C4", maxNote: "C5", totalNotes: 20 },
+};
+
+describe("MIGRATIONS", () => {
+  it("is ordered by version and ends at the database version", () => {
+    const versions = MIGRATIONS.map((migration) => migration.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(LATEST_VERSION).toBe(versions[versions.length - 1]);
+  });
+});
+
+describe("runMigrations", () => {
+  it("creates every store for a new database", async () => {
+    const { target, stores } = createMemoryTarget();
+
+    const applied = await runMigrations(target, 0);
+
+    expect(applied).toEqual(MIGRATIONS.map((migration) => migration.version));
+    expect([...stores.keys()].sort()).toEqual([
+      "app_settings",
+      "attempt_logs",
+      "custom_trainings",
+      "device_profiles",
+      "pieces",
+      "quarantine",
+      "session_runs",
+    ]);
+    expect(stores.get(QUARANTINE_STORE)?.schema).toMatchObject({ autoIncrement: true });
+  });
+
+  it("only runs the steps newer than the stored version", async () => {
+    const { target, stores } = createMemoryTarget({ [SESSION_RUNS_STORE]: [] });
+
+    const applied = await runMigrations(target, 5);
+
+    expect(applied).toEqual([6]);
+    expect([...stores.keys()].sort()).toEqual([QUARANTINE_STORE, SESSION_RUNS_STORE]);
+  });
+
+  it("does nothing for a database that is up to date", async () => {
+    const { target, stores } = createMemoryTarget({ [SESSION_RUNS_STORE]: [LEGACY_RUN] });
+
+    expect(await runMigrations(target, LATEST_VERSION)).toEqual([]);
+    expect(stores.get(SESSION_RUNS_STORE)?.records).toEqual([LEGACY_RUN]);
+  });
+
+  it("fills in default setup options on older session runs", async () => {
+    const { target, stores } = createMemoryTarget({ [SESSION_RUNS_STORE]: [LEGACY_RUN] });
+
+    await runMigrations(target, 5);
+
+    const [run] = stores.get(SESSION_RUNS_STORE)?.records ?? [];
+    expect(run).toMatchObject({
+      config: {
+        minNote: "C4",
+        texture: "single",
+        hands: "combined",
+        timeSignature: "4/4",
+        rhythm: "quarters",
+        practiceMode: "wait",
+      },
+    });
+    expect(isPersistedSessionRun(run)).toBe(true);
+  });
+
+  it("leaves piece runs, complete runs and unreadable records untouched", async () => {
+    const pieceRun = { ...LEGACY_RUN, id: "run-2", config: { ...LEGACY_RUN.config, pieceId: "p" } };
+    const completeRun = {
+      ...LEGACY_RUN,
+      id: "run-3",
+      config: {
+        ...LEGACY_RUN.config,
+        texture: "triads",
+        hands: "independent",
+        timeSignature: "3/4",
+        rhythm: "mixed",
+        practiceMode: "timed",
+      },
+    };
+    const { target, stores, writes } = createMemoryTarget({
+      [SESSION_RUNS_STORE]: [pieceRun, completeRun, "garbage"],
+    });
+
+    await runMigrations(target, 5);
+
+    expect(stores.get(SESSION_RUNS_STORE)?.records).toEqual([pieceRun, completeRun, "garbage"]);
+    expect(writes).toEqual([]);
+  });
+
+  it("runs steps one after another so each sees the previous step's records", async () => {
+    const { target, stores } = createMemoryTarget({ items: [{ id: 1, value: 1 }] });
+    const double = (record: unknown) => {
+      const item = record as { id: number; value: number };
+      return { ...item, value: item.value * 2 };
+    };
+    const migrations: Migration[] = [
+      { version: 1, description: "Double", migrate: (t) => t.updateRecords("items", double) },
+      { version: 2, description: "Double again", migrate: (t) => t.updateRecords("items", double) },
+    ];
+
+    await runMigrations(target, 0, migrations);
+
+    expect(stores.get("items")?.records).toEqual([{ id: 1, value: 4 }]);
+  });
+
+  it("rejects a list that isn't in version order", async () => {
+    const { target } = createMemoryTarget();
+    const migrations: Migration[] = [
+      { version: 3, description: "Later", migrate: () => {} },
+      { version: 2, description: "Earlier", migrate: () => {} },
+    ];
+
+    await expect(runMigrations(target, 0, migrations)).rejects.toThrow(/out of order/);
+  });
+});
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getStorageBackend } from "../backends";
+import { createTimelineRepository, writeStores } from "../repository";
+import { PIECES_STORE, QUARANTINE_STORE, SESSION_RUNS_STORE } from "../stores";
+
+type Note = { id: string; createdAt: number };
+
+function isNote(value: unknown): value is Note {
+  const note = value as Partial<Note> | null;
+  return typeof note?.id === "string" && typeof note.createdAt === "number";
+}
+
+// Outside a browser the repositories run on the in-memory backend.
+const notes = createTimelineRepository(PIECES_STORE, isNote);
+const note = (id: string, createdAt: number): Note => ({ id, createdAt });
+
+beforeEach(async () => {
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  await writeStores([PIECES_STORE, SESSION_RUNS_STORE, QUARANTINE_STORE], (batch) => {
+    batch.clear(PIECES_STORE);
+    batch.clear(SESSION_RUNS_STORE);
+    batch.clear(QUARANTINE_STORE);
+  });
+});
+
+describe("createTimelineRepository", () => {
+  beforeEach(async () => {
+    await writeStores([PIECES_STORE], (batch) => {
+      [note("a", 10), note("b", 30), note("c", 20), note("d", 40), note("e", 50)].forEach(
+        (record) => batch.put(PIECES_STORE, record),
+      );
+    });
+  });
+
+  it("lists records newest first", async () => {
+    expect((await notes.list()).map((record) => record.id)).toEqual(["e", "d", "b", "c", "a"]);
+  });
+
+  it("pages through the records", async () => {
+    const first = await notes.page(0, 2);
+    const last = await notes.page(4, 2);
+
+    expect(first).toMatchObject({ offset: 0, total: 5, hasMore: true });
+    expect(first.items.map((record) => record.id)).toEqual(["e", "d"]);
+    expect(last).toMatchObject({ offset: 4, total: 5, hasMore: false });
+    expect(last.items.map((record) => record.id)).toEqual(["a"]);
+  });
+
+  it("reads a createdAt range, both ends included", async () => {
+    expect((await notes.between(20, 40)).map((record) => record.id)).toEqual(["d", "b", "c"]);
+  });
+
+  it("quarantines invalid records met on a page without skipping valid ones", async () => {
+    await writeStores([PIECES_STORE], (batch) =>
+      batch.put(PIECES_STORE, { id: "x", createdAt: 45, bad: true }),
+    );
+    const invalidNotes = createTimelineRepository(
+      PIECES_STORE,
+      (value): value is Note => isNote(value) && !("bad" in (value as object)),
+    );
+
+    const first = await invalidNotes.page(0, 2);
+    const second = await invalidNotes.page(first.offset + first.items.length, 2);
+
+    expect(first.items.map((record) => record.id)).toEqual(["e"]);
+    expect(second.items.map((record) => record.id)).toEqual(["d", "b"]);
+    expect(second.total).toBe(5);
+    const backend = await getStorageBackend();
+    expect(await backend.entries(QUARANTINE_STORE)).toEqual([
+      expect.objectContaining({
+        value: expect.objectContaining({ store: PIECES_STORE, key: "x" }),
+      }),
+    ]);
+  });
+
+  it("gets, puts and deletes single records", async () => {
+    await notes.put(note("f", 60));
+    await notes.delete("a");
+
+    expect(await notes.get("f")).toEqual(note("f", 60));
+    expect(await notes.get("a")).toBeNull();
+  });
+});
+
+describe("subscribe", () => {
+  it("hears about writes to its store only", async () => {
+    const listener = vi.fn();
+    const unsubscribe = notes.subscribe(listener);
+
+    await notes.put(note("a", 1));
+    await writeStores([SESSION_RUNS_STORE], (batch) => batch.clear(SESSION_RUNS_STORE));
+    await writeStores([SESSION_RUNS_STORE, PIECES_STORE], (batch) =>
+      batch.delete(PIECES_STORE, "a"),
+    );
+    unsubscribe();
+    await notes.put(note("b", 2));
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it("hears nothing when a write fails", async () => {
+    const listener = vi.fn();
+    const unsubscribe = notes.subscribe(listener);
+
+    await expect(
+      writeStores([PIECES_STORE], (batch) => batch.put(PIECES_STORE, { createdAt: 1 })),
+    ).rejects.toThrow();
+    unsubscribe();
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(await notes.list()).toEqual([]);
+  });
+});
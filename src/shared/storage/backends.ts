@@ -0,0 +1,543 @@
+import {
+  LATEST_VERSION,
+  createIdbMigrationTarget,
+  runMigrations,
+  type MigrationTarget,
+  type StoreSchema,
+} from "./migrations";
+import { DB_NAME } from "./stores";
+import type { StorageBackendKind, StorageUnavailableReason } from "./types";
+
+export type StoredEntry = {
+  key: IDBValidKey;
+  value: unknown;
+};
+
+export interface WriteBatch {
+  put(store: string, record: unknown): void;
+  /** Inserts into an auto-increment store, which assigns the key. */
+  add(store: string, record: unknown): void;
+  delete(store: string, key: IDBValidKey): void;
+  clear(store: string): void;
+}
+
+/** A walk over one index, e.g. the newest session runs or a month of them. */
+export type IndexQuery = {
+  index: string;
+  /** Inclusive bounds on the indexed value. */
+  lower?: number;
+  upper?: number;
+  /** "prev" walks from the highest value down. Defaults to "next". */
+  direction?: "next" | "prev";
+  /** Matching records to skip before collecting. */
+  offset?: number;
+  limit?: number;
+};
+
+export type StorageEstimate = {
+  usageBytes: number;
+  quotaBytes: number;
+};
+
+/**
+ * The record operations the storage functions are written against, so the
+ * same code runs on IndexedDB or on one of the fallbacks.
+ */
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  /** Why IndexedDB isn't behind this backend; null when it is. */
+  readonly unavailableReason: StorageUnavailableReason | null;
+  get(store: string, key: IDBValidKey): Promise<unknown>;
+  keys(store: string): Promise<IDBValidKey[]>;
+  /** Every record of a store in key order. */
+  entries(store: string): Promise<StoredEntry[]>;
+  /** Records matching an index query, in index order. */
+  query(store: string, query: IndexQuery): Promise<StoredEntry[]>;
+  /** How many records match the query's bounds; offset and limit are ignored. */
+  count(store: string, query?: IndexQuery): Promise<number>;
+  /** Applies every write `build` makes, or none of them. */
+  write(stores: readonly string[], build: (batch: WriteBatch) => void): Promise<void>;
+  estimate(): Promise<StorageEstimate | null>;
+  /** Re-reads data another tab may have changed; only needed where reads are cached. */
+  reload?(): Promise<void>;
+}
+
+/** Browsers give each origin about this much `localStorage`. */
+export const LOCAL_STORAGE_QUOTA_BYTES = 5 * 1024 * 1024;
+
+type OpenResult = { db: IDBDatabase } | { db: null; reason: StorageUnavailableReason };
+
+function supportsIndexedDb(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function openDb(): Promise<OpenResult> {
+  if (!supportsIndexedDb()) {
+    return Promise.resolve({ db: null, reason: "unsupported" });
+  }
+
+  return new Promise((resolve) => {
+    try {
+      const request = window.indexedDB.open(DB_NAME, LATEST_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const tx = request.transaction;
+        if (!tx) return;
+
+        // A failed step aborts the upgrade, which leaves the database at its old version.
+        runMigrations(createIdbMigrationTarget(request.result, tx), event.oldVersion).catch(
+          (error: unknown) => {
+            console.warn("Failed to migrate IndexedDB.", error);
+            tx.abort();
+          },
+        );
+      };
+
+      let blocked = false;
+      request.onsuccess = () => {
+        // The caller already gave up on a blocked open and will retry with a fresh
+        // request, so a connection that arrives late would only leak.
+        if (blocked) {
+          request.result.close();
+          return;
+        }
+        resolve({ db: request.result });
+      };
+      request.onerror = () => resolve({ db: null, reason: "failed" });
+      request.onblocked = () => {
+        blocked = true;
+        resolve({ db: null, reason: "blocked" });
+      };
+    } catch {
+      resolve({ db: null, reason: "failed" });
+    }
+  });
+}
+
+let connection: Promise<OpenResult> | null = null;
+
+/** One connection for the page, reopened after the browser or another tab closes it. */
+function getConnection(): Promise<OpenResult> {
+  connection ??= openDb().then((result) => {
+    if (!result.db) {
+      connection = null;
+      return result;
+    }
+
+    const db = result.db;
+    // Another tab is upgrading the schema; close rather than block it.
+    db.onversionchange = () => {
+      db.close();
+      connection = null;
+    };
+    db.onclose = () => {
+      connection = null;
+    };
+    return result;
+  });
+  return connection;
+}
+
+async function connect(): Promise<IDBDatabase> {
+  const result = await getConnection();
+  if (!result.db) {
+    throw new Error(`IndexedDB is unavailable (${result.reason}).`);
+  }
+  return result.db;
+}
+
+/** Runs one read transaction; a failed read resolves `fallback`, as reads always have. */
+async function read<T>(
+  storeName: string,
+  fallback: T,
+  action: (store: IDBObjectStore, resolve: (value: T) => void) => IDBRequest,
+): Promise<T> {
+  const result = await getConnection();
+  if (!result.db) return fallback;
+
+  const db = result.db;
+  try {
+    return await new Promise<T>((resolve) => {
+      const request = action(db.transaction(storeName, "readonly").objectStore(storeName), resolve);
+      request.onerror = () => resolve(fallback);
+    });
+  } catch {
+    return fallback;
+  }
+}
+
+function keyRange(query: IndexQuery): IDBKeyRange | null {
+  if (query.lower !== undefined && query.upper !== undefined) {
+    return IDBKeyRange.bound(query.lower, query.upper);
+  }
+  if (query.lower !== undefined) return IDBKeyRange.lowerBound(query.lower);
+  if (query.upper !== undefined) return IDBKeyRange.upperBound(query.upper);
+  return null;
+}
+
+async function estimateOrigin(): Promise<StorageEstimate | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null;
+
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage === undefined || quota === undefined
+      ? null
+      : { usageBytes: usage, quotaBytes: quota };
+  } catch {
+    return null;
+  }
+}
+
+function createIdbBackend(): StorageBackend {
+  return {
+    kind: "indexeddb",
+    unavailableReason: null,
+    get: (store, key) =>
+      read<unknown>(store, undefined, (objectStore, resolve) => {
+        const request = objectStore.get(key);
+        request.onsuccess = () => resolve(request.result);
+        return request;
+      }),
+    keys: (store) =>
+      read<IDBValidKey[]>(store, [], (objectStore, resolve) => {
+        const request = objectStore.getAllKeys();
+        request.onsuccess = () => resolve(request.result);
+        return request;
+      }),
+    entries: (store) =>
+      read<StoredEntry[]>(store, [], (objectStore, resolve) => {
+        // Both requests walk the store in key order, so keys and values line up.
+        const values = objectStore.getAll();
+        const keys = objectStore.getAllKeys();
+        keys.onsuccess = () =>
+          resolve(keys.result.map((key, index) => ({ key, value: values.result[index] })));
+        return keys;
+      }),
+    query: (store, query) =>
+      read<StoredEntry[]>(store, [], (objectStore, resolve) => {
+        const entries: StoredEntry[] = [];
+        const limit = query.limit ?? Infinity;
+        let skip = query.offset ?? 0;
+        const request = objectStore
+          .index(query.index)
+          .openCursor(keyRange(query), query.direction ?? "next");
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || entries.length >= limit) {
+            resolve(entries);
+          } else if (skip > 0) {
+            cursor.advance(skip);
+            skip = 0;
+          } else {
+            entries.push({ key: cursor.primaryKey, value: cursor.value });
+            cursor.continue();
+          }
+        };
+        return request;
+      }),
+    count: (store, query) =>
+      read<number>(store, 0, (objectStore, resolve) => {
+        const request = query
+          ? objectStore.index(query.index).count(keyRange(query) ?? undefined)
+          : objectStore.count();
+        request.onsuccess = () => resolve(request.result);
+        return request;
+      }),
+    write: async (stores, build) => {
+      const db = await connect();
+      let tx: IDBTransaction;
+      try {
+        tx = db.transaction(stores, "readwrite");
+      } catch (error) {
+        // The connection was closed under us; open a fresh one next time.
+        connection = null;
+        throw error;
+      }
+
+      const completed = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error("The write was aborted."));
+      });
+
+      try {
+        build({
+          put: (store, record) => tx.objectStore(store).put(record),
+          add: (store, record) => tx.objectStore(store).add(record),
+          delete: (store, key) => tx.objectStore(store).delete(key),
+          clear: (store) => tx.objectStore(store).clear(),
+        });
+      } catch (error) {
+        completed.catch(() => undefined);
+        tx.abort();
+        throw error;
+      }
+
+      await completed;
+    },
+    estimate: estimateOrigin,
+  };
+}
+
+type MemoryStore = {
+  schema: StoreSchema;
+  records: Map<IDBValidKey, unknown>;
+  nextId: number;
+};
+
+/** What the `localStorage` backend writes under `DB_NAME`. */
+type MemorySnapshot = {
+  version: number;
+  stores: Record<string, { schema: StoreSchema; records: unknown[]; nextId: number }>;
+};
+
+/** IndexedDB's key order for the keys used here: numbers before strings. */
+function compareKeys(left: IDBValidKey, right: IDBValidKey): number {
+  if (typeof left !== typeof right) return typeof left === "number" ? -1 : 1;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+function keyOf(schema: StoreSchema, record: unknown): IDBValidKey {
+  const key = (record as Record<string, unknown> | null)?.[schema.keyPath];
+  if (typeof key !== "string" && typeof key !== "number") {
+    throw new Error(`Record has no valid "${schema.keyPath}" key.`);
+  }
+  return key;
+}
+
+function sortedEntries(store: MemoryStore): StoredEntry[] {
+  return [...store.records.entries()]
+    .sort(([left], [right]) => compareKeys(left, right))
+    .map(([key, value]) => ({ key, value: structuredClone(value) }));
+}
+
+/** The records matching a query's bounds, ordered like an IndexedDB index: by value, then key. */
+function matchingEntries(store: MemoryStore, query: IndexQuery): StoredEntry[] {
+  if (!store.schema.indexes?.includes(query.index)) {
+    throw new Error(`No index named ${query.index}.`);
+  }
+
+  const valueOf = (entry: StoredEntry) =>
+    (entry.value as Record<string, unknown>)[query.index] as number;
+  const matches = sortedEntries(store)
+    .filter((entry) => typeof valueOf(entry) === "number")
+    .filter(
+      (entry) =>
+        (query.lower === undefined || valueOf(entry) >= query.lower) &&
+        (query.upper === undefined || valueOf(entry) <= query.upper),
+    )
+    .sort((left, right) => valueOf(left) - valueOf(right) || compareKeys(left.key, right.key));
+  return query.direction === "prev" ? matches.reverse() : matches;
+}
+
+function createMemoryTarget(stores: Map<string, MemoryStore>): MigrationTarget {
+  return {
+    hasStore: (name) => stores.has(name),
+    createStore: (name, schema) => {
+      stores.set(name, { schema, records: new Map(), nextId: 1 });
+    },
+    updateRecords: async (name, transform) => {
+      const store = stores.get(name);
+      if (!store) throw new Error(`No store named ${name}.`);
+      for (const [key, record] of store.records) {
+        store.records.set(key, transform(record));
+      }
+    },
+  };
+}
+
+function toSnapshot(stores: Map<string, MemoryStore>): MemorySnapshot {
+  return {
+    version: LATEST_VERSION,
+    stores: Object.fromEntries(
+      [...stores].map(([name, store]) => [
+        name,
+        { schema: store.schema, records: [...store.records.values()], nextId: store.nextId },
+      ]),
+    ),
+  };
+}
+
+function fromSnapshot(snapshot: MemorySnapshot): Map<string, MemoryStore> {
+  return new Map(
+    Object.entries(snapshot.stores).map(([name, { schema, records, nextId }]) => [
+      name,
+      {
+        schema,
+        records: new Map(records.map((record) => [keyOf(schema, record), record])),
+        nextId,
+      },
+    ]),
+  );
+}
+
+/**
+ * Keeps records in maps. Writes are applied to copies of the stores they
+ * touch and swapped in only once `commit` accepts the result, so a write
+ * that fails part-way, or that `commit` rejects, changes nothing.
+ */
+function createRecordBackend(
+  kind: StorageBackendKind,
+  unavailableReason: StorageUnavailableReason | null,
+  stores: Map<string, MemoryStore>,
+  commit: (stores: Map<string, MemoryStore>) => void,
+  estimate: () => Promise<StorageEstimate | null>,
+  load?: () => Promise<Map<string, MemoryStore>>,
+): StorageBackend {
+  const storeNamed = (name: string, from = stores) => {
+    const store = from.get(name);
+    if (!store) throw new Error(`No store named ${name}.`);
+    return store;
+  };
+
+  return {
+    kind,
+    unavailableReason,
+    get: async (store, key) => structuredClone(storeNamed(store).records.get(key)),
+    keys: async (store) => sortedEntries(storeNamed(store)).map((entry) => entry.key),
+    entries: async (store) => sortedEntries(storeNamed(store)),
+    query: async (store, query) => {
+      const offset = query.offset ?? 0;
+      return matchingEntries(storeNamed(store), query).slice(
+        offset,
+        offset + (query.limit ?? Infinity),
+      );
+    },
+    count: async (store, query) =>
+      query ? matchingEntries(storeNamed(store), query).length : storeNamed(store).records.size,
+    write: async (names, build) => {
+      const next = new Map(stores);
+      for (const name of names) {
+        const store = storeNamed(name);
+        next.set(name, { ...store, records: new Map(store.records) });
+      }
+      const writable = (name: string) => {
+        if (!names.includes(name)) throw new Error(`Store ${name} is not part of this write.`);
+        return storeNamed(name, next);
+      };
+
+      build({
+        put: (name, record) => {
+          const store = writable(name);
+          store.records.set(keyOf(store.schema, record), structuredClone(record));
+        },
+        add: (name, record) => {
+          const store = writable(name);
+          const key = store.schema.autoIncrement ? store.nextId++ : keyOf(store.schema, record);
+          if (store.records.has(key)) throw new Error(`Key ${String(key)} already exists.`);
+          store.records.set(key, {
+            ...structuredClone(record as object),
+            [store.schema.keyPath]: key,
+          });
+        },
+        delete: (name, key) => {
+          writable(name).records.delete(key);
+        },
+        clear: (name) => {
+          writable(name).records.clear();
+        },
+      });
+
+      commit(next);
+      for (const name of names) stores.set(name, storeNamed(name, next));
+    },
+    estimate,
+    reload: load
+      ? async () => {
+          const fresh = await load();
+          stores.clear();
+          fresh.forEach((store, name) => stores.set(name, store));
+        }
+      : undefined,
+  };
+}
+
+/** Nothing survives a reload; used when no browser storage can be written. */
+export async function createMemoryBackend(
+  unavailableReason: StorageUnavailableReason | null = null,
+): Promise<StorageBackend> {
+  const stores = new Map<string, MemoryStore>();
+  await runMigrations(createMemoryTarget(stores), 0);
+  return createRecordBackend(
+    "memory",
+    unavailableReason,
+    stores,
+    () => {},
+    async () => null,
+  );
+}
+
+/**
+ * Keeps the whole database as one JSON snapshot in `storage`. A snapshot
+ * written by an older version is migrated like an IndexedDB database.
+ */
+export async function createLocalStorageBackend(
+  storage: Storage,
+  unavailableReason: StorageUnavailableReason | null = null,
+): Promise<StorageBackend> {
+  // setItem throws when the quota is exceeded, which leaves the stores as they were.
+  const commit = (next: Map<string, MemoryStore>) =>
+    storage.setItem(DB_NAME, JSON.stringify(toSnapshot(next)));
+
+  const load = async () => {
+    const saved = storage.getItem(DB_NAME);
+    const snapshot = saved ? (JSON.parse(saved) as MemorySnapshot) : null;
+    const stores = snapshot ? fromSnapshot(snapshot) : new Map<string, MemoryStore>();
+    const applied = await runMigrations(createMemoryTarget(stores), snapshot?.version ?? 0);
+    if (applied.length > 0) commit(stores);
+    return stores;
+  };
+
+  return createRecordBackend(
+    "local-storage",
+    unavailableReason,
+    await load(),
+    commit,
+    async () => ({
+      // localStorage keeps strings as UTF-16.
+      usageBytes: (storage.getItem(DB_NAME)?.length ?? 0) * 2,
+      quotaBytes: LOCAL_STORAGE_QUOTA_BYTES,
+    }),
+    load,
+  );
+}
+
+function writableLocalStorage(): Storage | null {
+  try {
+    const storage = window.localStorage;
+    const probe = `${DB_NAME}-probe`;
+    storage.setItem(probe, probe);
+    storage.removeItem(probe);
+    return storage;
+  } catch {
+    return null;
+  }
+}
+
+async function selectBackend(): Promise<StorageBackend> {
+  const result = await getConnection();
+  if (result.db) {
+    return createIdbBackend();
+  }
+
+  console.warn(`IndexedDB is unavailable (${result.reason}); using a fallback store.`);
+  // A blocked database still holds the real data, so don't start a second
+  // persistent copy next to it; keep this tab's changes in memory instead.
+  const storage = result.reason === "blocked" ? null : writableLocalStorage();
+  if (storage) {
+    try {
+      return await createLocalStorageBackend(storage, result.reason);
+    } catch (error) {
+      console.warn("Failed to read the localStorage fallback.", error);
+    }
+  }
+  return createMemoryBackend(result.reason);
+}
+
+let backend: Promise<StorageBackend> | null = null;
+
+/** The backend for this page, picked on first use. */
+export function getStorageBackend(): Promise<StorageBackend> {
+  backend ??= selectBackend();
+  return backend;
+}
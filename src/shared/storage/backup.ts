@@ -0,0 +1,154 @@
+import { toCsv } from "../utils/csv";
+import {
+  isPersistedAttemptLog,
+  isPersistedCustomTraining,
+  isPersistedDeviceProfile,
+  isPersistedPiece,
+  isPersistedSessionRun,
+  isPersistedSettings,
+} from "./indexedDb";
+import type {
+  BackupBundle,
+  BackupData,
+  BackupRestoreSummary,
+  PersistedSessionRun,
+} from "./types";
+
+export const BACKUP_FORMAT = "srl-backup";
+export const BACKUP_VERSION = 1;
+
+const SESSION_CSV_HEADER = [
+  "id",
+  "session",
+  "date",
+  "duration_seconds",
+  "accuracy",
+  "speed_npm",
+  "timing_accuracy",
+  "min_note",
+  "max_note",
+  "total_notes",
+  "key",
+  "texture",
+  "hands",
+  "time_signature",
+  "rhythm",
+  "practice_mode",
+  "tempo",
+  "piece_id",
+];
+
+export function createBackupBundle(data: BackupData, exportedAt: number): BackupBundle {
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt, data };
+}
+
+function validRecords<T>(
+  value: unknown,
+  isValid: (entry: unknown) => entry is T,
+): { records: T[]; invalid: number } {
+  if (!Array.isArray(value)) {
+    throw new Error("The backup is missing some of its data.");
+  }
+  const records = value.filter(isValid);
+  return { records, invalid: value.length - records.length };
+}
+
+/**
+ * Reads a backup file. Records that fail the same checks the app applies
+ * when loading from IndexedDB are dropped and counted in `invalid`; a file
+ * that is not a backup at all, or comes from a newer version, throws.
+ */
+export function parseBackupBundle(text: string): { bundle: BackupBundle; invalid: number } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON.");
+  }
+
+  if (typeof parsed !== "object" || parsed === null) {
+    throw new Error("This file isn't a Sight Reading Labs backup.");
+  }
+
+  const candidate = parsed as Record<string, unknown>;
+  if (candidate.format !== BACKUP_FORMAT || !Number.isInteger(candidate.version)) {
+    throw new Error("This file isn't a Sight Reading Labs backup.");
+  }
+  if (Number(candidate.version) > BACKUP_VERSION) {
+    throw new Error(
+      "This backup was made by a newer version of the app. Update the app and try again.",
+    );
+  }
+  if (typeof candidate.data !== "object" || candidate.data === null) {
+    throw new Error("The backup is missing some of its data.");
+  }
+
+  const data = candidate.data as Record<string, unknown>;
+  const hasSettings = data.settings !== undefined && data.settings !== null;
+  const settings = hasSettings && isPersistedSettings(data.settings) ? data.settings : null;
+  const sessionRuns = validRecords(data.sessionRuns, isPersistedSessionRun);
+  const customTrainings = validRecords(data.customTrainings, isPersistedCustomTraining);
+  const deviceProfiles = validRecords(data.deviceProfiles, isPersistedDeviceProfile);
+  const pieces = validRecords(data.pieces, isPersistedPiece);
+  const attemptLogs = validRecords(data.attemptLogs, isPersistedAttemptLog);
+
+  return {
+    bundle: createBackupBundle(
+      {
+        settings,
+        sessionRuns: sessionRuns.records,
+        customTrainings: customTrainings.records,
+        deviceProfiles: deviceProfiles.records,
+        pieces: pieces.records,
+        attemptLogs: attemptLogs.records,
+      },
+      isFiniteTimestamp(candidate.exportedAt) ? candidate.exportedAt : 0,
+    ),
+    invalid:
+      (hasSettings && !settings ? 1 : 0) +
+      sessionRuns.invalid +
+      customTrainings.invalid +
+      deviceProfiles.invalid +
+      pieces.invalid +
+      attemptLogs.invalid,
+  };
+}
+
+function isFiniteTimestamp(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function formatRestoreSummary(summary: BackupRestoreSummary, invalid: number): string {
+  const parts = [`${summary.added} added`];
+  if (summary.updated > 0) parts.push(`${summary.updated} updated`);
+  if (summary.kept > 0) parts.push(`${summary.kept} kept from this device`);
+  if (invalid > 0) parts.push(`${invalid} skipped as invalid`);
+  return `Backup restored: ${parts.join(", ")}.`;
+}
+
+/** One row per session run, oldest first, for opening in a spreadsheet. */
+export function sessionRunsToCsv(runs: readonly PersistedSessionRun[]): string {
+  const rows = [...runs]
+    .sort((left, right) => left.createdAt - right.createdAt)
+    .map((run) => [
+      run.id,
+      run.sessionId,
+      new Date(run.createdAt).toISOString(),
+      run.durationSeconds,
+      run.accuracy,
+      run.speedNpm,
+      run.timingAccuracy,
+      run.config.minNote,
+      run.config.maxNote,
+      run.config.totalNotes,
+      run.config.keySignature,
+      run.config.texture,
+      run.config.hands,
+      run.config.timeSignature,
+      run.config.rhythm,
+      run.config.practiceMode,
+      run.config.tempo,
+      run.config.pieceId,
+    ]);
+  return toCsv(SESSION_CSV_HEADER, rows);
+}
@@ -0,0 +1,72 @@
+import { getStorageBackend } from "./backends";
+import { DB_NAME } from "./stores";
+
+export type StoreChangeListener = (stores: readonly string[]) => void;
+
+type Subscription = {
+  stores: ReadonlySet<string>;
+  listener: StoreChangeListener;
+};
+
+type ChangeMessage = {
+  stores: string[];
+};
+
+const CHANNEL_NAME = `${DB_NAME}-changes`;
+
+const subscriptions = new Set<Subscription>();
+let channel: BroadcastChannel | null | undefined;
+
+function deliver(stores: readonly string[]): void {
+  for (const subscription of subscriptions) {
+    if (stores.some((store) => subscription.stores.has(store))) {
+      subscription.listener(stores);
+    }
+  }
+}
+
+function isChangeMessage(value: unknown): value is ChangeMessage {
+  const stores = (value as Partial<ChangeMessage> | null)?.stores;
+  return Array.isArray(stores) && stores.every((store) => typeof store === "string");
+}
+
+/** Other tabs of the app announce their writes here. Null outside browsers that support it. */
+function getChannel(): BroadcastChannel | null {
+  if (channel !== undefined) return channel;
+
+  channel =
+    typeof window !== "undefined" && "BroadcastChannel" in window
+      ? new BroadcastChannel(CHANNEL_NAME)
+      : null;
+  channel?.addEventListener("message", (event: MessageEvent<unknown>) => {
+    if (!isChangeMessage(event.data)) return;
+
+    const { stores } = event.data;
+    void getStorageBackend()
+      .then((backend) => backend.reload?.())
+      .then(() => deliver(stores))
+      .catch((error: unknown) => {
+        console.warn("Failed to reload storage after a change in another tab.", error);
+      });
+  });
+  return channel;
+}
+
+/** Calls `listener` after every write to one of `stores`, made in this tab or another. */
+export function subscribeToStores(
+  stores: readonly string[],
+  listener: StoreChangeListener,
+): () => void {
+  getChannel();
+  const subscription: Subscription = { stores: new Set(stores), listener };
+  subscriptions.add(subscription);
+  return () => {
+    subscriptions.delete(subscription);
+  };
+}
+
+/** Tells subscribers here and in the app's other tabs that `stores` were written. */
+export function publishStoreChange(stores: readonly string[]): void {
+  deliver(stores);
+  getChannel()?.postMessage({ stores: [...stores] } satisfies ChangeMessage);
+}
@@ -1,3 +1,8 @@
-export { addCustomTraining, addSessionRun, deleteCustomTraining, listCustomTrainings, listSessionRuns, loadSettings, saveSettings, seedTrainings } from "./indexedDb";
+export { BACKUP_FORMAT, BACKUP_VERSION, createBackupBundle, formatRestoreSummary, parseBackupBundle, sessionRunsToCsv } from "./backup";
+export { addCustomTraining, addPiece, addSessionRun, attemptLogsRepository, clearQuarantine, customTrainingsRepository, deleteCustomTraining, deletePiece, deviceProfilesRepository, listAttemptLogs, listCustomTrainings, listDeviceProfiles, listPieces, listQuarantinedRecords, listSessionRuns, loadAttemptLog, loadSettings, piecesRepository, readBackupData, restoreBackupData, saveDeviceProfile, saveSettings, seedTrainings, sessionRunsRepository } from "./indexedDb";
+export { subscribeToStores } from "./changes";
+export { writeStores } from "./repository";
+export type { Page, Repository, TimelineRepository } from "./repository";
+export { getStorageStatus, isStorageNearlyFull, requestPersistentStorage } from "./status";
 export { formatCreatedAtLabel, formatDurationLabel, toPreviousSessionItem } from "./mappers";
-export type { PersistedCustomTraining, PersistedSessionRun, PersistedSettings } from "./types";
+export type { BackupBundle, BackupData, BackupRestoreSummary, PersistedAttemptLog, PersistedCustomTraining, PersistedDeviceProfile, PersistedPiece, PersistedQuarantineEntry, PersistedSessionRun, PersistedSettings, StorageBackendKind, StorageStatus, StorageUnavailableReason } from "./types";
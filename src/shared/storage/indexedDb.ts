@@ -1,45 +1,179 @@
-import type { PersistedCustomTraining, PersistedSessionRun, PersistedSettings } from "./types";
-
-const DB_NAME = "srl-db";
-const DB_VERSION = 2;
-const SETTINGS_STORE = "app_settings";
-const SESSION_RUNS_STORE = "session_runs";
-const CUSTOM_TRAININGS_STORE = "custom_trainings";
-const SETTINGS_KEY = "user_settings";
-const CREATED_AT_INDEX = "createdAt";
-
-const SEEDED_KEY = "trainings_seeded";
+import {
+  INTERVAL_SIZES,
+  MELODIC_CONTOURS,
+  TIME_SIGNATURES,
+  isKeySignatureName,
+  type MelodicContour,
+} from "../../entities/score";
+import type { BackupRestoreOptions } from "../../features/settings/types";
+import type {
+  BackupData,
+  BackupRestoreSummary,
+  PersistedAttemptLog,
+  PersistedCustomTraining,
+  PersistedDeviceProfile,
+  PersistedPiece,
+  PersistedQuarantineEntry,
+  PersistedSessionRun,
+  PersistedSettings,
+} from "./types";
+import { getStorageBackend } from "./backends";
+import {
+  createRepository,
+  createTimelineRepository,
+  quarantineEntries,
+  writeStores,
+} from "./repository";
+import {
+  ATTEMPT_LOGS_STORE,
+  CUSTOM_TRAININGS_STORE,
+  DEVICE_PROFILES_STORE,
+  PIECES_STORE,
+  QUARANTINE_STORE,
+  SEEDED_KEY,
+  SESSION_RUNS_STORE,
+  SETTINGS_KEY,
+  SETTINGS_STORE,
+} from "./stores";
 
 type SettingsRecord = {
   key: string;
   value: PersistedSettings;
 };
 
-function supportsIndexedDb(): boolean {
-  return typeof window !== "undefined" && "indexedDB" in window;
-}
-
 function isThemeMode(value: unknown): value is PersistedSettings["themeMode"] {
   return value === "light" || value === "dark" || value === "system";
 }
 
-function isPersistedSettings(value: unknown): value is PersistedSettings {
+function isOptionalInputSource(value: unknown): boolean {
+  return value === undefined || value === "midi" || value === "virtual" || value === "microphone";
+}
+
+function isOptionalMidiChannel(value: unknown): boolean {
+  return value === undefined || (Number.isInteger(value) && Number(value) >= 1 && Number(value) <= 16);
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === "string";
+}
+
+function isOptionalHintMode(value: unknown): boolean {
+  return value === undefined || value === "off" || value === "stuck" || value === "guided";
+}
+
+function isOptionalLevel(value: unknown): boolean {
+  return value === undefined || (typeof value === "number" && value >= 0 && value <= 1);
+}
+
+function isOptionalKeySignature(value: unknown): boolean {
+  return value === undefined || isKeySignatureName(value);
+}
+
+function isOptionalAccidentalDensity(value: unknown): boolean {
+  return value === undefined || (typeof value === "number" && value >= 0 && value <= 1);
+}
+
+function isOptionalTexture(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === "single" ||
+    value === "intervals" ||
+    value === "triads" ||
+    value === "sevenths"
+  );
+}
+
+function isOptionalIntervals(value: unknown): boolean {
+  return (
+    value === undefined ||
+    (Array.isArray(value) && value.every((size) => INTERVAL_SIZES.includes(size)))
+  );
+}
+
+function isOptionalMotion(value: unknown): boolean {
+  if (value === undefined) return true;
+  if (typeof value !== "object" || value === null) return false;
+
+  const motion = value as Record<string, unknown>;
+  return (
+    (motion.contour === undefined || MELODIC_CONTOURS.includes(motion.contour as MelodicContour)) &&
+    (motion.maxInterval === undefined || INTERVAL_SIZES.includes(motion.maxInterval as number)) &&
+    isOptionalLevel(motion.stepRatio) &&
+    isOptionalIntervals(motion.intervals)
+  );
+}
+
+function isOptionalHandMode(value: unknown): boolean {
+  return value === undefined || value === "combined" || value === "independent";
+}
+
+function isOptionalTimeSignature(value: unknown): boolean {
+  return value === undefined || TIME_SIGNATURES.some((name) => name === value);
+}
+
+function isOptionalRhythm(value: unknown): boolean {
+  return value === undefined || value === "quarters" || value === "simple" || value === "mixed";
+}
+
+function isOptionalPracticeMode(value: unknown): boolean {
+  return value === undefined || value === "wait" || value === "timed";
+}
+
+function isOptionalPositiveNumber(value: unknown): boolean {
+  return value === undefined || (typeof value === "number" && value > 0);
+}
+
+function isOptionalSubdivision(value: unknown): boolean {
+  return value === undefined || value === 1 || value === 2 || value === 3 || value === 4;
+}
+
+function isOptionalPercentage(value: unknown): boolean {
+  return value === undefined || (typeof value === "number" && value >= 0 && value <= 100);
+}
+
+function isOptionalBoolean(value: unknown): boolean {
+  return value === undefined || typeof value === "boolean";
+}
+
+export function isPersistedSettings(value: unknown): value is PersistedSettings {
   if (typeof value !== "object" || value === null) return false;
 
   const candidate = value as Record<string, unknown>;
   return (
     isThemeMode(candidate.themeMode) &&
     typeof candidate.selectedMidiDevice === "string" &&
+    isOptionalMidiChannel(candidate.midiChannel) &&
+    isOptionalString(candidate.midiOutputDevice) &&
+    isOptionalHintMode(candidate.midiHintMode) &&
+    isOptionalInputSource(candidate.inputSource) &&
+    isOptionalLevel(candidate.microphoneNoiseFloor) &&
     typeof candidate.minNote === "string" &&
     typeof candidate.maxNote === "string" &&
     typeof candidate.totalNotes === "number" &&
     Number.isFinite(candidate.totalNotes) &&
+    isOptionalKeySignature(candidate.keySignature) &&
+    isOptionalAccidentalDensity(candidate.accidentalDensity) &&
+    isOptionalTexture(candidate.texture) &&
+    isOptionalIntervals(candidate.intervals) &&
+    isOptionalBoolean(candidate.inversions) &&
+    isOptionalBoolean(candidate.adaptive) &&
+    isOptionalMotion(candidate.motion) &&
+    isOptionalHandMode(candidate.hands) &&
+    isOptionalTimeSignature(candidate.timeSignature) &&
+    isOptionalRhythm(candidate.rhythm) &&
+    isOptionalPracticeMode(candidate.practiceMode) &&
+    isOptionalPositiveNumber(candidate.tempo) &&
+    isOptionalBoolean(candidate.metronomeEnabled) &&
+    isOptionalSubdivision(candidate.subdivision) &&
+    isOptionalBoolean(candidate.countIn) &&
+    isOptionalBoolean(candidate.echoPlayedNotes) &&
+    isOptionalBoolean(candidate.playTargetOnMiss) &&
     typeof candidate.updatedAt === "number" &&
     Number.isFinite(candidate.updatedAt)
   );
 }
 
-function isPersistedSessionRun(value: unknown): value is PersistedSessionRun {
+export function isPersistedSessionRun(value: unknown): value is PersistedSessionRun {
   if (typeof value !== "object" || value === null) return false;
 
   const candidate = value as Record<string, unknown>;
@@ -71,14 +205,28 @@ function isPersistedSessionRun(value: unknown): value is PersistedSessionRun {
     typeof candidate.speedDelta === "number" &&
     Number.isFinite(candidate.speedDelta) &&
     hasValidImprovements &&
+    isOptionalPercentage(candidate.timingAccuracy) &&
     typeof config?.minNote === "string" &&
     typeof config?.maxNote === "string" &&
     typeof config?.totalNotes === "number" &&
-    Number.isFinite(config?.totalNotes)
+    Number.isFinite(config?.totalNotes) &&
+    isOptionalKeySignature(config?.keySignature) &&
+    isOptionalAccidentalDensity(config?.accidentalDensity) &&
+    isOptionalTexture(config?.texture) &&
+    isOptionalIntervals(config?.intervals) &&
+    isOptionalBoolean(config?.inversions) &&
+    isOptionalBoolean(config?.adaptive) &&
+    isOptionalMotion(config?.motion) &&
+    isOptionalHandMode(config?.hands) &&
+    isOptionalTimeSignature(config?.timeSignature) &&
+    isOptionalRhythm(config?.rhythm) &&
+    isOptionalPracticeMode(config?.practiceMode) &&
+    isOptionalPositiveNumber(config?.tempo) &&
+    isOptionalString(config?.pieceId)
   );
 }
 
-function isPersistedCustomTraining(value: unknown): value is PersistedCustomTraining {
+export function isPersistedCustomTraining(value: unknown): value is PersistedCustomTraining {
   if (typeof value !== "object" || value === null) return false;
 
   const candidate = value as Record<string, unknown>;
@@ -89,79 +237,121 @@ function isPersistedCustomTraining(value: unknown): value is PersistedCustomTrai
     typeof candidate.maxNote === "string" &&
     typeof candidate.totalNotes === "number" &&
     Number.isFinite(candidate.totalNotes) &&
+    isOptionalMotion(candidate.motion) &&
     typeof candidate.createdAt === "number" &&
     Number.isFinite(candidate.createdAt)
   );
 }
 
-function openDb(): Promise<IDBDatabase | null> {
-  if (!supportsIndexedDb()) {
-    return Promise.resolve(null);
-  }
+export function isPersistedDeviceProfile(value: unknown): value is PersistedDeviceProfile {
+  if (typeof value !== "object" || value === null) return false;
 
-  return new Promise((resolve) => {
-    try {
-      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
-
-      request.onupgradeneeded = () => {
-        const db = request.result;
-
-        if (!db.objectStoreNames.contains(SETTINGS_STORE)) {
-          db.createObjectStore(SETTINGS_STORE, { keyPath: "key" });
-        }
-
-        if (!db.objectStoreNames.contains(SESSION_RUNS_STORE)) {
-          const store = db.createObjectStore(SESSION_RUNS_STORE, { keyPath: "id" });
-          store.createIndex(CREATED_AT_INDEX, CREATED_AT_INDEX, { unique: false });
-        }
-
-        if (!db.objectStoreNames.contains(CUSTOM_TRAININGS_STORE)) {
-          const store = db.createObjectStore(CUSTOM_TRAININGS_STORE, { keyPath: "id" });
-          store.createIndex(CREATED_AT_INDEX, CREATED_AT_INDEX, { unique: false });
-        }
-      };
-
-      request.onsuccess = () => resolve(request.result);
-      request.onerror = () => resolve(null);
-      request.onblocked = () => resolve(null);
-    } catch {
-      resolve(null);
-    }
-  });
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.deviceId === "string" &&
+    typeof candidate.deviceName === "string" &&
+    typeof candidate.latencyMs === "number" &&
+    Number.isFinite(candidate.latencyMs) &&
+    typeof candidate.velocityThreshold === "number" &&
+    Number.isFinite(candidate.velocityThreshold) &&
+    Number.isInteger(candidate.transpose) &&
+    typeof candidate.updatedAt === "number" &&
+    Number.isFinite(candidate.updatedAt)
+  );
 }
 
-function withStore<T>(
-  storeName: string,
-  mode: IDBTransactionMode,
-  action: (store: IDBObjectStore) => Promise<T>,
-): Promise<T | null> {
-  return openDb().then((db) => {
-    if (!db) return null;
-
-    try {
-      return action(db.transaction(storeName, mode).objectStore(storeName)).finally(() => {
-        db.close();
-      });
-    } catch {
-      db.close();
-      return null;
-    }
-  });
+export function isPersistedPiece(value: unknown): value is PersistedPiece {
+  if (typeof value !== "object" || value === null) return false;
+
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.id === "string" &&
+    typeof candidate.title === "string" &&
+    typeof candidate.fileName === "string" &&
+    typeof candidate.xml === "string" &&
+    Number.isInteger(candidate.stepCount) &&
+    isOptionalPositiveNumber(candidate.tempo) &&
+    typeof candidate.createdAt === "number" &&
+    Number.isFinite(candidate.createdAt)
+  );
 }
 
-export async function loadSettings(): Promise<PersistedSettings | null> {
-  const result = await withStore(SETTINGS_STORE, "readonly", (store) =>
-    new Promise<unknown>((resolve) => {
-      const request = store.get(SETTINGS_KEY);
-      request.onsuccess = () => {
-        const record = request.result as SettingsRecord | undefined;
-        resolve(record?.value ?? null);
-      };
-      request.onerror = () => resolve(null);
-    }),
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isPlayedNote(value: unknown): boolean {
+  if (typeof value !== "object" || value === null) return false;
+
+  const candidate = value as Record<string, unknown>;
+  return (
+    Number.isInteger(candidate.note) &&
+    isFiniteNumber(candidate.atMs) &&
+    (candidate.result === "correct" || candidate.result === "partial" || candidate.result === "wrong") &&
+    (candidate.timing === undefined ||
+      candidate.timing === "early" ||
+      candidate.timing === "on-time" ||
+      candidate.timing === "late")
+  );
+}
+
+function isNoteAttempt(value: unknown): boolean {
+  if (typeof value !== "object" || value === null) return false;
+
+  const candidate = value as Record<string, unknown>;
+  return (
+    Number.isInteger(candidate.step) &&
+    isFiniteNumber(candidate.beat) &&
+    Array.isArray(candidate.expected) &&
+    candidate.expected.every((note) => Number.isInteger(note)) &&
+    (candidate.arrivedAtMs === null || isFiniteNumber(candidate.arrivedAtMs)) &&
+    Array.isArray(candidate.presses) &&
+    candidate.presses.every(isPlayedNote) &&
+    (candidate.reactionMs === null || isFiniteNumber(candidate.reactionMs))
   );
+}
 
-  if (!result || !isPersistedSettings(result)) {
+export function isPersistedAttemptLog(value: unknown): value is PersistedAttemptLog {
+  if (typeof value !== "object" || value === null) return false;
+
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.runId === "string" &&
+    isFiniteNumber(candidate.createdAt) &&
+    Array.isArray(candidate.attempts) &&
+    candidate.attempts.every(isNoteAttempt)
+  );
+}
+
+export const sessionRunsRepository = createTimelineRepository(
+  SESSION_RUNS_STORE,
+  isPersistedSessionRun,
+);
+export const customTrainingsRepository = createTimelineRepository(
+  CUSTOM_TRAININGS_STORE,
+  isPersistedCustomTraining,
+);
+export const deviceProfilesRepository = createRepository(
+  DEVICE_PROFILES_STORE,
+  isPersistedDeviceProfile,
+);
+export const piecesRepository = createTimelineRepository(PIECES_STORE, isPersistedPiece);
+export const attemptLogsRepository = createTimelineRepository(
+  ATTEMPT_LOGS_STORE,
+  isPersistedAttemptLog,
+);
+
+export async function loadSettings(): Promise<PersistedSettings | null> {
+  const backend = await getStorageBackend();
+  const record = (await backend.get(SETTINGS_STORE, SETTINGS_KEY)) as SettingsRecord | undefined;
+  const result: unknown = record?.value ?? null;
+
+  if (!result) {
+    return null;
+  }
+
+  if (!isPersistedSettings(result)) {
+    await quarantineEntries(SETTINGS_STORE, [{ key: SETTINGS_KEY, value: record }]);
     return null;
   }
 
@@ -169,118 +359,168 @@ export async function loadSettings(): Promise<PersistedSettings | null> {
 }
 
 export async function saveSettings(settings: PersistedSettings): Promise<void> {
-  const result = await withStore(SETTINGS_STORE, "readwrite", (store) =>
-    new Promise<boolean>((resolve) => {
-      const request = store.put({ key: SETTINGS_KEY, value: settings } satisfies SettingsRecord);
-      request.onsuccess = () => resolve(true);
-      request.onerror = () => resolve(false);
-    }),
-  );
+  const record: SettingsRecord = { key: SETTINGS_KEY, value: settings };
+  await writeStores([SETTINGS_STORE], (batch) => batch.put(SETTINGS_STORE, record));
+}
 
-  if (result === null) {
-    return;
-  }
+export function listSessionRuns(): Promise<PersistedSessionRun[]> {
+  return sessionRunsRepository.list();
 }
 
-export async function listSessionRuns(): Promise<PersistedSessionRun[]> {
-  const result = await withStore(SESSION_RUNS_STORE, "readonly", (store) =>
-    new Promise<unknown[]>((resolve) => {
-      const request = store.getAll();
-      request.onsuccess = () => resolve(Array.isArray(request.result) ? request.result : []);
-      request.onerror = () => resolve([]);
-    }),
-  );
+/** Saves a finished run together with its attempt log, so neither is stored without the other. */
+export async function addSessionRun(
+  run: PersistedSessionRun,
+  log: PersistedAttemptLog,
+): Promise<void> {
+  await writeStores([SESSION_RUNS_STORE, ATTEMPT_LOGS_STORE], (batch) => {
+    batch.put(SESSION_RUNS_STORE, run);
+    batch.put(ATTEMPT_LOGS_STORE, log);
+  });
+}
 
-  if (!result) {
-    return [];
-  }
+export function listCustomTrainings(): Promise<PersistedCustomTraining[]> {
+  return customTrainingsRepository.list();
+}
 
-  return result
-    .filter((entry): entry is PersistedSessionRun => isPersistedSessionRun(entry))
-    .sort((left, right) => right.createdAt - left.createdAt);
+export function addCustomTraining(training: PersistedCustomTraining): Promise<void> {
+  return customTrainingsRepository.put(training);
 }
 
-export async function addSessionRun(run: PersistedSessionRun): Promise<void> {
-  const result = await withStore(SESSION_RUNS_STORE, "readwrite", (store) =>
-    new Promise<boolean>((resolve) => {
-      const request = store.put(run);
-      request.onsuccess = () => resolve(true);
-      request.onerror = () => resolve(false);
-    }),
-  );
+export function deleteCustomTraining(id: string): Promise<void> {
+  return customTrainingsRepository.delete(id);
+}
 
-  if (result === null) {
-    return;
-  }
+export function listDeviceProfiles(): Promise<PersistedDeviceProfile[]> {
+  return deviceProfilesRepository.list();
 }
 
-export async function listCustomTrainings(): Promise<PersistedCustomTraining[]> {
-  const result = await withStore(CUSTOM_TRAININGS_STORE, "readonly", (store) =>
-    new Promise<unknown[]>((resolve) => {
-      const request = store.getAll();
-      request.onsuccess = () => resolve(Array.isArray(request.result) ? request.result : []);
-      request.onerror = () => resolve([]);
-    }),
-  );
+export function saveDeviceProfile(profile: PersistedDeviceProfile): Promise<void> {
+  return deviceProfilesRepository.put(profile);
+}
 
-  if (!result) {
-    return [];
-  }
+export function listPieces(): Promise<PersistedPiece[]> {
+  return piecesRepository.list();
+}
 
-  return result
-    .filter((entry): entry is PersistedCustomTraining => isPersistedCustomTraining(entry))
-    .sort((left, right) => right.createdAt - left.createdAt);
+export function addPiece(piece: PersistedPiece): Promise<void> {
+  return piecesRepository.put(piece);
 }
 
-export async function addCustomTraining(training: PersistedCustomTraining): Promise<void> {
-  await withStore(CUSTOM_TRAININGS_STORE, "readwrite", (store) =>
-    new Promise<boolean>((resolve) => {
-      const request = store.put(training);
-      request.onsuccess = () => resolve(true);
-      request.onerror = () => resolve(false);
-    }),
-  );
+export function deletePiece(id: string): Promise<void> {
+  return piecesRepository.delete(id);
 }
 
-export async function deleteCustomTraining(id: string): Promise<void> {
-  await withStore(CUSTOM_TRAININGS_STORE, "readwrite", (store) =>
-    new Promise<boolean>((resolve) => {
-      const request = store.delete(id);
-      request.onsuccess = () => resolve(true);
-      request.onerror = () => resolve(false);
-    }),
-  );
+export function loadAttemptLog(runId: string): Promise<PersistedAttemptLog | null> {
+  return attemptLogsRepository.get(runId);
 }
 
-export async function seedTrainings(trainings: PersistedCustomTraining[]): Promise<void> {
-  const alreadySeeded = await withStore(SETTINGS_STORE, "readonly", (store) =>
-    new Promise<boolean>((resolve) => {
-      const request = store.get(SEEDED_KEY);
-      request.onsuccess = () => resolve(request.result != null);
-      request.onerror = () => resolve(false);
-    }),
-  );
+export function listAttemptLogs(): Promise<PersistedAttemptLog[]> {
+  return attemptLogsRepository.list();
+}
 
+export async function seedTrainings(trainings: PersistedCustomTraining[]): Promise<void> {
+  const backend = await getStorageBackend();
+  const alreadySeeded = (await backend.get(SETTINGS_STORE, SEEDED_KEY)) != null;
   if (alreadySeeded) return;
 
-  const db = await openDb();
-  if (!db) return;
-
-  try {
-    const tx = db.transaction([CUSTOM_TRAININGS_STORE, SETTINGS_STORE], "readwrite");
-    const trainingsStore = tx.objectStore(CUSTOM_TRAININGS_STORE);
-    const settingsStore = tx.objectStore(SETTINGS_STORE);
-
+  await writeStores([CUSTOM_TRAININGS_STORE, SETTINGS_STORE], (batch) => {
     for (const training of trainings) {
-      trainingsStore.put(training);
+      batch.put(CUSTOM_TRAININGS_STORE, training);
     }
-    settingsStore.put({ key: SEEDED_KEY, value: true });
+    batch.put(SETTINGS_STORE, { key: SEEDED_KEY, value: true });
+  });
+}
 
-    await new Promise<void>((resolve, reject) => {
-      tx.oncomplete = () => resolve();
-      tx.onerror = () => reject(tx.error);
-    });
-  } finally {
-    db.close();
+/** Reads every store for a backup. Invalid records are quarantined, as in the list functions. */
+export async function readBackupData(): Promise<BackupData> {
+  const [settings, sessionRuns, customTrainings, deviceProfiles, pieces, attemptLogs] =
+    await Promise.all([
+      loadSettings(),
+      listSessionRuns(),
+      listCustomTrainings(),
+      listDeviceProfiles(),
+      listPieces(),
+      listAttemptLogs(),
+    ]);
+  return { settings, sessionRuns, customTrainings, deviceProfiles, pieces, attemptLogs };
+}
+
+/** Records set aside by the list functions, newest first. */
+export async function listQuarantinedRecords(): Promise<PersistedQuarantineEntry[]> {
+  const backend = await getStorageBackend();
+  const entries = await backend.entries(QUARANTINE_STORE);
+  return entries
+    .map((entry) => entry.value as PersistedQuarantineEntry)
+    .sort((left, right) => right.quarantinedAt - left.quarantinedAt);
+}
+
+export async function clearQuarantine(): Promise<void> {
+  await writeStores([QUARANTINE_STORE], (batch) => batch.clear(QUARANTINE_STORE));
+}
+
+/**
+ * Writes a backup as a single all-or-nothing write, so a failed restore
+ * changes nothing. Replacing clears every store but the quarantine first;
+ * merging matches records by their key and lets `options.conflict` pick
+ * the copy that wins.
+ */
+export async function restoreBackupData(
+  data: BackupData,
+  options: BackupRestoreOptions,
+): Promise<BackupRestoreSummary> {
+  const backend = await getStorageBackend();
+  const storeNames = [
+    SETTINGS_STORE,
+    SESSION_RUNS_STORE,
+    CUSTOM_TRAININGS_STORE,
+    DEVICE_PROFILES_STORE,
+    PIECES_STORE,
+    ATTEMPT_LOGS_STORE,
+  ];
+  const summary: BackupRestoreSummary = { added: 0, updated: 0, kept: 0 };
+
+  const existingKeys = new Map<string, Set<IDBValidKey>>();
+  if (options.mode === "merge") {
+    for (const name of storeNames) {
+      existingKeys.set(name, new Set(await backend.keys(name)));
+    }
   }
+
+  await writeStores(storeNames, (batch) => {
+    if (options.mode === "replace") {
+      for (const name of storeNames) {
+        batch.clear(name);
+      }
+      // Built-in trainings were seeded once already; don't bring them back over the backup.
+      batch.put(SETTINGS_STORE, { key: SEEDED_KEY, value: true });
+    }
+
+    const restore = (storeName: string, key: IDBValidKey, record: unknown) => {
+      if (options.mode === "replace" || !existingKeys.get(storeName)?.has(key)) {
+        batch.put(storeName, record);
+        summary.added += 1;
+      } else if (options.conflict === "use-backup") {
+        batch.put(storeName, record);
+        summary.updated += 1;
+      } else {
+        summary.kept += 1;
+      }
+    };
+
+    if (data.settings) {
+      const record: SettingsRecord = { key: SETTINGS_KEY, value: data.settings };
+      restore(SETTINGS_STORE, SETTINGS_KEY, record);
+    }
+    data.sessionRuns.forEach((run) => restore(SESSION_RUNS_STORE, run.id, run));
+    data.customTrainings.forEach((training) =>
+      restore(CUSTOM_TRAININGS_STORE, training.id, training),
+    );
+    data.deviceProfiles.forEach((profile) =>
+      restore(DEVICE_PROFILES_STORE, profile.deviceId, profile),
+    );
+    data.pieces.forEach((piece) => restore(PIECES_STORE, piece.id, piece));
+    data.attemptLogs.forEach((log) => restore(ATTEMPT_LOGS_STORE, log.runId, log));
+  });
+
+  return summary;
 }
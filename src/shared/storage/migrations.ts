@@ -0,0 +1,171 @@
+import {
+  ATTEMPT_LOGS_STORE,
+  CREATED_AT_INDEX,
+  CUSTOM_TRAININGS_STORE,
+  DEVICE_PROFILES_STORE,
+  PIECES_STORE,
+  QUARANTINE_STORE,
+  SESSION_RUNS_STORE,
+  SETTINGS_STORE,
+} from "./stores";
+
+export type StoreSchema = {
+  keyPath: string;
+  autoIncrement?: boolean;
+  /** Non-unique indexes, each over the property of the same name. */
+  indexes?: readonly string[];
+};
+
+/**
+ * The few operations a migration may perform. `openDb` adapts the upgrade
+ * transaction to it; tests use an in-memory stand-in.
+ */
+export interface MigrationTarget {
+  hasStore(name: string): boolean;
+  createStore(name: string, schema: StoreSchema): void;
+  /** Rewrites every record of a store. Records returned unchanged are not written back. */
+  updateRecords(name: string, transform: (record: unknown) => unknown): Promise<void>;
+}
+
+export type Migration = {
+  version: number;
+  description: string;
+  migrate: (target: MigrationTarget) => void | Promise<void>;
+};
+
+function ensureStore(target: MigrationTarget, name: string, schema: StoreSchema): void {
+  if (!target.hasStore(name)) {
+    target.createStore(name, schema);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Session runs saved before a setup option existed were played with its
+ * default; write the default out so every run describes its full setup.
+ */
+function backfillRunConfig(record: unknown): unknown {
+  if (!isRecord(record) || !isRecord(record.config)) return record;
+
+  const config = record.config;
+  const defaults: Record<string, unknown> = {
+    texture: "single",
+    hands: "combined",
+    timeSignature: "4/4",
+    rhythm: "quarters",
+    practiceMode: "wait",
+  };
+  const missing = Object.keys(defaults).filter((key) => config[key] === undefined);
+  if (missing.length === 0 || typeof config.pieceId === "string") return record;
+
+  return {
+    ...record,
+    config: { ...config, ...Object.fromEntries(missing.map((key) => [key, defaults[key]])) },
+  };
+}
+
+/**
+ * Every schema change, oldest first. Steps only ever get appended: a
+ * database at version N runs the steps after N, in order. Store creation
+ * is guarded, because version 1 and 2 databases predate this list.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    version: 2,
+    description: "Settings, session runs and custom trainings",
+    migrate: (target) => {
+      ensureStore(target, SETTINGS_STORE, { keyPath: "key" });
+      ensureStore(target, SESSION_RUNS_STORE, { keyPath: "id", indexes: [CREATED_AT_INDEX] });
+      ensureStore(target, CUSTOM_TRAININGS_STORE, { keyPath: "id", indexes: [CREATED_AT_INDEX] });
+    },
+  },
+  {
+    version: 3,
+    description: "Per-device MIDI input profiles",
+    migrate: (target) => ensureStore(target, DEVICE_PROFILES_STORE, { keyPath: "deviceId" }),
+  },
+  {
+    version: 4,
+    description: "Imported pieces",
+    migrate: (target) =>
+      ensureStore(target, PIECES_STORE, { keyPath: "id", indexes: [CREATED_AT_INDEX] }),
+  },
+  {
+    version: 5,
+    description: "Per-note attempt logs",
+    migrate: (target) =>
+      ensureStore(target, ATTEMPT_LOGS_STORE, { keyPath: "runId", indexes: [CREATED_AT_INDEX] }),
+  },
+  {
+    version: 6,
+    description: "Quarantine for invalid records; default setup options on older session runs",
+    migrate: async (target) => {
+      ensureStore(target, QUARANTINE_STORE, {
+        keyPath: "id",
+        autoIncrement: true,
+        indexes: ["quarantinedAt"],
+      });
+      await target.updateRecords(SESSION_RUNS_STORE, backfillRunConfig);
+    },
+  },
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Runs the steps newer than `fromVersion` one after another, so each sees
+ * the records the previous one wrote. Returns the versions it applied.
+ */
+export async function runMigrations(
+  target: MigrationTarget,
+  fromVersion: number,
+  migrations: readonly Migration[] = MIGRATIONS,
+): Promise<number[]> {
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new Error(`Migration ${migration.version} is out of order.`);
+    }
+  });
+
+  const applied: number[] = [];
+  for (const migration of migrations) {
+    if (migration.version <= fromVersion) continue;
+    await migration.migrate(target);
+    applied.push(migration.version);
+  }
+  return applied;
+}
+
+/** Adapts a `versionchange` transaction for `runMigrations`. */
+export function createIdbMigrationTarget(db: IDBDatabase, tx: IDBTransaction): MigrationTarget {
+  return {
+    hasStore: (name) => db.objectStoreNames.contains(name),
+    createStore: (name, schema) => {
+      const store = db.createObjectStore(name, {
+        keyPath: schema.keyPath,
+        autoIncrement: schema.autoIncrement ?? false,
+      });
+      for (const index of schema.indexes ?? []) {
+        store.createIndex(index, index, { unique: false });
+      }
+    },
+    updateRecords: (name, transform) =>
+      new Promise<void>((resolve, reject) => {
+        const request = tx.objectStore(name).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            resolve();
+            return;
+          }
+          const next = transform(cursor.value);
+          if (next !== cursor.value) cursor.update(next);
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      }),
+  };
+}
@@ -0,0 +1,140 @@
+import { getStorageBackend, type StoredEntry, type WriteBatch } from "./backends";
+import { publishStoreChange, subscribeToStores } from "./changes";
+import { CREATED_AT_INDEX, QUARANTINE_STORE } from "./stores";
+import type { PersistedQuarantineEntry } from "./types";
+
+export type Page<T> = {
+  items: T[];
+  offset: number;
+  /** Records in the store, including any on later pages. */
+  total: number;
+  hasMore: boolean;
+};
+
+/** Typed access to one store. Records failing `isValid` are quarantined when read. */
+export interface Repository<T> {
+  readonly store: string;
+  list(): Promise<T[]>;
+  get(key: IDBValidKey): Promise<T | null>;
+  put(record: T): Promise<void>;
+  delete(key: IDBValidKey): Promise<void>;
+  /** Calls `listener` after every write to the store, including from other tabs. */
+  subscribe(listener: () => void): () => void;
+}
+
+/** A repository over a store with a `createdAt` index. Everything comes newest first. */
+export interface TimelineRepository<T> extends Repository<T> {
+  /**
+   * Invalid records met on the way are quarantined, so the next page starts
+   * at `offset + items.length` in the store as it is afterwards.
+   */
+  page(offset: number, limit: number): Promise<Page<T>>;
+  /** Records created from `from` to `to`, both inclusive, in epoch milliseconds. */
+  between(from: number, to: number): Promise<T[]>;
+}
+
+/**
+ * Writes to several stores as one transaction, so either every write lands
+ * or none does, then tells subscribers of those stores.
+ */
+export async function writeStores(
+  stores: readonly string[],
+  build: (batch: WriteBatch) => void,
+): Promise<void> {
+  const backend = await getStorageBackend();
+  await backend.write(stores, build);
+  publishStoreChange(stores);
+}
+
+/** Moves records out of their store and into the quarantine, in one write. */
+export async function quarantineEntries(storeName: string, entries: StoredEntry[]): Promise<void> {
+  const quarantinedAt = Date.now();
+
+  try {
+    await writeStores([storeName, QUARANTINE_STORE], (batch) => {
+      for (const entry of entries) {
+        const quarantined: PersistedQuarantineEntry = {
+          store: storeName,
+          key: entry.key,
+          record: entry.value,
+          quarantinedAt,
+        };
+        batch.add(QUARANTINE_STORE, quarantined);
+        batch.delete(storeName, entry.key);
+      }
+    });
+  } catch (error) {
+    console.warn("Failed to quarantine invalid stored records.", error);
+  }
+}
+
+/**
+ * Keeps the entries that pass `isValid`. The rest are quarantined rather
+ * than left in place, so they stop being read on every load but aren't lost.
+ */
+async function keepValid<T>(
+  storeName: string,
+  entries: StoredEntry[],
+  isValid: (value: unknown) => value is T,
+): Promise<T[]> {
+  const invalid = entries.filter((entry) => !isValid(entry.value));
+  if (invalid.length > 0) {
+    await quarantineEntries(storeName, invalid);
+  }
+
+  return entries.map((entry) => entry.value).filter(isValid);
+}
+
+export function createRepository<T>(
+  store: string,
+  isValid: (value: unknown) => value is T,
+): Repository<T> {
+  return {
+    store,
+    list: async () => {
+      const backend = await getStorageBackend();
+      return keepValid(store, await backend.entries(store), isValid);
+    },
+    get: async (key) => {
+      const backend = await getStorageBackend();
+      const value = await backend.get(store, key);
+      if (value === undefined) return null;
+      const [record] = await keepValid(store, [{ key, value }], isValid);
+      return record ?? null;
+    },
+    put: (record) => writeStores([store], (batch) => batch.put(store, record)),
+    delete: (key) => writeStores([store], (batch) => batch.delete(store, key)),
+    subscribe: (listener) => subscribeToStores([store], () => listener()),
+  };
+}
+
+export function createTimelineRepository<T>(
+  store: string,
+  isValid: (value: unknown) => value is T,
+): TimelineRepository<T> {
+  const query = async (lower?: number, upper?: number, offset?: number, limit?: number) => {
+    const backend = await getStorageBackend();
+    const entries = await backend.query(store, {
+      index: CREATED_AT_INDEX,
+      lower,
+      upper,
+      direction: "prev",
+      offset,
+      limit,
+    });
+    return keepValid(store, entries, isValid);
+  };
+
+  return {
+    ...createRepository(store, isValid),
+    list: () => query(),
+    page: async (offset, limit) => {
+      const backend = await getStorageBackend();
+      // Counted after the read, once any invalid records on the page have been moved out.
+      const items = await query(undefined, undefined, offset, limit);
+      const total = await backend.count(store);
+      return { items, offset, total, hasMore: offset + items.length < total };
+    },
+    between: (from, to) => query(from, to),
+  };
+}
@@ -0,0 +1,51 @@
+import { getStorageBackend } from "./backends";
+import type { StorageStatus } from "./types";
+
+/** Usage past this share of the quota is reported as nearly full. */
+export const QUOTA_WARNING_RATIO = 0.9;
+
+async function isPersisted(): Promise<boolean | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.persisted) return null;
+
+  try {
+    return await navigator.storage.persisted();
+  } catch {
+    return null;
+  }
+}
+
+export async function getStorageStatus(): Promise<StorageStatus> {
+  const backend = await getStorageBackend();
+  const [persisted, estimate] = await Promise.all([
+    backend.kind === "memory" ? Promise.resolve(false) : isPersisted(),
+    backend.estimate(),
+  ]);
+
+  return {
+    backend: backend.kind,
+    unavailableReason: backend.unavailableReason,
+    persisted,
+    usageBytes: estimate?.usageBytes ?? null,
+    quotaBytes: estimate?.quotaBytes ?? null,
+  };
+}
+
+/**
+ * Asks the browser not to evict this origin's data when space runs low.
+ * Some browsers prompt, others decide from how much the site is used;
+ * resolves whether the data is now persistent.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === "undefined" || !navigator.storage?.persist) return false;
+
+  try {
+    return await navigator.storage.persist();
+  } catch {
+    return false;
+  }
+}
+
+export function isStorageNearlyFull(status: StorageStatus): boolean {
+  if (status.usageBytes === null || !status.quotaBytes) return false;
+  return status.usageBytes / status.quotaBytes >= QUOTA_WARNING_RATIO;
+}
@@ -0,0 +1,13 @@
+export const DB_NAME = "srl-db";
+export const SETTINGS_STORE = "app_settings";
+export const SESSION_RUNS_STORE = "session_runs";
+export const CUSTOM_TRAININGS_STORE = "custom_trainings";
+export const DEVICE_PROFILES_STORE = "device_profiles";
+export const PIECES_STORE = "pieces";
+export const ATTEMPT_LOGS_STORE = "attempt_logs";
+/** Records that failed validation, kept aside instead of being dropped. */
+export const QUARANTINE_STORE = "quarantine";
+export const CREATED_AT_INDEX = "createdAt";
+
+export const SETTINGS_KEY = "user_settings";
+export const SEEDED_KEY = "trainings_seeded";
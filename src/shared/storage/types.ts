@@ -1,12 +1,47 @@
-import type { NoteName } from "../../entities/score";
-import type { ThemeMode } from "../../features/settings/types";
+import type {
+  HandMode,
+  KeySignatureName,
+  MelodicMotion,
+  NoteName,
+  RhythmLevel,
+  Texture,
+  TimeSignatureName,
+} from "../../entities/score";
+import type { Subdivision } from "../../features/metronome/types";
+import type { HintMode } from "../../features/midi/types";
+import type { NoteAttempt, PracticeMode } from "../../features/session/types";
+import type { InputSourceKind, ThemeMode } from "../../features/settings/types";
 
 export type PersistedSettings = {
   themeMode: ThemeMode;
   selectedMidiDevice: string;
+  /** MIDI channel to listen on, 1–16; absent listens to every channel. */
+  midiChannel?: number;
+  /** MIDI output that receives key hints; empty sends nowhere. */
+  midiOutputDevice?: string;
+  midiHintMode?: HintMode;
+  inputSource?: InputSourceKind;
+  microphoneNoiseFloor?: number;
   minNote: NoteName;
   maxNote: NoteName;
   totalNotes: number;
+  keySignature?: KeySignatureName;
+  accidentalDensity?: number;
+  texture?: Texture;
+  intervals?: number[];
+  inversions?: boolean;
+  adaptive?: boolean;
+  motion?: MelodicMotion;
+  hands?: HandMode;
+  timeSignature?: TimeSignatureName;
+  rhythm?: RhythmLevel;
+  practiceMode?: PracticeMode;
+  tempo?: number;
+  metronomeEnabled?: boolean;
+  subdivision?: Subdivision;
+  countIn?: boolean;
+  echoPlayedNotes?: boolean;
+  playTargetOnMiss?: boolean;
   updatedAt: number;
 };
 
@@ -19,10 +54,25 @@ export type PersistedSessionRun = {
   speedNpm: number;
   speedDelta: number;
   improvements: { note: string; misses: number }[];
+  timingAccuracy?: number;
   config: {
     minNote: NoteName;
     maxNote: NoteName;
     totalNotes: number;
+    keySignature?: KeySignatureName;
+    accidentalDensity?: number;
+    texture?: Texture;
+    intervals?: number[];
+    inversions?: boolean;
+    adaptive?: boolean;
+    motion?: MelodicMotion;
+    hands?: HandMode;
+    timeSignature?: TimeSignatureName;
+    rhythm?: RhythmLevel;
+    practiceMode?: PracticeMode;
+    tempo?: number;
+    /** Set when the run practiced an imported piece instead of a generated score. */
+    pieceId?: string;
   };
 };
 
@@ -32,5 +82,96 @@ export type PersistedCustomTraining = {
   minNote: NoteName;
   maxNote: NoteName;
   totalNotes: number;
+  motion?: MelodicMotion;
   createdAt: number;
 };
+
+/** Corrections for one MIDI input, keyed by its Web MIDI id. */
+export type PersistedDeviceProfile = {
+  deviceId: string;
+  deviceName: string;
+  latencyMs: number;
+  velocityThreshold: number;
+  transpose: number;
+  updatedAt: number;
+};
+
+/** A MusicXML score imported by the user, stored uncompressed. */
+export type PersistedPiece = {
+  id: string;
+  title: string;
+  fileName: string;
+  xml: string;
+  stepCount: number;
+  /** Starting tempo of an imported MIDI file, suggested when the piece is practiced. */
+  tempo?: number;
+  createdAt: number;
+};
+
+/** Step-by-step log of one session run, stored apart from the run's aggregates. */
+export type PersistedAttemptLog = {
+  /** `PersistedSessionRun.id` of the run this log belongs to. */
+  runId: string;
+  createdAt: number;
+  attempts: NoteAttempt[];
+};
+
+/** Every record in `srl-db`, grouped by store. */
+export type BackupData = {
+  settings: PersistedSettings | null;
+  sessionRuns: PersistedSessionRun[];
+  customTrainings: PersistedCustomTraining[];
+  deviceProfiles: PersistedDeviceProfile[];
+  pieces: PersistedPiece[];
+  attemptLogs: PersistedAttemptLog[];
+};
+
+/** The JSON file written by "Export backup". `version` changes when the layout of `data` does. */
+export type BackupBundle = {
+  format: "srl-backup";
+  version: number;
+  exportedAt: number;
+  data: BackupData;
+};
+
+/** Record counts from restoring a backup. */
+export type BackupRestoreSummary = {
+  /** Records that did not exist on this device. */
+  added: number;
+  /** Existing records overwritten by the backup's copy. */
+  updated: number;
+  /** Existing records kept over the backup's copy. */
+  kept: number;
+};
+
+/** A record that failed validation when read, moved aside so it can still be recovered. */
+export type PersistedQuarantineEntry = {
+  id?: number;
+  /** The store the record was read from. */
+  store: string;
+  /** Its key in that store. */
+  key: IDBValidKey;
+  record: unknown;
+  quarantinedAt: number;
+};
+
+/**
+ * Where records are kept:
+ *   indexeddb     — the normal case
+ *   local-storage — IndexedDB failed to open; a smaller, synchronous store
+ *   memory        — nothing persists; data is gone when the tab closes
+ */
+export type StorageBackendKind = "indexeddb" | "local-storage" | "memory";
+
+/** Why IndexedDB isn't in use: missing, failed to open, or held at an older version by another tab. */
+export type StorageUnavailableReason = "unsupported" | "failed" | "blocked";
+
+export type StorageStatus = {
+  backend: StorageBackendKind;
+  /** Set whenever `backend` isn't IndexedDB. */
+  unavailableReason: StorageUnavailableReason | null;
+  /** Whether the browser promised not to evict the data; null when it can't say. */
+  persisted: boolean | null;
+  usageBytes: number | null;
+  quotaBytes: number | null;
+};
@@ -0,0 +1,47 @@
+import type { StorageStatus } from "../../storage";
+import { isStorageNearlyFull } from "../../storage";
+import { formatBytes } from "../../utils";
+
+interface StorageNoticeProps {
+    status: StorageStatus;
+    onDismiss: () => void;
+}
+
+function noticeMessage(status: StorageStatus): string | null {
+    if (status.backend === "memory") {
+        return status.unavailableReason === "blocked"
+            ? "Another tab of this site is holding its storage. Close other tabs and reload; until then, nothing you do here is saved."
+            : "This browser isn't letting the site save data, so settings and sessions are lost when you close the tab.";
+    }
+    if (status.backend === "local-storage") {
+        return "The browser database isn't available; saving to a small fallback store instead. Large pieces may not fit.";
+    }
+    if (isStorageNearlyFull(status)) {
+        return `Storage is almost full (${formatBytes(status.usageBytes ?? 0)} of ${formatBytes(
+            status.quotaBytes ?? 0,
+        )}). Export a backup and delete pieces you no longer need.`;
+    }
+    return null;
+}
+
+/**
+ * A banner for when saved data is at risk: nothing can be saved, only the small
+ * fallback store is available, or the quota is nearly full. A database that is
+ * merely not marked persistent is shown in Settings instead.
+ */
+export default function StorageNotice({ status, onDismiss }: StorageNoticeProps) {
+    const message = noticeMessage(status);
+    if (!message) return null;
+
+    return (
+        <div className="storage-notice" role="status">
+            <span className="material-symbols-outlined" aria-hidden>
+                {status.backend === "indexeddb" ? "storage" : "cloud_off"}
+            </span>
+            <p>{message}</p>
+            <button type="button" className="icon-button" onClick={onDismiss} aria-label="Dismiss">
+                <span className="material-symbols-outlined">close</span>
+            </button>
+        </div>
+    );
+}
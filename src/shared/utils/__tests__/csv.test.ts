@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { toCsv } from "../csv";
+
+describe("toCsv", () => {
+  it("joins rows with commas and CRLF line endings", () => {
+    expect(toCsv(["a", "b"], [[1, "x"]])).toBe("a,b\r\n1,x\r\n");
+  });
+
+  it("quotes values with commas, quotes or line breaks", () => {
+    expect(toCsv(["title"], [['Say "hi", then\nleave']])).toBe('title\r\n"Say ""hi"", then\nleave"\r\n');
+  });
+
+  it("leaves missing values empty", () => {
+    expect(toCsv(["a", "b", "c"], [[null, undefined, false]])).toBe("a,b,c\r\n,,false\r\n");
+  });
+
+  it("defuses text that a spreadsheet would run as a formula", () => {
+    expect(toCsv(["a", "b", "c", "d", "e"], [["=1+1", "+x", "-y", "@SUM(A1)", -3]])).toBe(
+      "a,b,c,d,e\r\n'=1+1,'+x,'-y,'@SUM(A1),-3\r\n",
+    );
+  });
+});
@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { formatBytes } from "../formatBytes";
+
+describe("formatBytes", () => {
+  it("keeps small counts in bytes", () => {
+    expect(formatBytes(0)).toBe("0 B");
+    expect(formatBytes(512)).toBe("512 B");
+  });
+
+  it("shows one decimal below ten units and none above", () => {
+    expect(formatBytes(1536)).toBe("1.5 KB");
+    expect(formatBytes(5 * 1024 * 1024)).toBe("5.0 MB");
+    expect(formatBytes(42 * 1024 * 1024 * 1024)).toBe("42 GB");
+  });
+});
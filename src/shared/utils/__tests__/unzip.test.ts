@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { unzip } from "../unzip";
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Builds a minimal archive; CRCs are left at zero since the reader doesn't check them. */
+async function buildZip(files: { name: string; text: string; deflate: boolean }[]): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const raw = encoder.encode(file.text);
+    const data = file.deflate ? await deflateRaw(raw) : raw;
+    const method = file.deflate ? 8 : 0;
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(8, method, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, raw.length, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, raw.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, end];
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    zip.set(part, position);
+    position += part.length;
+  }
+  return zip;
+}
+
+describe("unzip", () => {
+  it("reads stored and deflated entries", async () => {
+    const zip = await buildZip([
+      { name: "META-INF/container.xml", text: "<container/>", deflate: false },
+      { name: "score.xml", text: "<score-partwise>".repeat(20), deflate: true },
+    ]);
+
+    const files = await unzip(zip);
+    const decoder = new TextDecoder();
+
+    expect([...files.keys()]).toEqual(["META-INF/container.xml", "score.xml"]);
+    expect(decoder.decode(files.get("META-INF/container.xml"))).toBe("<container/>");
+    expect(decoder.decode(files.get("score.xml"))).toBe("<score-partwise>".repeat(20));
+  });
+
+  it("rejects data that isn't a ZIP archive", async () => {
+    await expect(unzip(new TextEncoder().encode("<score-partwise/>".repeat(3)))).rejects.toThrow(
+      /Not a ZIP/,
+    );
+  });
+});
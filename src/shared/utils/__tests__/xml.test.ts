@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { parseXml, xmlChild, xmlChildText, xmlChildren } from "../xml";
+
+describe("parseXml", () => {
+  it("reads elements, attributes and text past the prolog", () => {
+    const root = parseXml(`<?xml version="1.0"?>
+      <!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "x.dtd">
+      <!-- a comment -->
+      <score version="4.0"><part id="P1"><note><step>C</step><chord/></note></part></score>`);
+
+    expect(root.name).toBe("score");
+    expect(root.attributes.version).toBe("4.0");
+
+    const note = xmlChild(xmlChild(root, "part"), "note");
+    expect(xmlChildText(note, "step")).toBe("C");
+    expect(xmlChild(note, "chord")).toBeDefined();
+  });
+
+  it("decodes entities and CDATA", () => {
+    const root = parseXml(`<a title='Bach &amp; Sons'>x &lt; y &#233;<![CDATA[<raw>]]></a>`);
+
+    expect(root.attributes.title).toBe("Bach & Sons");
+    expect(root.text).toBe("x < y é<raw>");
+  });
+
+  it("allows > inside quoted attribute values", () => {
+    const root = parseXml(`<a cond="x > 1" alt='>'><b note=">/"/></a>`);
+
+    expect(root.attributes).toEqual({ cond: "x > 1", alt: ">" });
+    expect(xmlChild(root, "b")?.attributes.note).toBe(">/");
+    expect(xmlChild(root, "b")?.children).toEqual([]);
+  });
+
+  it("lists repeated children in order", () => {
+    const root = parseXml("<m><n>1</n><x/><n>2</n></m>");
+
+    expect(xmlChildren(root, "n").map((child) => child.text)).toEqual(["1", "2"]);
+  });
+
+  it("rejects mismatched and unclosed tags", () => {
+    expect(() => parseXml("<a><b></a>")).toThrow(/closing tag/);
+    expect(() => parseXml("<a><b>")).toThrow(/Unclosed/);
+    expect(() => parseXml("just text")).toThrow(/no root element/);
+  });
+});
@@ -0,0 +1,18 @@
+export type CsvValue = string | number | boolean | null | undefined;
+
+/** Leading characters that make spreadsheets read a cell as a formula. */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value: CsvValue): string {
+    if (value === null || value === undefined) return "";
+    // Text such as a piece id is user-controlled; a leading quote keeps it inert.
+    // Numbers are left alone so negative values stay numeric.
+    const text =
+        typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Serializes rows as RFC 4180 CSV with CRLF line endings, as spreadsheets expect. */
+export function toCsv(header: readonly string[], rows: readonly (readonly CsvValue[])[]): string {
+    return [header, ...rows].map((row) => row.map(escapeCsvValue).join(",")).join("\r\n") + "\r\n";
+}
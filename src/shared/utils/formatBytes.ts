@@ -0,0 +1,13 @@
+const UNITS = ["B", "KB", "MB", "GB", "TB"];
+
+/** A byte count in the largest unit that keeps it at or above 1, e.g. "1.4 MB". */
+export function formatBytes(bytes: number): string {
+    let value = Math.max(0, bytes);
+    let unit = 0;
+    while (value >= 1024 && unit < UNITS.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    const digits = unit === 0 || value >= 10 ? 0 : 1;
+    return `${value.toFixed(digits)} ${UNITS[unit]}`;
+}
@@ -1,2 +1,8 @@
 export { clamp } from "./clamp";
+export { toCsv } from "./csv";
+export { formatBytes } from "./formatBytes";
 export { formatTime } from "./formatTime";
+export { unzip } from "./unzip";
+export { parseXml, xmlChild, xmlChildText, xmlChildren } from "./xml";
+export type { CsvValue } from "./csv";
+export type { XmlElement } from "./xml";
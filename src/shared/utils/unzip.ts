@@ -0,0 +1,69 @@
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const STORED = 0;
+const DEFLATED = 8;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([new Uint8Array(data)]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+    // The record is 22 bytes plus a comment of up to 64 KiB.
+    const earliest = Math.max(0, view.byteLength - 22 - 0xffff);
+    for (let offset = view.byteLength - 22; offset >= earliest; offset--) {
+        if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+    }
+    throw new Error("Not a ZIP archive.");
+}
+
+/**
+ * Reads every file of a ZIP archive into memory. Supports the stored and
+ * deflate methods (what `.mxl` files use) via the platform's
+ * `DecompressionStream`; encrypted and ZIP64 archives are rejected.
+ */
+export async function unzip(bytes: Uint8Array): Promise<Map<string, Uint8Array>> {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const end = findEndOfCentralDirectory(view);
+    const entryCount = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+
+    const decoder = new TextDecoder();
+    const files = new Map<string, Uint8Array>();
+
+    for (let entry = 0; entry < entryCount; entry++) {
+        if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+            throw new Error("Corrupt ZIP central directory.");
+        }
+        const flags = view.getUint16(offset + 8, true);
+        const method = view.getUint16(offset + 10, true);
+        const compressedSize = view.getUint32(offset + 20, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const localOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith("/")) continue;
+        if (flags & 0x1) throw new Error(`"${name}" is encrypted.`);
+        if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+            throw new Error(`Corrupt ZIP entry "${name}".`);
+        }
+
+        const dataStart =
+            localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === STORED) {
+            files.set(name, data);
+        } else if (method === DEFLATED) {
+            files.set(name, await inflateRaw(data));
+        } else {
+            throw new Error(`"${name}" uses unsupported compression method ${method}.`);
+        }
+    }
+
+    return files;
+}
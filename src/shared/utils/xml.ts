@@ -0,0 +1,150 @@
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    /** Concatenated character data directly inside this element. */
+    text: string;
+}
+
+const ENTITIES: Readonly<Record<string, string>> = {
+    amp: "&",
+    lt: "<",
+    gt: ">",
+    quot: '"',
+    apos: "'",
+};
+
+function decodeEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+        if (entity[0] !== "#") return ENTITIES[entity] ?? match;
+        const code =
+            entity[1] === "x" || entity[1] === "X"
+                ? parseInt(entity.slice(2), 16)
+                : parseInt(entity.slice(1), 10);
+        return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    });
+}
+
+const ATTRIBUTE_PATTERN = /([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+        attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? "");
+    }
+    return attributes;
+}
+
+/**
+ * Index of the ">" that ends the tag opened at `from`, or -1. A ">" inside a
+ * quoted attribute value is legal and does not end the tag.
+ */
+function findTagEnd(source: string, from: number): number {
+    let quote: string | null = null;
+    for (let index = from; index < source.length; index++) {
+        const char = source[index];
+        if (quote !== null) {
+            if (char === quote) quote = null;
+        } else if (char === '"' || char === "'") {
+            quote = char;
+        } else if (char === ">") {
+            return index;
+        }
+    }
+    return -1;
+}
+
+/**
+ * A small non-validating XML reader that works without a DOM (in workers
+ * and in tests). It keeps elements, attributes and text, and skips the
+ * prolog, doctype, comments and processing instructions. Throws on
+ * mismatched or unclosed tags.
+ */
+export function parseXml(source: string): XmlElement {
+    const root: XmlElement = { name: "#document", attributes: {}, children: [], text: "" };
+    const stack: XmlElement[] = [root];
+    let index = 0;
+
+    const skipPast = (terminator: string) => {
+        const end = source.indexOf(terminator, index);
+        if (end === -1) throw new Error(`Unterminated markup: expected "${terminator}".`);
+        index = end + terminator.length;
+    };
+
+    while (index < source.length) {
+        const tagStart = source.indexOf("<", index);
+        const textEnd = tagStart === -1 ? source.length : tagStart;
+        if (textEnd > index) {
+            stack[stack.length - 1].text += decodeEntities(source.slice(index, textEnd));
+        }
+        if (tagStart === -1) break;
+        index = tagStart;
+
+        if (source.startsWith("<!--", index)) {
+            skipPast("-->");
+        } else if (source.startsWith("<![CDATA[", index)) {
+            const end = source.indexOf("]]>", index);
+            if (end === -1) throw new Error('Unterminated markup: expected "]]>".');
+            stack[stack.length - 1].text += source.slice(index + 9, end);
+            index = end + 3;
+        } else if (source.startsWith("<?", index)) {
+            skipPast("?>");
+        } else if (source.startsWith("<!", index)) {
+            // Doctype, possibly with an internal subset in brackets.
+            const bracket = source.indexOf("[", index);
+            const close = source.indexOf(">", index);
+            if (bracket !== -1 && bracket < close) {
+                index = bracket;
+                skipPast("]");
+            }
+            skipPast(">");
+        } else if (source.startsWith("</", index)) {
+            const end = source.indexOf(">", index);
+            if (end === -1) throw new Error("Unterminated closing tag.");
+            const name = source.slice(index + 2, end).trim();
+            const open = stack.pop();
+            if (!open || open === root || open.name !== name) {
+                throw new Error(`Unexpected closing tag </${name}>.`);
+            }
+            index = end + 1;
+        } else {
+            const end = findTagEnd(source, index);
+            if (end === -1) throw new Error("Unterminated tag.");
+            const selfClosing = source[end - 1] === "/";
+            const body = source.slice(index + 1, selfClosing ? end - 1 : end);
+            const nameMatch = /^[^\s/>]+/.exec(body);
+            if (!nameMatch) throw new Error("Tag without a name.");
+
+            const element: XmlElement = {
+                name: nameMatch[0],
+                attributes: parseAttributes(body.slice(nameMatch[0].length)),
+                children: [],
+                text: "",
+            };
+            stack[stack.length - 1].children.push(element);
+            if (!selfClosing) stack.push(element);
+            index = end + 1;
+        }
+    }
+
+    if (stack.length > 1) {
+        throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>.`);
+    }
+    const documentElement = root.children[0];
+    if (!documentElement) throw new Error("The document has no root element.");
+    return documentElement;
+}
+
+/** The first child element with the given name. */
+export function xmlChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+    return element?.children.find((child) => child.name === name);
+}
+
+export function xmlChildren(element: XmlElement | undefined, name: string): XmlElement[] {
+    return element?.children.filter((child) => child.name === name) ?? [];
+}
+
+/** Trimmed text of the first child with the given name, if present. */
+export function xmlChildText(element: XmlElement | undefined, name: string): string | undefined {
+    return xmlChild(element, name)?.text.trim();
+}